@@ -0,0 +1,149 @@
+/**
+ * Tests for publishing batches of messages
+ */
+
+import { KafkaAdapter } from '../adapter/kafka';
+import { NATSAdapter } from '../adapter/nats';
+import { RedisAdapter } from '../adapter/redis';
+import { UniversalMessageManager } from '../universal/message.manager';
+import { IMessage } from '../types';
+import { message } from './helpers';
+
+describe('Batch publishing', () => {
+  describe('KafkaAdapter', () => {
+    it('should send all records in one producer.send', async () => {
+      const producer = {
+        connect: jest.fn().mockResolvedValue(undefined),
+        disconnect: jest.fn().mockResolvedValue(undefined),
+        send: jest.fn().mockResolvedValue([]),
+      };
+      const Kafka = jest.fn().mockImplementation(() => ({
+        producer: () => producer,
+        consumer: jest.fn(),
+      }));
+      const adapter = new KafkaAdapter({ type: 'kafka', connection: {} }, Kafka);
+      await adapter.connect();
+
+      const results = await adapter.publishBatch('orders', [message('1'), message('2')]);
+
+      expect(producer.send).toHaveBeenCalledTimes(1);
+      expect(producer.send).toHaveBeenCalledWith({
+        topic: 'orders',
+        messages: [expect.objectContaining({ key: '1' }), expect.objectContaining({ key: '2' })],
+      });
+      expect(results).toEqual([
+        { messageId: '1', success: true },
+        { messageId: '2', success: true },
+      ]);
+    });
+  });
+
+  describe('RedisAdapter', () => {
+    it('should pipeline PUBLISH commands and report per-command errors', async () => {
+      const pipeline = {
+        publish: jest.fn(),
+        exec: jest.fn().mockResolvedValue([
+          [null, 1],
+          [new Error('READONLY'), null],
+        ]),
+      };
+      const client = { pipeline: () => pipeline, publish: jest.fn() };
+      const Redis = jest.fn().mockImplementation(() => client);
+      const adapter = new RedisAdapter({ type: 'redis', connection: {} }, Redis as any);
+      await adapter.connect();
+
+      const results = await adapter.publishBatch('orders', [message('1'), message('2')]);
+
+      expect(pipeline.publish).toHaveBeenCalledTimes(2);
+      expect(pipeline.exec).toHaveBeenCalledTimes(1);
+      expect(client.publish).not.toHaveBeenCalled();
+      expect(results).toEqual([
+        { messageId: '1', success: true },
+        { messageId: '2', success: false, error: new Error('READONLY') },
+      ]);
+    });
+  });
+
+  describe('NATSAdapter', () => {
+    it('should flush once after publishing every message', async () => {
+      const connection = {
+        publish: jest.fn(),
+        flush: jest.fn().mockResolvedValue(undefined),
+        close: jest.fn().mockResolvedValue(undefined),
+      };
+      const nats = {
+        connect: jest.fn().mockResolvedValue(connection),
+        headers: () => new Map<string, string>(),
+      };
+      const adapter = new NATSAdapter({ type: 'nats', connection: {} }, nats);
+      await adapter.connect();
+
+      const results = await adapter.publishBatch('orders', [message('1'), message('2')]);
+
+      expect(connection.publish).toHaveBeenCalledTimes(2);
+      expect(connection.flush).toHaveBeenCalledTimes(1);
+      expect(results.every(result => result.success)).toBe(true);
+    });
+  });
+
+  describe('UniversalMessageManager', () => {
+    let adapter: any;
+    let manager: UniversalMessageManager;
+
+    beforeEach(async () => {
+      adapter = {
+        connect: jest.fn().mockResolvedValue(undefined),
+        disconnect: jest.fn().mockResolvedValue(undefined),
+        publish: jest.fn().mockResolvedValue(undefined),
+        subscribe: jest.fn().mockResolvedValue('sub-123'),
+        unsubscribe: jest.fn().mockResolvedValue(true),
+        isConnected: jest.fn().mockReturnValue(true),
+        getType: jest.fn().mockReturnValue('redis'),
+      };
+      manager = new UniversalMessageManager(adapter, { type: 'redis', connection: {} });
+      await manager.connect();
+    });
+
+    afterEach(async () => {
+      await manager.disconnect();
+    });
+
+    it('should use the adapter batch publish when available', async () => {
+      adapter.publishBatch = jest.fn(async (_topic: string, messages: IMessage[]) =>
+        messages.map(m => ({ messageId: m.id, success: true }))
+      );
+
+      const results = await manager.publishBatch('orders', [{ n: 1 }, { n: 2 }]);
+
+      expect(adapter.publishBatch).toHaveBeenCalledWith('orders', [
+        expect.objectContaining({ payload: { n: 1 } }),
+        expect.objectContaining({ payload: { n: 2 } }),
+      ]);
+      expect(adapter.publish).not.toHaveBeenCalled();
+      expect(results).toHaveLength(2);
+    });
+
+    it('should fall back to publishing one by one', async () => {
+      adapter.publish
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('boom'))
+        .mockResolvedValueOnce(undefined);
+
+      const results = await manager.publishBatch('orders', [1, 2, 3]);
+
+      expect(results.map(result => result.success)).toEqual([true, false, true]);
+      expect(results[1]?.error?.message).toBe('boom');
+    });
+
+    it('should report every message as failed when the whole batch fails', async () => {
+      adapter.publishBatch = jest.fn().mockRejectedValue(new Error('broker down'));
+
+      const results = await manager.publishBatch('orders', [1, 2]);
+
+      expect(results).toEqual([
+        expect.objectContaining({ success: false, error: new Error('broker down') }),
+        expect.objectContaining({ success: false, error: new Error('broker down') }),
+      ]);
+    });
+  });
+});
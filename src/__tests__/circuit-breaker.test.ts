@@ -0,0 +1,185 @@
+/**
+ * Tests for CircuitBreaker and its integration in UniversalMessageManager
+ */
+
+import { CircuitBreaker } from '../utils/circuit.breaker';
+import { FakeClock } from '../utils/clock';
+import { UniversalMessageManager } from '../universal/message.manager';
+import {
+  BrokerError,
+  CircuitBreakerState,
+  CircuitBreakerStateChange,
+  ErrorType,
+  IBrokerConfig,
+} from '../types';
+
+describe('CircuitBreaker', () => {
+  let clock: FakeClock;
+  let breaker: CircuitBreaker;
+  const fail = () => Promise.reject(new Error('down'));
+  const succeed = () => Promise.resolve('ok');
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    breaker = new CircuitBreaker(
+      'redis',
+      { failureThreshold: 2, recoveryTimeout: 1000, monitoringPeriod: 5000, halfOpenMaxCalls: 2 },
+      { clock }
+    );
+  });
+
+  it('should open after failureThreshold failures', async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+
+    expect(breaker.getState()).toBe(CircuitBreakerState.OPEN);
+    const error = await breaker.execute(succeed).catch(e => e);
+    expect(error).toBeInstanceOf(BrokerError);
+    expect(error.type).toBe(ErrorType.CIRCUIT_BREAKER_ERROR);
+  });
+
+  it('should forget failures older than monitoringPeriod', async () => {
+    await breaker.execute(fail).catch(() => undefined);
+    clock.advance(6000);
+    await breaker.execute(fail).catch(() => undefined);
+
+    expect(breaker.getState()).toBe(CircuitBreakerState.CLOSED);
+  });
+
+  it('should close after halfOpenMaxCalls successful trial calls', async () => {
+    await breaker.execute(fail).catch(() => undefined);
+    await breaker.execute(fail).catch(() => undefined);
+    clock.advance(1000);
+
+    expect(breaker.isAvailable()).toBe(true);
+    await breaker.execute(succeed);
+    expect(breaker.getState()).toBe(CircuitBreakerState.HALF_OPEN);
+    await breaker.execute(succeed);
+    expect(breaker.getState()).toBe(CircuitBreakerState.CLOSED);
+  });
+
+  it('should limit concurrent half-open calls', async () => {
+    await breaker.execute(fail).catch(() => undefined);
+    await breaker.execute(fail).catch(() => undefined);
+    clock.advance(1000);
+
+    let release!: () => void;
+    const slow = () => new Promise<void>(resolve => (release = resolve));
+    const first = breaker.execute(slow);
+    const second = breaker.execute(slow);
+    await expect(breaker.execute(succeed)).rejects.toMatchObject({
+      type: ErrorType.CIRCUIT_BREAKER_ERROR,
+    });
+
+    release();
+    await Promise.race([first, second]);
+  });
+
+  it('should reopen when a trial call fails', async () => {
+    await breaker.execute(fail).catch(() => undefined);
+    await breaker.execute(fail).catch(() => undefined);
+    clock.advance(1000);
+    await breaker.execute(fail).catch(() => undefined);
+
+    expect(breaker.getState()).toBe(CircuitBreakerState.OPEN);
+  });
+
+  it('should emit state transitions', async () => {
+    const changes: CircuitBreakerStateChange[] = [];
+    breaker.on('stateChange', change => changes.push(change));
+
+    await breaker.execute(fail).catch(() => undefined);
+    await breaker.execute(fail).catch(() => undefined);
+    clock.advance(1000);
+    await breaker.execute(succeed);
+    await breaker.execute(succeed);
+
+    expect(changes.map(c => [c.from, c.to])).toEqual([
+      [CircuitBreakerState.CLOSED, CircuitBreakerState.OPEN],
+      [CircuitBreakerState.OPEN, CircuitBreakerState.HALF_OPEN],
+      [CircuitBreakerState.HALF_OPEN, CircuitBreakerState.CLOSED],
+    ]);
+    expect(changes[0]?.name).toBe('redis');
+  });
+});
+
+describe('UniversalMessageManager circuit breaker', () => {
+  let manager: UniversalMessageManager;
+  let mockAdapter: any;
+
+  const createManager = (scope?: 'adapter' | 'topic') => {
+    const config: IBrokerConfig = {
+      type: 'redis',
+      connection: {},
+      circuitBreaker: {
+        failureThreshold: 2,
+        recoveryTimeout: 60000,
+        monitoringPeriod: 60000,
+        scope,
+      },
+      performance: { retryDelay: 1 },
+    };
+    return new UniversalMessageManager(mockAdapter, config);
+  };
+
+  beforeEach(() => {
+    mockAdapter = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      publish: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')),
+      subscribe: jest.fn().mockResolvedValue('sub-123'),
+      unsubscribe: jest.fn().mockResolvedValue(true),
+      isConnected: jest.fn().mockReturnValue(true),
+      getType: jest.fn().mockReturnValue('redis'),
+    };
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  it('should fail fast once the breaker opens', async () => {
+    manager = createManager();
+    const changes: CircuitBreakerStateChange[] = [];
+    manager.on('circuitBreakerStateChange', change => changes.push(change));
+
+    await expect(manager.publishImmediate('orders', {})).rejects.toThrow('ECONNREFUSED');
+    await expect(manager.publishImmediate('orders', {})).rejects.toThrow('ECONNREFUSED');
+    await expect(manager.publishImmediate('payments', {})).rejects.toMatchObject({
+      type: ErrorType.CIRCUIT_BREAKER_ERROR,
+    });
+
+    expect(mockAdapter.publish).toHaveBeenCalledTimes(2);
+    expect(changes).toHaveLength(1);
+    expect(changes[0]?.to).toBe(CircuitBreakerState.OPEN);
+  });
+
+  it('should keep breakers per topic when scoped to topics', async () => {
+    manager = createManager('topic');
+
+    await manager.publishImmediate('orders', {}).catch(() => undefined);
+    await manager.publishImmediate('orders', {}).catch(() => undefined);
+    await expect(manager.publishImmediate('payments', {})).rejects.toThrow('ECONNREFUSED');
+
+    expect(manager.getCircuitBreaker('orders')?.getState()).toBe(CircuitBreakerState.OPEN);
+    expect(manager.getCircuitBreaker('payments')?.getState()).toBe(CircuitBreakerState.CLOSED);
+  });
+
+  it('should hold queued messages while the breaker is open', async () => {
+    manager = createManager();
+    await manager.connect();
+    await manager.subscribe('orders', jest.fn());
+
+    await manager.publish('orders', { n: 1 });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(manager.getCircuitBreaker('orders')?.getState()).toBe(CircuitBreakerState.OPEN);
+    expect(mockAdapter.publish).toHaveBeenCalledTimes(2);
+    expect(manager.getQueueSizes()).toEqual({ orders: 1 });
+  });
+
+  it('should not create breakers without configuration', () => {
+    manager = new UniversalMessageManager(mockAdapter, { type: 'redis', connection: {} });
+    expect(manager.getCircuitBreaker('orders')).toBeUndefined();
+  });
+});
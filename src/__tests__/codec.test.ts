@@ -0,0 +1,252 @@
+/**
+ * Tests for message codecs and their use by adapters
+ */
+
+import { JsonCodec } from '../codec/json.codec';
+import { MessagePackCodec } from '../codec/msgpack.codec';
+import { SchemaCodec } from '../codec/schema.codec';
+import { CodecRegistry, encodedSize } from '../codec/codec.registry';
+import { InMemoryAdapter } from '../adapter/memory';
+import { KafkaAdapter } from '../adapter/kafka';
+import { ErrorType, IBrokerConfig, IMessage } from '../types';
+
+describe('Codecs', () => {
+  const message: IMessage = {
+    id: 'msg-1',
+    type: 'orders.created',
+    payload: {
+      at: new Date('2024-01-02T03:04:05.678Z'),
+      amount: BigInt('9007199254740993'),
+      image: Buffer.from([0, 1, 2, 255]),
+      items: [{ sku: 'a', qty: 2, price: 9.99 }, null, true, -42, 'ünïcode'],
+    },
+    timestamp: 1700000000000,
+    headers: { source: 'test' },
+  };
+
+  describe('JsonCodec', () => {
+    it('should produce plain JSON by default', () => {
+      const codec = new JsonCodec();
+      const simple: IMessage = { id: '1', type: 't', payload: { a: 1 }, timestamp: 0 };
+
+      expect(codec.encode(simple).toString()).toBe(JSON.stringify(simple));
+      expect(codec.decode(codec.encode(simple))).toEqual(simple);
+    });
+
+    it('should round-trip Dates, BigInts and binary with extendedTypes', () => {
+      const codec = new JsonCodec({ extendedTypes: true });
+
+      expect(codec.decode(codec.encode(message))).toEqual(message);
+    });
+
+    it('should give extended JSON its own content type for registries to route', () => {
+      const registry = CodecRegistry.fromConfig({
+        type: 'redis',
+        connection: {},
+        codec: new JsonCodec({ extendedTypes: true }),
+      });
+      // A consumer defaulting to plain JSON
+      const consumer = CodecRegistry.fromConfig({ type: 'redis', connection: {} });
+      const { data, contentType } = registry.encode(message);
+
+      expect(contentType).toBe('application/vnd.pubsub+json');
+      expect(consumer.decode(data, contentType)).toEqual(message);
+      expect(consumer.unframe(registry.frame(message))).toEqual(message);
+    });
+  });
+
+  describe('MessagePackCodec', () => {
+    const codec = new MessagePackCodec();
+
+    it('should round-trip Dates, BigInts and binary', () => {
+      const decoded = codec.decode(codec.encode(message));
+
+      expect(decoded).toEqual(message);
+      expect(Buffer.isBuffer((decoded.payload as any).image)).toBe(true);
+    });
+
+    it('should keep small and negative BigInts as BigInts', () => {
+      const payload = [BigInt(10), BigInt(-3), BigInt(0), BigInt(2) ** BigInt(70)];
+      const decoded = codec.decode(codec.encode({ ...message, payload }));
+
+      expect(decoded.payload).toEqual(payload);
+    });
+
+    it('should decode a __proto__ key as a plain property', () => {
+      // fixmap of one entry: "__proto__" => { polluted: true }
+      const data = Buffer.concat([
+        Buffer.from([0x81, 0xa9]),
+        Buffer.from('__proto__'),
+        Buffer.from([0x81, 0xa8]),
+        Buffer.from('polluted'),
+        Buffer.from([0xc3]),
+      ]);
+      const decoded = codec.decode(data) as any;
+
+      expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+      expect(decoded.polluted).toBeUndefined();
+      expect(Object.keys(decoded)).toEqual(['__proto__']);
+      expect(({} as any).polluted).toBeUndefined();
+    });
+
+    it('should encode integers and floats across all widths', () => {
+      const numbers = [
+        0,
+        127,
+        128,
+        255,
+        65535,
+        65536,
+        2 ** 32,
+        -1,
+        -33,
+        -129,
+        -32769,
+        -(2 ** 31) - 1,
+        1.5,
+      ];
+      const decoded = codec.decode(codec.encode({ ...message, payload: numbers }));
+
+      expect(decoded.payload).toEqual(numbers);
+    });
+
+    it('should encode long strings, arrays and maps', () => {
+      const payload = {
+        text: 'x'.repeat(70000),
+        list: Array.from({ length: 20 }, (_, i) => i),
+        map: Object.fromEntries(Array.from({ length: 20 }, (_, i) => [`k${i}`, i])),
+      };
+
+      expect(codec.decode(codec.encode({ ...message, payload })).payload).toEqual(payload);
+    });
+
+    it('should reject truncated data', () => {
+      const data = codec.encode(message);
+      expect(() => codec.decode(data.subarray(0, data.length - 1))).toThrow();
+    });
+  });
+
+  describe('SchemaCodec', () => {
+    it('should serialize the payload with the schema serializer', () => {
+      const serialize = jest.fn((payload: unknown) => Buffer.from(String(payload)));
+      const codec = new SchemaCodec({
+        contentType: 'application/x-protobuf',
+        serialize,
+        deserialize: data => Buffer.from(data).toString(),
+      });
+
+      const decoded = codec.decode(codec.encode({ ...message, payload: 'order' }));
+
+      expect(codec.contentType).toBe('application/x-protobuf');
+      expect(serialize).toHaveBeenCalledWith('order', expect.objectContaining({ id: 'msg-1' }));
+      expect(decoded.payload).toBe('order');
+      expect(decoded.headers).toEqual({ source: 'test' });
+    });
+  });
+
+  describe('CodecRegistry', () => {
+    const config: IBrokerConfig = { type: 'redis', connection: {}, codec: 'msgpack' };
+
+    it('should decode by content type and default to JSON', () => {
+      const registry = CodecRegistry.fromConfig(config);
+      const simple: IMessage = { id: '1', type: 't', payload: 'x', timestamp: 0 };
+      const { data, contentType } = registry.encode(simple);
+
+      expect(contentType).toBe('application/msgpack');
+      expect(registry.decode(data, contentType)).toEqual(simple);
+      expect(registry.decode(JSON.stringify(simple))).toEqual(simple);
+      expect(registry.decode(JSON.stringify(simple), 'application/json; charset=utf-8')).toEqual(
+        simple
+      );
+    });
+
+    it('should frame non-JSON data and leave JSON readable', () => {
+      const simple: IMessage = { id: '1', type: 't', payload: 'x', timestamp: 0 };
+      const msgpack = CodecRegistry.fromConfig(config);
+      const json = CodecRegistry.fromConfig({ type: 'redis', connection: {} });
+
+      expect(json.frame(simple).toString()).toBe(JSON.stringify(simple));
+      expect(msgpack.unframe(msgpack.frame(simple))).toEqual(simple);
+      expect(msgpack.unframe(json.frame(simple))).toEqual(simple);
+    });
+
+    it('should remember the encoded size of messages it encodes and decodes', () => {
+      const registry = CodecRegistry.fromConfig(config);
+      const { data } = registry.encode(message);
+      const framed = registry.frame({ ...message });
+
+      expect(encodedSize(message)).toBe(data.length);
+      expect(encodedSize(registry.decode(data, 'application/msgpack'))).toBe(data.length);
+      expect(encodedSize(registry.unframe(framed))).toBe(framed.length);
+      expect(encodedSize({ ...message })).toBeUndefined();
+    });
+
+    it('should reject unknown content types', () => {
+      const registry = CodecRegistry.fromConfig(config);
+
+      expect(() => registry.decode(Buffer.from('x'), 'application/avro')).toThrow(
+        expect.objectContaining({ type: ErrorType.SERIALIZATION_ERROR, brokerType: 'redis' })
+      );
+    });
+
+    it('should reject data that decodes to something other than a message', () => {
+      const registry = CodecRegistry.fromConfig(config);
+
+      for (const data of ['5', 'null', '"x"', '[]']) {
+        expect(() => registry.decode(data)).toThrow(
+          expect.objectContaining({ type: ErrorType.SERIALIZATION_ERROR })
+        );
+        expect(() => registry.unframe(data)).toThrow(
+          expect.objectContaining({ type: ErrorType.SERIALIZATION_ERROR })
+        );
+      }
+    });
+  });
+
+  describe('adapters', () => {
+    it('should deliver messages through the configured codec', async () => {
+      const adapter = new InMemoryAdapter({ type: 'memory', connection: {}, codec: 'msgpack' });
+      await adapter.connect();
+      const received: IMessage[] = [];
+      await adapter.subscribe('orders', msg => {
+        received.push(msg);
+      });
+
+      await adapter.publish('orders', message);
+      await adapter.drain();
+
+      expect(adapter.getRecords('orders')[0]?.contentType).toBe('application/msgpack');
+      expect(received[0]?.payload).toEqual(message.payload);
+      await adapter.disconnect();
+    });
+
+    it('should decode Kafka messages by their content-type header', async () => {
+      let eachMessage: (args: any) => Promise<void> = async () => undefined;
+      const consumer = {
+        connect: jest.fn(),
+        subscribe: jest.fn(),
+        run: jest.fn(async (options: any) => (eachMessage = options.eachMessage)),
+      };
+      const kafkaJS = jest.fn().mockImplementation(() => ({
+        producer: () => ({ connect: jest.fn() }),
+        consumer: () => consumer,
+      }));
+      const adapter = new KafkaAdapter({ type: 'kafka', connection: {} }, kafkaJS);
+      await adapter.connect();
+      const callback = jest.fn();
+      await adapter.subscribe('orders', callback);
+
+      const simple: IMessage = { id: '1', type: 't', payload: 'x', timestamp: 0 };
+      await eachMessage({
+        topic: 'orders',
+        partition: 0,
+        message: {
+          value: new MessagePackCodec().encode(simple),
+          headers: { 'content-type': Buffer.from('application/msgpack') },
+        },
+      });
+
+      expect(callback).toHaveBeenCalledWith({ ...simple, partition: '0' }, expect.anything());
+    });
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Tests for the retry and dead-letter pipeline
+ */
+
+import { UniversalMessageManager } from '../universal/message.manager';
+import {
+  DLQ_ATTEMPTS_HEADER,
+  DLQ_ORIGINAL_TOPIC_HEADER,
+  DLQ_REASON_HEADER,
+} from '../universal/message.queue';
+import { InMemoryAdapter } from '../adapter/memory';
+import { RetryPolicy } from '../utils/retry.policy';
+import { RetryHandler } from '../handlers/retry.handler';
+import { IBrokerConfig, IMessage } from '../types';
+
+describe('Retry and Dead Letter Queue', () => {
+  let manager: UniversalMessageManager;
+  let adapter: InMemoryAdapter;
+  let config: IBrokerConfig;
+
+  beforeEach(async () => {
+    config = {
+      type: 'memory',
+      connection: {},
+      retry: { maxRetries: 2, initialDelay: 1, maxDelay: 5, backoffMultiplier: 2 },
+      deadLetterQueue: { enabled: true, maxRetries: 2, retryDelay: 1 },
+    };
+    adapter = new InMemoryAdapter(config);
+    manager = new UniversalMessageManager(adapter, config);
+    await manager.connect();
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  it('should retry a failing callback until it succeeds', async () => {
+    const callback = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('flaky'))
+      .mockRejectedValueOnce(new Error('flaky'))
+      .mockResolvedValue(undefined);
+    await manager.subscribe('orders', callback);
+
+    await manager.publishImmediate('orders', { id: 1 });
+    await adapter.drain();
+
+    expect(callback).toHaveBeenCalledTimes(3);
+    expect(manager.getDLQMessages('orders')).toHaveLength(0);
+  });
+
+  it('should dead-letter to the broker with failure headers after maxRetries', async () => {
+    const dlqMessages: IMessage[] = [];
+    await adapter.subscribe('orders.dlq', msg => {
+      dlqMessages.push(msg);
+    });
+    const callback = jest.fn().mockRejectedValue(new Error('card declined'));
+    await manager.subscribe('orders', callback);
+
+    await manager.publishImmediate('orders', { id: 1 });
+    await adapter.drain();
+
+    expect(callback).toHaveBeenCalledTimes(3);
+    expect(dlqMessages).toHaveLength(1);
+    expect(dlqMessages[0]?.headers).toMatchObject({
+      [DLQ_REASON_HEADER]: 'card declined',
+      [DLQ_ATTEMPTS_HEADER]: '3',
+      [DLQ_ORIGINAL_TOPIC_HEADER]: 'orders',
+    });
+    expect(manager.getDLQMessages('orders')).toHaveLength(1);
+  });
+
+  it('should honour a per-subscription maxRetries override', async () => {
+    const callback = jest.fn().mockRejectedValue(new Error('nope'));
+    await manager.subscribe('orders', callback, { maxRetries: 0 });
+
+    await manager.publishImmediate('orders', { id: 1 });
+    await adapter.drain();
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(manager.getDLQMessages('orders')).toHaveLength(1);
+  });
+
+  it('should replay dead-lettered messages matching a filter', async () => {
+    let failing = true;
+    const received: unknown[] = [];
+    await manager.subscribe(
+      'orders',
+      msg => {
+        if (failing) throw new Error('downstream unavailable');
+        received.push(msg.payload);
+      },
+      { maxRetries: 0 }
+    );
+
+    await manager.publishImmediate('orders', { id: 1 });
+    await manager.publishImmediate('orders', { id: 2 });
+    await adapter.drain();
+    expect(manager.getDLQMessages('orders')).toHaveLength(2);
+
+    failing = false;
+    const replayed = await manager.replayDLQ(
+      'orders',
+      msg => (msg.payload as { id: number }).id === 2
+    );
+    await adapter.drain();
+
+    expect(replayed).toBe(1);
+    expect(received).toEqual([{ id: 2 }]);
+    expect(manager.getDLQMessages('orders')).toHaveLength(1);
+  });
+
+  it('should replay dead letters from the DLQ topic after a restart', async () => {
+    await manager.subscribe(
+      'orders',
+      () => {
+        throw new Error('downstream unavailable');
+      },
+      { maxRetries: 0 }
+    );
+    await manager.publishImmediate('orders', { id: 1 });
+    await adapter.drain();
+    await manager.disconnect();
+
+    // A new instance has no dead letters in memory but reads them from the broker
+    manager = new UniversalMessageManager(adapter, config);
+    await manager.connect();
+    const received: IMessage[] = [];
+    await manager.subscribe('orders', msg => {
+      received.push(msg);
+    });
+    expect(manager.getDLQMessages('orders')).toHaveLength(0);
+
+    expect(await manager.replayDLQ('orders')).toBe(1);
+    await adapter.drain();
+
+    expect(received.map(m => m.payload)).toEqual([{ id: 1 }]);
+    expect(received[0]?.headers?.[DLQ_REASON_HEADER]).toBeUndefined();
+  });
+
+  it('should keep only the most recent dead letters in memory', async () => {
+    await manager.disconnect();
+    manager = new UniversalMessageManager(adapter, {
+      ...config,
+      deadLetterQueue: { enabled: true, maxRetries: 0, retryDelay: 1, maxMessages: 2 },
+    });
+    await manager.connect();
+    await manager.subscribe('orders', () => {
+      throw new Error('poison');
+    });
+
+    for (let id = 1; id <= 5; id++) await manager.publishImmediate('orders', { id });
+    await adapter.drain();
+
+    expect(manager.getDLQMessages('orders').map(m => m.payload)).toEqual([{ id: 4 }, { id: 5 }]);
+    expect(adapter.getRecords('orders.dlq')).toHaveLength(5);
+  });
+
+  it('should log instead of dead-lettering when the DLQ is disabled', async () => {
+    const disabled: IBrokerConfig = { type: 'memory', connection: {} };
+    const plainAdapter = new InMemoryAdapter(disabled);
+    const plain = new UniversalMessageManager(plainAdapter, disabled);
+    await plain.connect();
+
+    await plain.subscribe('orders', () => {
+      throw new Error('nope');
+    });
+    await plain.publishImmediate('orders', {});
+    await plainAdapter.drain();
+
+    expect(plain.getDLQMessages('orders')).toHaveLength(0);
+    expect(console.error).toHaveBeenCalled();
+    await plain.disconnect();
+  });
+
+  describe('RetryPolicy', () => {
+    it('should back off exponentially up to maxDelay', () => {
+      const policy = new RetryPolicy({
+        maxRetries: 5,
+        initialDelay: 100,
+        maxDelay: 300,
+        backoffMultiplier: 2,
+      });
+
+      expect([1, 2, 3, 4].map(r => policy.getDelay(r))).toEqual([100, 200, 300, 300]);
+    });
+
+    it('should keep jittered delays within half and full backoff', () => {
+      const policy = new RetryPolicy({
+        maxRetries: 1,
+        initialDelay: 100,
+        maxDelay: 1000,
+        backoffMultiplier: 2,
+        jitter: true,
+      });
+
+      for (let i = 0; i < 20; i++) {
+        const delay = policy.getDelay(2);
+        expect(delay).toBeGreaterThanOrEqual(100);
+        expect(delay).toBeLessThanOrEqual(200);
+      }
+    });
+  });
+
+  describe('RetryHandler', () => {
+    it('should fail at once without a handler to retry', async () => {
+      const handler = new RetryHandler(3, 1000);
+      const message: IMessage = { id: 'm1', type: 'orders', payload: {}, timestamp: 0 };
+
+      await expect(handler.handle(message)).rejects.toThrow('No handler to retry for message m1');
+      expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    it('should retry its delegate', async () => {
+      const delegate = {
+        canHandle: () => true,
+        handle: jest.fn().mockRejectedValueOnce(new Error('busy')).mockResolvedValue(undefined),
+      };
+      const handler = new RetryHandler(3, 1, delegate);
+
+      await handler.handle({ id: 'm1', type: 'orders', payload: {}, timestamp: 0 });
+
+      expect(delegate.handle).toHaveBeenCalledTimes(2);
+    });
+  });
+});
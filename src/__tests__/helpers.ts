@@ -0,0 +1,26 @@
+/**
+ * Helpers shared by the tests
+ */
+
+import { IMessage } from '../types';
+
+/**
+ * Builds an 'orders' message; `extra` overrides or adds fields.
+ */
+export const message = (
+  id: string,
+  payload: unknown = {},
+  extra: Partial<IMessage> = {}
+): IMessage => ({
+  id,
+  type: 'orders',
+  payload,
+  timestamp: 0,
+  ...extra,
+});
+
+/**
+ * Lets pending promise callbacks and the work they schedule with `setImmediate` run,
+ * e.g. consume loops picking up delivered messages.
+ */
+export const settle = () => new Promise(resolve => setImmediate(resolve));
@@ -0,0 +1,181 @@
+/**
+ * Tests for IdempotentConsumer and the dedup stores
+ */
+
+import { IdempotentConsumer } from '../universal/idempotent.consumer';
+import { UniversalMessageManager } from '../universal/message.manager';
+import { InMemoryAdapter } from '../adapter/memory';
+import { InMemoryDedupStore } from '../storage/memory.dedup.store';
+import { RedisDedupStore } from '../storage/redis.dedup.store';
+import { FakeClock } from '../utils/clock';
+import { IBrokerConfig } from '../types';
+import { message, settle } from './helpers';
+
+describe('IdempotentConsumer', () => {
+  let clock: FakeClock;
+  let store: InMemoryDedupStore;
+
+  beforeEach(() => {
+    clock = new FakeClock(1000);
+    store = new InMemoryDedupStore(100, clock);
+  });
+
+  it('should skip redelivered messages in subscription callbacks', async () => {
+    const config: IBrokerConfig = { type: 'memory', connection: {} };
+    const manager = new UniversalMessageManager(new InMemoryAdapter(config), config);
+    manager.addMiddleware(new IdempotentConsumer(store).middleware());
+    await manager.connect();
+    const received: string[] = [];
+    await manager.subscribe('orders', msg => {
+      received.push(msg.id);
+    });
+
+    await manager.publishImmediate('orders', {}, { id: 'a' });
+    await manager.publishImmediate('orders', {}, { id: 'a' });
+    await manager.publishImmediate('orders', {}, { id: 'b' });
+    await settle();
+
+    expect(received).toEqual(['a', 'b']);
+    await manager.disconnect();
+  });
+
+  it('should deliver a message once to each subscription', async () => {
+    const config: IBrokerConfig = { type: 'memory', connection: {} };
+    const manager = new UniversalMessageManager(new InMemoryAdapter(config), config);
+    manager.addMiddleware(new IdempotentConsumer(store).middleware());
+    await manager.connect();
+    const billing: string[] = [];
+    const shipping: string[] = [];
+    await manager.subscribe('orders', msg => {
+      billing.push(msg.id);
+    });
+    await manager.subscribe('orders', msg => {
+      shipping.push(msg.id);
+    });
+
+    await manager.publishImmediate('orders', {}, { id: 'a' });
+    await manager.publishImmediate('orders', {}, { id: 'a' });
+    await settle();
+
+    expect(billing).toEqual(['a']);
+    expect(shipping).toEqual(['a']);
+    await manager.disconnect();
+  });
+
+  it('should release the key when processing fails', async () => {
+    const middleware = new IdempotentConsumer(store).middleware();
+    const failing = jest.fn().mockRejectedValue(new Error('boom'));
+    const next = jest.fn().mockResolvedValue(undefined);
+
+    await expect(middleware(message('a'), failing)).rejects.toThrow('boom');
+    await middleware(message('a'), next);
+    await middleware(message('a'), next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip duplicates that arrive while the first is processing', async () => {
+    const middleware = new IdempotentConsumer(store).middleware();
+    let finish!: () => void;
+    const slow = jest.fn(() => new Promise<void>(resolve => (finish = resolve)));
+    const next = jest.fn().mockResolvedValue(undefined);
+
+    const first = middleware(message('a'), slow);
+    await settle();
+    await middleware(message('a'), next);
+    finish();
+    await first;
+
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should extract keys from headers, payload fields and functions', async () => {
+    const next = jest.fn().mockResolvedValue(undefined);
+    const byHeader = new IdempotentConsumer(store, { key: { header: 'idempotency-key' } });
+    const byField = new IdempotentConsumer(new InMemoryDedupStore(100, clock), {
+      key: { payloadField: 'order.id' },
+    });
+    const byFunction = new IdempotentConsumer(new InMemoryDedupStore(100, clock), {
+      key: msg => `${msg.type}:${msg.id}`,
+    });
+
+    await byHeader.middleware()(message('a', {}, { headers: { 'idempotency-key': 'k' } }), next);
+    await byHeader.middleware()(message('b', {}, { headers: { 'idempotency-key': 'k' } }), next);
+    await byField.middleware()(message('c', { order: { id: 42 } }), next);
+    await byField.middleware()(message('d', { order: { id: 42 } }), next);
+    await byFunction.middleware()(message('e'), next);
+    await byFunction.middleware()(message('e'), next);
+    expect(next).toHaveBeenCalledTimes(3);
+
+    // Messages without a key are never deduplicated
+    await byHeader.middleware()(message('f'), next);
+    await byHeader.middleware()(message('f'), next);
+    expect(next).toHaveBeenCalledTimes(5);
+  });
+
+  it('should process a message again once its key expired', async () => {
+    const middleware = new IdempotentConsumer(store, { ttl: 1000 }).middleware();
+    const next = jest.fn().mockResolvedValue(undefined);
+
+    await middleware(message('a'), next);
+    clock.advance(999);
+    await middleware(message('a'), next);
+    clock.advance(1);
+    await middleware(message('a'), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('InMemoryDedupStore', () => {
+  it('should evict the least recently seen keys beyond its capacity', async () => {
+    const store = new InMemoryDedupStore(2, new FakeClock());
+
+    await store.complete('a', 1000);
+    await store.complete('b', 1000);
+    expect(await store.acquire('a', 1000)).toBe(false);
+    await store.complete('c', 1000);
+
+    expect(store.size).toBe(2);
+    expect(await store.acquire('a', 1000)).toBe(false);
+    expect(await store.acquire('b', 1000)).toBe(true);
+  });
+
+  it('should not release completed keys', async () => {
+    const store = new InMemoryDedupStore(10, new FakeClock());
+
+    await store.complete('a', 1000);
+    await store.release('a');
+
+    expect(await store.acquire('a', 1000)).toBe(false);
+  });
+});
+
+describe('RedisDedupStore', () => {
+  let client: any;
+  let store: RedisDedupStore;
+
+  beforeEach(() => {
+    client = {
+      set: jest.fn().mockResolvedValue('OK'),
+      eval: jest.fn().mockResolvedValue(1),
+    };
+    store = new RedisDedupStore(client, 'svc:');
+  });
+
+  it('should claim keys with SET NX EX', async () => {
+    expect(await store.acquire('a', 30000)).toBe(true);
+    expect(client.set).toHaveBeenCalledWith('svc:a', 'processing', 'EX', 30, 'NX');
+
+    client.set.mockResolvedValueOnce(null);
+    expect(await store.acquire('a', 30000)).toBe(false);
+  });
+
+  it('should complete and release keys', async () => {
+    await store.complete('a', 1500);
+    await store.release('b');
+
+    expect(client.set).toHaveBeenCalledWith('svc:a', 'done', 'EX', 2);
+    expect(client.eval).toHaveBeenCalledWith(expect.stringContaining("'processing'"), 1, 'svc:b');
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Tests for JetStreamAdapter
+ */
+
+import { JetStreamAdapter } from '../adapter/jetstream';
+import { MessageBrokerFactory } from '../factory/message.broker';
+import { ErrorType, IBrokerConfig, IMessage } from '../types';
+import { message, settle } from './helpers';
+
+const notFound = () => Object.assign(new Error('stream not found'), { code: '404' });
+
+describe('JetStreamAdapter', () => {
+  let connection: any;
+  let js: any;
+  let jsm: any;
+  let nats: any;
+  let delivered: any[];
+  const config: IBrokerConfig = { type: 'nats-jetstream', connection: {} };
+
+  // Async iterable of the delivered messages, like nats.js ConsumerMessages
+  const consumerMessages = () => ({
+    stop: jest.fn(),
+    async *[Symbol.asyncIterator]() {
+      yield* delivered;
+    },
+  });
+
+  // Publishes a message and returns it as JetStream would deliver it
+  const jsMsg = async (adapter: JetStreamAdapter, msg: IMessage) => {
+    await adapter.publish('orders.created', msg);
+    const [subject, data, { headers }] = js.publish.mock.calls.pop();
+    return { subject, data, headers, ack: jest.fn(), nak: jest.fn(), term: jest.fn() };
+  };
+
+  const createAdapter = async (options = {}) => {
+    const adapter = new JetStreamAdapter(config, nats, options);
+    await adapter.connect();
+    return adapter;
+  };
+
+  beforeEach(() => {
+    delivered = [];
+    js = {
+      publish: jest.fn().mockResolvedValue({ stream: 'ORDERS', seq: 1, duplicate: false }),
+      subscribe: jest.fn(async () => ({ ...consumerMessages(), unsubscribe: jest.fn() })),
+      consumers: {
+        get: jest.fn().mockResolvedValue({ consume: jest.fn(async () => consumerMessages()) }),
+      },
+    };
+    jsm = {
+      streams: {
+        info: jest.fn().mockRejectedValue(notFound()),
+        add: jest.fn().mockResolvedValue({}),
+        update: jest.fn().mockResolvedValue({}),
+        find: jest.fn().mockResolvedValue('ORDERS'),
+      },
+      consumers: {
+        info: jest.fn().mockRejectedValue(notFound()),
+        add: jest.fn(async (_stream: string, cfg: any) => ({ name: cfg.durable_name || 'eph' })),
+        update: jest.fn().mockResolvedValue({}),
+      },
+    };
+    connection = {
+      jetstream: () => js,
+      jetstreamManager: jest.fn().mockResolvedValue(jsm),
+      close: jest.fn().mockResolvedValue(undefined),
+      isClosed: jest.fn().mockReturnValue(false),
+    };
+    nats = {
+      connect: jest.fn().mockResolvedValue(connection),
+      headers: () => new Map<string, string>(),
+      createInbox: () => '_INBOX.test',
+    };
+  });
+
+  it('should create missing streams and update existing ones on connect', async () => {
+    jsm.streams.info.mockRejectedValueOnce(notFound()).mockResolvedValueOnce({});
+
+    await createAdapter({
+      streams: [
+        { name: 'ORDERS', subjects: ['orders.>'], maxAge: 1000 },
+        { name: 'AUDIT', subjects: ['audit.>'] },
+      ],
+    });
+
+    expect(jsm.streams.add).toHaveBeenCalledWith({
+      name: 'ORDERS',
+      subjects: ['orders.>'],
+      max_age: 1_000_000_000,
+    });
+    expect(jsm.streams.update).toHaveBeenCalledWith('AUDIT', {
+      name: 'AUDIT',
+      subjects: ['audit.>'],
+    });
+  });
+
+  it('should publish with Nats-Msg-Id set from the message id', async () => {
+    const adapter = await createAdapter();
+
+    await adapter.publish('orders.created', message('order-1'));
+
+    expect(js.publish).toHaveBeenCalledWith(
+      'orders.created',
+      expect.any(Buffer),
+      expect.objectContaining({ msgID: 'order-1' })
+    );
+  });
+
+  it('should consume through a durable pull consumer and ack handled messages', async () => {
+    const adapter = await createAdapter();
+    delivered.push(await jsMsg(adapter, message('1', { n: 1 })));
+    const callback = jest.fn();
+
+    await adapter.subscribe('orders.created', callback, {
+      consumerGroup: 'billing',
+      maxRetries: 3,
+    });
+    await settle();
+
+    expect(jsm.consumers.add).toHaveBeenCalledWith(
+      'ORDERS',
+      expect.objectContaining({
+        durable_name: 'billing',
+        filter_subject: 'orders.created',
+        ack_policy: 'explicit',
+        max_deliver: 4,
+      })
+    );
+    expect(js.consumers.get).toHaveBeenCalledWith('ORDERS', 'billing');
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: { n: 1 } }),
+      expect.anything()
+    );
+    expect(delivered[0].ack).toHaveBeenCalled();
+  });
+
+  it('should update an existing durable consumer instead of recreating it', async () => {
+    jsm.consumers.info.mockResolvedValueOnce({ name: 'billing' });
+    const adapter = await createAdapter();
+
+    await adapter.subscribe('orders.created', jest.fn(), { consumerGroup: 'billing' });
+
+    expect(jsm.consumers.add).not.toHaveBeenCalled();
+    expect(jsm.consumers.update).toHaveBeenCalledWith('ORDERS', 'billing', {
+      max_deliver: -1,
+      ack_wait: 30_000_000_000,
+    });
+  });
+
+  it('should nak failed messages and term undecodable ones', async () => {
+    const adapter = await createAdapter();
+    const failing = await jsMsg(adapter, message('1'));
+    const garbage = { ...(await jsMsg(adapter, message('2'))), data: Buffer.from('{not json') };
+    delivered.push(failing, garbage);
+
+    await adapter.subscribe('orders.created', jest.fn().mockRejectedValue(new Error('boom')));
+    await settle();
+
+    expect(failing.nak).toHaveBeenCalled();
+    expect(failing.ack).not.toHaveBeenCalled();
+    expect(garbage.term).toHaveBeenCalled();
+  });
+
+  it('should leave settlement to the callback with autoAck disabled', async () => {
+    const adapter = await createAdapter();
+    const [kept, retried, rejected] = [
+      await jsMsg(adapter, message('1')),
+      await jsMsg(adapter, message('2')),
+      await jsMsg(adapter, message('3')),
+    ];
+    delivered.push(kept, retried, rejected);
+
+    await adapter.subscribe(
+      'orders.created',
+      async (msg, context) => {
+        if (msg.id === '2') await context.nack({ delay: 5000 });
+        if (msg.id === '3') await context.deadLetter('invalid');
+      },
+      { autoAck: false }
+    );
+    await settle();
+
+    expect(jsm.consumers.add).toHaveBeenCalledWith(
+      'ORDERS',
+      expect.objectContaining({ ack_policy: 'explicit' })
+    );
+    expect(kept.ack).not.toHaveBeenCalled();
+    expect(retried.nak).toHaveBeenCalledWith(5000);
+    expect(rejected.term).toHaveBeenCalledWith('invalid');
+  });
+
+  it('should create push consumers delivering to an inbox', async () => {
+    const adapter = await createAdapter({ consumerType: 'push' });
+
+    await adapter.subscribe('orders.created', jest.fn(), { queueGroup: 'workers' });
+
+    expect(js.subscribe).toHaveBeenCalledWith(
+      'orders.created',
+      expect.objectContaining({
+        stream: 'ORDERS',
+        queue: 'workers',
+        mack: true,
+        config: expect.objectContaining({
+          durable_name: 'workers',
+          deliver_subject: '_INBOX.test',
+          deliver_group: 'workers',
+        }),
+      })
+    );
+  });
+
+  it('should serve manager request/reply over core NATS', async () => {
+    // Core NATS on the mocked connection: requests reach subscribers, replies the inbox
+    const subscribers = new Map<string, (msg: any) => void>();
+    const inboxes = new Map<string, (msg: any) => void>();
+    connection.subscribe = jest.fn((subject: string) => {
+      const queue: any[] = [];
+      let wake = () => {};
+      subscribers.set(subject, msg => {
+        queue.push(msg);
+        wake();
+      });
+      return {
+        unsubscribe: jest.fn(),
+        async *[Symbol.asyncIterator]() {
+          for (;;) {
+            while (queue.length) yield queue.shift();
+            await new Promise<void>(resolve => (wake = resolve));
+          }
+        },
+      };
+    });
+    connection.request = jest.fn(
+      (subject: string, data: Buffer, { headers }: any) =>
+        new Promise(resolve => {
+          inboxes.set('_INBOX.request', resolve);
+          subscribers.get(subject)!({ subject, data, headers, reply: '_INBOX.request' });
+        })
+    );
+    connection.publish = jest.fn((subject: string, data: Buffer, { headers }: any) =>
+      inboxes.get(subject)?.({ subject, data, headers })
+    );
+    jsm.streams.find.mockRejectedValue(new Error('no stream matches subject'));
+    const manager = await MessageBrokerFactory.create(config, { nats });
+    await manager.connect();
+
+    await manager.reply<number, number>('math.double', msg => msg.payload * 2);
+    const reply = await manager.request<number>('math.double', 21, { timeout: 250 });
+
+    expect(reply.payload).toBe(42);
+    expect(js.publish).not.toHaveBeenCalled();
+    expect(js.consumers.get).not.toHaveBeenCalled();
+    await manager.disconnect();
+  });
+
+  it('should reject requests to subjects a stream captures', async () => {
+    const adapter = await createAdapter();
+
+    await expect(adapter.request('orders.created', message('1'), 250)).rejects.toMatchObject({
+      type: ErrorType.REQUEST_ERROR,
+    });
+  });
+
+  it('should be created by the factory as nats-jetstream', async () => {
+    const manager = await MessageBrokerFactory.create(config, { nats });
+
+    expect(manager.getBrokerType()).toBe('nats-jetstream');
+  });
+});
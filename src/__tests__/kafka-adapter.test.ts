@@ -3,14 +3,19 @@
  */
 
 import { KafkaAdapter } from '../adapter/kafka';
-import { IBrokerConfig } from '../types';
+import { ErrorType, IBrokerConfig } from '../types';
 
 describe('KafkaAdapter', () => {
   let adapter: KafkaAdapter;
   let mockKafka: jest.Mock;
   let mockProducer: any;
   let mockConsumer: any;
+  let mockAdmin: any;
   let config: IBrokerConfig;
+  let groupJoinListeners: Set<() => void>;
+
+  // Emits GROUP_JOIN as the consumer group does before its first fetch
+  const joinGroup = () => [...groupJoinListeners].forEach(listener => listener());
 
   beforeEach(() => {
     mockProducer = {
@@ -20,16 +25,39 @@ describe('KafkaAdapter', () => {
       _isConnected: true,
     };
 
+    groupJoinListeners = new Set();
     mockConsumer = {
+      events: { GROUP_JOIN: 'consumer.group_join' },
+      on: jest.fn((_event: string, listener: () => void) => {
+        groupJoinListeners.add(listener);
+        return () => groupJoinListeners.delete(listener);
+      }),
       connect: jest.fn().mockResolvedValue(undefined),
       disconnect: jest.fn().mockResolvedValue(undefined),
       subscribe: jest.fn().mockResolvedValue(undefined),
       run: jest.fn().mockResolvedValue(undefined),
+      seek: jest.fn(),
+      pause: jest.fn(),
+      resume: jest.fn(),
+    };
+
+    mockAdmin = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      fetchTopicOffsets: jest.fn().mockResolvedValue([
+        { partition: 0, offset: '5', low: '0', high: '5' },
+        { partition: 1, offset: '3', low: '0', high: '3' },
+      ]),
+      fetchTopicOffsetsByTimestamp: jest.fn().mockResolvedValue([
+        { partition: 0, offset: '3' },
+        { partition: 1, offset: '3' },
+      ]),
     };
 
     mockKafka = jest.fn().mockImplementation(() => ({
       producer: jest.fn().mockReturnValue(mockProducer),
       consumer: jest.fn().mockReturnValue(mockConsumer),
+      admin: jest.fn().mockReturnValue(mockAdmin),
     }));
 
     config = {
@@ -98,9 +126,9 @@ describe('KafkaAdapter', () => {
         messages: [
           {
             key: 'msg-123',
-            value: JSON.stringify(message),
+            value: Buffer.from(JSON.stringify(message)),
             partition: undefined,
-            headers: undefined,
+            headers: { 'content-type': 'application/json' },
           },
         ],
       });
@@ -122,9 +150,9 @@ describe('KafkaAdapter', () => {
         messages: [
           {
             key: 'msg-123',
-            value: JSON.stringify(message),
+            value: Buffer.from(JSON.stringify(message)),
             partition: 2,
-            headers: undefined,
+            headers: { 'content-type': 'application/json' },
           },
         ],
       });
@@ -170,10 +198,277 @@ describe('KafkaAdapter', () => {
       expect(mockConsumer.disconnect).toHaveBeenCalled();
     });
 
+    it('should disconnect the consumer when subscribing fails', async () => {
+      mockConsumer.run.mockRejectedValueOnce(new Error('group coordinator not available'));
+
+      await expect(adapter.subscribe('test-topic', jest.fn())).rejects.toThrow(
+        'group coordinator not available'
+      );
+      expect(mockConsumer.disconnect).toHaveBeenCalled();
+    });
+
     it('should return false for invalid subscription ID', async () => {
       const result = await adapter.unsubscribe('invalid-id');
       expect(result).toBe(false);
     });
+
+    it('should subscribe to topic patterns by regex', async () => {
+      mockAdmin.listTopics = jest
+        .fn()
+        .mockResolvedValue(['orders.created', 'orders.eu.created', 'payments.created']);
+      const callback = jest.fn();
+
+      const subscriptionId = await adapter.subscribe('orders.*', callback, {
+        startFrom: { timestamp: 1000 },
+      });
+      const { topics } = mockConsumer.subscribe.mock.calls[0][0];
+      await adapter.pause(subscriptionId);
+
+      expect(topics).toEqual([/^orders\.[^.]+$/]);
+      expect(mockAdmin.fetchTopicOffsetsByTimestamp).toHaveBeenCalledWith('orders.created', 1000);
+      expect(mockAdmin.fetchTopicOffsetsByTimestamp).toHaveBeenCalledTimes(1);
+      expect(mockConsumer.pause).toHaveBeenCalledWith([{ topic: 'orders.created' }]);
+
+      const { eachMessage } = mockConsumer.run.mock.calls[0][0];
+      await eachMessage({
+        topic: 'orders.created',
+        partition: 0,
+        message: {
+          offset: '7',
+          value: Buffer.from(JSON.stringify({ id: 'm1', type: 't', payload: {}, timestamp: 0 })),
+        },
+      });
+      expect(callback.mock.calls[0][1].topic).toBe('orders.created');
+    });
+
+    it('should reject explicit start offsets for topic patterns', async () => {
+      await expect(
+        adapter.subscribe('orders.>', jest.fn(), {
+          startFrom: { offsets: [{ partition: 0, offset: '5' }] },
+        })
+      ).rejects.toMatchObject({ type: ErrorType.VALIDATION_ERROR });
+      expect(mockConsumer.connect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Keys and Partitioning', () => {
+    const message = (overrides = {}) => ({
+      id: 'msg-1',
+      type: 'order.updated',
+      payload: { orderId: 'order-42' },
+      timestamp: 0,
+      ...overrides,
+    });
+
+    const partitionerFor = async (options = {}) => {
+      adapter = new KafkaAdapter(config, mockKafka, options);
+      await adapter.connect();
+      const [{ createPartitioner }] = mockKafka.mock.results[0]!.value.producer.mock.calls[0];
+      return createPartitioner();
+    };
+
+    const partitionMetadata = [0, 1, 2].map(partitionId => ({ partitionId, leader: 1 }));
+
+    it('should key records by partitionKey, then the key extractor, then the ID', async () => {
+      adapter = new KafkaAdapter(config, mockKafka, {
+        keyExtractor: msg => (msg.payload as { orderId?: string }).orderId,
+      });
+      await adapter.connect();
+
+      await adapter.publish('orders', message({ partitionKey: 'customer-7' }));
+      await adapter.publish('orders', message());
+      await adapter.publish('orders', message({ payload: {} }));
+
+      const keys = mockProducer.send.mock.calls.map((call: any) => call[0].messages[0].key);
+      expect(keys).toEqual(['customer-7', 'order-42', 'msg-1']);
+    });
+
+    it('should pass acks and compression from the performance config', async () => {
+      config = { ...config, performance: { acks: 1, compression: 'gzip' } };
+      adapter = new KafkaAdapter(config, mockKafka);
+      await adapter.connect();
+
+      await adapter.publish('orders', message());
+
+      expect(mockProducer.send).toHaveBeenCalledWith(
+        expect.objectContaining({ acks: 1, compression: 1 })
+      );
+    });
+
+    it('should create an idempotent producer', async () => {
+      adapter = new KafkaAdapter(config, mockKafka, { idempotent: true });
+      await adapter.connect();
+
+      const kafkaInstance = mockKafka.mock.results[0]?.value;
+      expect(kafkaInstance.producer).toHaveBeenCalledWith(
+        expect.objectContaining({ idempotent: true })
+      );
+    });
+
+    it('should reject an idempotent producer without acks from all replicas', () => {
+      config = { ...config, performance: { acks: 1 } };
+
+      expect(() => new KafkaAdapter(config, mockKafka, { idempotent: true })).toThrow(
+        'The idempotent producer requires acks -1, not 1'
+      );
+    });
+
+    it('should partition keyed records with murmur2 by default', async () => {
+      const partition = await partitionerFor();
+
+      const partitions = [1, 2].map(() =>
+        partition({ topic: 'orders', partitionMetadata, message: { key: 'order-42' } })
+      );
+
+      expect(partitions[0]).toBe(partitions[1]);
+    });
+
+    it('should use a configured partitioner unless the record names a partition', async () => {
+      const partition = await partitionerFor({ partitioner: () => 2 });
+
+      expect(partition({ topic: 'orders', partitionMetadata, message: { key: 'a' } })).toBe(2);
+      expect(
+        partition({ topic: 'orders', partitionMetadata, message: { key: 'a', partition: 0 } })
+      ).toBe(0);
+    });
+
+    it('should reject a partition out of range for the topic', async () => {
+      const partition = await partitionerFor();
+
+      expect(() =>
+        partition({ topic: 'orders', partitionMetadata, message: { key: 'a', partition: 3 } })
+      ).toThrow(
+        expect.objectContaining({
+          type: ErrorType.VALIDATION_ERROR,
+          message: 'Partition 3 is out of range for orders, which has 3 partitions',
+        })
+      );
+    });
+
+    it('should reject a partition that is not a number', async () => {
+      await adapter.connect();
+
+      await expect(adapter.publish('orders', message({ partition: 'first' }))).rejects.toThrow(
+        'Invalid partition first for message msg-1'
+      );
+    });
+  });
+
+  describe('Offsets and Replay', () => {
+    const record = (offset: number) => ({
+      offset: offset.toString(),
+      value: Buffer.from(JSON.stringify({ id: `m${offset}`, type: 'test', payload: offset })),
+    });
+    const batch = (partition: number, offsets: number[], lastOffset: number) => ({
+      topic: 'test-topic',
+      partition,
+      messages: offsets.map(record),
+      lastOffset: () => String(lastOffset),
+    });
+
+    beforeEach(async () => {
+      await adapter.connect();
+    });
+
+    it('should read from the beginning when starting from earliest', async () => {
+      await adapter.subscribe('test-topic', jest.fn(), { startFrom: 'earliest' });
+
+      expect(mockConsumer.subscribe).toHaveBeenCalledWith({
+        topic: 'test-topic',
+        fromBeginning: true,
+      });
+      expect(mockConsumer.seek).not.toHaveBeenCalled();
+    });
+
+    it('should seek every partition to the offsets at a timestamp', async () => {
+      await adapter.subscribe('test-topic', jest.fn(), { startFrom: { timestamp: 1700000000000 } });
+
+      expect(mockAdmin.fetchTopicOffsetsByTimestamp).toHaveBeenCalledWith(
+        'test-topic',
+        1700000000000
+      );
+      // Seeks wait for the group join, so no record is fetched from the committed offset
+      expect(mockConsumer.seek).not.toHaveBeenCalled();
+      joinGroup();
+      // Rebalances later keep the positions reached
+      joinGroup();
+      expect(mockConsumer.seek).toHaveBeenCalledWith({
+        topic: 'test-topic',
+        partition: 0,
+        offset: '3',
+      });
+      expect(mockConsumer.seek).toHaveBeenCalledTimes(2);
+      expect(mockAdmin.disconnect).toHaveBeenCalled();
+    });
+
+    it('should pause and resume the subscription topic', async () => {
+      const subscriptionId = await adapter.subscribe('test-topic', jest.fn());
+
+      expect(await adapter.pause(subscriptionId)).toBe(true);
+      expect(await adapter.resume(subscriptionId)).toBe(true);
+      expect(await adapter.pause('invalid-id')).toBe(false);
+
+      expect(mockConsumer.pause).toHaveBeenCalledWith([{ topic: 'test-topic' }]);
+      expect(mockConsumer.resume).toHaveBeenCalledWith([{ topic: 'test-topic' }]);
+    });
+
+    it('should replay from a timestamp up to the current end of each partition', async () => {
+      // Partition 1 has nothing after the timestamp, so only partition 0 is read
+      mockConsumer.run.mockImplementation(async ({ eachBatch }: any) => {
+        setImmediate(() => eachBatch({ batch: batch(0, [2, 3, 4], 4) }));
+      });
+      const callback = jest.fn();
+
+      const count = await adapter.replay('test-topic', { from: new Date(1000) }, callback);
+
+      expect(count).toBe(2);
+      expect(callback.mock.calls.map(c => c[0].payload)).toEqual([3, 4]);
+      expect(mockConsumer.pause).toHaveBeenCalledWith([{ topic: 'test-topic', partitions: [1] }]);
+      expect(mockConsumer.seek).toHaveBeenCalledWith({
+        topic: 'test-topic',
+        partition: 0,
+        offset: '3',
+      });
+      expect(mockConsumer.run).toHaveBeenCalledWith(expect.objectContaining({ autoCommit: false }));
+      expect(mockConsumer.disconnect).toHaveBeenCalled();
+    });
+
+    it('should finish a partition whose range ends on a control record', async () => {
+      // Offset 4 of partition 0 is a transaction commit marker, never delivered
+      mockConsumer.run.mockImplementation(async ({ eachBatch }: any) => {
+        setImmediate(() => eachBatch({ batch: batch(0, [3], 4) }));
+      });
+      const callback = jest.fn();
+
+      const count = await adapter.replay('test-topic', { from: new Date(1000) }, callback);
+
+      expect(count).toBe(1);
+      expect(mockConsumer.pause).toHaveBeenCalledWith([{ topic: 'test-topic', partitions: [0] }]);
+      expect(mockConsumer.disconnect).toHaveBeenCalled();
+    });
+
+    it('should fail a replay that does not finish in time', async () => {
+      adapter = new KafkaAdapter(config, mockKafka, { replayTimeout: 10 });
+      await adapter.connect();
+
+      await expect(
+        adapter.replay('test-topic', { from: new Date(1000) }, jest.fn())
+      ).rejects.toMatchObject({
+        type: ErrorType.TIMEOUT_ERROR,
+      });
+      expect(mockConsumer.disconnect).toHaveBeenCalled();
+    });
+
+    it('should not start a consumer when the range is empty', async () => {
+      mockAdmin.fetchTopicOffsetsByTimestamp.mockResolvedValueOnce([
+        { partition: 0, offset: '0' },
+        { partition: 1, offset: '0' },
+      ]);
+      const count = await adapter.replay('test-topic', { from: 'earliest', to: 0 }, jest.fn());
+
+      expect(count).toBe(0);
+      expect(mockConsumer.connect).not.toHaveBeenCalled();
+    });
   });
 
   describe('Metrics', () => {
@@ -0,0 +1,269 @@
+/**
+ * Tests for InMemoryAdapter
+ */
+
+import { InMemoryAdapter } from '../adapter/memory';
+import { MessageBrokerFactory } from '../factory/message.broker';
+import { FakeClock } from '../utils/clock';
+import { MessageBuilder } from '../utils/message.builder';
+import { BrokerError, IBrokerConfig, IMessage } from '../types';
+
+describe('InMemoryAdapter', () => {
+  let adapter: InMemoryAdapter;
+  let clock: FakeClock;
+  let config: IBrokerConfig;
+
+  const message = (payload: unknown, partition?: string): IMessage => {
+    const builder = MessageBuilder.create().type('test').payload(payload);
+    return (partition !== undefined ? builder.partition(partition) : builder).build();
+  };
+
+  beforeEach(async () => {
+    clock = new FakeClock(1000);
+    config = { type: 'memory', connection: {} };
+    adapter = new InMemoryAdapter(config, { clock, partitions: 2 });
+    await adapter.connect();
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  describe('Connection Management', () => {
+    it('should report connection status', async () => {
+      expect(adapter.isConnected()).toBe(true);
+      await adapter.disconnect();
+      expect(adapter.isConnected()).toBe(false);
+    });
+
+    it('should reject publishing while disconnected', async () => {
+      await adapter.disconnect();
+      await expect(adapter.publish('t', message(1))).rejects.toBeInstanceOf(BrokerError);
+    });
+
+    it('should return correct broker type', () => {
+      expect(adapter.getType()).toBe('memory');
+    });
+  });
+
+  describe('Pub/Sub', () => {
+    it('should deliver every message to every plain subscriber', async () => {
+      const a = jest.fn();
+      const b = jest.fn();
+      await adapter.subscribe('orders', a);
+      await adapter.subscribe('orders', b);
+
+      await adapter.publish('orders', message({ n: 1 }));
+      await adapter.publish('orders', message({ n: 2 }));
+      await adapter.drain();
+
+      expect(a).toHaveBeenCalledTimes(2);
+      expect(b).toHaveBeenCalledTimes(2);
+      expect(a.mock.calls[0][0].payload).toEqual({ n: 1 });
+    });
+
+    it('should not deliver messages published before subscribing', async () => {
+      await adapter.publish('orders', message(1));
+      const callback = jest.fn();
+      await adapter.subscribe('orders', callback);
+      await adapter.drain();
+
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('should stop delivering after unsubscribe', async () => {
+      const callback = jest.fn();
+      const id = await adapter.subscribe('orders', callback);
+
+      expect(await adapter.unsubscribe(id)).toBe(true);
+      await adapter.publish('orders', message(1));
+      await adapter.drain();
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(await adapter.unsubscribe(id)).toBe(false);
+    });
+
+    it('should isolate delivered messages from the published object', async () => {
+      const received: IMessage[] = [];
+      await adapter.subscribe('orders', msg => {
+        received.push(msg);
+      });
+
+      const original = message({ n: 1 });
+      await adapter.publish('orders', original);
+      await adapter.drain();
+
+      expect(received[0]).not.toBe(original);
+      expect(received[0]?.id).toBe(original.id);
+    });
+
+    it('should stamp records with the clock time', async () => {
+      await adapter.publish('orders', message(1, '0'));
+      clock.advance(500);
+      await adapter.publish('orders', message(2, '0'));
+
+      expect(adapter.getRecords('orders').map(r => r.timestamp)).toEqual([1000, 1500]);
+    });
+  });
+
+  describe('Queue Groups', () => {
+    it('should deliver each message to one member of the group', async () => {
+      const a = jest.fn();
+      const b = jest.fn();
+      const observer = jest.fn();
+      await adapter.subscribe('jobs', a, { queueGroup: 'workers' });
+      await adapter.subscribe('jobs', b, { queueGroup: 'workers' });
+      await adapter.subscribe('jobs', observer);
+
+      for (let i = 0; i < 4; i++) {
+        await adapter.publish('jobs', message(i, '0'));
+      }
+      await adapter.drain();
+
+      expect(a.mock.calls.length + b.mock.calls.length).toBe(4);
+      expect(a).toHaveBeenCalledTimes(2);
+      expect(observer).toHaveBeenCalledTimes(4);
+    });
+
+    it('should skip paused members of the group', async () => {
+      const a = jest.fn();
+      const b = jest.fn();
+      const paused = await adapter.subscribe('jobs', a, { queueGroup: 'workers' });
+      await adapter.subscribe('jobs', b, { queueGroup: 'workers' });
+      await adapter.pause(paused);
+
+      for (let i = 0; i < 3; i++) {
+        await adapter.publish('jobs', message(i, '0'));
+      }
+      await adapter.drain();
+
+      expect(a).not.toHaveBeenCalled();
+      expect(b).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('Consumer Groups', () => {
+    it('should assign partitions across group members', async () => {
+      const a = jest.fn();
+      const b = jest.fn();
+      await adapter.subscribe('events', a, { consumerGroup: 'g' });
+      await adapter.subscribe('events', b, { consumerGroup: 'g' });
+
+      await adapter.publish('events', message('p0', '0'));
+      await adapter.publish('events', message('p1', '1'));
+      await adapter.drain();
+
+      expect(a.mock.calls.map(c => c[0].partition)).toEqual(['0']);
+      expect(b.mock.calls.map(c => c[0].partition)).toEqual(['1']);
+      expect(adapter.getCommittedOffsets('g', 'events')).toEqual([1, 1]);
+    });
+
+    it('should resume from committed offsets after re-joining', async () => {
+      const first = jest.fn();
+      const id = await adapter.subscribe('events', first, { consumerGroup: 'g' });
+      await adapter.publish('events', message(1, '0'));
+      await adapter.drain();
+      await adapter.unsubscribe(id);
+
+      await adapter.publish('events', message(2, '0'));
+      await adapter.publish('events', message(3, '0'));
+
+      const second = jest.fn();
+      await adapter.subscribe('events', second, { consumerGroup: 'g' });
+      await adapter.drain();
+
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second.mock.calls.map(c => c[0].payload)).toEqual([2, 3]);
+    });
+
+    it('should replay the log when subscribing from the beginning', async () => {
+      await adapter.publish('events', message(1, '0'));
+      const callback = jest.fn();
+      await adapter.subscribe('events', callback, { consumerGroup: 'new', fromBeginning: true });
+      await adapter.drain();
+
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep delivering after a callback throws', async () => {
+      const callback = jest.fn().mockRejectedValueOnce(new Error('boom'));
+      await adapter.subscribe('events', callback, { consumerGroup: 'g' });
+
+      await adapter.publish('events', message(1, '0'));
+      await adapter.publish('events', message(2, '0'));
+      await adapter.drain();
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect((await adapter.getMetrics()).errors).toBe(1);
+    });
+  });
+
+  describe('Start Positions, Pause and Replay', () => {
+    beforeEach(async () => {
+      await adapter.publish('events', message(1, '0'));
+      clock.advance(100);
+      await adapter.publish('events', message(2, '0'));
+      clock.advance(100);
+      await adapter.publish('events', message(3, '1'));
+    });
+
+    it('should start from the first record at or after a timestamp', async () => {
+      const callback = jest.fn();
+      await adapter.subscribe('events', callback, { startFrom: { timestamp: 1100 } });
+      await adapter.drain();
+
+      expect(callback.mock.calls.map(c => c[0].payload).sort()).toEqual([2, 3]);
+    });
+
+    it('should start from explicit partition offsets', async () => {
+      const callback = jest.fn();
+      await adapter.subscribe('events', callback, {
+        consumerGroup: 'g',
+        startFrom: { offsets: [{ partition: 0, offset: '1' }] },
+      });
+      await adapter.drain();
+
+      expect(callback.mock.calls.map(c => c[0].payload)).toEqual([2]);
+    });
+
+    it('should hold messages for a paused subscription until resumed', async () => {
+      const callback = jest.fn();
+      const id = await adapter.subscribe('events', callback);
+      await adapter.pause(id);
+
+      await adapter.publish('events', message(4, '0'));
+      await adapter.drain();
+      expect(callback).not.toHaveBeenCalled();
+
+      await adapter.resume(id);
+      await adapter.drain();
+      expect(callback.mock.calls.map(c => c[0].payload)).toEqual([4]);
+    });
+
+    it('should replay records in a time range', async () => {
+      const callback = jest.fn();
+
+      const count = await adapter.replay('events', { from: 'earliest', to: 1200 }, callback);
+
+      expect(count).toBe(2);
+      expect(callback.mock.calls.map(c => c[0].payload)).toEqual([1, 2]);
+      expect(adapter.getCommittedOffsets('g', 'events')).toEqual([]);
+    });
+  });
+
+  describe('Factory', () => {
+    it('should create a manager from config alone', async () => {
+      const manager = await MessageBrokerFactory.create({ type: 'memory', connection: {} });
+      await manager.connect();
+
+      const received = new Promise<IMessage>(resolve => {
+        manager.subscribe('greetings', resolve);
+      });
+      await manager.publish('greetings', { hello: 'world' });
+
+      expect((await received).payload).toEqual({ hello: 'world' });
+      expect(manager.getBrokerType()).toBe('memory');
+      await manager.disconnect();
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for settling messages through the callback context
+ */
+
+import { UniversalMessageManager } from '../universal/message.manager';
+import { DLQ_REASON_HEADER } from '../universal/message.queue';
+import { InMemoryAdapter } from '../adapter/memory';
+import { KafkaAdapter } from '../adapter/kafka';
+import { DeliveryContext } from '../utils/delivery.context';
+import { IBrokerConfig, IMessage } from '../types';
+
+describe('Message context', () => {
+  describe('DeliveryContext', () => {
+    it('should forward only the first settlement', async () => {
+      const settlement = { ack: jest.fn(), nack: jest.fn(), deadLetter: jest.fn() };
+      const context = new DeliveryContext(settlement);
+
+      await context.nack({ delay: 10 });
+      await context.ack();
+      await context.deadLetter('late');
+
+      expect(context.settled).toBe(true);
+      expect(settlement.nack).toHaveBeenCalledWith({ delay: 10 });
+      expect(settlement.ack).not.toHaveBeenCalled();
+      expect(settlement.deadLetter).not.toHaveBeenCalled();
+    });
+
+    it('should settle per autoAck on completion', async () => {
+      const settlement = { ack: jest.fn(), nack: jest.fn() };
+
+      await new DeliveryContext(settlement).complete(true);
+      await new DeliveryContext(settlement).complete(true, true);
+      await new DeliveryContext(settlement).complete(false);
+
+      expect(settlement.ack).toHaveBeenCalledTimes(1);
+      expect(settlement.nack).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('UniversalMessageManager', () => {
+    let adapter: InMemoryAdapter;
+    let manager: UniversalMessageManager;
+    const config: IBrokerConfig = {
+      type: 'memory',
+      connection: {},
+      deadLetterQueue: { enabled: true, maxRetries: 0, retryDelay: 1 },
+    };
+
+    beforeEach(async () => {
+      adapter = new InMemoryAdapter(config);
+      manager = new UniversalMessageManager(adapter, config);
+      await manager.connect();
+    });
+
+    afterEach(async () => {
+      await manager.disconnect();
+    });
+
+    it('should redeliver a nacked message', async () => {
+      const attempts: number[] = [];
+      await manager.subscribe(
+        'orders',
+        async (msg, context) => {
+          attempts.push((msg.payload as { n: number }).n);
+          if (attempts.length === 1) {
+            await context.nack({ requeue: true });
+          } else {
+            await context.ack();
+          }
+        },
+        { autoAck: false }
+      );
+
+      await manager.publishImmediate('orders', { n: 1 });
+      await adapter.drain();
+
+      expect(attempts).toEqual([1, 1]);
+    });
+
+    it('should publish to the DLQ when the callback dead-letters', async () => {
+      const dlqMessages: IMessage[] = [];
+      await adapter.subscribe('orders.dlq', msg => {
+        dlqMessages.push(msg);
+      });
+      await manager.subscribe('orders', (_msg, context) => context.deadLetter('invalid order'));
+
+      await manager.publishImmediate('orders', { n: 1 });
+      await adapter.drain();
+
+      expect(dlqMessages).toHaveLength(1);
+      expect(dlqMessages[0]?.headers?.[DLQ_REASON_HEADER]).toBe('invalid order');
+    });
+
+    it('should settle the broker delivery once retries are exhausted', async () => {
+      const delivery = { ack: jest.fn(), nack: jest.fn(), deadLetter: jest.fn() };
+      const mockAdapter: any = {
+        connect: jest.fn().mockResolvedValue(undefined),
+        disconnect: jest.fn().mockResolvedValue(undefined),
+        publish: jest.fn().mockResolvedValue(undefined),
+        subscribe: jest.fn().mockResolvedValue('sub-1'),
+        isConnected: jest.fn().mockReturnValue(true),
+        getType: jest.fn().mockReturnValue('kafka'),
+      };
+      const kafkaManager = new UniversalMessageManager(mockAdapter, {
+        type: 'kafka',
+        connection: {},
+        retry: { maxRetries: 0, initialDelay: 1, maxDelay: 1, backoffMultiplier: 1 },
+      });
+      await kafkaManager.subscribe('orders', () => {
+        throw new Error('boom');
+      });
+
+      const [, wrapped] = mockAdapter.subscribe.mock.calls[0];
+      await wrapped({ id: '1', type: 'orders', payload: {}, timestamp: 0 }, delivery);
+
+      expect(delivery.deadLetter).toHaveBeenCalledWith('boom');
+      expect(delivery.ack).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('KafkaAdapter', () => {
+    it('should commit the next offset on ack with autoAck disabled', async () => {
+      let eachMessage: any;
+      const consumer = {
+        connect: jest.fn().mockResolvedValue(undefined),
+        subscribe: jest.fn().mockResolvedValue(undefined),
+        run: jest.fn(async (options: any) => (eachMessage = options.eachMessage)),
+        commitOffsets: jest.fn().mockResolvedValue(undefined),
+      };
+      const Kafka = jest.fn().mockImplementation(() => ({
+        producer: () => ({ connect: jest.fn().mockResolvedValue(undefined) }),
+        consumer: () => consumer,
+      }));
+      const adapter = new KafkaAdapter({ type: 'kafka', connection: {} }, Kafka);
+      await adapter.connect();
+
+      await adapter.subscribe('orders', (_msg, context) => context.ack(), { autoAck: false });
+      await eachMessage({
+        topic: 'orders',
+        partition: 1,
+        message: { offset: '41', value: Buffer.from('{"id":"1","type":"orders","payload":{}}') },
+      });
+
+      expect(consumer.run).toHaveBeenCalledWith(expect.objectContaining({ autoCommit: false }));
+      expect(consumer.commitOffsets).toHaveBeenCalledWith([
+        { topic: 'orders', partition: 1, offset: '42' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Tests for the subscription filter language
+ */
+
+import { compileFilter } from '../utils/message.filter';
+import { UniversalMessageManager } from '../universal/message.manager';
+import { InMemoryAdapter } from '../adapter/memory';
+import { ErrorType, IBrokerConfig, IMessage, MessageFilters } from '../types';
+
+const message: IMessage = {
+  id: 'm1',
+  type: 'orders.created',
+  payload: {
+    total: 0,
+    paid: false,
+    customer: { tier: 'gold', tags: ['vip'] },
+    note: 'rush (v2)',
+  },
+  timestamp: 0,
+  metadata: { source: 'mobile-app' },
+  headers: { region: 'eu-west' },
+};
+
+const matches = (filters: MessageFilters) => compileFilter(filters)(message);
+
+describe('compileFilter', () => {
+  it('should match falsy values and fall back from payload to metadata', () => {
+    expect(matches({ total: 0, paid: false })).toBe(true);
+    expect(matches({ source: 'mobile-app' })).toBe(true);
+    expect(matches({ total: 1 })).toBe(false);
+  });
+
+  it('should resolve nested payload, metadata and header paths', () => {
+    expect(matches({ 'payload.customer.tier': 'gold' })).toBe(true);
+    expect(matches({ 'customer.tags': ['vip'] })).toBe(true);
+    expect(matches({ 'headers.region': 'eu-west', 'metadata.source': 'mobile-app' })).toBe(true);
+    expect(matches({ 'payload.customer.tier.name': 'gold' })).toBe(false);
+  });
+
+  it('should anchor and escape glob strings', () => {
+    expect(matches({ 'headers.region': 'eu-*' })).toBe(true);
+    expect(matches({ 'headers.region': 'west*' })).toBe(false);
+    expect(matches({ note: 'rush (*)' })).toBe(true);
+  });
+
+  it.each<[MessageFilters, boolean]>([
+    [{ total: { $eq: 0 } }, true],
+    [{ 'payload.customer.tier': { $ne: 'silver' } }, true],
+    [{ missing: { $ne: 'x' } }, true],
+    [{ 'payload.customer.tier': { $in: ['gold', 'platinum'] } }, true],
+    [{ total: { $gt: -1, $lt: 1 } }, true],
+    [{ total: { $gt: '-1' } }, false],
+    [{ 'headers.region': { $gt: 'eu' } }, true],
+    [{ 'payload.customer': { $exists: true }, missing: { $exists: false } }, true],
+    [{ note: { $regex: '^rush' } }, true],
+    [{ note: /V2/i }, true],
+    [{ total: { $not: { $gt: 5 } } }, true],
+  ])('should evaluate operators in %j', (filters, expected) => {
+    expect(matches(filters)).toBe(expected);
+  });
+
+  it('should combine criteria with $and, $or and $not', () => {
+    expect(matches({ $or: [{ total: { $gt: 10 } }, { 'headers.region': 'eu-*' }] })).toBe(true);
+    expect(matches({ $and: [{ paid: false }, { total: { $gt: 10 } }] })).toBe(false);
+    expect(matches({ $not: { paid: true }, total: 0 })).toBe(true);
+  });
+
+  it.each<[unknown, string]>([
+    [{ total: { $between: [1, 2] } }, 'Unknown filter operator $between at total'],
+    [{ total: { $in: 5 } }, '$in at total must be an array'],
+    [{ total: { $gt: null } }, '$gt at total must be a number or a string'],
+    [{ note: { $regex: '(' } }, '$regex at note is invalid'],
+    [{ $or: { total: 0 } }, '$or must be an array'],
+    [{ $and: [{ total: { $exists: 'yes' } }] }, '$exists at total must be a boolean'],
+    [{ $and: [5] }, 'Filter at $and[0] must be an object'],
+    [{ total: { $gt: 1, value: 2 } }, 'Filter at total mixes operators with the field value'],
+    [{ $where: 'true' }, 'Unknown filter operator $where'],
+  ])('should reject %j', (filters, error) => {
+    expect(() => compileFilter(filters as MessageFilters)).toThrow(error);
+  });
+});
+
+describe('Subscription filters', () => {
+  let adapter: InMemoryAdapter;
+  let manager: UniversalMessageManager;
+  const config: IBrokerConfig = { type: 'memory', connection: {} };
+
+  beforeEach(async () => {
+    adapter = new InMemoryAdapter(config);
+    manager = new UniversalMessageManager(adapter, config);
+    await manager.connect();
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  it('should deliver only matching messages', async () => {
+    const callback = jest.fn();
+    await manager.subscribe('orders', callback, {
+      filters: { 'payload.total': { $gt: 100 }, 'headers.region': 'eu-*' },
+    });
+
+    await manager.publishImmediate('orders', { total: 150 }, { headers: { region: 'eu-west' } });
+    await manager.publishImmediate('orders', { total: 50 }, { headers: { region: 'eu-west' } });
+    await manager.publishImmediate('orders', { total: 150 }, { headers: { region: 'us-east' } });
+    await adapter.drain();
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid filters when subscribing', async () => {
+    await expect(
+      manager.subscribe('orders', jest.fn(), { filters: { total: { $gt: [] } } })
+    ).rejects.toMatchObject({
+      type: ErrorType.VALIDATION_ERROR,
+      message: 'Invalid filters for orders: $gt at total must be a number or a string',
+    });
+    expect(await adapter.getMetrics()).toMatchObject({ subscriptions_count: 0 });
+  });
+});
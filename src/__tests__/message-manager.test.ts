@@ -4,7 +4,9 @@
 
 import { UniversalMessageManager } from '../universal/message.manager';
 import { RedisAdapter } from '../adapter/redis';
-import { IBrokerConfig } from '../types';
+import { InMemoryQueueStore } from '../storage/memory.queue.store';
+import { DeliveryContext } from '../utils/delivery.context';
+import { ErrorType, IBrokerConfig } from '../types';
 
 describe('UniversalMessageManager', () => {
   let manager: UniversalMessageManager;
@@ -21,6 +23,7 @@ describe('UniversalMessageManager', () => {
       features: {
         persistence: true,
       },
+      persistence: { store: new InMemoryQueueStore() },
     };
 
     mockAdapter = {
@@ -141,13 +144,59 @@ describe('UniversalMessageManager', () => {
       });
     });
 
+    it('should not keep a subscription the adapter rejected', async () => {
+      mockAdapter.subscribe.mockRejectedValueOnce(new Error('Invalid start position'));
+
+      await expect(manager.subscribe('user.events', jest.fn())).rejects.toThrow(
+        'Invalid start position'
+      );
+      expect((manager as any).subscriptionManager.getSubscriptions('user.events')).toHaveLength(0);
+    });
+
     it('should unsubscribe from topics', async () => {
       const callback = jest.fn();
       const subscriptionId = await manager.subscribe('user.events', callback);
       const result = await manager.unsubscribe('user.events', subscriptionId);
 
       expect(result).toBe(true);
-      expect(mockAdapter.unsubscribe).toHaveBeenCalledWith(subscriptionId);
+      expect(mockAdapter.unsubscribe).toHaveBeenCalledWith('sub-123');
+    });
+
+    it('should pause and resume through the adapter subscription', async () => {
+      const adapter = mockAdapter as any;
+      adapter.pause = jest.fn().mockResolvedValue(true);
+      adapter.resume = jest.fn().mockResolvedValue(true);
+      const subscriptionId = await manager.subscribe('user.events', jest.fn());
+
+      await manager.pause(subscriptionId);
+      await manager.resume(subscriptionId);
+
+      expect(adapter.pause).toHaveBeenCalledWith('sub-123');
+      expect(adapter.resume).toHaveBeenCalledWith('sub-123');
+      await expect(manager.pause('unknown')).rejects.toThrow('Unknown subscription unknown');
+    });
+
+    it('should reject pausing when the broker cannot pause', async () => {
+      const subscriptionId = await manager.subscribe('user.events', jest.fn());
+
+      await expect(manager.pause(subscriptionId)).rejects.toMatchObject({
+        type: ErrorType.SUBSCRIPTION_ERROR,
+      });
+    });
+
+    it('should replay to current subscriptions without a callback', async () => {
+      const message = { id: '1', type: 'user.created', payload: {}, timestamp: 0 };
+      (mockAdapter as any).replay = jest.fn(async (_topic, _range, deliver) => {
+        await deliver(message, new DeliveryContext());
+        return 1;
+      });
+      const callback = jest.fn();
+      await manager.subscribe('user.events', callback);
+
+      const count = await manager.replay('user.events', { from: 'earliest' });
+
+      expect(count).toBe(1);
+      expect(callback).toHaveBeenCalledWith(message, expect.anything());
     });
   });
 
@@ -0,0 +1,197 @@
+/**
+ * Tests for the metrics registry, its HTTP handler and the manager's message metrics
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { MetricsRegistry, OPENMETRICS_CONTENT_TYPE } from '../utils/metrics.registry';
+import { createMetricsHandler } from '../utils/metrics.handler';
+import { UniversalMessageManager } from '../universal/message.manager';
+import { InMemoryAdapter } from '../adapter/memory';
+import { ErrorType, IBrokerConfig } from '../types';
+
+describe('MetricsRegistry', () => {
+  it('should render counters, gauges and histograms in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const published = registry.counter('orders_published_total', 'Orders\npublished', [
+      'region',
+      'shard',
+    ]);
+    const depth = registry.gauge('orders_queue_depth', 'Queued orders');
+    const latency = registry.histogram('orders_latency_seconds', 'Latency', ['region'], [0.1, 1]);
+
+    published.inc({ region: 'eu "west"' });
+    published.inc({ region: 'eu "west"' }, 2);
+    published.inc({ region: 'us', shard: 3 });
+    depth.set({}, 7);
+    latency.observe({ region: 'eu' }, 0.05);
+    latency.observe({ region: 'eu' }, 0.5);
+    latency.observe({ region: 'eu' }, 4);
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP orders_published_total Orders\\npublished',
+        '# TYPE orders_published_total counter',
+        'orders_published_total{region="eu \\"west\\""} 3',
+        'orders_published_total{region="us",shard="3"} 1',
+        '# HELP orders_queue_depth Queued orders',
+        '# TYPE orders_queue_depth gauge',
+        'orders_queue_depth 7',
+        '# HELP orders_latency_seconds Latency',
+        '# TYPE orders_latency_seconds histogram',
+        'orders_latency_seconds_bucket{region="eu",le="0.1"} 1',
+        'orders_latency_seconds_bucket{region="eu",le="1"} 2',
+        'orders_latency_seconds_bucket{region="eu",le="+Inf"} 3',
+        'orders_latency_seconds_sum{region="eu"} 4.55',
+        'orders_latency_seconds_count{region="eu"} 3',
+        '',
+      ].join('\n')
+    );
+    expect(published.sum(labels => labels.region === 'us')).toBe(1);
+  });
+
+  it('should name counter families without _total and end with EOF in OpenMetrics', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('jobs_total', 'Jobs').inc();
+    let collected = 0;
+    registry.onCollect(() => collected++);
+
+    expect(registry.render('openmetrics')).toBe(
+      '# HELP jobs Jobs\n# TYPE jobs counter\njobs_total 1\n# EOF\n'
+    );
+    expect(collected).toBe(1);
+  });
+
+  it('should reject invalid names, duplicates, unknown labels and decrements', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('jobs_total', 'Jobs', ['queue']);
+
+    expect(() => registry.gauge('jobs-depth', 'Depth')).toThrow('Invalid metric name jobs-depth');
+    expect(() => registry.gauge('jobs_depth', 'Depth', ['le'])).toThrow('Invalid label name le');
+    expect(() => registry.gauge('jobs_total', 'Jobs')).toThrow('already registered');
+    expect(() => counter.inc({ host: 'a' })).toThrow('Unknown label host for jobs_total');
+    expect(() => counter.inc({}, -1)).toThrow('cannot be increased by -1');
+    expect(() => registry.histogram('jobs_seconds', 'Time', [], [1, 1])).toThrow(
+      'must be increasing'
+    );
+  });
+});
+
+describe('createMetricsHandler', () => {
+  function serve(handler: ReturnType<typeof createMetricsHandler>, request: object) {
+    const response = { status: 0, headers: {} as Record<string, string>, body: '' };
+    handler(
+      { method: 'GET', headers: {}, ...request } as IncomingMessage,
+      {
+        writeHead: (status: number, headers: Record<string, string>) => {
+          response.status = status;
+          response.headers = headers;
+        },
+        end: (body?: string) => {
+          response.body = body ?? '';
+        },
+      } as unknown as ServerResponse
+    );
+    return response;
+  }
+
+  it('should serve metrics on the metrics path, negotiating the format', () => {
+    const registry = new MetricsRegistry();
+    registry.gauge('up', 'Up').set({}, 1);
+    const handler = createMetricsHandler(registry);
+
+    expect(serve(handler, { url: '/metrics?debug=1' })).toEqual({
+      status: 200,
+      headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+      body: '# HELP up Up\n# TYPE up gauge\nup 1\n',
+    });
+    expect(
+      serve(handler, {
+        url: '/metrics',
+        headers: { accept: 'application/openmetrics-text;version=1.0.0,text/plain;q=0.5' },
+      })
+    ).toMatchObject({ headers: { 'Content-Type': OPENMETRICS_CONTENT_TYPE } });
+    expect(serve(handler, { url: '/health' }).status).toBe(404);
+    expect(serve(handler, { url: '/metrics', method: 'POST' })).toMatchObject({
+      status: 405,
+      headers: { Allow: 'GET, HEAD' },
+    });
+  });
+});
+
+describe('Message metrics', () => {
+  let adapter: InMemoryAdapter;
+  let manager: UniversalMessageManager;
+  const config: IBrokerConfig = {
+    type: 'memory',
+    connection: {},
+    deadLetterQueue: { enabled: true, maxRetries: 1, retryDelay: 1 },
+    retry: { maxRetries: 1, initialDelay: 1, maxDelay: 1, backoffMultiplier: 1, jitter: false },
+  };
+
+  beforeEach(async () => {
+    adapter = new InMemoryAdapter(config);
+    manager = new UniversalMessageManager(adapter, config);
+    await manager.connect();
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  it('should count published, received, retried and dead-lettered messages', async () => {
+    await manager.subscribe(
+      'orders',
+      message => {
+        if (message.payload === 'bad') throw new Error('Handler failed');
+      },
+      { consumerGroup: 'billing' }
+    );
+
+    await manager.publishImmediate('orders', 'good');
+    await manager.publishBatch('orders', ['bad']);
+    await adapter.drain();
+
+    const output = manager.getMetricsRegistry().render();
+    const labels = 'broker="memory",topic="orders"';
+    const delivery = `${labels},subscription="billing"`;
+    expect(output).toContain(`pubsub_messages_published_total{${labels}} 2\n`);
+    // Bytes are counted as encoded by the codec, envelope included
+    const bytes = adapter.getRecords('orders').reduce((sum, record) => sum + record.data.length, 0);
+    expect(output).toContain(`pubsub_published_bytes_total{${labels}} ${bytes}\n`);
+    expect(output).toContain(`pubsub_received_bytes_total{${delivery}} ${bytes}\n`);
+    expect(output).toContain(`pubsub_messages_received_total{${delivery}} 2\n`);
+    expect(output).toContain(`pubsub_messages_retried_total{${delivery}} 1\n`);
+    expect(output).toContain(`pubsub_messages_dead_lettered_total{${delivery}} 1\n`);
+    expect(output).toContain(
+      `pubsub_messages_failed_total{${delivery},error_type="SUBSCRIPTION_ERROR"} 1\n`
+    );
+    expect(output).toContain(`pubsub_process_duration_seconds_count{${delivery}} 2\n`);
+    expect(output).toContain(`pubsub_dlq_size{${labels}} 1\n`);
+    expect(output).toContain('pubsub_connected{broker="memory"} 1\n');
+
+    const metrics = manager.getPerformanceMetrics();
+    expect(metrics.latency.publish.count).toBe(2);
+    expect(metrics.latency.subscription.count).toBe(2);
+    expect(manager.getLatencyHistogram('subscription').count).toBe(2);
+    expect(metrics.errors).toMatchObject({
+      total: 1,
+      byType: { [ErrorType.SUBSCRIPTION_ERROR]: 1, [ErrorType.PUBLISH_ERROR]: 0 },
+      rate: 0.25,
+    });
+    expect(metrics.connections).toEqual({ active: 1, total: 1 });
+  });
+
+  it('should count failed publishes and gauge the outbound queue', async () => {
+    jest.spyOn(adapter, 'publish').mockRejectedValue(new Error('Broker down'));
+
+    await expect(manager.publishImmediate('orders', 'lost')).rejects.toThrow('Broker down');
+    await manager.publish('orders', 'queued');
+
+    const output = manager.getMetricsRegistry().render();
+    expect(output).toContain(
+      'pubsub_messages_failed_total{broker="memory",topic="orders",error_type="PUBLISH_ERROR"} 1\n'
+    );
+    expect(output).toContain('pubsub_queue_depth{broker="memory",topic="orders"} 1\n');
+    expect(manager.getPerformanceMetrics().errors.rate).toBe(1);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Tests for the transactional outbox
+ */
+
+import { OutboxRelay } from '../universal/outbox.relay';
+import { UniversalMessageManager } from '../universal/message.manager';
+import { InMemoryAdapter } from '../adapter/memory';
+import { InMemoryOutboxStore } from '../storage/memory.outbox.store';
+import { SqlOutboxStore, createOutboxTableSql } from '../storage/sql.outbox.store';
+import { FakeClock } from '../utils/clock';
+import { IBrokerConfig } from '../types';
+import { message, settle } from './helpers';
+
+// An outbox message of an aggregate
+const event = (id: string, partitionKey?: string) => message(id, { id }, { partitionKey });
+
+describe('Outbox', () => {
+  describe('OutboxRelay', () => {
+    let clock: FakeClock;
+    let store: InMemoryOutboxStore;
+    let adapter: InMemoryAdapter;
+    let manager: UniversalMessageManager;
+    const config: IBrokerConfig = { type: 'memory', connection: {} };
+
+    beforeEach(async () => {
+      clock = new FakeClock(1000);
+      store = new InMemoryOutboxStore(clock);
+      adapter = new InMemoryAdapter(config, { clock });
+      manager = new UniversalMessageManager(adapter, config);
+      await manager.connect();
+    });
+
+    afterEach(async () => {
+      await manager.disconnect();
+    });
+
+    it('should publish pending records in order, keeping their IDs', async () => {
+      await store.insert('orders', event('a'));
+      await store.insert('orders', event('b'));
+      const relay = new OutboxRelay(store, manager, { clock });
+
+      expect(await relay.relayOnce()).toBe(2);
+
+      expect(adapter.getRecords('orders').map(r => r.message.id)).toEqual(['a', 'b']);
+      expect(await store.fetchPending(10)).toEqual([]);
+      expect(relay.getMetrics()).toMatchObject({ published: 2, failed: 0, polls: 1 });
+    });
+
+    it('should hold back an aggregate behind a failed record until its retry', async () => {
+      await store.insert('orders', event('a1', 'order-a'));
+      await store.insert('orders', event('b1', 'order-b'));
+      await store.insert('orders', event('a2', 'order-a'));
+      const publish = jest.spyOn(manager, 'publishImmediate');
+      publish.mockRejectedValueOnce(new Error('broker down'));
+      const relay = new OutboxRelay(store, manager, { clock, retryDelay: 500 });
+
+      expect(await relay.relayOnce()).toBe(1);
+      expect((await store.fetchPending(10)).map(r => [r.id, r.attempts])).toEqual([
+        ['a1', 1],
+        ['a2', 0],
+      ]);
+
+      // Still backing off
+      expect(await relay.relayOnce()).toBe(0);
+
+      clock.advance(500);
+      expect(await relay.relayOnce()).toBe(2);
+      expect(adapter.getRecords('orders').map(r => r.message.id)).toEqual(['b1', 'a1', 'a2']);
+      expect(relay.getMetrics()).toMatchObject({ failed: 1, lastError: 'broker down' });
+    });
+
+    it('should publish other aggregates past more blocked records than fit a batch', async () => {
+      for (const id of ['a1', 'a2', 'a3', 'c1']) {
+        await store.insert('orders', event(id, id[0] === 'a' ? 'order-a' : undefined));
+      }
+      await store.insert('orders', event('b1', 'order-b'));
+      const publish = jest.spyOn(manager, 'publishImmediate');
+      publish.mockRejectedValueOnce(new Error('broker down'));
+      const relay = new OutboxRelay(store, manager, { clock, batchSize: 2, retryDelay: 500 });
+
+      expect(await relay.relayOnce()).toBe(0);
+      // a1 backs off and holds back a2 and a3, but no longer fills the batch
+      expect(await relay.relayOnce()).toBe(2);
+      expect(adapter.getRecords('orders').map(r => r.message.id)).toEqual(['c1', 'b1']);
+
+      clock.advance(500);
+      expect(await relay.relayOnce()).toBe(2);
+      expect(await relay.relayOnce()).toBe(1);
+      expect(adapter.getRecords('orders').map(r => r.message.id)).toEqual([
+        'c1',
+        'b1',
+        'a1',
+        'a2',
+        'a3',
+      ]);
+    });
+
+    it('should relay at once when notified and poll while running', async () => {
+      const relay = new OutboxRelay(store, manager, { clock, pollInterval: 1000 });
+      relay.start();
+      clock.advance(0);
+      await settle();
+
+      await store.insert('orders', event('a'));
+      relay.notify();
+      clock.advance(0);
+      await settle();
+      expect(adapter.getRecords('orders')).toHaveLength(1);
+
+      await store.insert('orders', event('b'));
+      clock.advance(1000);
+      await settle();
+      expect(adapter.getRecords('orders')).toHaveLength(2);
+
+      await relay.stop();
+      expect(clock.getPendingTimers()).toBe(0);
+    });
+  });
+
+  describe('SqlOutboxStore', () => {
+    let client: { query: jest.Mock };
+
+    beforeEach(() => {
+      client = { query: jest.fn().mockResolvedValue([]) };
+    });
+
+    it('should insert through the given transaction', async () => {
+      const transaction = { query: jest.fn().mockResolvedValue([]) };
+      const store = new SqlOutboxStore(client);
+
+      await store.insert('orders', event('a', 'order-a'), transaction);
+
+      expect(client.query).not.toHaveBeenCalled();
+      const [sql, params] = transaction.query.mock.calls[0];
+      expect(sql).toBe(
+        'INSERT INTO outbox (id, topic, aggregate_key, message, created_at) VALUES ($1, $2, $3, $4, $5)'
+      );
+      expect(params.slice(0, 3)).toEqual(['a', 'orders', 'order-a']);
+    });
+
+    it('should read pending rows back as records', async () => {
+      const store = new SqlOutboxStore(client, { table: 'app.outbox', placeholder: () => '?' });
+      await store.insert('orders', event('a'));
+      const [, [, , , stored]] = client.query.mock.calls[0];
+      client.query.mockResolvedValueOnce([
+        {
+          id: 'a',
+          topic: 'orders',
+          aggregate_key: null,
+          message: stored,
+          created_at: '1000',
+          attempts: 2,
+          last_error: 'timeout',
+        },
+      ]);
+
+      const [record] = await store.fetchPending(10);
+
+      expect(client.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('FROM app.outbox WHERE sent_at IS NULL ORDER BY seq LIMIT ?'),
+        [10]
+      );
+      expect(record).toEqual({
+        id: 'a',
+        topic: 'orders',
+        message: event('a'),
+        aggregateKey: undefined,
+        createdAt: 1000,
+        attempts: 2,
+        lastError: 'timeout',
+      });
+    });
+
+    it('should skip records and aggregates backing off', async () => {
+      const store = new SqlOutboxStore(client);
+
+      await store.fetchPending(10, { ids: ['a1', 'c1'], aggregateKeys: ['order-a'] });
+
+      expect(client.query).toHaveBeenCalledWith(
+        'SELECT id, topic, aggregate_key, message, created_at, attempts, last_error FROM outbox' +
+          ' WHERE sent_at IS NULL AND id NOT IN ($1, $2)' +
+          ' AND (aggregate_key IS NULL OR aggregate_key NOT IN ($3)) ORDER BY seq LIMIT $4',
+        ['a1', 'c1', 'order-a', 10]
+      );
+    });
+
+    it('should mark records sent and failed', async () => {
+      const store = new SqlOutboxStore(client);
+
+      await store.markSent(['a', 'b']);
+      await store.markFailed('c', 'timeout');
+
+      expect(client.query.mock.calls[0][0]).toBe(
+        'UPDATE outbox SET sent_at = $1 WHERE id IN ($2, $3)'
+      );
+      expect(client.query.mock.calls[1]).toEqual([
+        'UPDATE outbox SET attempts = attempts + 1, last_error = $1 WHERE id = $2',
+        ['timeout', 'c'],
+      ]);
+    });
+
+    it('should reject table names that are not identifiers', () => {
+      expect(() => new SqlOutboxStore(client, { table: 'outbox; DROP TABLE users' })).toThrow(
+        'Invalid outbox table name'
+      );
+      expect(createOutboxTableSql('events_outbox')).toContain(
+        'CREATE TABLE IF NOT EXISTS events_outbox'
+      );
+    });
+  });
+});
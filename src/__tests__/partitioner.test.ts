@@ -0,0 +1,50 @@
+/**
+ * Tests for the Kafka record partitioners
+ */
+
+import { createPartitioner, murmur2 } from '../utils/partitioner';
+
+describe('Partitioner', () => {
+  const context = (key?: string) => ({
+    topic: 'orders',
+    key,
+    partitionCount: 4,
+    availablePartitions: [0, 1, 2, 3],
+  });
+
+  it('should hash like the Java client', () => {
+    // Reference values from Kafka's UtilsTest
+    expect(murmur2('21')).toBe(-973932308);
+    expect(murmur2('foobar')).toBe(-790332482);
+    expect(murmur2('a-little-bit-long-string')).toBe(-985981536);
+    expect(murmur2('a-little-bit-longer-string')).toBe(-1486304829);
+    expect(murmur2('lkjh234lh9fiuh90y23oiuhsafujhadof229phr9h19h89h8')).toBe(-58897971);
+    expect(murmur2(Buffer.from('abc'))).toBe(479470107);
+  });
+
+  it('should send every record with the same key to the same partition', () => {
+    const partition = createPartitioner();
+
+    const partitions = ['order-1', 'order-1', 'order-1'].map(key => partition(context(key)));
+
+    expect(new Set(partitions).size).toBe(1);
+    expect(partitions[0]).toBe((murmur2('order-1') & 0x7fffffff) % 4);
+  });
+
+  it('should spread records round-robin over available partitions, ignoring keys', () => {
+    const partition = createPartitioner('round-robin');
+
+    const partitions = [1, 2, 3].map(() =>
+      partition({ ...context('order-1'), availablePartitions: [1, 3] })
+    );
+
+    expect(partitions).toEqual([1, 3, 1]);
+  });
+
+  it('should use a custom partitioner as is', () => {
+    const custom = jest.fn().mockReturnValue(2);
+
+    expect(createPartitioner(custom)(context('a'))).toBe(2);
+    expect(custom).toHaveBeenCalledWith(context('a'));
+  });
+});
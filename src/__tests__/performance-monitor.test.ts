@@ -0,0 +1,143 @@
+/**
+ * Tests for streaming latency percentiles and windowed rates in the performance monitor
+ */
+
+import { LatencyHistogram } from '../utils/latency.histogram';
+import { RateCounter } from '../utils/rate.counter';
+import { FakeClock } from '../utils/clock';
+import { UniversalPerformanceMonitor } from '../universal/performance.monitor';
+import { BrokerError, ErrorType } from '../types';
+
+function exactQuantile(sorted: number[], q: number): number {
+  return sorted[Math.max(1, Math.ceil(q * sorted.length)) - 1]!;
+}
+
+describe('LatencyHistogram', () => {
+  it('should keep quantiles within 1% of the exact values', () => {
+    const histogram = new LatencyHistogram();
+    const values: number[] = [];
+    // Deterministic log-uniform latencies from 0.05ms to 50s
+    let seed = 42;
+    for (let i = 0; i < 20000; i++) {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      const value = 0.05 * Math.pow(10, (seed / 2147483648) * 6);
+      values.push(value);
+      histogram.record(value);
+    }
+    values.sort((a, b) => a - b);
+
+    const quantiles = [0.5, 0.95, 0.99, 0.999];
+    histogram.quantiles(quantiles).forEach((value, i) => {
+      const exact = exactQuantile(values, quantiles[i]!);
+      expect(Math.abs(value - exact) / exact).toBeLessThan(0.01);
+    });
+    expect(histogram.count).toBe(20000);
+    expect(histogram.min).toBe(values[0]);
+    expect(histogram.max).toBe(values[values.length - 1]);
+    expect(histogram.quantile(1)).toBe(histogram.max);
+  });
+
+  it('should merge histograms and survive a JSON round trip', () => {
+    const a = new LatencyHistogram();
+    const b = new LatencyHistogram();
+    for (let i = 1; i <= 100; i++) a.record(i);
+    for (let i = 101; i <= 200; i++) b.record(i);
+
+    a.merge(LatencyHistogram.fromJSON(JSON.parse(JSON.stringify(b))));
+
+    expect(a.count).toBe(200);
+    expect(a.mean).toBeCloseTo(100.5);
+    expect(Math.abs(a.quantile(0.5) - 100) / 100).toBeLessThan(0.01);
+    expect(a.toJSON().buckets.length).toBeLessThan(200);
+    expect(() => a.merge(new LatencyHistogram({ significantDigits: 3 }))).toThrow(
+      'Cannot merge latency histograms'
+    );
+  });
+
+  it('should clamp values above the tracked range', () => {
+    const histogram = new LatencyHistogram({ significantDigits: 1, maxValue: 1000 });
+    histogram.record(5000);
+    histogram.record(-1);
+
+    expect(histogram.max).toBe(5000);
+    expect(histogram.quantile(0.99)).toBe(5000);
+    expect(histogram.quantile(0.01)).toBe(0);
+  });
+});
+
+describe('RateCounter', () => {
+  it('should report rates over sliding windows', () => {
+    const clock = new FakeClock(0);
+    const counter = new RateCounter({ clock, resolution: 1000, horizon: 10_000 });
+
+    counter.add(10);
+    clock.advance(2000);
+    expect(counter.rate(5000)).toBe(5);
+
+    clock.advance(3000);
+    counter.add(20);
+    clock.advance(5000);
+    expect(counter.rate(10_000)).toBe(3);
+    expect(counter.rate(5000)).toBe(4);
+
+    clock.advance(10_000);
+    expect(counter.rate(10_000)).toBe(0);
+    expect(counter.total).toBe(30);
+  });
+});
+
+describe('UniversalPerformanceMonitor', () => {
+  it('should summarize latencies, throughput and errors per window', () => {
+    const clock = new FakeClock(0);
+    const monitor = new UniversalPerformanceMonitor({ clock });
+
+    for (let i = 0; i < 100; i++) {
+      monitor.recordPublish('kafka', 'orders', 4, 10);
+    }
+    clock.advance(240_000);
+    for (let i = 0; i < 100; i++) {
+      monitor.recordReceive('kafka', 'orders', 'billing', 4, 100);
+    }
+    monitor.recordPublish(
+      'kafka',
+      'orders',
+      4,
+      1,
+      new BrokerError('Timed out', ErrorType.TIMEOUT_ERROR, 'kafka')
+    );
+    clock.advance(60_000);
+
+    const metrics = monitor.getPerformanceMetrics();
+    expect(metrics.latency.publish).toMatchObject({ count: 100, p50: 10, p999: 10 });
+    expect(metrics.latency.subscription).toMatchObject({ count: 100, min: 100, max: 100 });
+    expect(metrics.latency).toMatchObject({ count: 200, p95: 100, p999: 100 });
+    expect(metrics.latency.p50).toBeCloseTo(10, 1);
+    expect(metrics.throughput).toMatchObject({
+      publishedPerSecond: 0,
+      receivedPerSecond: 100 / 60,
+    });
+    expect(metrics.throughput.windows['5m']).toEqual({
+      publishedPerSecond: 100 / 300,
+      receivedPerSecond: 100 / 300,
+      publishedBytesPerSecond: 400 / 300,
+      receivedBytesPerSecond: 400 / 300,
+    });
+    expect(metrics.errors).toMatchObject({
+      total: 1,
+      byType: { [ErrorType.TIMEOUT_ERROR]: 1 },
+      rate: 1 / 101,
+    });
+    expect(metrics.errors.windows['15m'].rate).toBe(1 / 201);
+  });
+
+  it('should keep percentiles for recorded operations', () => {
+    const monitor = new UniversalPerformanceMonitor();
+    for (let i = 1; i <= 1000; i++) monitor.recordLatency('publish', i, 'redis');
+
+    const stats = monitor.getMetrics().latency['redis.publish'];
+    expect(stats).toMatchObject({ count: 1000, min: 1, max: 1000, avg: 500.5 });
+    expect(Math.abs(stats.p99 - 990) / 990).toBeLessThan(0.01);
+    expect(monitor.getAverageLatency('publish', 'redis')).toBe(500.5);
+    expect(monitor.getLatencyHistogram('publish', 'redis')?.count).toBe(1000);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Tests for the persistent outbound queue and its stores
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UniversalMessageManager } from '../universal/message.manager';
+import { UniversalMessageQueue } from '../universal/message.queue';
+import { FileQueueStore } from '../storage/file.queue.store';
+import { InMemoryQueueStore } from '../storage/memory.queue.store';
+import { ErrorType, IBrokerConfig } from '../types';
+import { message } from './helpers';
+
+describe('Persistent queue', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'pubsub-queue-'));
+    file = path.join(dir, 'queue.log');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('FileQueueStore', () => {
+    it('should return appended messages that were not removed', async () => {
+      const store = new FileQueueStore(file);
+      await store.load();
+      await store.append('orders', message('1', { at: new Date(0), raw: Buffer.from('x') }));
+      await store.append('orders', message('2'));
+      await store.append('payments', message('3'));
+      await store.remove('orders', '1');
+      await store.close();
+
+      const reopened = new FileQueueStore(file);
+      const entries = await reopened.load();
+
+      expect(entries.map(e => [e.topic, e.message.id])).toEqual([
+        ['orders', '2'],
+        ['payments', '3'],
+      ]);
+      await reopened.close();
+    });
+
+    it('should round-trip Dates and binary payloads', async () => {
+      const store = new FileQueueStore(file);
+      await store.append('orders', message('1', { at: new Date(5), raw: Buffer.from('x') }));
+      await store.close();
+
+      const reopened = new FileQueueStore(file);
+      const [entry] = await reopened.load();
+      await reopened.close();
+
+      expect(entry?.message.payload).toEqual({ at: new Date(5), raw: Buffer.from('x') });
+    });
+
+    it('should ignore a torn last line and compact the log on load', async () => {
+      const store = new FileQueueStore(file);
+      await store.append('orders', message('1'));
+      await store.append('orders', message('2'));
+      await store.remove('orders', '1');
+      await store.close();
+      await fs.appendFile(file, '{"op":"append","topic":"orders","da');
+
+      const reopened = new FileQueueStore(file);
+      const entries = await reopened.load();
+      await reopened.close();
+      const lines = (await fs.readFile(file, 'utf8')).trim().split('\n');
+
+      expect(entries.map(e => e.message.id)).toEqual(['2']);
+      expect(lines).toHaveLength(1);
+    });
+
+    it('should compact after compactThreshold removals', async () => {
+      const store = new FileQueueStore(file, { compactThreshold: 2, fsync: false });
+      await store.append('orders', message('1'));
+      await store.append('orders', message('2'));
+      await store.append('orders', message('3'));
+      await store.remove('orders', '1');
+      await store.remove('orders', '2');
+      await store.close();
+
+      const lines = (await fs.readFile(file, 'utf8')).trim().split('\n');
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0]!).topic).toBe('orders');
+    });
+
+    it('should clear a single topic', async () => {
+      const store = new FileQueueStore(file);
+      await store.append('orders', message('1'));
+      await store.append('payments', message('2'));
+      await store.clear('orders');
+      await store.close();
+
+      const reopened = new FileQueueStore(file);
+      const entries = await reopened.load();
+      await reopened.close();
+      expect(entries.map(e => e.topic)).toEqual(['payments']);
+    });
+  });
+
+  describe('UniversalMessageQueue', () => {
+    it('should refuse a log another store is using until it is closed', async () => {
+      const store = new FileQueueStore(file);
+      await store.load();
+      const other = new FileQueueStore(file);
+
+      await expect(other.load()).rejects.toThrow(`locked by process ${process.pid}`);
+      await expect(other.append('orders', message('1'))).rejects.toThrow('locked');
+      await store.close();
+      expect(await other.load()).toEqual([]);
+      await other.close();
+    });
+
+    it('should take over a lock left by a process that stopped', async () => {
+      await fs.writeFile(`${file}.lock`, '999999999');
+      const store = new FileQueueStore(file);
+
+      expect(await store.load()).toEqual([]);
+      expect(await fs.readFile(`${file}.lock`, 'utf8')).toBe(String(process.pid));
+      await store.close();
+      await expect(fs.access(`${file}.lock`)).rejects.toMatchObject({ code: 'ENOENT' });
+    });
+
+    it('should keep dequeued messages stored until acknowledged', async () => {
+      const store = new InMemoryQueueStore();
+      const queue = new UniversalMessageQueue({ store });
+      await queue.enqueue('orders', message('1'));
+      await queue.enqueue('orders', message('2'));
+
+      const first = await queue.dequeue('orders');
+      await queue.acknowledge('orders', first!);
+      await queue.dequeue('orders');
+
+      const restored = new UniversalMessageQueue({ store });
+      await restored.restore();
+      expect(restored.getQueueSize('orders')).toBe(1);
+      expect((await restored.dequeue('orders'))?.id).toBe('2');
+    });
+  });
+
+  describe('UniversalMessageManager', () => {
+    let adapter: any;
+
+    const createConfig = (persistence = true): IBrokerConfig => ({
+      type: 'redis',
+      connection: {},
+      features: { persistence },
+      persistence: { path: file },
+    });
+
+    beforeEach(() => {
+      adapter = {
+        connect: jest.fn().mockResolvedValue(undefined),
+        disconnect: jest.fn().mockResolvedValue(undefined),
+        publish: jest.fn().mockResolvedValue(undefined),
+        subscribe: jest.fn().mockResolvedValue('sub-123'),
+        unsubscribe: jest.fn().mockResolvedValue(true),
+        isConnected: jest.fn().mockReturnValue(true),
+        getType: jest.fn().mockReturnValue('redis'),
+      };
+    });
+
+    it('should flush messages queued before a crash after restarting', async () => {
+      // The first run queues messages but never connects, as if it crashed
+      const crashed = new UniversalMessageManager(adapter, createConfig());
+      await crashed.publish('orders', { n: 1 });
+      await crashed.publish('audit', { n: 2 });
+      // Release the log without flushing, as the crashed process would have
+      await (crashed as any).messageQueue.close();
+
+      const restarted = new UniversalMessageManager(adapter, createConfig());
+      await restarted.connect();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await restarted.disconnect();
+
+      expect(adapter.publish).toHaveBeenCalledTimes(2);
+      expect(adapter.publish).toHaveBeenCalledWith(
+        'orders',
+        expect.objectContaining({ payload: { n: 1 } })
+      );
+      expect(adapter.publish).toHaveBeenCalledWith(
+        'audit',
+        expect.objectContaining({ payload: { n: 2 } })
+      );
+      const store = new FileQueueStore(file);
+      expect(await store.load()).toEqual([]);
+      await store.close();
+    });
+
+    it('should not touch the file system without features.persistence', async () => {
+      const manager = new UniversalMessageManager(adapter, createConfig(false));
+      await manager.publish('orders', {});
+      await manager.disconnect();
+
+      await expect(fs.access(file)).rejects.toMatchObject({ code: 'ENOENT' });
+    });
+
+    it('should reject publishes when a persistent queue is full', async () => {
+      const manager = new UniversalMessageManager(adapter, {
+        ...createConfig(),
+        performance: { maxQueueSize: 1 },
+        persistence: { store: new InMemoryQueueStore() },
+      });
+
+      await manager.publish('orders', {});
+      await expect(manager.publish('orders', {})).rejects.toMatchObject({
+        type: ErrorType.PUBLISH_ERROR,
+      });
+      await manager.disconnect();
+    });
+  });
+});
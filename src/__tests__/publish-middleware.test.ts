@@ -0,0 +1,91 @@
+/**
+ * Tests for publish-side middleware
+ */
+
+import { UniversalMessageManager } from '../universal/message.manager';
+import { InMemoryAdapter } from '../adapter/memory';
+import { ErrorType, IBrokerConfig, IMessage } from '../types';
+
+describe('Publish middleware', () => {
+  let adapter: InMemoryAdapter;
+  let manager: UniversalMessageManager;
+  const config: IBrokerConfig = { type: 'memory', connection: {} };
+
+  beforeEach(async () => {
+    adapter = new InMemoryAdapter(config);
+    manager = new UniversalMessageManager(adapter, config);
+    await manager.connect();
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  it('should run in order and rewrite queued and immediate messages once', async () => {
+    const calls: string[] = [];
+    manager.addPublishMiddleware(async (message, next, topic) => {
+      calls.push(`first:${topic}`);
+      await next({ ...message, headers: { ...message.headers, tenant: 'acme' } });
+    });
+    manager.addPublishMiddleware(async (message, next) => {
+      calls.push(`second:${message.headers?.tenant}`);
+      await next();
+    });
+
+    const received: IMessage[] = [];
+    const delivered = new Promise<void>(resolve => {
+      manager.subscribe('orders', message => {
+        received.push(message);
+        if (received.length === 2) resolve();
+      });
+    });
+    await manager.publish('orders', { n: 1 });
+    await manager.publishImmediate('orders', { n: 2 });
+    await delivered;
+
+    expect(calls).toEqual(['first:orders', 'second:acme', 'first:orders', 'second:acme']);
+    expect(received.map(message => message.headers)).toEqual([
+      { tenant: 'acme' },
+      { tenant: 'acme' },
+    ]);
+  });
+
+  it('should reject messages a middleware throws for and drop those it skips', async () => {
+    manager.addPublishMiddleware(async (message, next) => {
+      if (message.payload === 'forbidden') throw new Error('Quota exceeded');
+      if (message.payload === 'noise') return;
+      await next();
+    });
+    const callback = jest.fn();
+    await manager.subscribe('orders', callback);
+
+    await expect(manager.publishImmediate('orders', 'forbidden')).rejects.toThrow('Quota exceeded');
+    await manager.publishImmediate('orders', 'noise');
+    const results = await manager.publishBatch('orders', ['ok', 'forbidden', 'noise']);
+    await adapter.drain();
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(results.map(result => result.success)).toEqual([true, false, false]);
+    expect(results[1]!.error?.message).toBe('Quota exceeded');
+    expect(results[2]!.error).toMatchObject({ type: ErrorType.PUBLISH_ERROR });
+  });
+
+  it('should apply to transactions, requests and replies', async () => {
+    manager.addPublishMiddleware(async (message, next) => {
+      await next({ ...message, metadata: { ...message.metadata, stamped: true } });
+    });
+
+    await manager.reply('users.lookup', message => ({
+      stamped: message.metadata?.stamped,
+    }));
+    const reply = await manager.request('users.lookup', { userId: 1 }, { timeout: 1000 });
+    expect(reply.payload).toEqual({ stamped: true });
+    expect(reply.metadata).toEqual({ stamped: true });
+
+    const callback = jest.fn();
+    await manager.subscribe('audit', callback);
+    await manager.transaction(tx => tx.publish('audit', { n: 1 }));
+    await adapter.drain();
+    expect(callback.mock.calls[0][0].metadata).toEqual({ stamped: true });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for event-driven flushing of the outbound queue
+ */
+
+import { UniversalQueueDispatcher } from '../universal/queue.dispatcher';
+import { UniversalMessageQueue } from '../universal/message.queue';
+import { UniversalMessageManager } from '../universal/message.manager';
+import { FakeClock } from '../utils/clock';
+import { IMessage } from '../types';
+import { message, settle } from './helpers';
+
+describe('UniversalQueueDispatcher', () => {
+  let clock: FakeClock;
+  let queue: UniversalMessageQueue;
+  let batches: Array<[string, string[]]>;
+  let publisher: jest.Mock;
+
+  const createDispatcher = (options = {}) =>
+    new UniversalQueueDispatcher(queue, publisher, { clock, ...options });
+
+  const enqueue = async (dispatcher: UniversalQueueDispatcher, topic: string, ...ids: string[]) => {
+    for (const id of ids) {
+      await queue.enqueue(topic, message(id));
+    }
+    dispatcher.notify();
+  };
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    queue = new UniversalMessageQueue();
+    batches = [];
+    publisher = jest.fn(async (topic: string, messages: IMessage[]) => {
+      batches.push([topic, messages.map(m => m.id)]);
+      return messages.length;
+    });
+  });
+
+  it('should stay idle without timers while the queue is empty', async () => {
+    const dispatcher = createDispatcher({ flushInterval: 10 });
+    dispatcher.start();
+
+    expect(clock.getPendingTimers()).toBe(0);
+
+    await enqueue(dispatcher, 'orders', '1');
+    clock.advance(10);
+    await settle();
+
+    expect(clock.getPendingTimers()).toBe(0);
+    await dispatcher.stop();
+  });
+
+  it('should wait flushInterval for a batch to fill', async () => {
+    const dispatcher = createDispatcher({ batchSize: 10, flushInterval: 50 });
+    dispatcher.start();
+
+    await enqueue(dispatcher, 'orders', '1', '2');
+    clock.advance(49);
+    await settle();
+    expect(publisher).not.toHaveBeenCalled();
+
+    clock.advance(1);
+    await settle();
+    expect(batches).toEqual([['orders', ['1', '2']]]);
+    await dispatcher.stop();
+  });
+
+  it('should flush at once when batchSize messages are pending', async () => {
+    const dispatcher = createDispatcher({ batchSize: 2, flushInterval: 1000 });
+    dispatcher.start();
+
+    await enqueue(dispatcher, 'orders', '1', '2', '3');
+    clock.advance(0);
+    await settle();
+
+    expect(batches).toEqual([
+      ['orders', ['1', '2']],
+      ['orders', ['3']],
+    ]);
+    await dispatcher.stop();
+  });
+
+  it('should flush topics independently', async () => {
+    const dispatcher = createDispatcher();
+    dispatcher.start();
+
+    await enqueue(dispatcher, 'orders', '1');
+    await enqueue(dispatcher, 'audit', '2');
+    clock.advance(0);
+    await settle();
+
+    expect(batches).toEqual(
+      expect.arrayContaining([
+        ['orders', ['1']],
+        ['audit', ['2']],
+      ])
+    );
+    await dispatcher.stop();
+  });
+
+  it('should requeue unpublished messages in order and retry after retryDelay', async () => {
+    publisher.mockImplementationOnce(async () => 1);
+    const dispatcher = createDispatcher({ retryDelay: 100 });
+    dispatcher.start();
+
+    await enqueue(dispatcher, 'orders', '1', '2', '3');
+    clock.advance(0);
+    await settle();
+    expect(queue.getQueueSize('orders')).toBe(2);
+
+    clock.advance(100);
+    await settle();
+    expect(batches).toEqual([['orders', ['2', '3']]]);
+    expect(queue.getQueueSize('orders')).toBe(0);
+    await dispatcher.stop();
+  });
+
+  it('should skip unavailable topics', async () => {
+    let available = false;
+    const dispatcher = createDispatcher({ retryDelay: 100, isAvailable: () => available });
+    dispatcher.start();
+
+    await enqueue(dispatcher, 'orders', '1');
+    clock.advance(0);
+    await settle();
+    expect(publisher).not.toHaveBeenCalled();
+
+    available = true;
+    clock.advance(100);
+    await settle();
+    expect(batches).toEqual([['orders', ['1']]]);
+    await dispatcher.stop();
+  });
+});
+
+describe('UniversalMessageManager queue flushing', () => {
+  it('should publish to topics without a local subscription', async () => {
+    const adapter: any = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn().mockResolvedValue(undefined),
+      publish: jest.fn().mockResolvedValue(undefined),
+      subscribe: jest.fn().mockResolvedValue('sub-123'),
+      unsubscribe: jest.fn().mockResolvedValue(true),
+      isConnected: jest.fn().mockReturnValue(true),
+      getType: jest.fn().mockReturnValue('redis'),
+    };
+    const manager = new UniversalMessageManager(adapter, { type: 'redis', connection: {} });
+    await manager.connect();
+
+    await manager.publish('audit', { n: 1 });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(adapter.publish).toHaveBeenCalledWith(
+      'audit',
+      expect.objectContaining({ payload: { n: 1 } })
+    );
+    await manager.disconnect();
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Tests for raw envelope mode, used to interoperate with foreign producers and consumers
+ */
+
+import { UniversalMessageManager } from '../universal/message.manager';
+import { InMemoryAdapter } from '../adapter/memory';
+import { KafkaAdapter } from '../adapter/kafka';
+import { RedisAdapter } from '../adapter/redis';
+import { IBrokerConfig, IMessage } from '../types';
+
+describe('Raw envelope mode', () => {
+  describe('with the in-memory adapter', () => {
+    let manager: UniversalMessageManager;
+    let adapter: InMemoryAdapter;
+
+    beforeEach(async () => {
+      const config: IBrokerConfig = { type: 'memory', connection: {} };
+      adapter = new InMemoryAdapter(config);
+      manager = new UniversalMessageManager(adapter, config);
+      await manager.connect();
+    });
+
+    afterEach(async () => {
+      await manager.disconnect();
+    });
+
+    it('should publish only the payload and headers', async () => {
+      await manager.publishImmediate(
+        'legacy.orders',
+        { orderId: 7 },
+        { envelope: 'raw', headers: { source: 'shop' }, metadata: { key: 'order-7' } }
+      );
+
+      const [record] = adapter.getRecords('legacy.orders');
+      expect(JSON.parse(record!.data.toString())).toEqual({ orderId: 7 });
+      expect(record?.key).toBe('order-7');
+      expect(record?.headers).toEqual({ 'content-type': 'application/json', source: 'shop' });
+    });
+
+    it('should wrap raw records with synthesized fields and native metadata', async () => {
+      const received: IMessage[] = [];
+      await manager.subscribe('legacy.orders', msg => received.push(msg), { envelope: 'raw' });
+
+      await manager.publishImmediate('legacy.orders', 'hello', {
+        envelope: 'raw',
+        headers: { source: 'shop' },
+        metadata: { key: 'k1' },
+      });
+      await adapter.drain();
+
+      expect(received).toHaveLength(1);
+      expect(received[0]).toMatchObject({
+        id: 'legacy.orders:0:0',
+        type: 'legacy.orders',
+        payload: 'hello',
+        headers: { 'content-type': 'text/plain', source: 'shop' },
+        metadata: {
+          envelope: 'raw',
+          topic: 'legacy.orders',
+          key: 'k1',
+          offset: '0',
+          partition: '0',
+        },
+      });
+      expect(typeof received[0]?.timestamp).toBe('number');
+    });
+
+    it('should keep binary payloads as Buffers', async () => {
+      const received: IMessage[] = [];
+      await adapter.subscribe(
+        'blobs',
+        msg => {
+          received.push(msg);
+        },
+        { envelope: 'raw' }
+      );
+
+      await manager.publishImmediate('blobs', Buffer.from([1, 2, 3]), { envelope: 'raw' });
+      await adapter.drain();
+
+      expect(received[0]?.payload).toEqual(Buffer.from([1, 2, 3]));
+    });
+  });
+
+  describe('with the Kafka adapter', () => {
+    let adapter: KafkaAdapter;
+    let producer: any;
+    let eachMessage: (args: any) => Promise<void>;
+
+    beforeEach(async () => {
+      producer = { connect: jest.fn(), send: jest.fn() };
+      const consumer = {
+        connect: jest.fn(),
+        subscribe: jest.fn(),
+        run: jest.fn(async (options: any) => (eachMessage = options.eachMessage)),
+      };
+      const kafkaJS = jest.fn().mockImplementation(() => ({
+        producer: () => producer,
+        consumer: () => consumer,
+      }));
+      adapter = new KafkaAdapter({ type: 'kafka', connection: {} }, kafkaJS);
+      await adapter.connect();
+    });
+
+    it('should deliver foreign records instead of dropping them', async () => {
+      const callback = jest.fn();
+      await adapter.subscribe('payments', callback, { envelope: 'raw' });
+
+      await eachMessage({
+        topic: 'payments',
+        partition: 2,
+        message: {
+          key: Buffer.from('customer-1'),
+          value: Buffer.from('{"amount":42}'),
+          offset: '15',
+          timestamp: '1700000000000',
+          headers: { 'content-type': Buffer.from('application/json'), trace: Buffer.from('t1') },
+        },
+      });
+
+      expect(callback).toHaveBeenCalledWith(
+        {
+          id: 'payments:2:15',
+          type: 'payments',
+          payload: { amount: 42 },
+          timestamp: 1700000000000,
+          headers: { 'content-type': 'application/json', trace: 't1' },
+          partition: '2',
+          metadata: {
+            envelope: 'raw',
+            topic: 'payments',
+            key: 'customer-1',
+            headers: { 'content-type': 'application/json', trace: 't1' },
+            offset: '15',
+            partition: '2',
+          },
+        },
+        expect.anything()
+      );
+    });
+
+    it('should send the bare payload with the message key from metadata', async () => {
+      await adapter.publish('payments', {
+        id: 'msg-1',
+        type: 'payments',
+        payload: { amount: 42 },
+        timestamp: 0,
+        headers: { trace: 't1' },
+        metadata: { key: 'customer-1' },
+        envelope: 'raw',
+      });
+
+      expect(producer.send).toHaveBeenCalledWith({
+        topic: 'payments',
+        messages: [
+          {
+            key: 'customer-1',
+            value: Buffer.from('{"amount":42}'),
+            partition: undefined,
+            headers: { 'content-type': 'application/json', trace: 't1' },
+          },
+        ],
+      });
+    });
+  });
+
+  describe('with the Redis adapter', () => {
+    it('should deliver foreign channel messages as Buffers', async () => {
+      const listeners: Record<string, (...args: any[]) => void> = {};
+      const client = {
+        subscribe: jest.fn(),
+        on: jest.fn((event: string, listener: any) => (listeners[event] = listener)),
+      };
+      const Redis = jest.fn().mockImplementation(() => client);
+      const adapter = new RedisAdapter({ type: 'redis', connection: {} }, Redis as any);
+      await adapter.connect();
+      const callback = jest.fn();
+      await adapter.subscribe('events', callback, { envelope: 'raw' });
+
+      listeners['messageBuffer']?.(Buffer.from('events'), Buffer.from('plain text'));
+
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'events',
+          payload: Buffer.from('plain text'),
+          metadata: { envelope: 'raw', topic: 'events' },
+        }),
+        expect.anything()
+      );
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Tests for RedisStreamsAdapter
+ */
+
+import { RedisStreamsAdapter } from '../adapter/redis-streams';
+import { MessageBrokerFactory } from '../factory/message.broker';
+import { ErrorType, IBrokerConfig, IMessage } from '../types';
+import { message, settle } from './helpers';
+
+const toBuffers = (values: unknown[]) =>
+  values.map(value => (Buffer.isBuffer(value) ? value : Buffer.from(String(value))));
+
+describe('RedisStreamsAdapter', () => {
+  let client: any;
+  let readers: any[];
+  let reads: unknown[];
+  let claims: unknown[];
+  let adapter: RedisStreamsAdapter;
+  let Redis: jest.Mock;
+  const config: IBrokerConfig = { type: 'redis-streams', connection: {} };
+
+  const createReader = () => {
+    let abort: ((error: Error) => void) | undefined;
+    const reader = {
+      callBuffer: jest.fn((command: string) => {
+        if (command === 'XAUTOCLAIM') {
+          return Promise.resolve(claims.shift() || [Buffer.from('0-0'), []]);
+        }
+        if (reads.length > 0) return Promise.resolve(reads.shift());
+        // Blocks until the connection is closed, like XREADGROUP BLOCK
+        return new Promise((_, reject) => (abort = reject));
+      }),
+      disconnect: jest.fn(() => abort?.(new Error('Connection is closed.'))),
+    };
+    readers.push(reader);
+    return reader;
+  };
+
+  // Encodes a message the way the adapter writes it, as a stream entry
+  const entry = async (id: string, msg: IMessage) => {
+    await adapter.publish('orders', msg);
+    const args: unknown[] = client.xadd.mock.calls.pop();
+    return [Buffer.from(id), toBuffers(args.slice(args.indexOf('*') + 1))];
+  };
+
+  beforeEach(async () => {
+    readers = [];
+    reads = [];
+    claims = [];
+    client = {
+      xadd: jest.fn().mockResolvedValue('1-0'),
+      xgroup: jest.fn().mockResolvedValue('OK'),
+      xack: jest.fn().mockResolvedValue(1),
+      quit: jest.fn().mockResolvedValue('OK'),
+      status: 'ready',
+    };
+    let connections = 0;
+    Redis = jest.fn().mockImplementation(() => (connections++ === 0 ? client : createReader()));
+    adapter = new RedisStreamsAdapter(config, Redis as any, { maxLen: 1000, consumerName: 'test' });
+    await adapter.connect();
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  it('should XADD with approximate MAXLEN trimming and a content type', async () => {
+    await adapter.publish('orders', message('1', { n: 1 }));
+
+    expect(client.xadd).toHaveBeenCalledWith(
+      'orders',
+      'MAXLEN',
+      '~',
+      1000,
+      '*',
+      'data',
+      expect.any(Buffer),
+      'content-type',
+      'application/json'
+    );
+  });
+
+  it('should create the consumer group and tolerate an existing one', async () => {
+    client.xgroup.mockRejectedValueOnce(new Error('BUSYGROUP Consumer Group name already exists'));
+
+    await adapter.subscribe('orders', jest.fn(), { consumerGroup: 'billing' });
+
+    expect(client.xgroup).toHaveBeenCalledWith('CREATE', 'orders', 'billing', '$', 'MKSTREAM');
+  });
+
+  it('should read through the group and XACK after the callback', async () => {
+    reads.push([[Buffer.from('orders'), [await entry('5-0', message('1', { n: 1 }))]]]);
+    const callback = jest.fn();
+
+    await adapter.subscribe('orders', callback, { consumerGroup: 'billing' });
+    await settle();
+
+    expect(readers[0].callBuffer).toHaveBeenCalledWith(
+      'XREADGROUP',
+      'GROUP',
+      'billing',
+      'test-1',
+      'COUNT',
+      10,
+      'BLOCK',
+      5000,
+      'STREAMS',
+      'orders',
+      '>'
+    );
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({ id: '1', payload: { n: 1 } }),
+      expect.anything()
+    );
+    expect(client.xack).toHaveBeenCalledWith('orders', 'billing', '5-0');
+  });
+
+  it('should leave entries pending when the callback fails', async () => {
+    reads.push([[Buffer.from('orders'), [await entry('5-0', message('1'))]]]);
+
+    await adapter.subscribe('orders', jest.fn().mockRejectedValue(new Error('boom')), {
+      consumerGroup: 'billing',
+    });
+    await settle();
+
+    expect(client.xack).not.toHaveBeenCalled();
+  });
+
+  describe('Undecodable entries', () => {
+    const garbage = () => [
+      Buffer.from('9-0'),
+      toBuffers(['data', '{not json', 'content-type', 'application/json']),
+    ];
+
+    it('should copy them to the dead-letter stream and XACK them', async () => {
+      await adapter.disconnect();
+      adapter = new RedisStreamsAdapter(
+        { ...config, deadLetterQueue: { enabled: true, maxRetries: 0, retryDelay: 0 } },
+        Redis as any,
+        { consumerName: 'test' }
+      );
+      Redis.mockImplementationOnce(() => client);
+      await adapter.connect();
+      reads.push([[Buffer.from('orders'), [garbage()]]]);
+      const callback = jest.fn();
+
+      await adapter.subscribe('orders', callback, { consumerGroup: 'billing' });
+      await settle();
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(client.xadd).toHaveBeenCalledWith(
+        'orders.dlq',
+        '*',
+        Buffer.from('data'),
+        Buffer.from('{not json'),
+        Buffer.from('content-type'),
+        Buffer.from('application/json'),
+        'dlq-reason',
+        expect.any(String),
+        'dlq-attempts',
+        '1',
+        'dlq-original-topic',
+        'orders',
+        'dlq-failed-at',
+        expect.any(String)
+      );
+      expect(client.xack).toHaveBeenCalledWith('orders', 'billing', '9-0');
+      expect(console.error).toHaveBeenCalledWith(
+        'Failed to decode entry 9-0 from orders:',
+        expect.any(Error)
+      );
+    });
+
+    it('should leave them pending without a dead-letter queue', async () => {
+      reads.push([[Buffer.from('orders'), [garbage()]]]);
+
+      await adapter.subscribe('orders', jest.fn(), { consumerGroup: 'billing' });
+      await settle();
+
+      expect(client.xadd).not.toHaveBeenCalled();
+      expect(client.xack).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should reclaim idle pending entries with XAUTOCLAIM', async () => {
+    claims.push([Buffer.from('0-0'), [await entry('3-0', message('stale'))]]);
+    const callback = jest.fn();
+
+    await adapter.subscribe('orders', callback, { consumerGroup: 'billing' });
+    await settle();
+
+    expect(readers[0].callBuffer).toHaveBeenCalledWith(
+      'XAUTOCLAIM',
+      'orders',
+      'billing',
+      'test-1',
+      30000,
+      '0-0',
+      'COUNT',
+      10
+    );
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'stale' }),
+      expect.anything()
+    );
+    expect(client.xack).toHaveBeenCalledWith('orders', 'billing', '3-0');
+  });
+
+  it('should read from the last delivered id without a group', async () => {
+    reads.push([[Buffer.from('orders'), [await entry('7-0', message('1'))]]]);
+    const callback = jest.fn();
+
+    await adapter.subscribe('orders', callback);
+    await settle();
+
+    expect(readers[0].callBuffer).toHaveBeenNthCalledWith(
+      1,
+      'XREAD',
+      'COUNT',
+      10,
+      'BLOCK',
+      5000,
+      'STREAMS',
+      'orders',
+      '$'
+    );
+    expect(readers[0].callBuffer).toHaveBeenLastCalledWith(
+      'XREAD',
+      'COUNT',
+      10,
+      'BLOCK',
+      5000,
+      'STREAMS',
+      'orders',
+      '7-0'
+    );
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(client.xack).not.toHaveBeenCalled();
+  });
+
+  it('should stop reading and close the connection on unsubscribe', async () => {
+    const subscriptionId = await adapter.subscribe('orders', jest.fn(), {
+      consumerGroup: 'billing',
+    });
+    await settle();
+
+    expect(await adapter.unsubscribe(subscriptionId)).toBe(true);
+    expect(readers[0].disconnect).toHaveBeenCalled();
+  });
+
+  it('should reject topic patterns', async () => {
+    await expect(adapter.subscribe('orders.*', jest.fn())).rejects.toMatchObject({
+      type: ErrorType.SUBSCRIPTION_ERROR,
+    });
+    expect(readers).toHaveLength(0);
+  });
+
+  it('should be created by the factory as redis-streams', async () => {
+    const manager = await MessageBrokerFactory.create(config, {
+      redis: jest.fn().mockImplementation(() => client),
+    });
+
+    expect(manager.getBrokerType()).toBe('redis-streams');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for request/reply on UniversalMessageManager
+ */
+
+import { UniversalMessageManager } from '../universal/message.manager';
+import { InMemoryAdapter } from '../adapter/memory';
+import { NATSAdapter } from '../adapter/nats';
+import { REPLY_TO_HEADER, CORRELATION_ID_HEADER } from '../universal/request.tracker';
+import { BrokerError, ErrorType, IBrokerConfig, IMessage } from '../types';
+
+describe('Request/Reply', () => {
+  describe('Emulated (in-memory)', () => {
+    let manager: UniversalMessageManager;
+
+    beforeEach(async () => {
+      const config: IBrokerConfig = { type: 'memory', connection: {}, clientId: 'rpc-test' };
+      manager = new UniversalMessageManager(new InMemoryAdapter(config), config);
+      await manager.connect();
+    });
+
+    afterEach(async () => {
+      await manager.disconnect();
+    });
+
+    it('should resolve with the reply payload', async () => {
+      await manager.reply<{ a: number; b: number }, number>(
+        'math.add',
+        msg => msg.payload.a + msg.payload.b
+      );
+
+      const reply = await manager.request<number>('math.add', { a: 2, b: 3 });
+
+      expect(reply.payload).toBe(5);
+      expect(reply.headers?.[CORRELATION_ID_HEADER]).toMatch(/^msg_/);
+    });
+
+    it('should route concurrent replies by correlation ID', async () => {
+      await manager.reply<number, number>('math.double', async msg => {
+        await new Promise(resolve => setTimeout(resolve, 10 - msg.payload));
+        return msg.payload * 2;
+      });
+
+      const replies = await Promise.all(
+        [1, 2, 3].map(n => manager.request<number>('math.double', n))
+      );
+
+      expect(replies.map(r => r.payload)).toEqual([2, 4, 6]);
+    });
+
+    it('should time out with TIMEOUT_ERROR when nobody replies', async () => {
+      const error = await manager.request('nobody.home', {}, { timeout: 20 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(BrokerError);
+      expect(error.type).toBe(ErrorType.TIMEOUT_ERROR);
+    });
+
+    it('should reject with REQUEST_ERROR when the handler throws', async () => {
+      await manager.reply('math.fail', () => {
+        throw new Error('division by zero');
+      });
+
+      const error = await manager.request('math.fail', {}).catch(e => e);
+
+      expect(error).toBeInstanceOf(BrokerError);
+      expect(error.type).toBe(ErrorType.REQUEST_ERROR);
+      expect(error.message).toBe('division by zero');
+    });
+
+    it('should time out without an unhandled rejection when the send is slower', async () => {
+      const unhandled = jest.fn();
+      process.on('unhandledRejection', unhandled);
+      const adapter = (manager as any).adapter;
+      const publish = adapter.publish.bind(adapter);
+      jest.spyOn(adapter, 'publish').mockImplementation(async (...args: any[]) => {
+        await new Promise(resolve => setTimeout(resolve, 40));
+        return publish(...args);
+      });
+
+      const error = await manager.request('slow.send', {}, { timeout: 10 }).catch(e => e);
+      await new Promise(resolve => setImmediate(resolve));
+      process.off('unhandledRejection', unhandled);
+
+      expect(error).toBeInstanceOf(BrokerError);
+      expect(error.type).toBe(ErrorType.TIMEOUT_ERROR);
+      expect(unhandled).not.toHaveBeenCalled();
+    });
+
+    it('should reject pending requests on disconnect', async () => {
+      const pending = manager.request('slow', {}, { timeout: 1000 });
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await manager.disconnect();
+
+      await expect(pending).rejects.toMatchObject({ type: ErrorType.CONNECTION_ERROR });
+      await manager.connect();
+    });
+  });
+
+  describe('Native (NATS)', () => {
+    let manager: UniversalMessageManager;
+    let connection: any;
+
+    const codec = {
+      encode: (s: string) => Buffer.from(s),
+      decode: (b: Buffer) => b.toString(),
+    };
+
+    beforeEach(async () => {
+      connection = {
+        publish: jest.fn(),
+        request: jest.fn(),
+        close: jest.fn().mockResolvedValue(undefined),
+        isClosed: jest.fn().mockReturnValue(false),
+      };
+      const nats = {
+        connect: jest.fn().mockResolvedValue(connection),
+        StringCodec: () => codec,
+        headers: () => new Map<string, string>(),
+      };
+      const config: IBrokerConfig = { type: 'nats', connection: {} };
+      manager = new UniversalMessageManager(new NATSAdapter(config, nats), config);
+      await manager.connect();
+    });
+
+    afterEach(async () => {
+      await manager.disconnect();
+    });
+
+    it('should use the native request mechanism', async () => {
+      connection.request.mockImplementation(async (_subject: string, data: Buffer) => {
+        const request: IMessage = JSON.parse(data.toString());
+        const reply = {
+          id: 'r',
+          type: 'reply',
+          payload: 'pong',
+          timestamp: 0,
+          headers: request.headers,
+        };
+        return { data: codec.encode(JSON.stringify(reply)) };
+      });
+
+      const reply = await manager.request('ping', {}, { timeout: 250 });
+
+      expect(reply.payload).toBe('pong');
+      expect(connection.request).toHaveBeenCalledWith(
+        'ping',
+        expect.anything(),
+        expect.objectContaining({ timeout: 250 })
+      );
+      expect(connection.request.mock.calls[0][2].headers.get('content-type')).toBe(
+        'application/json'
+      );
+      const sent = JSON.parse(connection.request.mock.calls[0][1].toString());
+      expect(sent.headers[REPLY_TO_HEADER]).toBeUndefined();
+    });
+
+    it('should map NATS timeouts to TIMEOUT_ERROR', async () => {
+      connection.request.mockRejectedValue(
+        Object.assign(new Error('TIMEOUT'), { code: 'TIMEOUT' })
+      );
+
+      await expect(manager.request('ping', {})).rejects.toMatchObject({
+        type: ErrorType.TIMEOUT_ERROR,
+        brokerType: 'nats',
+      });
+    });
+  });
+});
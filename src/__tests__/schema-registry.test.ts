@@ -0,0 +1,298 @@
+/**
+ * Tests for JSON Schema validation and the schema registry
+ */
+
+import { validateJsonSchema, checkJsonSchema, findIncompatibilities } from '../utils/json.schema';
+import { SchemaRegistry, SCHEMA_VERSION_HEADER } from '../universal/schema.registry';
+import { ValidationHandler } from '../handlers/validation.handler';
+import { UniversalMessageManager } from '../universal/message.manager';
+import { InMemoryAdapter } from '../adapter/memory';
+import { DLQ_ATTEMPTS_HEADER, DLQ_REASON_HEADER } from '../universal/message.queue';
+import { ErrorType, IBrokerConfig, IMessage, JsonSchema, SchemaValidationError } from '../types';
+
+const orderSchema: JsonSchema = {
+  type: 'object',
+  required: ['orderId', 'items'],
+  properties: {
+    orderId: { type: 'string', pattern: '^o-\\d+$' },
+    items: {
+      type: 'array',
+      minItems: 1,
+      items: { $ref: '#/$defs/item' },
+    },
+    status: { enum: ['new', 'paid'] },
+  },
+  additionalProperties: false,
+  $defs: {
+    item: {
+      type: 'object',
+      required: ['sku', 'quantity'],
+      properties: {
+        sku: { type: 'string' },
+        quantity: { type: 'integer', minimum: 1 },
+      },
+    },
+  },
+};
+
+function message(payload: unknown, headers?: Record<string, string>): IMessage {
+  return { id: 'msg-1', type: 'orders.created', payload, timestamp: 0, headers };
+}
+
+describe('validateJsonSchema', () => {
+  it('should accept a valid value', () => {
+    const order = { orderId: 'o-1', items: [{ sku: 'a', quantity: 2 }], status: 'new' };
+    expect(validateJsonSchema(orderSchema, order)).toEqual([]);
+  });
+
+  it('should report every violation with its path', () => {
+    const order = {
+      orderId: 'x-1',
+      items: [{ sku: 'a', quantity: 0 }, { quantity: 1.5 }],
+      status: 'shipped',
+      note: 'hi',
+    };
+
+    expect(validateJsonSchema(orderSchema, order)).toEqual([
+      { path: 'payload.orderId', message: 'must match pattern ^o-\\d+$' },
+      { path: 'payload.items[0].quantity', message: 'must be >= 1' },
+      { path: 'payload.items[1].sku', message: 'is required' },
+      { path: 'payload.items[1].quantity', message: 'must be integer' },
+      { path: 'payload.status', message: 'must be one of ["new","paid"]' },
+      { path: 'payload.note', message: 'is not allowed' },
+    ]);
+  });
+
+  it('should check strings, numbers, tuples and composition keywords', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        'e-mail': { type: 'string', format: 'email', maxLength: 20 },
+        price: { type: 'number', exclusiveMinimum: 0, multipleOf: 0.01 },
+        point: {
+          type: 'array',
+          prefixItems: [{ type: 'number' }, { type: 'number' }],
+          items: false,
+        },
+        tags: { type: 'array', uniqueItems: true },
+        id: { oneOf: [{ type: 'string' }, { type: 'integer' }] },
+        code: { anyOf: [{ const: 'A' }, { const: 'B' }], not: { const: 'B' } },
+      },
+    };
+
+    expect(validateJsonSchema(schema, { price: 0.3, point: [1, 2], id: 7, code: 'A' })).toEqual([]);
+    expect(
+      validateJsonSchema(schema, {
+        'e-mail': 'nobody',
+        price: 0,
+        point: [1, 2, 3],
+        tags: ['a', 'b', 'a'],
+        id: null,
+        code: 'B',
+      })
+    ).toEqual([
+      { path: 'payload["e-mail"]', message: 'must be a valid email' },
+      { path: 'payload.price', message: 'must be > 0' },
+      { path: 'payload.point[2]', message: 'is not allowed' },
+      { path: 'payload.tags', message: 'must not contain duplicates, items 0 and 2 are equal' },
+      { path: 'payload.id', message: 'must match exactly one schema in oneOf, matched 0' },
+      { path: 'payload.code', message: 'must not match the schema in not' },
+    ]);
+  });
+
+  it('should reject malformed schemas', () => {
+    expect(() => checkJsonSchema(orderSchema)).not.toThrow();
+    expect(() => checkJsonSchema({ type: 'text' as never })).toThrow('Unknown type text at #');
+    expect(() => checkJsonSchema({ properties: { name: { pattern: '(' } } })).toThrow(
+      /Invalid pattern \( at #\/properties\/name\/pattern/
+    );
+    expect(() => checkJsonSchema({ items: { $ref: '#/$defs/missing' } })).toThrow(
+      'Unresolved $ref #/$defs/missing'
+    );
+  });
+});
+
+describe('findIncompatibilities', () => {
+  const v1: JsonSchema = {
+    type: 'object',
+    required: ['orderId'],
+    properties: { orderId: { type: 'string' }, total: { type: 'number' } },
+  };
+
+  it('should accept added optional properties and widened constraints', () => {
+    const v2: JsonSchema = {
+      type: 'object',
+      required: ['orderId'],
+      properties: {
+        orderId: { type: ['string', 'null'] },
+        total: { type: 'number' },
+        note: { type: 'string' },
+      },
+    };
+    expect(findIncompatibilities(v1, v2)).toEqual([]);
+  });
+
+  it('should report narrowed types, new required properties and tighter bounds', () => {
+    const v2: JsonSchema = {
+      type: 'object',
+      required: ['orderId', 'total'],
+      properties: { orderId: { type: 'integer' }, total: { type: 'number', minimum: 0 } },
+    };
+    expect(findIncompatibilities(v1, v2)).toEqual([
+      'payload.total became required',
+      'payload.orderId no longer accepts string',
+      'payload.total minimum raised to 0',
+    ]);
+  });
+});
+
+describe('SchemaRegistry', () => {
+  const v1: JsonSchema = {
+    type: 'object',
+    required: ['orderId'],
+    properties: { orderId: { type: 'string' } },
+  };
+  const v2: JsonSchema = {
+    type: 'object',
+    required: ['orderId'],
+    properties: { orderId: { type: 'string' }, total: { type: 'number' } },
+  };
+
+  it('should number versions and ignore re-registering the latest schema', () => {
+    const registry = new SchemaRegistry();
+
+    expect(registry.register('orders.created', v1)).toBe(1);
+    expect(registry.register('orders.created', v2)).toBe(2);
+    expect(registry.register('orders.created', v2)).toBe(2);
+    expect(registry.getVersions('orders.created')).toEqual([1, 2]);
+    expect(registry.get('orders.created', 1)).toBe(v1);
+    expect(registry.get('orders.created')).toBe(v2);
+    expect(registry.getLatestVersion('orders.shipped')).toBeUndefined();
+  });
+
+  it('should reject versions breaking the configured compatibility', () => {
+    const registry = new SchemaRegistry();
+    registry.register('orders.created', v2);
+    const v3: JsonSchema = { ...v2, required: ['orderId', 'total'] };
+
+    expect(() => registry.register('orders.created', v3)).toThrow(
+      'Schema v2 of orders.created is not backward compatible with v1: payload.total became required'
+    );
+    expect(registry.checkCompatibility('orders.created', v3, 'forward')).toEqual([]);
+    expect(registry.register('orders.created', v3, 'forward')).toBe(2);
+    expect(() =>
+      new SchemaRegistry().register('orders.created', { minimum: 'one' } as never)
+    ).toThrow('Invalid schema for orders.created: minimum at # must be a number');
+  });
+
+  it('should validate against the version named in the schema-version header', () => {
+    const registry = new SchemaRegistry({ compatibility: 'none' });
+    registry.register('orders.created', {
+      type: 'object',
+      properties: { total: { type: 'string' } },
+    });
+    registry.register('orders.created', {
+      type: 'object',
+      properties: { total: { type: 'number' } },
+    });
+
+    expect(registry.validate(message({ total: 5 }))).toEqual([]);
+    expect(registry.validate(message({ total: '5' }, { [SCHEMA_VERSION_HEADER]: '1' }))).toEqual(
+      []
+    );
+    expect(registry.validate(message({ total: 5 }, { [SCHEMA_VERSION_HEADER]: '1' }))).toEqual([
+      { path: 'payload.total', message: 'must be string' },
+    ]);
+    expect(registry.validate(message({}, { [SCHEMA_VERSION_HEADER]: '3' }))).toEqual([
+      { path: 'headers["schema-version"]', message: 'names unknown version 3' },
+    ]);
+    expect(registry.validate({ ...message({ total: 'x' }), type: 'orders.shipped' })).toEqual([]);
+  });
+
+  it('should throw a SchemaValidationError from the validation handler', async () => {
+    const registry = new SchemaRegistry();
+    registry.register('orders.created', orderSchema);
+    const handler = new ValidationHandler(registry, 'kafka');
+
+    await expect(handler.handle(message({ orderId: 'o-1', items: [] }))).rejects.toMatchObject({
+      name: 'SchemaValidationError',
+      type: ErrorType.VALIDATION_ERROR,
+      brokerType: 'kafka',
+      message:
+        'Message msg-1 of type orders.created failed schema validation: payload.items must have at least 1 items',
+      violations: [{ path: 'payload.items', message: 'must have at least 1 items' }],
+    });
+  });
+});
+
+describe('Schema validation in the manager', () => {
+  let adapter: InMemoryAdapter;
+  let manager: UniversalMessageManager;
+  const config: IBrokerConfig = {
+    type: 'memory',
+    connection: {},
+    deadLetterQueue: { enabled: true, maxRetries: 3, retryDelay: 1 },
+  };
+
+  beforeEach(async () => {
+    adapter = new InMemoryAdapter(config);
+    manager = new UniversalMessageManager(adapter, config);
+    const registry = new SchemaRegistry();
+    registry.register('orders.created', orderSchema);
+    manager.setSchemaRegistry(registry);
+    await manager.connect();
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  it('should stamp the schema version and reject invalid payloads on publish', async () => {
+    const callback = jest.fn();
+    await manager.subscribe('orders.created', callback);
+
+    await manager.publishImmediate('orders.created', {
+      orderId: 'o-1',
+      items: [{ sku: 'a', quantity: 1 }],
+    });
+    await expect(
+      manager.publishImmediate('orders.created', { orderId: 'o-2', items: [{ sku: 'a' }] })
+    ).rejects.toBeInstanceOf(SchemaValidationError);
+    await adapter.drain();
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback.mock.calls[0][0].headers).toEqual({ [SCHEMA_VERSION_HEADER]: '1' });
+  });
+
+  it('should fail only the invalid messages of a batch', async () => {
+    const results = await manager.publishBatch('orders.created', [
+      { orderId: 'o-1', items: [{ sku: 'a', quantity: 1 }] },
+      { orderId: 'o-2', items: [{ sku: 'a' }] },
+    ]);
+    await adapter.drain();
+
+    expect(results.map(result => result.success)).toEqual([true, false]);
+    expect(results[1]!.error).toBeInstanceOf(SchemaValidationError);
+    expect(adapter.getRecords('orders.created')).toHaveLength(1);
+  });
+
+  it('should dead-letter invalid consumed messages without retrying', async () => {
+    const callback = jest.fn();
+    await manager.subscribe('orders.created', callback);
+
+    await adapter.publish('orders.created', message({ orderId: 'o-1', items: [] }));
+    await adapter.drain();
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(manager.getDLQMessages('orders.created')).toMatchObject([
+      {
+        id: 'msg-1',
+        headers: {
+          [DLQ_REASON_HEADER]:
+            'Message msg-1 of type orders.created failed schema validation: payload.items must have at least 1 items',
+          [DLQ_ATTEMPTS_HEADER]: '0',
+        },
+      },
+    ]);
+  });
+});
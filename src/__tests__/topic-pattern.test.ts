@@ -0,0 +1,196 @@
+/**
+ * Tests for wildcard topic pattern subscriptions
+ */
+
+import { EventEmitter } from 'events';
+import {
+  isTopicPattern,
+  matchesTopicPattern,
+  topicPatternToGlob,
+  topicPatternToRegExp,
+} from '../utils/topic.pattern';
+import { UniversalMessageManager } from '../universal/message.manager';
+import { InMemoryAdapter } from '../adapter/memory';
+import { RedisAdapter } from '../adapter/redis';
+import { IBrokerConfig, MessageContext } from '../types';
+
+describe('Topic patterns', () => {
+  describe('matching', () => {
+    it('should tell patterns from literal topics', () => {
+      expect(isTopicPattern('orders.*')).toBe(true);
+      expect(isTopicPattern('orders.>')).toBe(true);
+      expect(isTopicPattern('*.created')).toBe(true);
+      expect(isTopicPattern('orders.created')).toBe(false);
+      expect(isTopicPattern('orders.a*')).toBe(false);
+    });
+
+    it.each([
+      ['orders.*', 'orders.created', true],
+      ['orders.*', 'orders.eu.created', false],
+      ['orders.*', 'orders', false],
+      ['orders.>', 'orders.created', true],
+      ['orders.>', 'orders.eu.created', true],
+      ['orders.>', 'orders', false],
+      ['*.created', 'payments.created', true],
+      ['orders.created', 'orders.created', true],
+    ])('should match %s against %s: %s', (pattern, topic, expected) => {
+      expect(matchesTopicPattern(pattern, topic)).toBe(expected);
+      expect(topicPatternToRegExp(pattern).test(topic)).toBe(expected);
+    });
+
+    it('should escape literal tokens for regexes and globs', () => {
+      expect(topicPatternToRegExp('a+b.*').test('a+b.c')).toBe(true);
+      expect(topicPatternToRegExp('a+b.*').test('aab.c')).toBe(false);
+      expect(topicPatternToGlob('logs[eu].>')).toBe('logs\\[eu\\].*');
+    });
+  });
+
+  describe('with the in-memory adapter', () => {
+    let adapter: InMemoryAdapter;
+    let manager: UniversalMessageManager;
+    const config: IBrokerConfig = { type: 'memory', connection: {} };
+
+    beforeEach(async () => {
+      adapter = new InMemoryAdapter(config);
+      manager = new UniversalMessageManager(adapter, config);
+      await manager.connect();
+    });
+
+    afterEach(async () => {
+      await manager.disconnect();
+    });
+
+    it('should deliver messages from existing and new matching topics', async () => {
+      await manager.publishImmediate('orders.created', {});
+      const received: Array<[string, string | undefined]> = [];
+      const subscriptionId = await manager.subscribe('orders.>', (msg, context: MessageContext) => {
+        received.push([msg.id, context.topic]);
+      });
+
+      await manager.publishImmediate('orders.created', {}, { id: 'created' });
+      await manager.publishImmediate('orders.eu.shipped', {}, { id: 'shipped' });
+      await manager.publishImmediate('payments.created', {});
+      await adapter.drain();
+
+      expect(received).toEqual([
+        ['created', 'orders.created'],
+        ['shipped', 'orders.eu.shipped'],
+      ]);
+      expect(manager.getMatchedTopics(subscriptionId)).toEqual([
+        'orders.created',
+        'orders.eu.shipped',
+      ]);
+    });
+
+    it('should pause, resume and unsubscribe every matched topic', async () => {
+      const callback = jest.fn();
+      const subscriptionId = await manager.subscribe('orders.*', callback);
+      await manager.publishImmediate('orders.created', {});
+      await adapter.drain();
+
+      await manager.pause(subscriptionId);
+      await manager.publishImmediate('orders.created', {});
+      await manager.publishImmediate('orders.shipped', {});
+      await adapter.drain();
+      expect(callback).toHaveBeenCalledTimes(1);
+
+      await manager.resume(subscriptionId);
+      await adapter.drain();
+      expect(callback).toHaveBeenCalledTimes(3);
+
+      await manager.unsubscribe('orders.*', subscriptionId);
+      await manager.publishImmediate('orders.cancelled', {});
+      await adapter.drain();
+      expect(callback).toHaveBeenCalledTimes(3);
+      expect(manager.getMatchedTopics(subscriptionId)).toEqual([]);
+    });
+
+    it('should replay to pattern subscriptions matching the topic', async () => {
+      await manager.publishImmediate('orders.created', {});
+      const callback = jest.fn();
+      await manager.subscribe('orders.*', callback);
+
+      expect(await manager.replay('orders.created', { from: 'earliest' })).toBe(1);
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('with the Redis adapter', () => {
+    let client: any;
+    let adapter: RedisAdapter;
+
+    beforeEach(async () => {
+      client = Object.assign(new EventEmitter(), {
+        subscribe: jest.fn().mockResolvedValue(1),
+        unsubscribe: jest.fn().mockResolvedValue(1),
+        psubscribe: jest.fn().mockResolvedValue(1),
+        punsubscribe: jest.fn().mockResolvedValue(1),
+        quit: jest.fn().mockResolvedValue('OK'),
+      });
+      const RedisClient = jest.fn().mockImplementation(() => client);
+      adapter = new RedisAdapter({ type: 'redis', connection: {} }, RedisClient as any);
+      await adapter.connect();
+    });
+
+    it('should PSUBSCRIBE and drop channels outside the pattern', async () => {
+      const callback = jest.fn();
+
+      const subscriptionId = await adapter.subscribe('orders.*', callback, { envelope: 'raw' });
+      client.emit('pmessageBuffer', 'orders.*', Buffer.from('orders.created'), Buffer.from('{}'));
+      client.emit(
+        'pmessageBuffer',
+        'orders.*',
+        Buffer.from('orders.eu.created'),
+        Buffer.from('{}')
+      );
+      await adapter.unsubscribe(subscriptionId);
+
+      expect(client.psubscribe).toHaveBeenCalledWith('orders.*');
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback.mock.calls[0][1].topic).toBe('orders.created');
+      expect(client.punsubscribe).toHaveBeenCalledWith('orders.*');
+      expect(client.listenerCount('pmessageBuffer')).toBe(0);
+    });
+
+    it('should keep a shared glob subscribed until its last subscription ends', async () => {
+      const single = jest.fn();
+      const multi = jest.fn();
+      const singleId = await adapter.subscribe('orders.*', single, { envelope: 'raw' });
+      const multiId = await adapter.subscribe('orders.>', multi, { envelope: 'raw' });
+
+      await adapter.unsubscribe(singleId);
+      client.emit(
+        'pmessageBuffer',
+        'orders.*',
+        Buffer.from('orders.eu.created'),
+        Buffer.from('{}')
+      );
+
+      expect(single).not.toHaveBeenCalled();
+      expect(multi).toHaveBeenCalledTimes(1);
+      expect(client.punsubscribe).not.toHaveBeenCalled();
+
+      await adapter.unsubscribe(multiId);
+      expect(client.punsubscribe).toHaveBeenCalledWith('orders.*');
+      expect(client.listenerCount('pmessageBuffer')).toBe(0);
+    });
+
+    it('should keep a shared channel subscribed until its last subscription ends', async () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      const firstId = await adapter.subscribe('orders', first, { envelope: 'raw' });
+      const secondId = await adapter.subscribe('orders', second, { envelope: 'raw' });
+
+      await adapter.unsubscribe(firstId);
+      client.emit('messageBuffer', Buffer.from('orders'), Buffer.from('{}'));
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(client.unsubscribe).not.toHaveBeenCalled();
+
+      await adapter.unsubscribe(secondId);
+      expect(client.unsubscribe).toHaveBeenCalledWith('orders');
+      expect(client.listenerCount('messageBuffer')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for typed topic registries. Type errors are asserted with
+ * `@ts-expect-error`, which fails the type check if the line compiles.
+ */
+
+import { defineTopics } from '../utils/topic.registry';
+import { UniversalMessageManager } from '../universal/message.manager';
+import { InMemoryAdapter } from '../adapter/memory';
+import { IBrokerConfig, IMessageHandler } from '../types';
+
+interface OrderCreated {
+  orderId: string;
+  total: number;
+}
+
+const topics = defineTopics<{
+  'orders.created': OrderCreated;
+  'orders.cancelled': { orderId: string; reason: string };
+  'users.lookup': { userId: number };
+}>();
+
+describe('defineTopics', () => {
+  const config: IBrokerConfig = { type: 'memory', connection: {} };
+  let adapter: InMemoryAdapter;
+  let untyped: UniversalMessageManager;
+  let manager: ReturnType<typeof topics.bind>;
+
+  beforeEach(async () => {
+    adapter = new InMemoryAdapter(config);
+    untyped = new UniversalMessageManager(adapter, config);
+    manager = topics.bind(untyped);
+    await manager.connect();
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  it('should bind the manager without changing it', () => {
+    expect(manager).toBe(untyped);
+  });
+
+  it('should type subscription payloads by topic and pattern', async () => {
+    const totals: number[] = [];
+    const orderIds: string[] = [];
+    await manager.subscribe('orders.created', msg => {
+      totals.push(msg.payload.total);
+    });
+    await manager.subscribe('orders.*', msg => {
+      orderIds.push(msg.payload.orderId);
+    });
+
+    await manager.publishImmediate('orders.created', { orderId: 'o-1', total: 42 });
+    await manager.publishImmediate('orders.cancelled', { orderId: 'o-2', reason: 'fraud' });
+    await adapter.drain();
+
+    expect(totals).toEqual([42]);
+    expect(orderIds).toEqual(['o-1', 'o-2']);
+  });
+
+  it('should type request and reply payloads', async () => {
+    await manager.reply('users.lookup', msg => ({ name: `user-${msg.payload.userId}` }));
+
+    const reply = await manager.request<{ name: string }>('users.lookup', { userId: 7 });
+
+    expect(reply.payload.name).toBe('user-7');
+  });
+
+  it('should reject unknown topics and wrong payloads at compile time', async () => {
+    const typeErrors = async () => {
+      // @ts-expect-error unknown topic
+      await manager.publish('orders.shipped', { orderId: 'o-1' });
+      // @ts-expect-error wrong payload shape
+      await manager.publish('orders.created', { orderId: 1, total: 42 });
+      // @ts-expect-error missing payload field
+      await manager.publishBatch('orders.created', [{ orderId: 'o-1' }]);
+      // @ts-expect-error unknown topic
+      await manager.subscribe('payments.created', () => undefined);
+      await manager.subscribe('orders.created', msg => {
+        // @ts-expect-error field of another topic
+        return msg.payload.reason;
+      });
+      await manager.transaction(tx => {
+        // @ts-expect-error wrong payload shape
+        tx.publish('orders.cancelled', { orderId: 'o-1' });
+      });
+      const handler: IMessageHandler<{ userId: string }> = {
+        canHandle: () => true,
+        handle: () => undefined,
+      };
+      // @ts-expect-error handler for another payload type
+      manager.registerHandler('users.lookup', handler);
+    };
+
+    expect(typeErrors).toBeDefined();
+  });
+
+  it('should keep accepting any topic and payload without a registry', async () => {
+    await untyped.publishImmediate('anything', { free: 'form' });
+    await untyped.subscribe('anything.*', msg => msg.payload.whatever);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Tests for OpenTelemetry tracing and W3C trace context propagation
+ */
+
+import { formatTraceparent, parseTraceparent, TraceState } from '../utils/trace.context';
+import { Span, SpanContext, SpanOptions, TracingContext } from '../universal/message.tracer';
+import { UniversalMessageManager } from '../universal/message.manager';
+import { InMemoryAdapter } from '../adapter/memory';
+import { IBrokerConfig, IMessage } from '../types';
+
+interface RecordedSpan {
+  name: string;
+  kind?: number;
+  attributes: Record<string, string | number | boolean>;
+  links: SpanContext[];
+  parent?: SpanContext;
+  context: SpanContext;
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+/**
+ * Records spans the way an OpenTelemetry SDK tracer would create them
+ */
+class RecordingTracerProvider {
+  readonly spans: RecordedSpan[] = [];
+
+  getTracer() {
+    return {
+      startSpan: (name: string, options: SpanOptions = {}, context?: TracingContext): Span => {
+        const parent = context?.getValue(Symbol.for('OpenTelemetry Context Key SPAN')) as
+          | Span
+          | undefined;
+        const id = (this.spans.length + 1).toString(16).padStart(16, '0');
+        const recorded: RecordedSpan = {
+          name,
+          kind: options.kind,
+          attributes: { ...options.attributes },
+          links: (options.links || []).map(link => link.context),
+          parent: parent?.spanContext(),
+          context: {
+            traceId: parent?.spanContext().traceId ?? id.padStart(32, 'a'),
+            spanId: id,
+            traceFlags: 1,
+          },
+          ended: false,
+        };
+        this.spans.push(recorded);
+        return {
+          spanContext: () => recorded.context,
+          setAttribute: (key, value) => (recorded.attributes[key] = value),
+          setStatus: status => (recorded.status = status),
+          recordException: () => undefined,
+          end: () => (recorded.ended = true),
+        };
+      },
+    };
+  }
+
+  find(name: string): RecordedSpan {
+    const span = this.spans.find(recorded => recorded.name === name);
+    if (!span) throw new Error(`No span ${name} in ${this.spans.map(s => s.name).join(', ')}`);
+    return span;
+  }
+}
+
+describe('W3C trace context', () => {
+  it('should parse and format traceparent headers', () => {
+    const header = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+    const parent = parseTraceparent(header);
+
+    expect(parent).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      traceFlags: 1,
+    });
+    expect(formatTraceparent(parent!)).toBe(header);
+    expect(
+      parseTraceparent('01-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00-x')
+    ).toBeDefined();
+    expect(parseTraceparent(`${header}-x`)).toBeUndefined();
+    expect(
+      parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')
+    ).toBeUndefined();
+    expect(
+      parseTraceparent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')
+    ).toBeUndefined();
+  });
+
+  it('should keep tracestate entries in order and move updated ones first', () => {
+    const state = TraceState.parse('congo=t61rcWkgMzE, rojo=00f067aa0ba902b7,bad,=x');
+
+    expect(state.get('rojo')).toBe('00f067aa0ba902b7');
+    expect(state.serialize()).toBe('congo=t61rcWkgMzE,rojo=00f067aa0ba902b7');
+    expect(state.set('rojo', '1').serialize()).toBe('rojo=1,congo=t61rcWkgMzE');
+    expect(state.unset('congo').serialize()).toBe('rojo=00f067aa0ba902b7');
+  });
+});
+
+describe('Message tracing', () => {
+  let adapter: InMemoryAdapter;
+  let manager: UniversalMessageManager;
+  let provider: RecordingTracerProvider;
+  const config: IBrokerConfig = { type: 'memory', connection: {} };
+
+  beforeEach(async () => {
+    adapter = new InMemoryAdapter(config);
+    manager = new UniversalMessageManager(adapter, config);
+    provider = new RecordingTracerProvider();
+    manager.setTracerProvider(provider);
+    await manager.connect();
+  });
+
+  afterEach(async () => {
+    await manager.disconnect();
+  });
+
+  it('should link producer and consumer spans through traceparent headers', async () => {
+    manager.addMiddleware(async function audit(_message, next) {
+      await next();
+    });
+    manager.registerHandler('orders', { canHandle: () => true, handle: () => undefined });
+    const received: IMessage[] = [];
+    await manager.subscribe('orders', message => {
+      received.push(message);
+    });
+
+    await manager.publishImmediate('orders', { n: 1 }, { id: 'msg-1', partition: '2' });
+    await adapter.drain();
+
+    const publish = provider.find('publish orders');
+    const send = provider.find('send orders');
+    const receive = provider.find('receive orders');
+    expect(received[0]!.headers?.traceparent).toBe(formatTraceparent(publish.context));
+    expect(send.parent).toMatchObject(publish.context);
+    expect(receive.parent).toMatchObject({ spanId: publish.context.spanId, isRemote: true });
+    expect(receive.context.traceId).toBe(publish.context.traceId);
+    expect(publish).toMatchObject({
+      kind: 3,
+      attributes: {
+        'messaging.system': 'memory',
+        'messaging.destination.name': 'orders',
+        'messaging.operation.type': 'create',
+        'messaging.message.id': 'msg-1',
+        'messaging.destination.partition.id': '2',
+      },
+    });
+    expect(send.kind).toBe(2);
+    expect(receive).toMatchObject({
+      kind: 4,
+      attributes: { 'messaging.operation.type': 'process' },
+    });
+
+    for (const name of ['middleware audit', 'handler Object', 'callback']) {
+      expect(provider.find(name).parent).toEqual(receive.context);
+    }
+    expect(provider.spans.every(span => span.ended)).toBe(true);
+  });
+
+  it('should mark failed steps and link batched messages', async () => {
+    await manager.subscribe('orders', () => {
+      throw new Error('Handler failed');
+    });
+
+    await manager.publishBatch('orders', [{ n: 1 }, { n: 2 }]);
+    await adapter.drain();
+
+    const send = provider.find('send orders');
+    const publishes = provider.spans.filter(span => span.name === 'publish orders');
+    expect(send.attributes['messaging.batch.message_count']).toBe(2);
+    expect(send.links).toEqual(publishes.map(span => expect.objectContaining(span.context)));
+    expect(provider.find('callback').status).toEqual({ code: 2, message: 'Handler failed' });
+    expect(provider.find('receive orders').status).toEqual({ code: 2, message: 'Handler failed' });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Tests for transactional publishing
+ */
+
+import { UniversalMessageManager } from '../universal/message.manager';
+import { InMemoryAdapter } from '../adapter/memory';
+import { KafkaAdapter } from '../adapter/kafka';
+import { DeliveryContext } from '../utils/delivery.context';
+import { ErrorType, IBrokerConfig, IMessage } from '../types';
+
+describe('Transactions', () => {
+  describe('InMemoryAdapter', () => {
+    let adapter: InMemoryAdapter;
+    let manager: UniversalMessageManager;
+    const config: IBrokerConfig = { type: 'memory', connection: {} };
+
+    beforeEach(async () => {
+      adapter = new InMemoryAdapter(config);
+      manager = new UniversalMessageManager(adapter, config);
+      await manager.connect();
+    });
+
+    afterEach(async () => {
+      await manager.disconnect();
+    });
+
+    it('should publish to every topic on commit', async () => {
+      const result = await manager.transaction(tx => {
+        tx.publish('payments', { amount: 10 });
+        tx.publish('ledger', { debit: 10 });
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect(adapter.getRecords('payments')).toHaveLength(1);
+      expect(adapter.getRecords('ledger')).toHaveLength(1);
+    });
+
+    it('should publish nothing when the transaction function throws', async () => {
+      await expect(
+        manager.transaction(tx => {
+          tx.publish('payments', { amount: 10 });
+          throw new Error('declined');
+        })
+      ).rejects.toThrow('declined');
+
+      expect(adapter.getRecords('payments')).toHaveLength(0);
+    });
+  });
+
+  describe('Brokers without transactions', () => {
+    let mockAdapter: any;
+    let manager: UniversalMessageManager;
+
+    beforeEach(async () => {
+      mockAdapter = {
+        connect: jest.fn().mockResolvedValue(undefined),
+        disconnect: jest.fn().mockResolvedValue(undefined),
+        publish: jest.fn().mockResolvedValue(undefined),
+        subscribe: jest.fn().mockResolvedValue('sub-1'),
+        isConnected: jest.fn().mockReturnValue(true),
+        getType: jest.fn().mockReturnValue('redis'),
+      };
+      manager = new UniversalMessageManager(mockAdapter, { type: 'redis', connection: {} });
+      await manager.connect();
+    });
+
+    afterEach(async () => {
+      await manager.disconnect();
+    });
+
+    it('should reject before running the transaction function', async () => {
+      const work = jest.fn();
+
+      await expect(manager.transaction(work)).rejects.toMatchObject({
+        type: ErrorType.PUBLISH_ERROR,
+      });
+      expect(work).not.toHaveBeenCalled();
+    });
+
+    it('should flush staged messages and then ack with the buffered fallback', async () => {
+      const ack = jest.fn();
+      const context = new DeliveryContext({ ack });
+
+      await manager.transaction(
+        tx => {
+          tx.publish('payments', { amount: 10 });
+          tx.ack(context);
+        },
+        { fallback: 'buffered' }
+      );
+
+      expect(mockAdapter.publish).toHaveBeenCalledWith(
+        'payments',
+        expect.objectContaining({ payload: { amount: 10 } })
+      );
+      expect(ack).toHaveBeenCalled();
+    });
+
+    it('should not ack when the buffered flush fails', async () => {
+      mockAdapter.publish.mockRejectedValueOnce(new Error('down'));
+      const ack = jest.fn();
+
+      await expect(
+        manager.transaction(
+          tx => {
+            tx.publish('payments', { amount: 10 });
+            tx.publish('payments', { amount: 20 });
+            tx.ack(new DeliveryContext({ ack }));
+          },
+          { fallback: 'buffered' }
+        )
+      ).rejects.toThrow('1 of 2 transaction messages failed to publish');
+      expect(ack).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('KafkaAdapter', () => {
+    let transaction: any;
+    let producers: any[];
+    let eachMessage: (payload: unknown) => Promise<void>;
+    let manager: UniversalMessageManager;
+
+    beforeEach(async () => {
+      transaction = {
+        send: jest.fn().mockResolvedValue([]),
+        sendOffsets: jest.fn().mockResolvedValue(undefined),
+        commit: jest.fn().mockResolvedValue(undefined),
+        abort: jest.fn().mockResolvedValue(undefined),
+      };
+      producers = [];
+      const consumer = {
+        connect: jest.fn().mockResolvedValue(undefined),
+        subscribe: jest.fn().mockResolvedValue(undefined),
+        run: jest.fn(async (options: any) => (eachMessage = options.eachMessage)),
+        commitOffsets: jest.fn().mockResolvedValue(undefined),
+        disconnect: jest.fn().mockResolvedValue(undefined),
+      };
+      const Kafka = jest.fn().mockImplementation(() => ({
+        producer: jest.fn((options: any) => {
+          const producer = {
+            options,
+            connect: jest.fn().mockResolvedValue(undefined),
+            disconnect: jest.fn().mockResolvedValue(undefined),
+            transaction: jest.fn().mockResolvedValue(transaction),
+          };
+          producers.push(producer);
+          return producer;
+        }),
+        consumer: () => consumer,
+      }));
+      const config: IBrokerConfig = {
+        type: 'kafka',
+        connection: {},
+        features: { transactions: true },
+      };
+      const adapter = new KafkaAdapter(config, Kafka, { transactionalId: 'payments-1' });
+      manager = new UniversalMessageManager(adapter, config);
+      await manager.connect();
+    });
+
+    afterEach(async () => {
+      await manager.disconnect();
+    });
+
+    const consume = async (callback: (msg: IMessage, context: any) => Promise<void>) => {
+      await manager.subscribe('payments.requested', callback, {
+        consumerGroup: 'payments',
+        autoAck: false,
+      });
+      await eachMessage({
+        topic: 'payments.requested',
+        partition: 2,
+        message: {
+          offset: '7',
+          value: Buffer.from('{"id":"1","type":"payments.requested","payload":{"amount":10}}'),
+        },
+      });
+    };
+
+    it('should create a transactional producer on connect', () => {
+      expect(producers[1].options).toMatchObject({
+        transactionalId: 'payments-1',
+        idempotent: true,
+        maxInFlightRequests: 1,
+      });
+    });
+
+    it('should commit consumed offsets within the transaction', async () => {
+      await consume(async (msg, context) => {
+        await manager.transaction(tx => {
+          tx.publish('payments.authorized', msg.payload);
+          tx.publish('ledger.entries', msg.payload);
+          tx.ack(context);
+        });
+      });
+
+      expect(transaction.send).toHaveBeenCalledTimes(2);
+      expect(transaction.sendOffsets).toHaveBeenCalledWith({
+        consumerGroupId: 'payments',
+        topics: [{ topic: 'payments.requested', partitions: [{ partition: 2, offset: '8' }] }],
+      });
+      expect(transaction.commit).toHaveBeenCalled();
+    });
+
+    it('should abort the transaction when a send fails', async () => {
+      transaction.send.mockRejectedValueOnce(new Error('not leader'));
+
+      await expect(
+        manager.transaction(tx => tx.publish('payments.authorized', { amount: 10 }))
+      ).rejects.toThrow('Transaction aborted: not leader');
+      expect(transaction.abort).toHaveBeenCalled();
+      expect(transaction.commit).not.toHaveBeenCalled();
+    });
+  });
+});
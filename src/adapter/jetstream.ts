@@ -0,0 +1,321 @@
+import {
+  IBrokerConfig,
+  IMessage,
+  MessageCallback,
+  SubscriptionOptions,
+  PublishResult,
+  BrokerType,
+  BrokerError,
+  ErrorType,
+} from '@/types';
+import { NATSAdapter } from './nats';
+import { DeliveryContext } from '../utils/delivery.context';
+
+/**
+ * A JetStream stream provisioned when the adapter connects
+ */
+export interface JetStreamStreamConfig {
+  readonly name: string;
+  /** Subjects captured by the stream; wildcards allowed */
+  readonly subjects: string[];
+  readonly retention?: 'limits' | 'interest' | 'workqueue';
+  readonly storage?: 'file' | 'memory';
+  readonly replicas?: number;
+  readonly maxMsgs?: number;
+  readonly maxBytes?: number;
+  /** Maximum message age, in milliseconds */
+  readonly maxAge?: number;
+  /** Window in which a repeated `Nats-Msg-Id` is dropped as a duplicate, in milliseconds (default 2 minutes) */
+  readonly duplicateWindow?: number;
+}
+
+/**
+ * Options for the JetStream adapter
+ */
+export interface JetStreamAdapterOptions {
+  /** Streams created, or updated to this configuration, on connect */
+  readonly streams?: JetStreamStreamConfig[];
+  /** Pull consumers fetch messages on demand; push consumers have them sent to an inbox (default 'pull') */
+  readonly consumerType?: 'pull' | 'push';
+  /** How long the server waits for an ack before redelivering, in milliseconds (default 30000) */
+  readonly ackWait?: number;
+  /** Messages a pull consumer buffers ahead of processing (default 100) */
+  readonly batchSize?: number;
+  /** Where consumers without a durable name start (default 'new') */
+  readonly deliverPolicy?: 'all' | 'new' | 'last';
+}
+
+/**
+ * NATS adapter delivering through JetStream persistent streams.
+ *
+ * Messages are published with `Nats-Msg-Id` set to `IMessage.id`, so the server
+ * drops repeats within the stream's duplicate window. Subscriptions create a
+ * consumer on the stream capturing the topic: durable, named after
+ * `consumerGroup` or `queueGroup`, when one is given, so members share the
+ * messages and resume after restarts; ephemeral otherwise.
+ *
+ * Messages are acknowledged once the callback resolves and negatively
+ * acknowledged (redelivered) when it throws; ones that cannot be decoded are
+ * terminated. With `autoAck: false` the callback settles them through its
+ * context: `nack` maps to a nak with delay, or a term without `requeue`, and
+ * `deadLetter` to a term.
+ *
+ * Through the manager, failed messages are retried in process and, once
+ * `maxRetries` is exhausted, dead-lettered and terminated, so the server does
+ * not redeliver them. The consumer's `max_deliver` is set to `maxRetries + 1`
+ * and only bounds redeliveries of messages that were never settled, after a
+ * crash or when `ackWait` runs out.
+ *
+ * Request/reply uses core NATS, as in {@link NATSAdapter}: `reply()` subscribes
+ * without a consumer and replies to the requester's inbox are published
+ * without going through a stream. Request subjects must not be captured by a
+ * stream, which would answer the request with its publish acknowledgement;
+ * `request` rejects with `REQUEST_ERROR` when one is.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new JetStreamAdapter(
+ *   { type: 'nats-jetstream', connection: { urls: ['nats://localhost:4222'] } },
+ *   nats,
+ *   { streams: [{ name: 'ORDERS', subjects: ['orders.>'] }] }
+ * );
+ * await adapter.connect();
+ *
+ * await adapter.subscribe('orders.created', msg => console.log(msg.payload), {
+ *   consumerGroup: 'billing',
+ *   maxRetries: 5,
+ * });
+ * ```
+ */
+export class JetStreamAdapter extends NATSAdapter {
+  private jetstream: any;
+  private manager: any;
+
+  constructor(
+    config: IBrokerConfig,
+    nats: any,
+    private options: JetStreamAdapterOptions = {}
+  ) {
+    super(config, nats);
+  }
+
+  async connect(): Promise<void> {
+    await super.connect();
+    this.jetstream = this.connection.jetstream();
+    this.manager = await this.connection.jetstreamManager();
+
+    for (const stream of this.options.streams || []) {
+      await this.provisionStream(stream);
+    }
+  }
+
+  async publish(topic: string, message: IMessage): Promise<void> {
+    const subject = message.subject || topic;
+    // Replies go to the requester's inbox, which no stream captures
+    if (this.isInbox(subject)) return super.publish(topic, message);
+
+    const { data, headers } = this.encode(message);
+    await this.jetstream.publish(subject, data, { msgID: message.id, headers });
+  }
+
+  async publishBatch(topic: string, messages: IMessage[]): Promise<PublishResult[]> {
+    // Publishes are pipelined; each resolves when its stream has stored the message
+    const outcomes = await Promise.allSettled(
+      messages.map(message => this.publish(topic, message))
+    );
+
+    return outcomes.map((outcome, index) => {
+      const messageId = messages[index]!.id;
+      return outcome.status === 'fulfilled'
+        ? { messageId, success: true }
+        : { messageId, success: false, error: outcome.reason };
+    });
+  }
+
+  async request(topic: string, message: IMessage, timeout: number): Promise<IMessage> {
+    const subject = message.subject || topic;
+    const stream = await this.manager.streams.find(subject).catch(() => undefined);
+    if (stream) {
+      throw new BrokerError(
+        `Requests to ${subject} would be answered by JetStream stream ${stream}`,
+        ErrorType.REQUEST_ERROR,
+        'nats-jetstream'
+      );
+    }
+    return super.request(topic, message, timeout);
+  }
+
+  async subscribe(
+    topic: string,
+    callback: MessageCallback,
+    options?: SubscriptionOptions
+  ): Promise<string> {
+    if (options?.requests) return super.subscribe(topic, callback, options);
+
+    const subscriptionId = `jetstream_sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const stream = await this.findStream(topic);
+    const autoAck = options?.autoAck !== false;
+    const config = this.consumerConfig(topic, options);
+
+    let subscription: any;
+    let messages: AsyncIterable<any>;
+    if (this.options.consumerType === 'push') {
+      subscription = await this.jetstream.subscribe(topic, {
+        stream,
+        config: {
+          ...config,
+          deliver_subject: this.nats.createInbox(),
+          deliver_group: config.durable_name,
+        },
+        queue: config.durable_name,
+        mack: true,
+      });
+      messages = subscription;
+    } else {
+      const name = await this.ensureConsumer(stream, config);
+      const consumer = await this.jetstream.consumers.get(stream, name);
+      const consumed = await consumer.consume({ max_messages: this.options.batchSize ?? 100 });
+      subscription = { unsubscribe: () => consumed.stop() };
+      messages = consumed;
+    }
+
+    (async () => {
+      for await (const msg of messages) {
+        await this.handle(topic, msg, callback, options, autoAck);
+      }
+    })().catch(error => console.error(`JetStream consumer for ${topic} stopped:`, error));
+
+    this.subscriptions.set(subscriptionId, subscription);
+    return subscriptionId;
+  }
+
+  getType(): BrokerType {
+    return 'nats-jetstream';
+  }
+
+  private async handle(
+    topic: string,
+    msg: any,
+    callback: MessageCallback,
+    options: SubscriptionOptions | undefined,
+    autoAck: boolean
+  ): Promise<void> {
+    let message: IMessage;
+    try {
+      message = options?.envelope === 'raw' ? this.decodeRaw(topic, msg) : this.decode(msg);
+    } catch (error) {
+      console.error('JetStream message processing error:', error);
+      // Redelivering cannot make it decodable
+      msg.term();
+      return;
+    }
+
+    const context = new DeliveryContext(
+      {
+        ack: async () => msg.ack(),
+        nack: async ({ requeue = true, delay }) => (requeue ? msg.nak(delay) : msg.term()),
+        deadLetter: async reason => msg.term(reason),
+      },
+      undefined,
+      msg.subject
+    );
+
+    let failed = false;
+    try {
+      await callback(message, context);
+    } catch (error) {
+      failed = true;
+      console.error('JetStream message processing error:', error);
+    }
+    await context.complete(autoAck, failed);
+  }
+
+  private consumerConfig(
+    topic: string,
+    options: SubscriptionOptions | undefined
+  ): Record<string, any> {
+    const durable = options?.consumerGroup || options?.queueGroup;
+    return {
+      ...(durable && { durable_name: durable }),
+      filter_subject: topic,
+      ack_policy: 'explicit',
+      ack_wait: this.nanos(this.options.ackWait ?? 30000),
+      // Bounds redeliveries of unsettled messages; failures are retried in process
+      max_deliver: options?.maxRetries !== undefined ? options.maxRetries + 1 : -1,
+      deliver_policy: durable ? 'all' : this.options.deliverPolicy || 'new',
+    };
+  }
+
+  /**
+   * Creates the pull consumer, or updates a durable one that already exists.
+   *
+   * @returns The consumer name
+   */
+  private async ensureConsumer(stream: string, config: Record<string, any>): Promise<string> {
+    if (config.durable_name) {
+      try {
+        await this.manager.consumers.info(stream, config.durable_name);
+        const { max_deliver, ack_wait } = config;
+        await this.manager.consumers.update(stream, config.durable_name, {
+          max_deliver,
+          ack_wait,
+        });
+        return config.durable_name;
+      } catch (error) {
+        if (!this.isNotFound(error)) throw error;
+      }
+    }
+
+    const info = await this.manager.consumers.add(stream, config);
+    return info.name;
+  }
+
+  private async provisionStream(stream: JetStreamStreamConfig): Promise<void> {
+    const config = {
+      name: stream.name,
+      subjects: stream.subjects,
+      ...(stream.retention && { retention: stream.retention }),
+      ...(stream.storage && { storage: stream.storage }),
+      ...(stream.replicas && { num_replicas: stream.replicas }),
+      ...(stream.maxMsgs && { max_msgs: stream.maxMsgs }),
+      ...(stream.maxBytes && { max_bytes: stream.maxBytes }),
+      ...(stream.maxAge && { max_age: this.nanos(stream.maxAge) }),
+      ...(stream.duplicateWindow && { duplicate_window: this.nanos(stream.duplicateWindow) }),
+    };
+
+    try {
+      await this.manager.streams.info(stream.name);
+    } catch (error) {
+      if (!this.isNotFound(error)) throw error;
+      await this.manager.streams.add(config);
+      return;
+    }
+    await this.manager.streams.update(stream.name, config);
+  }
+
+  private async findStream(topic: string): Promise<string> {
+    try {
+      return await this.manager.streams.find(topic);
+    } catch (error) {
+      throw new BrokerError(
+        `No JetStream stream captures ${topic}`,
+        ErrorType.SUBSCRIPTION_ERROR,
+        'nats-jetstream',
+        error as Error
+      );
+    }
+  }
+
+  private isInbox(subject: string): boolean {
+    const prefix = (this.config.connection.options?.inboxPrefix as string) ?? '_INBOX';
+    return subject.startsWith(`${prefix}.`);
+  }
+
+  private isNotFound(error: any): boolean {
+    return error?.code === '404' || error?.api_error?.code === 404;
+  }
+
+  private nanos(ms: number): number {
+    return ms * 1_000_000;
+  }
+}
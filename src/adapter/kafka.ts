@@ -5,22 +5,105 @@ import {
   BrokerMetrics,
   SubscriptionOptions,
   MessageCallback,
+  PublishResult,
+  BrokerTransaction,
+  MessageContext,
+  StartPosition,
+  ReplayRange,
+  BrokerError,
+  ErrorType,
 } from '@/types';
+import { CodecRegistry, CONTENT_TYPE_HEADER } from '../codec/codec.registry';
+import { DeliveryContext } from '../utils/delivery.context';
+import { createPartitioner, PartitionerOption } from '../utils/partitioner';
+import { isTopicPattern, topicPatternToRegExp } from '../utils/topic.pattern';
+
+/**
+ * Options for the Kafka adapter's producer
+ */
+export interface KafkaAdapterOptions {
+  /** Chooses record partitions (default 'murmur2', compatible with the Java client) */
+  readonly partitioner?: PartitionerOption;
+  /**
+   * Derives the record key of messages published without `partitionKey`, e.g.
+   * the aggregate ID in the payload; messages without either are keyed by ID
+   */
+  readonly keyExtractor?: (message: IMessage) => string | undefined;
+  /** Enables the idempotent producer, which writes each record exactly once per partition; requires `acks: -1` */
+  readonly idempotent?: boolean;
+  /**
+   * Transactional ID of the producer used by transactions. Keeping it stable per
+   * application instance lets Kafka fence a zombie instance's transactions
+   * (default: unique per adapter)
+   */
+  readonly transactionalId?: string;
+  /** Longest a `replay` may take in milliseconds before it fails (default 5 minutes) */
+  readonly replayTimeout?: number;
+}
+
+const COMPRESSION_CODES = { none: 0, gzip: 1, snappy: 2, lz4: 3, zstd: 4 } as const;
 
 /**
  * Kafka message broker adapter implementing the universal broker interface.
  * Provides Kafka-specific functionality including partitioning and consumer groups.
+ *
+ * Records are keyed by `partitionKey`, the `keyExtractor` option or the message
+ * ID, in that order, and partitioned by the configured partitioner unless the
+ * message names a `partition`. `performance.acks` and `performance.compression`
+ * apply to every send.
+ *
+ * Transactions use a separate transactional producer, created on connect with
+ * `features.transactions` or else on first use. Acknowledging a consumed
+ * message in a transaction commits its offset with the transaction; subscribe
+ * with `autoAck: false` so it is not also committed when the callback returns.
+ *
+ * Subscriptions start from `startFrom`: 'earliest' and 'latest' apply to consumer
+ * groups without committed offsets, while a timestamp or explicit offsets seek
+ * every time the subscription starts. `replay` re-reads a time range with a
+ * throwaway consumer group, leaving committed offsets untouched; a partition is
+ * done once a fetched batch reaches the end of the range, even when the range
+ * ends on transaction markers, aborted records or compacted gaps.
+ *
+ * @example
+ * ```typescript
+ * await adapter.subscribe('orders', handleOrder, {
+ *   consumerGroup: 'billing',
+ *   startFrom: { timestamp: Date.parse('2024-01-01T00:00:00Z') },
+ * });
+ *
+ * const count = await adapter.replay('orders', { from: 'earliest' }, rebuildProjection);
+ * ```
  */
 export class KafkaAdapter implements IBrokerAdapter {
   private kafka: any;
   private producer: any;
+  private transactionalProducer?: Promise<any>;
+  private transactionLock: Promise<void> = Promise.resolve();
   private consumers = new Map<string, any>();
-  private subscriptions = new Map<string, { consumer: any; topic: string }>();
+  private subscriptions = new Map<string, { consumer: any; topics: string[] }>();
+  private readonly codecs: CodecRegistry;
+  private readonly sendOptions: { acks?: number; compression?: number };
 
   constructor(
     private config: IBrokerConfig,
-    private kafkaJS: any
-  ) {}
+    private kafkaJS: any,
+    private options: KafkaAdapterOptions = {}
+  ) {
+    this.codecs = CodecRegistry.fromConfig(config);
+
+    const { acks, compression } = config.performance || {};
+    if (options.idempotent && acks !== undefined && acks !== -1) {
+      throw new BrokerError(
+        `The idempotent producer requires acks -1, not ${acks}`,
+        ErrorType.VALIDATION_ERROR,
+        'kafka'
+      );
+    }
+    this.sendOptions = {
+      ...(acks !== undefined && { acks }),
+      ...(compression && { compression: COMPRESSION_CODES[compression] }),
+    };
+  }
 
   async connect(): Promise<void> {
     const options = {
@@ -30,12 +113,24 @@ export class KafkaAdapter implements IBrokerAdapter {
     };
     this.kafka = new this.kafkaJS(options);
 
-    this.producer = this.kafka.producer();
+    this.producer = this.kafka.producer({
+      createPartitioner: () => this.createPartitioner(),
+      idempotent: this.options.idempotent === true,
+    });
     await this.producer.connect();
+
+    if (this.config.features?.transactions) {
+      await this.getTransactionalProducer();
+    }
   }
 
   async disconnect(): Promise<void> {
     await this.producer?.disconnect();
+    await this.transactionalProducer?.then(
+      producer => producer.disconnect(),
+      () => undefined
+    );
+    this.transactionalProducer = undefined;
 
     for (const consumer of this.consumers.values()) {
       await consumer.disconnect();
@@ -43,19 +138,32 @@ export class KafkaAdapter implements IBrokerAdapter {
   }
 
   async publish(topic: string, message: IMessage): Promise<void> {
-    const kafkaMessage = {
-      key: message.id,
-      value: JSON.stringify(message),
-      partition: message.partition ? parseInt(message.partition) : undefined,
-      headers: message.headers,
-    };
-
     await this.producer.send({
       topic,
-      messages: [kafkaMessage],
+      messages: [this.toRecord(message)],
+      ...this.sendOptions,
     });
   }
 
+  async publishBatch(topic: string, messages: IMessage[]): Promise<PublishResult[]> {
+    // Encode everything first so one bad message does not fail the whole send
+    const results: PublishResult[] = [];
+    const records: unknown[] = [];
+    for (const message of messages) {
+      try {
+        records.push(this.toRecord(message));
+        results.push({ messageId: message.id, success: true });
+      } catch (error) {
+        results.push({ messageId: message.id, success: false, error: error as Error });
+      }
+    }
+
+    if (records.length > 0) {
+      await this.producer.send({ topic, messages: records, ...this.sendOptions });
+    }
+    return results;
+  }
+
   async subscribe(
     topic: string,
     callback: MessageCallback,
@@ -64,24 +172,63 @@ export class KafkaAdapter implements IBrokerAdapter {
     const subscriptionId = `kafka_sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const groupId = options?.consumerGroup || `group_${subscriptionId}`;
 
+    const startFrom = options?.startFrom;
+    const fromBeginning = startFrom === 'earliest';
+    // Regex subscriptions match the topics that exist when the consumer joins
+    const pattern = isTopicPattern(topic) ? topicPatternToRegExp(topic) : undefined;
+    if (pattern && typeof startFrom === 'object' && 'offsets' in startFrom) {
+      throw new BrokerError(
+        `Start offsets apply to a single topic, not the pattern ${topic}`,
+        ErrorType.VALIDATION_ERROR,
+        'kafka'
+      );
+    }
+    const topics = pattern ? await this.listTopics(pattern) : [topic];
+
     const consumer = this.kafka.consumer({ groupId });
     await consumer.connect();
-    await consumer.subscribe({ topic, fromBeginning: false });
-
-    await consumer.run({
-      eachMessage: async ({ topic, partition, message }: any) => {
-        try {
-          const parsedMessage = JSON.parse(message.value.toString());
-          parsedMessage.partition = partition.toString();
-          await callback(parsedMessage);
-        } catch (error) {
-          console.error('Kafka message processing error:', error, topic);
-        }
-      },
-    });
+    try {
+      await consumer.subscribe(
+        pattern ? { topics: [pattern], fromBeginning } : { topic, fromBeginning }
+      );
+
+      const seeks = await this.startOffsets(topics, startFrom);
+      if (seeks.length > 0) {
+        // Seeks made on joining the group apply before the first fetch
+        const removeListener = consumer.on(consumer.events.GROUP_JOIN, () => {
+          removeListener();
+          for (const seek of seeks) consumer.seek(seek);
+        });
+      }
+
+      const autoAck = options?.autoAck !== false;
+      const raw = options?.envelope === 'raw';
+      await consumer.run({
+        autoCommit: autoAck,
+        eachMessage: async ({ topic, partition, message }: any) => {
+          const context = this.createContext(
+            consumer,
+            groupId,
+            topic,
+            partition,
+            message.offset,
+            autoAck
+          );
+          try {
+            await callback(this.toMessage(topic, partition, message, raw), context);
+          } catch (error) {
+            console.error('Kafka message processing error:', error, topic);
+          }
+          await context.complete(autoAck);
+        },
+      });
+    } catch (error) {
+      await consumer.disconnect().catch(() => undefined);
+      throw error;
+    }
 
     this.consumers.set(subscriptionId, consumer);
-    this.subscriptions.set(subscriptionId, { consumer, topic });
+    this.subscriptions.set(subscriptionId, { consumer, topics });
 
     return subscriptionId;
   }
@@ -97,6 +244,161 @@ export class KafkaAdapter implements IBrokerAdapter {
     return true;
   }
 
+  async pause(subscriptionId: string): Promise<boolean> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) return false;
+
+    subscription.consumer.pause(subscription.topics.map(topic => ({ topic })));
+    return true;
+  }
+
+  async resume(subscriptionId: string): Promise<boolean> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) return false;
+
+    subscription.consumer.resume(subscription.topics.map(topic => ({ topic })));
+    return true;
+  }
+
+  async replay(topic: string, range: ReplayRange, callback: MessageCallback): Promise<number> {
+    const starts = await this.offsetsAt(topic, range.from);
+    const ends = await this.offsetsAt(topic, range.to ?? 'latest');
+
+    const pending = new Map<number, { start: bigint; end: bigint }>();
+    for (const { partition, offset } of starts) {
+      const end = ends.find(e => e.partition === partition);
+      if (end && BigInt(offset) < BigInt(end.offset)) {
+        pending.set(partition, { start: BigInt(offset), end: BigInt(end.offset) });
+      }
+    }
+    if (pending.size === 0) return 0;
+
+    const groupId = `replay_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const consumer = this.kafka.consumer({ groupId });
+    let replayed = 0;
+
+    await consumer.connect();
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await consumer.subscribe({ topic, fromBeginning: true });
+      await new Promise<void>((resolve, reject) => {
+        const timeout = this.options.replayTimeout ?? 300_000;
+        timer = setTimeout(
+          () =>
+            reject(
+              new BrokerError(
+                `Replay of ${topic} timed out after ${timeout}ms`,
+                ErrorType.TIMEOUT_ERROR,
+                'kafka'
+              )
+            ),
+          timeout
+        );
+
+        const finish = (partition: number) => {
+          if (!pending.delete(partition)) return;
+          consumer.pause([{ topic, partitions: [partition] }]);
+          if (pending.size === 0) resolve();
+        };
+
+        consumer
+          .run({
+            autoCommit: false,
+            eachBatch: async ({ batch }: any) => {
+              const { partition } = batch;
+              const bounds = pending.get(partition);
+              if (!bounds) return;
+
+              for (const message of batch.messages) {
+                const offset = BigInt(message.offset);
+                // Messages fetched before the seek below took effect
+                if (offset < bounds.start) continue;
+                if (offset >= bounds.end) return finish(partition);
+
+                try {
+                  const decoded = this.toMessage(topic, partition, message, false);
+                  replayed++;
+                  await callback(decoded, new DeliveryContext());
+                } catch (error) {
+                  console.error('Kafka replay processing error:', error, topic);
+                }
+              }
+
+              // The last offset counts control records and skipped aborted or
+              // compacted records, which are never delivered as messages
+              if (BigInt(batch.lastOffset()) + 1n >= bounds.end) finish(partition);
+            },
+          })
+          .then(() => {
+            const idle = starts.map(s => s.partition).filter(p => !pending.has(p));
+            if (idle.length > 0) consumer.pause([{ topic, partitions: idle }]);
+            for (const [partition, { start }] of pending) {
+              consumer.seek({ topic, partition, offset: start.toString() });
+            }
+          }, reject);
+      });
+    } finally {
+      clearTimeout(timer);
+      await consumer.disconnect();
+    }
+
+    return replayed;
+  }
+
+  async beginTransaction(): Promise<BrokerTransaction> {
+    // kafkajs producers run one transaction at a time
+    const previous = this.transactionLock;
+    let release!: () => void;
+    this.transactionLock = new Promise(resolve => (release = resolve));
+    await previous;
+
+    let transaction: any;
+    try {
+      transaction = await (await this.getTransactionalProducer()).transaction();
+    } catch (error) {
+      release();
+      throw error;
+    }
+
+    const end = async (outcome: 'commit' | 'abort') => {
+      try {
+        await transaction[outcome]();
+      } finally {
+        release();
+      }
+    };
+
+    return {
+      publish: async (topic, message) => {
+        const { compression } = this.sendOptions;
+        await transaction.send({ topic, messages: [this.toRecord(message)], compression });
+      },
+      ack: async (context: MessageContext) => {
+        const source = context instanceof DeliveryContext ? context.source : undefined;
+        if (!source) {
+          throw new BrokerError(
+            'Only messages consumed from Kafka can be acknowledged in a Kafka transaction',
+            ErrorType.VALIDATION_ERROR,
+            'kafka'
+          );
+        }
+        await transaction.sendOffsets({
+          consumerGroupId: source.consumerGroup,
+          topics: [
+            {
+              topic: source.topic,
+              partitions: [
+                { partition: source.partition, offset: (BigInt(source.offset) + 1n).toString() },
+              ],
+            },
+          ],
+        });
+      },
+      commit: () => end('commit'),
+      abort: () => end('abort'),
+    };
+  }
+
   isConnected(): boolean {
     return this.producer?._isConnected || false;
   }
@@ -116,4 +418,237 @@ export class KafkaAdapter implements IBrokerAdapter {
       subscriptions_count: this.subscriptions.size,
     };
   }
+
+  /**
+   * Maps settlements to offset commits; with `autoAck` kafkajs commits processed
+   * offsets itself. A requeued message is read again by seeking its partition
+   * back to it, which also redelivers the messages after it.
+   */
+  private createContext(
+    consumer: any,
+    consumerGroup: string,
+    topic: string,
+    partition: number,
+    offset: string,
+    autoAck: boolean
+  ): DeliveryContext {
+    const commit = async () => {
+      if (autoAck) return;
+      await consumer.commitOffsets([
+        { topic, partition, offset: (BigInt(offset) + 1n).toString() },
+      ]);
+    };
+
+    return new DeliveryContext(
+      {
+        ack: commit,
+        deadLetter: commit,
+        nack: async ({ requeue = true, delay = 0 }) => {
+          if (!requeue) {
+            await commit();
+            return;
+          }
+
+          const partitions = [{ topic, partitions: [partition] }];
+          consumer.pause(partitions);
+          setTimeout(() => {
+            consumer.seek({ topic, partition, offset });
+            consumer.resume(partitions);
+          }, delay);
+        },
+      },
+      { consumerGroup, topic, partition, offset }
+    );
+  }
+
+  private getTransactionalProducer(): Promise<any> {
+    if (!this.transactionalProducer) {
+      const clientId = this.config.clientId || 'universal-message-broker';
+      const producer = this.kafka.producer({
+        createPartitioner: () => this.createPartitioner(),
+        transactionalId:
+          this.options.transactionalId ||
+          `${clientId}-tx-${Math.random().toString(36).substr(2, 9)}`,
+        idempotent: true,
+        maxInFlightRequests: 1,
+      });
+      const connected: Promise<any> = producer.connect().then(() => producer);
+      // A failed connect is retried by the next transaction
+      connected.catch(() => {
+        if (this.transactionalProducer === connected) this.transactionalProducer = undefined;
+      });
+      this.transactionalProducer = connected;
+    }
+    return this.transactionalProducer;
+  }
+
+  /**
+   * Resolves a timestamp or explicit offsets to the seeks starting each
+   * partition; 'earliest' and 'latest' are applied through `fromBeginning`
+   * when subscribing.
+   */
+  private async startOffsets(
+    topics: string[],
+    startFrom?: StartPosition
+  ): Promise<{ topic: string; partition: number; offset: string }[]> {
+    if (!startFrom || typeof startFrom === 'string') return [];
+
+    const seeks: { topic: string; partition: number; offset: string }[] = [];
+    for (const topic of topics) {
+      const offsets =
+        'offsets' in startFrom
+          ? startFrom.offsets
+          : await this.offsetsAt(topic, startFrom.timestamp);
+      for (const { partition, offset } of offsets) {
+        seeks.push({ topic, partition, offset });
+      }
+    }
+    return seeks;
+  }
+
+  private async listTopics(pattern: RegExp): Promise<string[]> {
+    const admin = this.kafka.admin();
+    await admin.connect();
+    try {
+      const topics: string[] = await admin.listTopics();
+      return topics.filter(topic => pattern.test(topic));
+    } finally {
+      await admin.disconnect();
+    }
+  }
+
+  /**
+   * Looks up, per partition, the offset of the first message at or after a
+   * timestamp, or the low or high watermark.
+   */
+  private async offsetsAt(
+    topic: string,
+    position: number | Date | 'earliest' | 'latest'
+  ): Promise<Array<{ partition: number; offset: string }>> {
+    const admin = this.kafka.admin();
+    await admin.connect();
+    try {
+      if (position === 'earliest' || position === 'latest') {
+        const watermarks = await admin.fetchTopicOffsets(topic);
+        return watermarks.map(({ partition, low, high }: any) => ({
+          partition,
+          offset: position === 'earliest' ? low : high,
+        }));
+      }
+      const timestamp = position instanceof Date ? position.getTime() : position;
+      return await admin.fetchTopicOffsetsByTimestamp(topic, timestamp);
+    } finally {
+      await admin.disconnect();
+    }
+  }
+
+  private toMessage(topic: string, partition: number, message: any, raw: boolean): IMessage {
+    const headers = this.fromKafkaHeaders(message.headers);
+    if (raw) {
+      return this.codecs.decodeRaw(topic, message.value, {
+        key: message.key?.toString(),
+        headers,
+        offset: message.offset,
+        partition: partition.toString(),
+        timestamp: Number(message.timestamp) || undefined,
+      });
+    }
+
+    const parsedMessage = this.codecs.decode(message.value, headers?.[CONTENT_TYPE_HEADER]);
+    parsedMessage.partition = partition.toString();
+    return parsedMessage;
+  }
+
+  /**
+   * Adapts the configured partitioner to kafkajs, which passes every record
+   * through it, and rejects explicit partitions the topic does not have.
+   */
+  private createPartitioner() {
+    const partitioner = createPartitioner(this.options.partitioner);
+
+    return ({ topic, partitionMetadata, message }: any): number => {
+      const partitionCount = partitionMetadata.length;
+      const partition =
+        message.partition ??
+        partitioner({
+          topic,
+          key: message.key ?? undefined,
+          partitionCount,
+          availablePartitions: partitionMetadata
+            .filter((p: any) => p.leader >= 0)
+            .map((p: any) => p.partitionId),
+        });
+
+      if (!Number.isInteger(partition) || partition < 0 || partition >= partitionCount) {
+        // Not retriable, so kafkajs rejects the send with this error as is
+        throw new BrokerError(
+          `Partition ${partition} is out of range for ${topic}, which has ${partitionCount} partitions`,
+          ErrorType.VALIDATION_ERROR,
+          'kafka'
+        );
+      }
+      return partition;
+    };
+  }
+
+  private keyOf(message: IMessage, fallback?: unknown): string {
+    const key = message.partitionKey ?? this.options.keyExtractor?.(message) ?? fallback;
+    return typeof key === 'string' ? key : message.id;
+  }
+
+  private partitionOf(message: IMessage): number | undefined {
+    if (!message.partition) return undefined;
+
+    const partition = Number(message.partition);
+    if (!Number.isInteger(partition) || partition < 0) {
+      throw new BrokerError(
+        `Invalid partition ${message.partition} for message ${message.id}`,
+        ErrorType.VALIDATION_ERROR,
+        'kafka'
+      );
+    }
+    return partition;
+  }
+
+  private toRecord(message: IMessage) {
+    if (message.envelope === 'raw') {
+      return this.toRawRecord(message);
+    }
+
+    return {
+      key: this.keyOf(message),
+      value: this.codecs.encode(message).data,
+      partition: this.partitionOf(message),
+      headers: {
+        ...message.headers,
+        [CONTENT_TYPE_HEADER]: this.codecs.getDefault().contentType,
+      },
+    };
+  }
+
+  /**
+   * Builds a record carrying only the payload and headers, for consumers outside
+   * this library. Without a `partitionKey` or extracted key, the key is taken
+   * from `metadata.key` when present.
+   */
+  private toRawRecord(message: IMessage) {
+    const { data, contentType } = this.codecs.encodeRaw(message);
+    return {
+      key: this.keyOf(message, message.metadata?.key),
+      value: data,
+      partition: this.partitionOf(message),
+      headers: { ...(contentType && { [CONTENT_TYPE_HEADER]: contentType }), ...message.headers },
+    };
+  }
+
+  private fromKafkaHeaders(headers?: Record<string, unknown>): Record<string, string> | undefined {
+    if (!headers) return undefined;
+
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (value === undefined || value === null) continue;
+      result[name] = Array.isArray(value) ? value.map(String).join(',') : String(value);
+    }
+    return result;
+  }
 }
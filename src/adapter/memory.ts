@@ -0,0 +1,619 @@
+import {
+  IBrokerAdapter,
+  IBrokerConfig,
+  IMessage,
+  BrokerMetrics,
+  SubscriptionOptions,
+  MessageCallback,
+  BrokerError,
+  ErrorType,
+  PublishResult,
+  BrokerTransaction,
+  MessageContext,
+  StartPosition,
+  ReplayRange,
+} from '@/types';
+import { Clock, SystemClock } from '../utils/clock';
+import { DeliveryContext } from '../utils/delivery.context';
+import { isTopicPattern, matchesTopicPattern } from '../utils/topic.pattern';
+import { CodecRegistry, CONTENT_TYPE_HEADER } from '../codec/codec.registry';
+
+/**
+ * Options for the in-memory adapter
+ */
+export interface InMemoryAdapterOptions {
+  /** Number of partitions created for each topic (default 1) */
+  readonly partitions?: number;
+  /** Time source used for record timestamps (default system time) */
+  readonly clock?: Clock;
+}
+
+/**
+ * A message stored in a topic partition
+ */
+export interface InMemoryRecord {
+  readonly offset: number;
+  readonly timestamp: number;
+  readonly message: IMessage;
+  /** The message as encoded by the configured codec, or the bare payload for raw messages */
+  readonly data: Buffer;
+  readonly contentType?: string;
+  /** Transport headers, set for raw messages */
+  readonly headers?: Readonly<Record<string, string>>;
+  readonly key?: string;
+}
+
+type GroupKind = 'broadcast' | 'queue' | 'consumer';
+
+interface Member {
+  readonly subscriptionId: string;
+  readonly callback: MessageCallback;
+  readonly raw: boolean;
+  paused: boolean;
+}
+
+interface PatternSubscription {
+  readonly pattern: string;
+  readonly callback: MessageCallback;
+  readonly options?: SubscriptionOptions;
+  paused: boolean;
+}
+
+interface Group {
+  readonly kind: GroupKind;
+  readonly topic: string;
+  members: Member[];
+  offsets: number[];
+  chains: Promise<void>[];
+  cursor: number;
+}
+
+/**
+ * In-process broker adapter for tests and local development.
+ *
+ * Every topic is an append-only log split into partitions. Subscriptions consume
+ * the log with the semantics of the option they were created with:
+ * - no group: every subscription receives every message (pub/sub)
+ * - `queueGroup`: each message goes to one member of the group (NATS style)
+ * - `consumerGroup`: partitions are spread over the members and committed offsets
+ *   survive members leaving and re-joining (Kafka style)
+ *
+ * A pattern subscription (`orders.*`, `orders.>`) joins a group on every
+ * matching topic, including topics created later, from their first record.
+ *
+ * New groups start at the end of the log unless `startFrom` says otherwise. A
+ * paused subscription holds the partitions it would be delivered, like a paused
+ * Kafka consumer, until it is resumed. Transactions stage their messages and
+ * append them all on commit.
+ *
+ * Delivery is asynchronous like a real broker; `drain()` waits until everything
+ * published so far has been handed to its subscribers.
+ *
+ * @example
+ * ```typescript
+ * const clock = new FakeClock();
+ * const adapter = new InMemoryAdapter({ type: 'memory', connection: {} }, { clock });
+ * await adapter.connect();
+ *
+ * await adapter.subscribe('orders', msg => console.log(msg.payload));
+ * await adapter.publish('orders', MessageBuilder.create().type('orders').payload({ id: 1 }).build());
+ * await adapter.drain();
+ * ```
+ */
+export class InMemoryAdapter implements IBrokerAdapter {
+  private connected = false;
+  private topics = new Map<string, InMemoryRecord[][]>();
+  private groups = new Map<string, Group>();
+  /** Group keys per subscription; pattern subscriptions have one per matched topic */
+  private subscriptions = new Map<string, string[]>();
+  private patterns = new Map<string, PatternSubscription>();
+  private readonly partitionCount: number;
+  private readonly codecs: CodecRegistry;
+  readonly clock: Clock;
+  private messagesPublished = 0;
+  private messagesReceived = 0;
+  private errors = 0;
+
+  constructor(
+    private config: IBrokerConfig,
+    options: InMemoryAdapterOptions = {}
+  ) {
+    const configured = options.partitions ?? this.config.connection.options?.partitions;
+    this.partitionCount = Math.max(1, Number(configured) || 1);
+    this.clock = options.clock || new SystemClock();
+    this.codecs = CodecRegistry.fromConfig(config);
+  }
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async disconnect(): Promise<void> {
+    await this.drain();
+    this.connected = false;
+  }
+
+  async publish(topic: string, message: IMessage): Promise<void> {
+    this.ensureConnected();
+
+    const partitions = this.getTopic(topic);
+    const partition = this.selectPartition(message, partitions.length);
+    const log = partitions[partition]!;
+    const offset = log.length;
+    const timestamp = this.clock.now();
+
+    if (message.envelope === 'raw') {
+      const { data, contentType } = this.codecs.encodeRaw(message);
+      const headers = {
+        ...(contentType && { [CONTENT_TYPE_HEADER]: contentType }),
+        ...message.headers,
+      };
+      const key = typeof message.metadata?.key === 'string' ? message.metadata.key : undefined;
+      log.push({
+        offset,
+        timestamp,
+        message: this.codecs.decodeRaw(topic, data, {
+          key,
+          headers,
+          offset: offset.toString(),
+          partition: partition.toString(),
+          timestamp,
+        }),
+        data,
+        contentType,
+        headers,
+        key,
+      });
+    } else {
+      // Encoding on publish surfaces codec errors and loss just like a real broker would
+      const { data, contentType } = this.codecs.encode(message);
+      log.push({
+        offset,
+        timestamp,
+        message: this.codecs.decode(data, contentType),
+        data,
+        contentType,
+      });
+    }
+    this.messagesPublished++;
+
+    for (const group of this.groups.values()) {
+      if (group.topic === topic) {
+        this.schedule(group, partition);
+      }
+    }
+  }
+
+  async publishBatch(topic: string, messages: IMessage[]): Promise<PublishResult[]> {
+    this.ensureConnected();
+
+    const results: PublishResult[] = [];
+    for (const message of messages) {
+      try {
+        await this.publish(topic, message);
+        results.push({ messageId: message.id, success: true });
+      } catch (error) {
+        results.push({ messageId: message.id, success: false, error: error as Error });
+      }
+    }
+    return results;
+  }
+
+  async subscribe(
+    topic: string,
+    callback: MessageCallback,
+    options?: SubscriptionOptions
+  ): Promise<string> {
+    this.ensureConnected();
+
+    const subscriptionId = `memory_sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.subscriptions.set(subscriptionId, []);
+
+    if (isTopicPattern(topic)) {
+      this.patterns.set(subscriptionId, { pattern: topic, callback, options, paused: false });
+      for (const name of Array.from(this.topics.keys())) {
+        if (matchesTopicPattern(topic, name)) {
+          this.join(name, subscriptionId, callback, options, false);
+        }
+      }
+    } else {
+      this.join(topic, subscriptionId, callback, options, false);
+    }
+
+    return subscriptionId;
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<boolean> {
+    const keys = this.subscriptions.get(subscriptionId);
+    if (!keys) return false;
+
+    for (const key of keys) {
+      const group = this.groups.get(key)!;
+      group.members = group.members.filter(m => m.subscriptionId !== subscriptionId);
+
+      // Consumer groups keep their committed offsets so members can resume later
+      if (group.members.length === 0 && group.kind !== 'consumer') {
+        this.groups.delete(key);
+      }
+    }
+    this.subscriptions.delete(subscriptionId);
+    this.patterns.delete(subscriptionId);
+    return true;
+  }
+
+  async beginTransaction(): Promise<BrokerTransaction> {
+    this.ensureConnected();
+
+    let staged: Array<{ topic: string; message: IMessage }> = [];
+    let acks: MessageContext[] = [];
+    return {
+      publish: async (topic, message) => {
+        staged.push({ topic, message });
+      },
+      ack: async context => {
+        acks.push(context);
+      },
+      commit: async () => {
+        // Encode everything first so a codec error leaves nothing published
+        for (const { message } of staged) {
+          if (message.envelope === 'raw') {
+            this.codecs.encodeRaw(message);
+          } else {
+            this.codecs.encode(message);
+          }
+        }
+        for (const { topic, message } of staged) {
+          await this.publish(topic, message);
+        }
+        for (const context of acks) {
+          await context.ack();
+        }
+      },
+      abort: async () => {
+        staged = [];
+        acks = [];
+      },
+    };
+  }
+
+  async pause(subscriptionId: string): Promise<boolean> {
+    return this.setPaused(subscriptionId, true);
+  }
+
+  async resume(subscriptionId: string): Promise<boolean> {
+    return this.setPaused(subscriptionId, false);
+  }
+
+  async replay(topic: string, range: ReplayRange, callback: MessageCallback): Promise<number> {
+    this.ensureConnected();
+
+    const from = range.from === 'earliest' ? -Infinity : this.toTime(range.from);
+    const to = range.to === undefined ? Infinity : this.toTime(range.to);
+    let replayed = 0;
+
+    for (const [partition, log] of (this.topics.get(topic) || []).entries()) {
+      // Stop at the end of the log as it was when the replay started
+      for (const record of log.slice()) {
+        if (record.timestamp < from || record.timestamp >= to) continue;
+
+        replayed++;
+        try {
+          await callback(this.toMessage(topic, partition, record, false), new DeliveryContext());
+        } catch (error) {
+          this.errors++;
+          console.error('In-memory replay processing error:', error, topic);
+        }
+      }
+    }
+    return replayed;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getType(): 'memory' {
+    return 'memory';
+  }
+
+  async getMetrics(): Promise<BrokerMetrics> {
+    return {
+      connections: this.connected ? 1 : 0,
+      messagesPublished: this.messagesPublished,
+      messagesReceived: this.messagesReceived,
+      errors: this.errors,
+      latency: { avg: 0, min: 0, max: 0 },
+      topics_count: this.topics.size,
+      subscriptions_count: this.subscriptions.size,
+    };
+  }
+
+  /**
+   * Waits until every message published so far has been delivered.
+   */
+  async drain(): Promise<void> {
+    for (;;) {
+      const chains = Array.from(this.groups.values()).flatMap(g => g.chains);
+      await Promise.all(chains);
+
+      const settled = Array.from(this.groups.values()).every(
+        g =>
+          g.members.length === 0 ||
+          g.members.some(m => m.paused) ||
+          g.offsets.every((o, p) => o >= this.getLog(g.topic, p).length)
+      );
+      if (settled) return;
+    }
+  }
+
+  /**
+   * Returns every record stored for a topic, ordered by partition then offset.
+   *
+   * @param topic - The topic to inspect
+   */
+  getRecords(topic: string): InMemoryRecord[] {
+    return (this.topics.get(topic) || []).flat();
+  }
+
+  /**
+   * Returns the committed offsets of a consumer group, indexed by partition.
+   *
+   * @param consumerGroup - The consumer group name
+   * @param topic - The topic consumed by the group
+   */
+  getCommittedOffsets(consumerGroup: string, topic: string): number[] {
+    const group = this.groups.get(this.groupKey(topic, 'consumer', consumerGroup));
+    return group ? [...group.offsets] : [];
+  }
+
+  /**
+   * Removes all topics, groups and subscriptions.
+   */
+  reset(): void {
+    this.topics.clear();
+    this.groups.clear();
+    this.subscriptions.clear();
+    this.patterns.clear();
+    this.messagesPublished = 0;
+    this.messagesReceived = 0;
+    this.errors = 0;
+  }
+
+  private ensureConnected(): void {
+    if (!this.connected) {
+      throw new BrokerError(
+        'In-memory broker is not connected',
+        ErrorType.CONNECTION_ERROR,
+        'memory'
+      );
+    }
+  }
+
+  private getTopic(topic: string): InMemoryRecord[][] {
+    let partitions = this.topics.get(topic);
+    if (!partitions) {
+      partitions = Array.from({ length: this.partitionCount }, () => []);
+      this.topics.set(topic, partitions);
+
+      for (const [subscriptionId, { pattern, callback, options, paused }] of this.patterns) {
+        if (matchesTopicPattern(pattern, topic)) {
+          this.join(topic, subscriptionId, callback, options, paused);
+        }
+      }
+    }
+    return partitions;
+  }
+
+  /**
+   * Adds a subscription to the group it belongs to on a topic, creating the
+   * group if needed.
+   */
+  private join(
+    topic: string,
+    subscriptionId: string,
+    callback: MessageCallback,
+    options: SubscriptionOptions | undefined,
+    paused: boolean
+  ): void {
+    const partitions = this.getTopic(topic);
+
+    let kind: GroupKind = 'broadcast';
+    let name = subscriptionId;
+    if (options?.consumerGroup) {
+      kind = 'consumer';
+      name = options.consumerGroup;
+    } else if (options?.queueGroup) {
+      kind = 'queue';
+      name = options.queueGroup;
+    }
+
+    const key = this.groupKey(topic, kind, name);
+    let group = this.groups.get(key);
+    const startFrom =
+      options?.startFrom ?? (options?.fromBeginning === true ? 'earliest' : undefined);
+    if (!group) {
+      group = {
+        kind,
+        topic,
+        members: [],
+        offsets: partitions.map(log => (startFrom === 'earliest' ? 0 : log.length)),
+        chains: partitions.map(() => Promise.resolve()),
+        cursor: 0,
+      };
+      this.groups.set(key, group);
+    }
+    this.seekToStart(group, partitions, startFrom);
+
+    group.members.push({
+      subscriptionId,
+      callback,
+      raw: options?.envelope === 'raw',
+      paused,
+    });
+    this.subscriptions.get(subscriptionId)!.push(key);
+
+    // A joining consumer may pick up partitions with a backlog
+    partitions.forEach((_, partition) => this.schedule(group!, partition));
+  }
+
+  private getLog(topic: string, partition: number): InMemoryRecord[] {
+    return this.topics.get(topic)?.[partition] || [];
+  }
+
+  private selectPartition(message: IMessage, count: number): number {
+    if (message.partition !== undefined) {
+      const partition = parseInt(message.partition);
+      if (partition >= 0 && partition < count) return partition;
+    }
+    const key = message.partitionKey ?? message.id;
+    let hash = 0;
+    for (let i = 0; i < key.length; i++) {
+      hash = (hash * 31 + key.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash) % count;
+  }
+
+  private groupKey(topic: string, kind: GroupKind, name: string): string {
+    return `${topic}\u0000${kind}\u0000${name}`;
+  }
+
+  /**
+   * Moves a group to the first record at or after a timestamp, or to explicit
+   * offsets; 'earliest' and 'latest' only apply when the group is created.
+   */
+  private seekToStart(
+    group: Group,
+    partitions: InMemoryRecord[][],
+    startFrom: StartPosition | undefined
+  ): void {
+    if (!startFrom || typeof startFrom === 'string') return;
+
+    if ('offsets' in startFrom) {
+      for (const { partition, offset } of startFrom.offsets) {
+        if (partition < partitions.length) group.offsets[partition] = Number(offset);
+      }
+      return;
+    }
+
+    const timestamp = this.toTime(startFrom.timestamp);
+    partitions.forEach((log, partition) => {
+      const index = log.findIndex(record => record.timestamp >= timestamp);
+      group.offsets[partition] = index === -1 ? log.length : index;
+    });
+  }
+
+  private toTime(time: number | Date): number {
+    return time instanceof Date ? time.getTime() : time;
+  }
+
+  private setPaused(subscriptionId: string, paused: boolean): boolean {
+    const keys = this.subscriptions.get(subscriptionId);
+    if (!keys) return false;
+
+    const pattern = this.patterns.get(subscriptionId);
+    if (pattern) pattern.paused = paused;
+
+    for (const key of keys) {
+      const group = this.groups.get(key)!;
+      const member = group.members.find(m => m.subscriptionId === subscriptionId)!;
+      member.paused = paused;
+      if (!paused) group.offsets.forEach((_, partition) => this.schedule(group, partition));
+    }
+    return true;
+  }
+
+  private schedule(group: Group, partition: number): void {
+    const chain = group.chains[partition] || Promise.resolve();
+    group.chains[partition] = chain.then(() => this.deliver(group, partition));
+  }
+
+  private async deliver(group: Group, partition: number): Promise<void> {
+    const log = this.getLog(group.topic, partition);
+
+    while ((group.offsets[partition] ?? 0) < log.length) {
+      const member = this.selectMember(group, partition);
+      if (!member) return;
+
+      const record = log[group.offsets[partition]!]!;
+      group.offsets[partition] = record.offset + 1;
+
+      this.messagesReceived++;
+      // Records are consumed in order, so only a nack has an effect
+      const context = new DeliveryContext(
+        {
+          nack: async ({ requeue = true, delay = 0 }) => {
+            if (requeue) this.rewind(group, partition, record.offset, delay);
+          },
+        },
+        undefined,
+        group.topic
+      );
+      try {
+        await member.callback(this.toMessage(group.topic, partition, record, member.raw), context);
+      } catch (error) {
+        this.errors++;
+        console.error('In-memory message processing error:', error, group.topic);
+      }
+    }
+  }
+
+  /**
+   * Moves the group back to a nacked record, like a Kafka seek: it and every
+   * later record of the partition are delivered again.
+   */
+  private rewind(group: Group, partition: number, offset: number, delay: number): void {
+    const seek = () => {
+      group.offsets[partition] = Math.min(group.offsets[partition] ?? 0, offset);
+      this.schedule(group, partition);
+    };
+
+    if (delay > 0) {
+      this.clock.setTimeout(seek, delay);
+    } else {
+      seek();
+    }
+  }
+
+  private toMessage(
+    topic: string,
+    partition: number,
+    record: InMemoryRecord,
+    raw: boolean
+  ): IMessage {
+    if (raw) {
+      return this.codecs.decodeRaw(topic, record.data, {
+        key: record.key,
+        headers: record.headers,
+        offset: record.offset.toString(),
+        partition: partition.toString(),
+        timestamp: record.timestamp,
+      });
+    }
+
+    const message = this.codecs.decode(record.data, record.contentType);
+    message.partition = partition.toString();
+    return message;
+  }
+
+  private selectMember(group: Group, partition: number): Member | undefined {
+    const { members } = group;
+    if (members.length === 0) return undefined;
+
+    let member: Member | undefined;
+    switch (group.kind) {
+      case 'consumer':
+        member = members[partition % members.length];
+        break;
+      case 'queue':
+        // Round-robin over the members that are not paused
+        for (let i = 0; i < members.length; i++) {
+          const candidate = members[group.cursor++ % members.length]!;
+          if (!candidate.paused) return candidate;
+        }
+        return undefined;
+      default:
+        member = members[0];
+    }
+    return member?.paused ? undefined : member;
+  }
+}
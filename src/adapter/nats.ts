@@ -1,13 +1,29 @@
-import { IBrokerAdapter, IBrokerConfig, IMessage, BrokerMetrics } from '@/types';
+import {
+  IBrokerAdapter,
+  IBrokerConfig,
+  IMessage,
+  BrokerMetrics,
+  BrokerError,
+  ErrorType,
+  PublishResult,
+  BrokerType,
+  MessageCallback,
+} from '@/types';
+import { REPLY_TO_HEADER } from '../universal/request.tracker';
+import { CodecRegistry, CONTENT_TYPE_HEADER } from '../codec/codec.registry';
+import { DeliveryContext } from '../utils/delivery.context';
 
 export class NATSAdapter implements IBrokerAdapter {
-  private connection: any;
-  private subscriptions = new Map<string, any>();
+  protected connection: any;
+  protected subscriptions = new Map<string, any>();
+  protected readonly codecs: CodecRegistry;
 
   constructor(
-    private config: IBrokerConfig,
-    private nats: any
-  ) {}
+    protected config: IBrokerConfig,
+    protected nats: any
+  ) {
+    this.codecs = CodecRegistry.fromConfig(config);
+  }
 
   async connect(): Promise<void> {
     const options = {
@@ -26,15 +42,55 @@ export class NATSAdapter implements IBrokerAdapter {
 
   async publish(topic: string, message: IMessage): Promise<void> {
     const subject = message.subject || topic;
-    const data = this.nats.StringCodec().encode(JSON.stringify(message));
-    this.connection.publish(subject, data);
+    const { data, headers } = this.encode(message);
+    this.connection.publish(subject, data, { headers });
+  }
+
+  async publishBatch(topic: string, messages: IMessage[]): Promise<PublishResult[]> {
+    const results = messages.map(message => {
+      try {
+        const { data, headers } = this.encode(message);
+        this.connection.publish(message.subject || topic, data, { headers });
+        return { messageId: message.id, success: true };
+      } catch (error) {
+        return { messageId: message.id, success: false, error: error as Error };
+      }
+    });
+
+    // One round trip confirms the server has received everything published so far
+    await this.connection.flush();
+    return results;
+  }
+
+  async request(topic: string, message: IMessage, timeout: number): Promise<IMessage> {
+    const subject = message.subject || topic;
+    const { data, headers } = this.encode(message);
+
+    try {
+      const response = await this.connection.request(subject, data, { timeout, headers });
+      return this.decode(response);
+    } catch (error: any) {
+      if (error?.code === 'TIMEOUT') {
+        throw new BrokerError(
+          `Request to ${subject} timed out after ${timeout}ms`,
+          ErrorType.TIMEOUT_ERROR,
+          'nats',
+          error
+        );
+      }
+      if (error?.code === '503') {
+        throw new BrokerError(
+          `No responders for ${subject}`,
+          ErrorType.REQUEST_ERROR,
+          'nats',
+          error
+        );
+      }
+      throw error;
+    }
   }
 
-  async subscribe(
-    topic: string,
-    callback: (message: IMessage) => void,
-    options?: any
-  ): Promise<string> {
+  async subscribe(topic: string, callback: MessageCallback, options?: any): Promise<string> {
     const subscriptionId = `nats_sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
     const subscribeOptions: any = {};
@@ -48,9 +104,13 @@ export class NATSAdapter implements IBrokerAdapter {
     (async () => {
       for await (const msg of subscription) {
         try {
-          const data = this.nats.StringCodec().decode(msg.data);
-          const message = JSON.parse(data);
-          await callback(message);
+          const message =
+            options?.envelope === 'raw' ? this.decodeRaw(topic, msg) : this.decode(msg);
+          if (msg.reply && !message.headers?.[REPLY_TO_HEADER]) {
+            message.headers = { ...message.headers, [REPLY_TO_HEADER]: msg.reply };
+          }
+          // Core NATS has no acknowledgements to settle; wildcards are native
+          await callback(message, new DeliveryContext({}, undefined, msg.subject));
         } catch (error) {
           console.error('NATS message processing error:', error);
         }
@@ -74,7 +134,7 @@ export class NATSAdapter implements IBrokerAdapter {
     return !this.connection?.isClosed();
   }
 
-  getType(): 'nats' {
+  getType(): BrokerType {
     return 'nats';
   }
 
@@ -89,4 +149,40 @@ export class NATSAdapter implements IBrokerAdapter {
       subscriptions_count: this.subscriptions.size,
     };
   }
+
+  protected encode(message: IMessage): { data: Buffer; headers: any } {
+    const headers = this.nats.headers();
+
+    if (message.envelope === 'raw') {
+      const { data, contentType } = this.codecs.encodeRaw(message);
+      if (contentType) headers.set(CONTENT_TYPE_HEADER, contentType);
+      for (const [name, value] of Object.entries(message.headers || {})) {
+        headers.set(name, value);
+      }
+      return { data, headers };
+    }
+
+    const { data, contentType } = this.codecs.encode(message);
+    headers.set(CONTENT_TYPE_HEADER, contentType);
+    return { data, headers };
+  }
+
+  protected decode(msg: any): IMessage {
+    return this.codecs.decode(msg.data, msg.headers?.get(CONTENT_TYPE_HEADER) || undefined);
+  }
+
+  protected decodeRaw(topic: string, msg: any): IMessage {
+    let headers: Record<string, string> | undefined;
+    if (msg.headers) {
+      headers = {};
+      for (const [name, values] of msg.headers) {
+        headers[name] = values.join(',');
+      }
+    }
+
+    return this.codecs.decodeRaw(msg.subject || topic, msg.data, {
+      id: headers?.['Nats-Msg-Id'],
+      headers,
+    });
+  }
 }
@@ -0,0 +1,464 @@
+import * as os from 'os';
+import {
+  IBrokerAdapter,
+  IBrokerConfig,
+  IMessage,
+  BrokerMetrics,
+  SubscriptionOptions,
+  MessageCallback,
+  PublishResult,
+  BrokerError,
+  ErrorType,
+} from '@/types';
+import Redis from 'ioredis';
+import { CodecRegistry, CONTENT_TYPE_HEADER } from '../codec/codec.registry';
+import { Clock, SystemClock } from '../utils/clock';
+import { DeliveryContext } from '../utils/delivery.context';
+import { isTopicPattern } from '../utils/topic.pattern';
+import {
+  DLQ_ATTEMPTS_HEADER,
+  DLQ_FAILED_AT_HEADER,
+  DLQ_ORIGINAL_TOPIC_HEADER,
+  DLQ_REASON_HEADER,
+} from '../universal/message.queue';
+
+/**
+ * Options for the Redis Streams adapter
+ */
+export interface RedisStreamsAdapterOptions {
+  /** Trim each stream to about this many entries on every XADD (default no trimming) */
+  readonly maxLen?: number;
+  /** Trim exactly to `maxLen` instead of letting Redis trim whole nodes (default false) */
+  readonly exactTrim?: boolean;
+  /** Entries fetched per XREADGROUP / XAUTOCLAIM call (default 10) */
+  readonly batchSize?: number;
+  /** How long a read blocks waiting for new entries, in milliseconds (default 5000) */
+  readonly blockTime?: number;
+  /** Pending entries idle this long are reclaimed from crashed consumers, in milliseconds (default 30000) */
+  readonly claimIdleTime?: number;
+  /** Where a newly created consumer group starts reading (default 'latest') */
+  readonly startFrom?: 'earliest' | 'latest';
+  /** Prefix for consumer names within a group (default host name and process id) */
+  readonly consumerName?: string;
+  /** Time source for reclaim scheduling and error backoff (default system time) */
+  readonly clock?: Clock;
+}
+
+type StreamEntry = [id: Buffer, fields: Buffer[] | null];
+
+interface StreamSubscription {
+  readonly topic: string;
+  readonly group?: string;
+  readonly consumer: string;
+  readonly raw: boolean;
+  readonly autoAck: boolean;
+  readonly connection: Redis;
+  active: boolean;
+  lastId: string;
+  loop?: Promise<void>;
+  /** Ends a backoff sleep early */
+  wake?: () => void;
+}
+
+const DATA_FIELD = 'data';
+
+/**
+ * Redis adapter backed by Redis Streams.
+ *
+ * Every topic is a stream written with XADD, optionally trimmed with MAXLEN.
+ * Subscriptions with a `consumerGroup` read through XREADGROUP, so the group's
+ * members share the work and entries published while every member is offline
+ * are delivered once one comes back. An entry is acknowledged with XACK after
+ * the callback completes, or when it calls `context.ack()` with `autoAck: false`.
+ * Entries left pending by a crashed or failing consumer, or nacked, are reclaimed
+ * with XAUTOCLAIM once idle for `claimIdleTime`; a nack `delay` is not supported.
+ * Subscriptions without a group receive every new entry, like pub/sub.
+ *
+ * An entry that cannot be decoded is copied as is, with the usual DLQ headers,
+ * to the dead-letter stream (`deadLetterQueue.topic`, default `<topic>.dlq`)
+ * and acknowledged. Without a dead-letter queue it is left pending.
+ *
+ * Each subscription holds its own connection, since blocking reads occupy it.
+ *
+ * @example
+ * ```typescript
+ * const adapter = new RedisStreamsAdapter(
+ *   { type: 'redis-streams', connection: { host: 'localhost', port: 6379 } },
+ *   Redis,
+ *   { maxLen: 100000, claimIdleTime: 60000 }
+ * );
+ * await adapter.connect();
+ *
+ * await adapter.subscribe('orders', msg => console.log(msg.payload), { consumerGroup: 'billing' });
+ * ```
+ */
+export class RedisStreamsAdapter implements IBrokerAdapter {
+  private client!: Redis;
+  private subscriptions = new Map<string, StreamSubscription>();
+  private readonly codecs: CodecRegistry;
+  private readonly clock: Clock;
+  private readonly consumerName: string;
+  private consumers = 0;
+
+  constructor(
+    private config: IBrokerConfig,
+    private redisClient: typeof Redis,
+    private options: RedisStreamsAdapterOptions = {}
+  ) {
+    this.codecs = CodecRegistry.fromConfig(config);
+    this.clock = options.clock || new SystemClock();
+    this.consumerName = options.consumerName || `${os.hostname()}-${process.pid}`;
+  }
+
+  async connect(): Promise<void> {
+    this.client = new this.redisClient(this.connectionOptions());
+  }
+
+  async disconnect(): Promise<void> {
+    await Promise.all(
+      Array.from(this.subscriptions.keys()).map(subscriptionId => this.unsubscribe(subscriptionId))
+    );
+    await this.client?.quit();
+  }
+
+  async publish(topic: string, message: IMessage): Promise<void> {
+    await this.client.xadd(topic, ...this.trimArgs(), '*', ...this.encode(message));
+  }
+
+  async publishBatch(topic: string, messages: IMessage[]): Promise<PublishResult[]> {
+    const pipeline = this.client.pipeline();
+    const results: (PublishResult | undefined)[] = messages.map(message => {
+      try {
+        pipeline.xadd(topic, ...this.trimArgs(), '*', ...this.encode(message));
+        return undefined;
+      } catch (error) {
+        return { messageId: message.id, success: false, error: error as Error };
+      }
+    });
+
+    const replies = (await pipeline.exec()) || [];
+    let reply = 0;
+    return messages.map((message, index) => {
+      const failed = results[index];
+      if (failed) return failed;
+
+      const error = replies[reply++]?.[0];
+      return error
+        ? { messageId: message.id, success: false, error }
+        : { messageId: message.id, success: true };
+    });
+  }
+
+  async subscribe(
+    topic: string,
+    callback: MessageCallback,
+    options?: SubscriptionOptions
+  ): Promise<string> {
+    if (isTopicPattern(topic)) {
+      // XREADGROUP reads named streams only
+      throw new BrokerError(
+        `Redis Streams cannot subscribe to the pattern ${topic}; subscribe to each stream`,
+        ErrorType.SUBSCRIPTION_ERROR,
+        'redis-streams'
+      );
+    }
+
+    const subscriptionId = `redis_streams_sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const group = options?.consumerGroup;
+
+    if (group) {
+      await this.createGroup(topic, group);
+    }
+
+    const subscription: StreamSubscription = {
+      topic,
+      group,
+      consumer: `${this.consumerName}-${++this.consumers}`,
+      raw: options?.envelope === 'raw',
+      autoAck: options?.autoAck !== false,
+      connection: new this.redisClient(this.connectionOptions()),
+      active: true,
+      lastId: '$',
+    };
+    subscription.loop = this.consume(subscription, callback);
+
+    this.subscriptions.set(subscriptionId, subscription);
+    return subscriptionId;
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<boolean> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) return false;
+
+    this.subscriptions.delete(subscriptionId);
+    subscription.active = false;
+    // Closing the connection aborts a blocking read in progress
+    subscription.connection.disconnect();
+    subscription.wake?.();
+    await subscription.loop;
+    return true;
+  }
+
+  isConnected(): boolean {
+    return this.client?.status === 'ready';
+  }
+
+  getType(): 'redis-streams' {
+    return 'redis-streams';
+  }
+
+  async getMetrics(): Promise<BrokerMetrics> {
+    const info = await this.client.info();
+    return {
+      connections: 1 + this.subscriptions.size,
+      messagesPublished: 0,
+      messagesReceived: 0,
+      errors: 0,
+      latency: { avg: 0, min: 0, max: 0 },
+      redis_info: info,
+    };
+  }
+
+  private async createGroup(topic: string, group: string): Promise<void> {
+    const start = this.options.startFrom === 'earliest' ? '0' : '$';
+    try {
+      await this.client.xgroup('CREATE', topic, group, start, 'MKSTREAM');
+    } catch (error: any) {
+      if (!String(error?.message).startsWith('BUSYGROUP')) throw error;
+    }
+  }
+
+  private async consume(
+    subscription: StreamSubscription,
+    callback: MessageCallback
+  ): Promise<void> {
+    const claimIdleTime = this.options.claimIdleTime ?? 30000;
+    let nextClaim = 0;
+
+    while (subscription.active) {
+      try {
+        if (subscription.group && this.clock.now() >= nextClaim) {
+          nextClaim = this.clock.now() + claimIdleTime;
+          await this.reclaim(subscription, callback, claimIdleTime);
+        }
+
+        const entries = await this.read(subscription);
+        for (const entry of entries) {
+          if (!subscription.active) return;
+          await this.deliver(subscription, entry, callback);
+        }
+      } catch (error) {
+        if (!subscription.active) return;
+        console.error(`Failed to read stream ${subscription.topic}:`, error);
+        await this.backoff(subscription);
+      }
+    }
+  }
+
+  /**
+   * Takes over entries other consumers of the group left pending for too long.
+   */
+  private async reclaim(
+    subscription: StreamSubscription,
+    callback: MessageCallback,
+    claimIdleTime: number
+  ): Promise<void> {
+    let cursor = '0-0';
+    do {
+      const [next, entries] = (await subscription.connection.callBuffer(
+        'XAUTOCLAIM',
+        subscription.topic,
+        subscription.group!,
+        subscription.consumer,
+        claimIdleTime,
+        cursor,
+        'COUNT',
+        this.options.batchSize ?? 10
+      )) as [Buffer, StreamEntry[]];
+
+      for (const entry of entries) {
+        if (!subscription.active) return;
+        await this.deliver(subscription, entry, callback);
+      }
+      cursor = next.toString();
+    } while (cursor !== '0-0' && subscription.active);
+  }
+
+  private async read(subscription: StreamSubscription): Promise<StreamEntry[]> {
+    const { connection, topic, group } = subscription;
+    const count = this.options.batchSize ?? 10;
+    const block = this.options.blockTime ?? 5000;
+
+    const reply = (
+      group
+        ? await connection.callBuffer(
+            'XREADGROUP',
+            'GROUP',
+            group,
+            subscription.consumer,
+            'COUNT',
+            count,
+            'BLOCK',
+            block,
+            'STREAMS',
+            topic,
+            '>'
+          )
+        : await connection.callBuffer(
+            'XREAD',
+            'COUNT',
+            count,
+            'BLOCK',
+            block,
+            'STREAMS',
+            topic,
+            subscription.lastId
+          )
+    ) as [Buffer, StreamEntry[]][] | null;
+
+    const entries = reply?.[0]?.[1] || [];
+    const last = entries[entries.length - 1];
+    if (last) subscription.lastId = last[0].toString();
+    return entries;
+  }
+
+  private async deliver(
+    subscription: StreamSubscription,
+    [rawId, fields]: StreamEntry,
+    callback: MessageCallback
+  ): Promise<void> {
+    const { topic, group } = subscription;
+    const id = rawId.toString();
+    const ack = async () => {
+      if (group) await this.client.xack(topic, group, id);
+    };
+
+    // Entries trimmed away while pending come back without fields
+    if (!fields) return ack();
+
+    let message: IMessage;
+    try {
+      message = this.decode(subscription, id, fields);
+    } catch (error) {
+      console.error(`Failed to decode entry ${id} from ${topic}:`, error);
+      // An entry that cannot be decoded never will be
+      return this.deadLetterEntry(subscription, id, fields, error, ack);
+    }
+
+    // A nacked entry stays pending and is reclaimed after claimIdleTime
+    const context = new DeliveryContext({
+      ack,
+      deadLetter: ack,
+      nack: async ({ requeue = true }) => {
+        if (!requeue) await ack();
+      },
+    });
+
+    let failed = false;
+    try {
+      await callback(message, context);
+    } catch (error) {
+      failed = true;
+      console.error(`Failed to process entry ${id} from ${topic}:`, error);
+    }
+    await context.complete(subscription.autoAck, failed);
+  }
+
+  /**
+   * Copies an entry's raw fields to the dead-letter stream, then acknowledges
+   * it. Entries stay pending when there is no dead-letter queue or the copy
+   * fails.
+   */
+  private async deadLetterEntry(
+    subscription: StreamSubscription,
+    id: string,
+    fields: Buffer[],
+    error: unknown,
+    ack: () => Promise<void>
+  ): Promise<void> {
+    const { topic } = subscription;
+    const dlq = this.config.deadLetterQueue;
+    const enabled = dlq ? dlq.enabled : this.config.features?.deadLetterQueue === true;
+    if (!enabled) return;
+
+    const dlqTopic = dlq?.topic || `${topic}.dlq`;
+    try {
+      await this.client.xadd(
+        dlqTopic,
+        ...this.trimArgs(),
+        '*',
+        ...fields,
+        DLQ_REASON_HEADER,
+        error instanceof Error ? error.message : String(error),
+        DLQ_ATTEMPTS_HEADER,
+        '1',
+        DLQ_ORIGINAL_TOPIC_HEADER,
+        topic,
+        DLQ_FAILED_AT_HEADER,
+        String(this.clock.now())
+      );
+    } catch (publishError) {
+      console.error(
+        `Failed to dead-letter entry ${id} from ${topic} to ${dlqTopic}:`,
+        publishError
+      );
+      return;
+    }
+    await ack();
+  }
+
+  private encode(message: IMessage): (string | Buffer)[] {
+    if (message.envelope === 'raw') {
+      const { data, contentType } = this.codecs.encodeRaw(message);
+      const headers = {
+        ...(contentType && { [CONTENT_TYPE_HEADER]: contentType }),
+        ...message.headers,
+      };
+      return [DATA_FIELD, data, ...Object.entries(headers).flat()];
+    }
+
+    const { data, contentType } = this.codecs.encode(message);
+    return [DATA_FIELD, data, CONTENT_TYPE_HEADER, contentType];
+  }
+
+  private decode(subscription: StreamSubscription, id: string, fields: Buffer[]): IMessage {
+    let data: Buffer | null = null;
+    const headers: Record<string, string> = {};
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      const name = fields[i]!.toString();
+      if (name === DATA_FIELD) {
+        data = fields[i + 1]!;
+      } else {
+        headers[name] = fields[i + 1]!.toString();
+      }
+    }
+
+    if (subscription.raw) {
+      return this.codecs.decodeRaw(subscription.topic, data, { id, headers, offset: id });
+    }
+    return this.codecs.decode(data || Buffer.alloc(0), headers[CONTENT_TYPE_HEADER]);
+  }
+
+  private trimArgs(): (string | number)[] {
+    if (!this.options.maxLen) return [];
+    return ['MAXLEN', this.options.exactTrim ? '=' : '~', this.options.maxLen];
+  }
+
+  private connectionOptions(): Record<string, unknown> {
+    return {
+      host: this.config.connection.host || 'localhost',
+      port: this.config.connection.port || 6379,
+      ...this.config.connection.options,
+    };
+  }
+
+  private backoff(subscription: StreamSubscription): Promise<void> {
+    return new Promise(resolve => {
+      const timer = this.clock.setTimeout(resolve, this.options.blockTime ?? 5000);
+      subscription.wake = () => {
+        this.clock.clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+}
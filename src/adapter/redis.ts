@@ -1,14 +1,32 @@
-import { IBrokerAdapter, IBrokerConfig, IMessage, BrokerMetrics } from '@/types';
+import {
+  IBrokerAdapter,
+  IBrokerConfig,
+  IMessage,
+  BrokerMetrics,
+  SubscriptionOptions,
+  PublishResult,
+  MessageCallback,
+} from '@/types';
 import Redis from 'ioredis';
+import { CodecRegistry } from '../codec/codec.registry';
+import { DeliveryContext } from '../utils/delivery.context';
+import { isTopicPattern, matchesTopicPattern, topicPatternToGlob } from '../utils/topic.pattern';
+
 export class RedisAdapter implements IBrokerAdapter {
   private client!: Redis;
   private subscriber!: Redis;
-  private subscriptions = new Map<string, string>();
+  private subscriptions = new Map<
+    string,
+    { channel: string; pattern: boolean; listener: (...args: any[]) => void }
+  >();
+  private readonly codecs: CodecRegistry;
 
   constructor(
     private config: IBrokerConfig,
     private redisClient: typeof Redis
-  ) {}
+  ) {
+    this.codecs = CodecRegistry.fromConfig(config);
+  }
 
   async connect(): Promise<void> {
     const options = {
@@ -27,34 +45,97 @@ export class RedisAdapter implements IBrokerAdapter {
 
   async publish(topic: string, message: IMessage): Promise<void> {
     const channel = message.channel || topic;
-    await this.client.publish(channel, JSON.stringify(message));
+    await this.client.publish(channel, this.encode(message));
+  }
+
+  async publishBatch(topic: string, messages: IMessage[]): Promise<PublishResult[]> {
+    const pipeline = this.client.pipeline();
+    const results: (PublishResult | undefined)[] = messages.map(message => {
+      try {
+        pipeline.publish(message.channel || topic, this.encode(message));
+        return undefined;
+      } catch (error) {
+        return { messageId: message.id, success: false, error: error as Error };
+      }
+    });
+
+    const replies = (await pipeline.exec()) || [];
+    let reply = 0;
+    return messages.map((message, index) => {
+      const failed = results[index];
+      if (failed) return failed;
+
+      const error = replies[reply++]?.[0];
+      return error
+        ? { messageId: message.id, success: false, error }
+        : { messageId: message.id, success: true };
+    });
   }
 
-  async subscribe(topic: string, callback: (message: IMessage) => void): Promise<string> {
+  async subscribe(
+    topic: string,
+    callback: MessageCallback,
+    options?: SubscriptionOptions
+  ): Promise<string> {
     const subscriptionId = `redis_sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-    await this.subscriber.subscribe(topic);
-    this.subscriber.on('message', (_channel: string, data: string) => {
-      if (topic === _channel) {
-        try {
-          const message = JSON.parse(data);
-          callback(message);
-        } catch (error: any) {
-          console.log(error.message);
-        }
+    const deliver = (channel: string, data: Buffer) => {
+      try {
+        const message =
+          options?.envelope === 'raw'
+            ? this.codecs.decodeRaw(channel, data)
+            : this.codecs.unframe(data);
+        // Pub/sub has no acknowledgements to settle
+        callback(message, new DeliveryContext({}, undefined, channel));
+      } catch (error: any) {
+        console.log(error.message);
       }
-    });
+    };
+
+    // Several subscriptions can share a channel or glob ('orders.*' and 'orders.>'
+    // both map to the glob 'orders.*'), so each has its own listener
+    if (isTopicPattern(topic)) {
+      const glob = topicPatternToGlob(topic);
+      const listener = (pattern: string, channel: Buffer, data: Buffer) => {
+        // Globs also match dots, so they select more channels than the pattern
+        if (glob === pattern && matchesTopicPattern(topic, channel.toString())) {
+          deliver(channel.toString(), data);
+        }
+      };
+      this.subscriptions.set(subscriptionId, { channel: glob, pattern: true, listener });
+      this.subscriber.on('pmessageBuffer', listener);
+      await this.subscriber.psubscribe(glob);
+    } else {
+      const listener = (channel: Buffer, data: Buffer) => {
+        if (topic === channel.toString()) {
+          deliver(topic, data);
+        }
+      };
+      this.subscriptions.set(subscriptionId, { channel: topic, pattern: false, listener });
+      this.subscriber.on('messageBuffer', listener);
+      await this.subscriber.subscribe(topic);
+    }
 
-    this.subscriptions.set(subscriptionId, topic);
     return subscriptionId;
   }
 
   async unsubscribe(subscriptionId: string): Promise<boolean> {
-    const topic = this.subscriptions.get(subscriptionId);
-    if (!topic) return false;
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) return false;
 
-    await this.subscriber.unsubscribe(topic);
+    const { channel, pattern, listener } = subscription;
+    this.subscriber.off(pattern ? 'pmessageBuffer' : 'messageBuffer', listener);
     this.subscriptions.delete(subscriptionId);
+
+    // The channel or glob stays subscribed while other subscriptions use it
+    for (const other of this.subscriptions.values()) {
+      if (other.channel === channel && other.pattern === pattern) return true;
+    }
+    if (pattern) {
+      await this.subscriber.punsubscribe(channel);
+    } else {
+      await this.subscriber.unsubscribe(channel);
+    }
     return true;
   }
 
@@ -77,4 +158,12 @@ export class RedisAdapter implements IBrokerAdapter {
       redis_info: info,
     };
   }
+
+  private encode(message: IMessage): Buffer {
+    // Pub/sub has no headers, so the content type travels in a frame prefix.
+    // Raw messages carry only their payload; headers cannot be sent.
+    return message.envelope === 'raw'
+      ? this.codecs.encodeRaw(message).data
+      : this.codecs.frame(message);
+  }
 }
@@ -0,0 +1,309 @@
+import { BrokerError, BrokerType, Codec, ErrorType, IBrokerConfig, IMessage } from '@/types';
+import { JsonCodec } from './json.codec';
+import { MessagePackCodec } from './msgpack.codec';
+
+/**
+ * Transport header carrying the codec's content type
+ */
+export const CONTENT_TYPE_HEADER = 'content-type';
+
+/**
+ * Marks a framed payload on transports without headers. JSON text never starts
+ * with a NUL byte, so unframed JSON from older producers is still recognised.
+ */
+const FRAME_MARKER = 0x00;
+
+/**
+ * Size on the wire of the messages registries encoded or decoded, for metrics
+ */
+const encodedSizes = new WeakMap<IMessage, number>();
+
+/**
+ * Returns the size in bytes of a message as last encoded or decoded by a codec
+ * registry, including the envelope, or undefined if none has.
+ *
+ * @param message - A message passed to or returned by a registry
+ */
+export function encodedSize(message: IMessage): number | undefined {
+  return encodedSizes.get(message);
+}
+
+/**
+ * Native details of a record received in raw envelope mode
+ */
+export interface RawRecord {
+  /** Native message id, if the broker has one */
+  readonly id?: string;
+  readonly key?: string;
+  readonly headers?: Readonly<Record<string, string>>;
+  readonly offset?: string;
+  readonly partition?: string;
+  readonly timestamp?: number;
+}
+
+/**
+ * Resolves codecs by content type for an adapter.
+ *
+ * Messages are encoded with the configured default codec. Incoming data is
+ * decoded with the codec matching its content type; data without one is treated
+ * as JSON, which is what producers without codec support send.
+ *
+ * @example
+ * ```typescript
+ * const codecs = CodecRegistry.fromConfig({ type: 'kafka', connection: {}, codec: 'msgpack' });
+ * const { data, contentType } = codecs.encode(message);
+ * const decoded = codecs.decode(data, contentType);
+ * ```
+ */
+export class CodecRegistry {
+  private static readonly JSON = 'application/json';
+  private readonly codecs = new Map<string, Codec>();
+
+  constructor(
+    private readonly brokerType: BrokerType,
+    private readonly defaultCodec: Codec,
+    codecs: readonly Codec[] = []
+  ) {
+    [
+      new JsonCodec(),
+      new JsonCodec({ extendedTypes: true }),
+      new MessagePackCodec(),
+      ...codecs,
+      defaultCodec,
+    ].forEach(codec => this.register(codec));
+  }
+
+  /**
+   * Creates a registry from the `codec` and `codecs` broker options.
+   *
+   * @param config - The broker configuration
+   */
+  static fromConfig(config: IBrokerConfig): CodecRegistry {
+    let codec: Codec;
+    switch (config.codec) {
+      case undefined:
+      case 'json':
+        codec = new JsonCodec();
+        break;
+      case 'msgpack':
+        codec = new MessagePackCodec();
+        break;
+      default:
+        codec = config.codec;
+    }
+    return new CodecRegistry(config.type, codec, config.codecs);
+  }
+
+  /**
+   * Adds a codec, replacing any codec with the same content type.
+   *
+   * @param codec - The codec to register
+   */
+  register(codec: Codec): void {
+    this.codecs.set(this.normalize(codec.contentType), codec);
+  }
+
+  /**
+   * Looks up a codec by content type. Parameters such as `charset` are ignored.
+   *
+   * @param contentType - The content type to look up
+   */
+  get(contentType: string): Codec | undefined {
+    return this.codecs.get(this.normalize(contentType));
+  }
+
+  getDefault(): Codec {
+    return this.defaultCodec;
+  }
+
+  /**
+   * Encodes a message with the default codec.
+   *
+   * @param message - The message to encode
+   * @returns The encoded bytes and the content type to send along with them
+   */
+  encode(message: IMessage): { data: Buffer; contentType: string } {
+    try {
+      const data = this.defaultCodec.encode(message);
+      encodedSizes.set(message, data.length);
+      return { data, contentType: this.defaultCodec.contentType };
+    } catch (error) {
+      throw this.serializationError(
+        `Failed to encode message ${message.id} as ${this.defaultCodec.contentType}`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Decodes a message with the codec registered for its content type.
+   *
+   * @param data - The encoded message
+   * @param contentType - The content type sent with the message, JSON if absent
+   * @throws {BrokerError} `SERIALIZATION_ERROR` for unknown content types or invalid data
+   */
+  decode(data: Uint8Array | string, contentType?: string): IMessage {
+    const type = contentType || CodecRegistry.JSON;
+    const codec = this.get(type);
+    if (!codec) {
+      throw this.serializationError(`No codec registered for content type '${type}'`);
+    }
+
+    let message: IMessage;
+    const buffer = this.toBuffer(data);
+    try {
+      message = codec.decode(buffer);
+      // Valid JSON such as `5` or `null` is not a message envelope
+      if (message === null || typeof message !== 'object' || Array.isArray(message)) {
+        throw new Error(`Expected a message envelope, got ${JSON.stringify(message)}`);
+      }
+    } catch (error) {
+      throw this.serializationError(`Failed to decode message as ${type}`, error);
+    }
+    encodedSizes.set(message, buffer.length);
+    return message;
+  }
+
+  /**
+   * Encodes a message for transports without headers. The content type is
+   * prefixed to the data unless it is JSON, which stays readable by consumers
+   * without codec support.
+   *
+   * @param message - The message to encode
+   */
+  frame(message: IMessage): Buffer {
+    const { data, contentType } = this.encode(message);
+    if (this.normalize(contentType) === CodecRegistry.JSON) {
+      return data;
+    }
+
+    const framed = Buffer.concat([
+      Buffer.from([FRAME_MARKER]),
+      Buffer.from(contentType),
+      Buffer.from([FRAME_MARKER]),
+      data,
+    ]);
+    encodedSizes.set(message, framed.length);
+    return framed;
+  }
+
+  /**
+   * Decodes data produced by `frame`.
+   *
+   * @param data - The framed message
+   */
+  unframe(data: Uint8Array | string): IMessage {
+    const buffer = this.toBuffer(data);
+    if (buffer[0] !== FRAME_MARKER) {
+      return this.decode(buffer);
+    }
+
+    const end = buffer.indexOf(FRAME_MARKER, 1);
+    if (end === -1) {
+      throw this.serializationError('Malformed message frame');
+    }
+    const message = this.decode(buffer.subarray(end + 1), buffer.toString('utf8', 1, end));
+    encodedSizes.set(message, buffer.length);
+    return message;
+  }
+
+  /**
+   * Encodes only the payload of a message, for consumers outside this library.
+   * Binary payloads are sent as-is, strings as UTF-8 text and anything else as JSON.
+   *
+   * @param message - The message whose payload to encode
+   * @returns The payload bytes, with a content type unless the payload was binary
+   */
+  encodeRaw(message: IMessage): { data: Buffer; contentType?: string } {
+    const encoded = this.encodePayload(message);
+    encodedSizes.set(message, encoded.data.length);
+    return encoded;
+  }
+
+  /**
+   * Wraps a record produced outside this library in a message. The id, type and
+   * timestamp are synthesized from the native record, which is kept in `metadata`.
+   * The payload is parsed for JSON and text content types and left as a Buffer
+   * otherwise.
+   *
+   * @param topic - The topic the record was received on, used as the message type
+   * @param data - The record value
+   * @param record - Native key, headers, offset and partition of the record
+   */
+  decodeRaw(topic: string, data: Uint8Array | string | null, record: RawRecord = {}): IMessage {
+    const buffer = this.toBuffer(data ?? '');
+    const contentType = this.normalize(record.headers?.[CONTENT_TYPE_HEADER] || '');
+
+    let payload: unknown = buffer;
+    if (contentType === CodecRegistry.JSON || contentType.endsWith('+json')) {
+      try {
+        payload = JSON.parse(buffer.toString());
+      } catch (error) {
+        throw this.serializationError(`Failed to parse raw JSON payload on ${topic}`, error);
+      }
+    } else if (contentType.startsWith('text/')) {
+      payload = buffer.toString();
+    }
+
+    const metadata: Record<string, unknown> = { envelope: 'raw', topic };
+    for (const field of ['key', 'headers', 'offset', 'partition'] as const) {
+      if (record[field] !== undefined) metadata[field] = record[field];
+    }
+
+    const message: IMessage = {
+      id:
+        record.id ||
+        (record.offset !== undefined
+          ? `${topic}:${record.partition ?? 0}:${record.offset}`
+          : `raw_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`),
+      type: topic,
+      payload,
+      timestamp: record.timestamp ?? Date.now(),
+      metadata,
+    };
+    if (record.headers) message.headers = record.headers;
+    if (record.partition !== undefined) message.partition = record.partition;
+    encodedSizes.set(message, buffer.length);
+    return message;
+  }
+
+  private encodePayload(message: IMessage): { data: Buffer; contentType?: string } {
+    const { payload } = message;
+    if (payload instanceof Uint8Array) {
+      return { data: this.toBuffer(payload) };
+    }
+    if (typeof payload === 'string') {
+      return { data: Buffer.from(payload), contentType: 'text/plain' };
+    }
+
+    try {
+      return {
+        data: Buffer.from(JSON.stringify(payload ?? null)),
+        contentType: CodecRegistry.JSON,
+      };
+    } catch (error) {
+      throw this.serializationError(`Failed to encode raw payload of message ${message.id}`, error);
+    }
+  }
+
+  private normalize(contentType: string): string {
+    return contentType.split(';')[0]!.trim().toLowerCase();
+  }
+
+  private toBuffer(data: Uint8Array | string): Buffer {
+    if (typeof data === 'string') return Buffer.from(data);
+    return Buffer.isBuffer(data)
+      ? data
+      : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  private serializationError(message: string, cause?: unknown): BrokerError {
+    const reason = cause instanceof Error ? `: ${cause.message}` : '';
+    return new BrokerError(
+      `${message}${reason}`,
+      ErrorType.SERIALIZATION_ERROR,
+      this.brokerType,
+      cause instanceof Error ? cause : undefined
+    );
+  }
+}
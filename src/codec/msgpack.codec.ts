@@ -0,0 +1,436 @@
+import { Codec, IMessage } from '@/types';
+
+/**
+ * Extension type reserved by the MessagePack spec for timestamps
+ */
+const TIMESTAMP_EXT = -1;
+
+/**
+ * Application extension type for BigInts, holding the value in decimal so any
+ * size fits and it stays a BigInt however small
+ */
+const BIGINT_EXT = 1;
+
+/**
+ * MessagePack codec with no third-party dependency. Binary values (`Buffer`,
+ * `Uint8Array`) are written as `bin`, Dates as the standard timestamp extension and
+ * BigInts as extension type 1, so all of them survive a round trip. 64-bit
+ * integers from other producers decode as numbers when they are safe integers
+ * and as BigInts otherwise.
+ *
+ * @example
+ * ```typescript
+ * const manager = await MessageBrokerFactory.create({
+ *   type: 'kafka',
+ *   connection: { urls: ['localhost:9092'] },
+ *   codec: 'msgpack',
+ * }, { kafkajs: Kafka });
+ * ```
+ */
+export class MessagePackCodec implements Codec {
+  readonly contentType = 'application/msgpack';
+
+  encode(message: IMessage): Buffer {
+    const writer = new Writer();
+    writer.value(message);
+    return writer.finish();
+  }
+
+  decode(data: Buffer): IMessage {
+    const reader = new Reader(data);
+    const value = reader.value();
+    if (reader.remaining() !== 0) {
+      throw new Error(`Unexpected ${reader.remaining()} trailing bytes in MessagePack data`);
+    }
+    return value as IMessage;
+  }
+}
+
+class Writer {
+  private buffer = Buffer.allocUnsafe(256);
+  private offset = 0;
+
+  finish(): Buffer {
+    return Buffer.from(this.buffer.subarray(0, this.offset));
+  }
+
+  value(value: unknown): void {
+    if (value === null || value === undefined) {
+      this.u8(0xc0);
+    } else if (typeof value === 'boolean') {
+      this.u8(value ? 0xc3 : 0xc2);
+    } else if (typeof value === 'number') {
+      this.number(value);
+    } else if (typeof value === 'bigint') {
+      this.bigint(value);
+    } else if (typeof value === 'string') {
+      this.string(value);
+    } else if (value instanceof Uint8Array) {
+      this.binary(value);
+    } else if (value instanceof Date) {
+      this.timestamp(value);
+    } else if (Array.isArray(value)) {
+      this.header(value.length, 0x90, 0xdc, 0xdd);
+      value.forEach(item => this.value(item));
+    } else if (value instanceof Map) {
+      this.header(value.size, 0x80, 0xde, 0xdf);
+      value.forEach((item, key) => {
+        this.value(key);
+        this.value(item);
+      });
+    } else if (typeof value === 'object') {
+      // Mirror JSON: properties holding undefined or functions are skipped
+      const entries = Object.entries(value).filter(
+        ([, item]) => item !== undefined && typeof item !== 'function'
+      );
+      this.header(entries.length, 0x80, 0xde, 0xdf);
+      for (const [key, item] of entries) {
+        this.string(key);
+        this.value(item);
+      }
+    } else {
+      throw new Error(`Cannot encode ${typeof value} as MessagePack`);
+    }
+  }
+
+  private number(value: number): void {
+    if (!Number.isSafeInteger(value)) {
+      this.ensure(9);
+      this.buffer[this.offset++] = 0xcb;
+      this.buffer.writeDoubleBE(value, this.offset);
+      this.offset += 8;
+      return;
+    }
+
+    if (value >= 0) {
+      if (value < 0x80) {
+        this.u8(value);
+      } else if (value < 0x100) {
+        this.u8(0xcc);
+        this.u8(value);
+      } else if (value < 0x10000) {
+        this.u8(0xcd);
+        this.u16(value);
+      } else if (value < 0x100000000) {
+        this.u8(0xce);
+        this.u32(value);
+      } else {
+        this.int64(BigInt(value));
+      }
+    } else if (value >= -32) {
+      this.u8(value & 0xff);
+    } else if (value >= -0x80) {
+      this.u8(0xd0);
+      this.ensure(1);
+      this.buffer.writeInt8(value, this.offset++);
+    } else if (value >= -0x8000) {
+      this.u8(0xd1);
+      this.ensure(2);
+      this.buffer.writeInt16BE(value, this.offset);
+      this.offset += 2;
+    } else if (value >= -0x80000000) {
+      this.u8(0xd2);
+      this.ensure(4);
+      this.buffer.writeInt32BE(value, this.offset);
+      this.offset += 4;
+    } else {
+      this.int64(BigInt(value));
+    }
+  }
+
+  /**
+   * Writes a safe integer too wide for 32 bits as uint64 or int64.
+   */
+  private int64(value: bigint): void {
+    this.ensure(9);
+    if (value >= BigInt(0)) {
+      this.buffer[this.offset++] = 0xcf;
+      this.buffer.writeBigUInt64BE(value, this.offset);
+    } else {
+      this.buffer[this.offset++] = 0xd3;
+      this.buffer.writeBigInt64BE(value, this.offset);
+    }
+    this.offset += 8;
+  }
+
+  private bigint(value: bigint): void {
+    const digits = Buffer.from(value.toString(), 'ascii');
+    const length = digits.length;
+    if (length < 0x100) {
+      this.u8(0xc7);
+      this.u8(length);
+    } else {
+      this.u8(0xc8);
+      this.u16(length);
+    }
+    this.u8(BIGINT_EXT);
+    this.bytes(digits);
+  }
+
+  private string(value: string): void {
+    const bytes = Buffer.from(value, 'utf8');
+    const length = bytes.length;
+    if (length < 32) {
+      this.u8(0xa0 | length);
+    } else if (length < 0x100) {
+      this.u8(0xd9);
+      this.u8(length);
+    } else if (length < 0x10000) {
+      this.u8(0xda);
+      this.u16(length);
+    } else {
+      this.u8(0xdb);
+      this.u32(length);
+    }
+    this.bytes(bytes);
+  }
+
+  private binary(value: Uint8Array): void {
+    const length = value.byteLength;
+    if (length < 0x100) {
+      this.u8(0xc4);
+      this.u8(length);
+    } else if (length < 0x10000) {
+      this.u8(0xc5);
+      this.u16(length);
+    } else {
+      this.u8(0xc6);
+      this.u32(length);
+    }
+    this.bytes(value);
+  }
+
+  private timestamp(value: Date): void {
+    const millis = value.getTime();
+    const seconds = Math.floor(millis / 1000);
+    const nanoseconds = (millis - seconds * 1000) * 1e6;
+
+    // timestamp 96: ext8 header, 32-bit nanoseconds, signed 64-bit seconds
+    this.u8(0xc7);
+    this.u8(12);
+    this.u8(TIMESTAMP_EXT & 0xff);
+    this.u32(nanoseconds);
+    this.ensure(8);
+    this.buffer.writeBigInt64BE(BigInt(seconds), this.offset);
+    this.offset += 8;
+  }
+
+  private header(length: number, fix: number, code16: number, code32: number): void {
+    if (length < 16) {
+      this.u8(fix | length);
+    } else if (length < 0x10000) {
+      this.u8(code16);
+      this.u16(length);
+    } else {
+      this.u8(code32);
+      this.u32(length);
+    }
+  }
+
+  private u8(value: number): void {
+    this.ensure(1);
+    this.buffer[this.offset++] = value;
+  }
+
+  private u16(value: number): void {
+    this.ensure(2);
+    this.buffer.writeUInt16BE(value, this.offset);
+    this.offset += 2;
+  }
+
+  private u32(value: number): void {
+    this.ensure(4);
+    this.buffer.writeUInt32BE(value, this.offset);
+    this.offset += 4;
+  }
+
+  private bytes(value: Uint8Array): void {
+    this.ensure(value.byteLength);
+    this.buffer.set(value, this.offset);
+    this.offset += value.byteLength;
+  }
+
+  private ensure(size: number): void {
+    if (this.offset + size <= this.buffer.length) return;
+
+    const grown = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.offset + size));
+    this.buffer.copy(grown, 0, 0, this.offset);
+    this.buffer = grown;
+  }
+}
+
+class Reader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  remaining(): number {
+    return this.buffer.length - this.offset;
+  }
+
+  value(): unknown {
+    const code = this.u8();
+
+    if (code <= 0x7f) return code;
+    if (code >= 0xe0) return code - 0x100;
+    if ((code & 0xf0) === 0x80) return this.map(code & 0x0f);
+    if ((code & 0xf0) === 0x90) return this.array(code & 0x0f);
+    if ((code & 0xe0) === 0xa0) return this.string(code & 0x1f);
+
+    switch (code) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+        return this.binary(this.u8());
+      case 0xc5:
+        return this.binary(this.u16());
+      case 0xc6:
+        return this.binary(this.u32());
+      case 0xc7:
+        return this.extension(this.u8());
+      case 0xc8:
+        return this.extension(this.u16());
+      case 0xc9:
+        return this.extension(this.u32());
+      case 0xca:
+        return this.read(4, () => this.buffer.readFloatBE(this.offset));
+      case 0xcb:
+        return this.read(8, () => this.buffer.readDoubleBE(this.offset));
+      case 0xcc:
+        return this.u8();
+      case 0xcd:
+        return this.u16();
+      case 0xce:
+        return this.u32();
+      case 0xcf:
+        return this.integer(this.read(8, () => this.buffer.readBigUInt64BE(this.offset)));
+      case 0xd0:
+        return this.read(1, () => this.buffer.readInt8(this.offset));
+      case 0xd1:
+        return this.read(2, () => this.buffer.readInt16BE(this.offset));
+      case 0xd2:
+        return this.read(4, () => this.buffer.readInt32BE(this.offset));
+      case 0xd3:
+        return this.integer(this.read(8, () => this.buffer.readBigInt64BE(this.offset)));
+      case 0xd4:
+        return this.extension(1);
+      case 0xd5:
+        return this.extension(2);
+      case 0xd6:
+        return this.extension(4);
+      case 0xd7:
+        return this.extension(8);
+      case 0xd8:
+        return this.extension(16);
+      case 0xd9:
+        return this.string(this.u8());
+      case 0xda:
+        return this.string(this.u16());
+      case 0xdb:
+        return this.string(this.u32());
+      case 0xdc:
+        return this.array(this.u16());
+      case 0xdd:
+        return this.array(this.u32());
+      case 0xde:
+        return this.map(this.u16());
+      case 0xdf:
+        return this.map(this.u32());
+      default:
+        throw new Error(`Invalid MessagePack type 0x${code.toString(16)}`);
+    }
+  }
+
+  private map(size: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < size; i++) {
+      const key = this.value();
+      // Defined rather than assigned, so a `__proto__` key stays a plain property
+      Object.defineProperty(result, String(key), {
+        value: this.value(),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return result;
+  }
+
+  private array(size: number): unknown[] {
+    const result: unknown[] = [];
+    for (let i = 0; i < size; i++) {
+      result.push(this.value());
+    }
+    return result;
+  }
+
+  private string(length: number): string {
+    return this.read(length, () => this.buffer.toString('utf8', this.offset, this.offset + length));
+  }
+
+  private binary(length: number): Buffer {
+    return this.read(length, () =>
+      Buffer.from(this.buffer.subarray(this.offset, this.offset + length))
+    );
+  }
+
+  private extension(length: number): unknown {
+    const type = this.read(1, () => this.buffer.readInt8(this.offset));
+    if (type === BIGINT_EXT) {
+      const digits = this.string(length);
+      if (!/^-?\d+$/.test(digits)) throw new Error(`Invalid MessagePack BigInt ${digits}`);
+      return BigInt(digits);
+    }
+    if (type !== TIMESTAMP_EXT) {
+      throw new Error(`Unsupported MessagePack extension type ${type}`);
+    }
+
+    switch (length) {
+      case 4:
+        return new Date(this.u32() * 1000);
+      case 8: {
+        const value = this.read(8, () => this.buffer.readBigUInt64BE(this.offset));
+        const nanoseconds = Number(value >> BigInt(34));
+        const seconds = Number(value & BigInt('0x3ffffffff'));
+        return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+      }
+      case 12: {
+        const nanoseconds = this.u32();
+        const seconds = Number(this.read(8, () => this.buffer.readBigInt64BE(this.offset)));
+        return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+      }
+      default:
+        throw new Error(`Invalid MessagePack timestamp length ${length}`);
+    }
+  }
+
+  private integer(value: bigint): number | bigint {
+    const asNumber = Number(value);
+    return Number.isSafeInteger(asNumber) ? asNumber : value;
+  }
+
+  private u8(): number {
+    return this.read(1, () => this.buffer.readUInt8(this.offset));
+  }
+
+  private u16(): number {
+    return this.read(2, () => this.buffer.readUInt16BE(this.offset));
+  }
+
+  private u32(): number {
+    return this.read(4, () => this.buffer.readUInt32BE(this.offset));
+  }
+
+  private read<T>(size: number, reader: () => T): T {
+    if (this.offset + size > this.buffer.length) {
+      throw new Error('Unexpected end of MessagePack data');
+    }
+    const value = reader();
+    this.offset += size;
+    return value;
+  }
+}
@@ -0,0 +1,77 @@
+import { Codec, IMessage } from '@/types';
+import { MessagePackCodec } from './msgpack.codec';
+
+/**
+ * Serializes message payloads with a schema, e.g. a Protobuf message type or an
+ * Avro schema.
+ */
+export interface PayloadSerializer {
+  /**
+   * MIME type recorded for messages using this serializer, e.g. `application/x-protobuf`
+   */
+  readonly contentType: string;
+
+  /**
+   * Converts a payload to bytes.
+   * @param payload - The message payload
+   * @param message - The envelope the payload belongs to
+   */
+  serialize(payload: unknown, message: IMessage): Uint8Array;
+
+  /**
+   * Converts bytes produced by `serialize` back to a payload.
+   * @param data - The serialized payload
+   * @param message - The decoded envelope, with the serialized payload
+   */
+  deserialize(data: Uint8Array, message: IMessage): unknown;
+}
+
+/**
+ * Hook for schema-based codecs such as Protobuf and Avro. The payload is written
+ * with the given serializer and the envelope around it (id, type, headers, ...)
+ * with a binary-safe envelope codec, MessagePack by default.
+ *
+ * @example
+ * ```typescript
+ * // protobufjs
+ * const Order = root.lookupType('shop.Order');
+ * const protobuf = new SchemaCodec({
+ *   contentType: 'application/x-protobuf',
+ *   serialize: payload => Order.encode(Order.fromObject(payload as object)).finish(),
+ *   deserialize: data => Order.toObject(Order.decode(data)),
+ * });
+ *
+ * // avsc
+ * const type = avro.Type.forSchema(orderSchema);
+ * const avroCodec = new SchemaCodec({
+ *   contentType: 'application/avro',
+ *   serialize: payload => type.toBuffer(payload),
+ *   deserialize: data => type.fromBuffer(Buffer.from(data)),
+ * });
+ *
+ * const config = { type: 'kafka', connection: {}, codec: protobuf, codecs: [avroCodec] };
+ * ```
+ */
+export class SchemaCodec implements Codec {
+  readonly contentType: string;
+
+  constructor(
+    private readonly serializer: PayloadSerializer,
+    private readonly envelope: Codec = new MessagePackCodec()
+  ) {
+    this.contentType = serializer.contentType;
+  }
+
+  encode(message: IMessage): Buffer {
+    const payload = Buffer.from(this.serializer.serialize(message.payload, message));
+    return this.envelope.encode({ ...message, payload });
+  }
+
+  decode(data: Buffer): IMessage {
+    const message = this.envelope.decode(data);
+    if (!(message.payload instanceof Uint8Array)) {
+      throw new Error(`Expected a binary payload for ${this.contentType}`);
+    }
+    return { ...message, payload: this.serializer.deserialize(message.payload, message) };
+  }
+}
@@ -1,6 +1,9 @@
-import { KafkaAdapter } from '../adapter/kafka';
+import { KafkaAdapter, KafkaAdapterOptions } from '../adapter/kafka';
 import { NATSAdapter } from '../adapter/nats';
+import { JetStreamAdapter, JetStreamAdapterOptions } from '../adapter/jetstream';
 import { RedisAdapter } from '../adapter/redis';
+import { RedisStreamsAdapter, RedisStreamsAdapterOptions } from '../adapter/redis-streams';
+import { InMemoryAdapter, InMemoryAdapterOptions } from '../adapter/memory';
 import { IBrokerConfig, IBrokerAdapter } from '@/types';
 import { UniversalMessageManager } from '../universal/message.manager';
 
@@ -16,6 +19,13 @@ export class MessageBrokerFactory {
         adapter = new RedisAdapter(config, dependencies.redis);
         break;
 
+      case 'redis-streams':
+        if (!dependencies?.redis) {
+          throw new Error('Redis dependency required');
+        }
+        adapter = new RedisStreamsAdapter(config, dependencies.redis, dependencies.streams);
+        break;
+
       case 'nats':
         if (!dependencies?.nats) {
           throw new Error('NATS dependency required');
@@ -23,11 +33,22 @@ export class MessageBrokerFactory {
         adapter = new NATSAdapter(config, dependencies.nats);
         break;
 
+      case 'nats-jetstream':
+        if (!dependencies?.nats) {
+          throw new Error('NATS dependency required');
+        }
+        adapter = new JetStreamAdapter(config, dependencies.nats, dependencies.jetstream);
+        break;
+
       case 'kafka':
         if (!dependencies?.kafkajs) {
           throw new Error('KafkaJS dependency required');
         }
-        adapter = new KafkaAdapter(config, dependencies.kafkajs);
+        adapter = new KafkaAdapter(config, dependencies.kafkajs, dependencies.kafka);
+        break;
+
+      case 'memory':
+        adapter = new InMemoryAdapter(config, dependencies?.memory);
         break;
 
       default:
@@ -46,11 +67,26 @@ export class MessageBrokerFactory {
     const config: IBrokerConfig = {
       type: 'redis',
       connection: { host, port, options },
-      features: { persistence: true, clustering: true },
+      features: { clustering: true },
     };
     return await this.create(config, { redis });
   }
 
+  static async createRedisStreams(
+    host: string,
+    port: number,
+    redis: any,
+    streams?: RedisStreamsAdapterOptions,
+    options?: any
+  ): Promise<UniversalMessageManager> {
+    const config: IBrokerConfig = {
+      type: 'redis-streams',
+      connection: { host, port, options },
+      features: { clustering: true, durability: true },
+    };
+    return await this.create(config, { redis, streams });
+  }
+
   static async createNATS(
     urls: string[],
     nats: any,
@@ -64,16 +100,40 @@ export class MessageBrokerFactory {
     return await this.create(config, { nats });
   }
 
+  static async createJetStream(
+    urls: string[],
+    nats: any,
+    jetstream?: JetStreamAdapterOptions,
+    options?: any
+  ): Promise<UniversalMessageManager> {
+    const config: IBrokerConfig = {
+      type: 'nats-jetstream',
+      connection: { urls, options },
+      features: { clustering: true, durability: true },
+    };
+    return await this.create(config, { nats, jetstream });
+  }
+
   static async createKafka(
     brokers: string[],
     kafkajs: any,
-    options?: any
+    options?: any,
+    kafka?: KafkaAdapterOptions
   ): Promise<UniversalMessageManager> {
     const config: IBrokerConfig = {
       type: 'kafka',
       connection: { urls: brokers, options },
-      features: { persistence: true, clustering: true, partitioning: true, durability: true },
+      features: { clustering: true, partitioning: true, durability: true },
+    };
+    return await this.create(config, { kafkajs, kafka });
+  }
+
+  static async createInMemory(options?: InMemoryAdapterOptions): Promise<UniversalMessageManager> {
+    const config: IBrokerConfig = {
+      type: 'memory',
+      connection: {},
+      features: { persistence: false, partitioning: true },
     };
-    return await this.create(config, { kafkajs });
+    return await this.create(config, { memory: options });
   }
 }
@@ -1,44 +1,42 @@
 import { IMessageHandler, IMessage } from '@/types';
+import { RetryPolicy } from '../utils/retry.policy';
 
 export class RetryHandler implements IMessageHandler {
   priority = 15;
-  private retryCount = new Map<string, number>();
+  private policy: RetryPolicy;
 
   constructor(
-    private maxRetries: number = 3,
-    private retryDelay: number = 1000
-  ) {}
+    maxRetries: number = 3,
+    retryDelay: number = 1000,
+    private delegate?: IMessageHandler
+  ) {
+    this.policy = new RetryPolicy({
+      maxRetries,
+      initialDelay: retryDelay,
+      maxDelay: retryDelay * Math.pow(2, maxRetries),
+      backoffMultiplier: 2,
+    });
+  }
 
   canHandle(message: IMessage): boolean {
+    if (this.delegate) {
+      return this.delegate.canHandle(message);
+    }
     return message.metadata?.retry === true;
   }
 
   async handle(message: IMessage): Promise<void> {
-    const currentRetries = this.retryCount.get(message.id) || 0;
-
-    if (currentRetries >= this.maxRetries) {
-      console.error(`Message ${message.id} exceeded max retries (${this.maxRetries})`);
-      this.retryCount.delete(message.id);
-      return;
+    const delegate = this.delegate;
+    // Retrying cannot supply a missing handler
+    if (!delegate) {
+      throw new Error(`No handler to retry for message ${message.id}`);
     }
 
-    try {
-      await this.processMessage(message);
-      this.retryCount.delete(message.id);
-    } catch (error) {
-      console.warn(`Message ${message.id} failed, retrying... (attempt ${currentRetries + 1})`);
-      this.retryCount.set(message.id, currentRetries + 1);
-
-      setTimeout(
-        () => {
-          console.log(`Retrying message ${message.id}`);
-        },
-        this.retryDelay * Math.pow(2, currentRetries)
-      );
-    }
-  }
-
-  private async processMessage(message: IMessage): Promise<void> {
-    throw new Error('Message processing not implemented' + message);
+    await this.policy.execute(
+      async () => delegate.handle(message),
+      (_error, attempt, delay) => {
+        console.warn(`Message ${message.id} failed, retrying in ${delay}ms (attempt ${attempt})`);
+      }
+    );
   }
 }
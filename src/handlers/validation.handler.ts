@@ -1,36 +1,91 @@
-import { IMessageHandler, IMessage } from '@/types';
+import { BrokerType, IMessageHandler, IMessage, JsonSchema, SchemaValidationError } from '@/types';
+import { SchemaRegistry, SCHEMA_VERSION_HEADER } from '../universal/schema.registry';
 
-type Schema<T extends object = any> = {
-  required?: (keyof T)[];
-};
-
-export class ValidationHandler<TSchemas extends Record<string, object>> implements IMessageHandler {
+/**
+ * Validates message payloads against the JSON Schemas of a `SchemaRegistry`.
+ *
+ * As a handler it rejects invalid consumed messages. The manager also uses it
+ * on both sides once given a registry with `setSchemaRegistry()`: outgoing
+ * messages are stamped with the latest schema version and validated before
+ * they are published, and invalid incoming messages are dead-lettered without
+ * retries. Failures throw a `SchemaValidationError` (`VALIDATION_ERROR`)
+ * listing every violation with its path.
+ *
+ * @example
+ * ```typescript
+ * const schemas = new SchemaRegistry();
+ * schemas.register('user.created', {
+ *   type: 'object',
+ *   required: ['userId', 'email'],
+ *   properties: { userId: { type: 'integer' }, email: { type: 'string', format: 'email' } },
+ * });
+ *
+ * manager.registerHandler('user.created', new ValidationHandler(schemas, 'kafka'));
+ * ```
+ */
+export class ValidationHandler<TSchemas extends Record<string, object> = Record<string, object>>
+  implements IMessageHandler
+{
   priority = 10;
 
-  private schemas: Map<keyof TSchemas, Schema<any>>;
-
-  constructor(schemas: Map<keyof TSchemas, Schema<any>> = new Map()) {
-    this.schemas = schemas;
-  }
+  /**
+   * @param registry - The schemas to validate against
+   * @param brokerType - The broker named in validation errors
+   */
+  constructor(
+    readonly registry: SchemaRegistry,
+    private readonly brokerType: BrokerType
+  ) {}
 
   canHandle(message: IMessage): boolean {
-    return this.schemas.has(message.type as keyof TSchemas);
+    return this.registry.has(message.type);
   }
 
   async handle(message: IMessage): Promise<void> {
-    const schema = this.schemas.get(message.type as keyof TSchemas);
-    if (!schema) return;
-
-    if (schema.required && schema.required.length > 0) {
-      for (const field of schema.required) {
-        if (!message.payload || !(field in (message.payload as object))) {
-          throw new Error(`Required field '${String(field)}' missing in message ${message.id}`);
-        }
-      }
-    }
+    this.validate(message);
+  }
+
+  /**
+   * Registers a new schema version for a message type.
+   *
+   * @returns The version of the schema
+   * @throws {Error} If the schema is malformed or incompatible with the latest version
+   */
+  addSchema<K extends keyof TSchemas & string>(messageType: K, schema: JsonSchema): number {
+    return this.registry.register(messageType, schema);
+  }
+
+  /**
+   * Throws if a message's payload does not match its schema.
+   *
+   * @throws {SchemaValidationError} Listing the violations
+   */
+  validate(message: IMessage): void {
+    const violations = this.registry.validate(message);
+    if (violations.length === 0) return;
+
+    const details = violations.map(violation => `${violation.path} ${violation.message}`);
+    throw new SchemaValidationError(
+      `Message ${message.id} of type ${message.type} failed schema validation: ${details.join('; ')}`,
+      violations,
+      this.brokerType
+    );
   }
 
-  addSchema<K extends keyof TSchemas>(messageType: K, schema: Schema<TSchemas[K]>): void {
-    this.schemas.set(messageType, schema);
+  /**
+   * Stamps an outgoing message with the latest schema version of its type,
+   * unless it names a version already, and validates it.
+   *
+   * @returns The message to publish
+   * @throws {SchemaValidationError} Listing the violations
+   */
+  prepare(message: IMessage): IMessage {
+    const version = this.registry.getLatestVersion(message.type);
+    const stamped =
+      version === undefined || message.headers?.[SCHEMA_VERSION_HEADER] !== undefined
+        ? message
+        : { ...message, headers: { ...message.headers, [SCHEMA_VERSION_HEADER]: String(version) } };
+    this.validate(stamped);
+    return stamped;
   }
 }
@@ -1,6 +1,8 @@
 import { MessageBrokerFactory } from '../factory/message.broker';
 import { IBrokerConfig, IMessage } from '@/types';
 import { UniversalMessageManager } from '../universal/message.manager';
+import { IdempotentConsumer } from '../universal/idempotent.consumer';
+import { InMemoryDedupStore } from '../storage/memory.dedup.store';
 
 export class IntegrationHelper {
   static async switchBroker(
@@ -63,20 +65,6 @@ export class IntegrationHelper {
       await next();
     });
 
-    const messageIds = new Set<string>();
-    manager.addMiddleware(async (message, next) => {
-      if (messageIds.has(message.id)) {
-        return;
-      }
-
-      messageIds.add(message.id);
-
-      if (messageIds.size > 10000) {
-        const oldIds = Array.from(messageIds).slice(0, 1000);
-        oldIds.forEach(id => messageIds.delete(id));
-      }
-
-      await next();
-    });
+    manager.addMiddleware(new IdempotentConsumer(new InMemoryDedupStore()).middleware());
   }
 }
@@ -16,14 +16,52 @@ export { MessageBrokerFactory } from './factory/message.broker';
 
 // Adapter exports
 export { RedisAdapter } from './adapter/redis';
+export { RedisStreamsAdapter } from './adapter/redis-streams';
 export { NATSAdapter } from './adapter/nats';
+export { JetStreamAdapter } from './adapter/jetstream';
 export { KafkaAdapter } from './adapter/kafka';
+export { InMemoryAdapter } from './adapter/memory';
 
 // Universal components
-export { UniversalMessageQueue } from './universal/message.queue';
+export {
+  UniversalMessageQueue,
+  DLQ_REASON_HEADER,
+  DLQ_ATTEMPTS_HEADER,
+  DLQ_ORIGINAL_TOPIC_HEADER,
+  DLQ_FAILED_AT_HEADER,
+} from './universal/message.queue';
 export { UniversalSubscriptionManager } from './universal/subscription.manager';
 export { UniversalHandlerRegistry } from './universal/message.handler';
 export { UniversalPerformanceMonitor } from './universal/performance.monitor';
+export { UniversalQueueDispatcher } from './universal/queue.dispatcher';
+export { OutboxRelay } from './universal/outbox.relay';
+export { IdempotentConsumer } from './universal/idempotent.consumer';
+export { SchemaRegistry, SCHEMA_VERSION_HEADER } from './universal/schema.registry';
+export { MessageTracer } from './universal/message.tracer';
+export {
+  UniversalRequestTracker,
+  CORRELATION_ID_HEADER,
+  REPLY_TO_HEADER,
+  REPLY_ERROR_HEADER,
+} from './universal/request.tracker';
+
+// Codecs
+export { JsonCodec } from './codec/json.codec';
+export { MessagePackCodec } from './codec/msgpack.codec';
+export { SchemaCodec } from './codec/schema.codec';
+export { CodecRegistry, CONTENT_TYPE_HEADER } from './codec/codec.registry';
+
+// Queue stores
+export { FileQueueStore } from './storage/file.queue.store';
+export { InMemoryQueueStore } from './storage/memory.queue.store';
+
+// Outbox stores
+export { InMemoryOutboxStore } from './storage/memory.outbox.store';
+export { SqlOutboxStore, createOutboxTableSql } from './storage/sql.outbox.store';
+
+// Dedup stores
+export { InMemoryDedupStore } from './storage/memory.dedup.store';
+export { RedisDedupStore } from './storage/redis.dedup.store';
 
 // Message handlers
 export { LoggingHandler } from './handlers/logging.handler';
@@ -35,7 +73,34 @@ export { RetryHandler } from './handlers/retry.handler';
 export { MessageBuilder } from './utils/message.builder';
 export { HealthChecker } from './utils/health.checker';
 export { CircuitBreaker } from './utils/circuit.breaker';
+export { RetryPolicy } from './utils/retry.policy';
 export { IntegrationHelper } from './helper/Integration.helper';
+export { SystemClock, FakeClock } from './utils/clock';
+export { DeliveryContext } from './utils/delivery.context';
+export { createPartitioner, murmur2 } from './utils/partitioner';
+export { isTopicPattern, matchesTopicPattern } from './utils/topic.pattern';
+export { compileFilter } from './utils/message.filter';
+export { defineTopics } from './utils/topic.registry';
+export {
+  TraceState,
+  parseTraceparent,
+  formatTraceparent,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+} from './utils/trace.context';
+export { validateJsonSchema, checkJsonSchema, findIncompatibilities } from './utils/json.schema';
+export {
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  DEFAULT_BUCKETS,
+  PROMETHEUS_CONTENT_TYPE,
+  OPENMETRICS_CONTENT_TYPE,
+} from './utils/metrics.registry';
+export { createMetricsHandler } from './utils/metrics.handler';
+export { LatencyHistogram } from './utils/latency.histogram';
+export { RateCounter } from './utils/rate.counter';
 
 // Type exports
 export type {
@@ -45,8 +110,18 @@ export type {
   IBrokerAdapter,
   IBrokerConfig,
   MessageCallback,
+  MessageContext,
+  NackOptions,
+  ReplyHandler,
+  RequestOptions,
   MessageFilters,
+  FilterOperators,
+  UntypedTopics,
+  TopicName,
+  TopicPattern,
+  TopicPayload,
   MessagePriority,
+  MessageEnvelope,
   BrokerType,
   SubscriptionOptions,
   BrokerMetrics,
@@ -54,27 +129,105 @@ export type {
   BrokerFeatures,
   PerformanceConfig,
   MiddlewareFunction,
+  SubscriptionScope,
+  PublishMiddleware,
   PerformanceMetrics,
+  LatencySummary,
+  RateWindow,
+  ThroughputRates,
+  ErrorRates,
   HealthCheckResult,
   CircuitBreakerConfig,
+  CircuitBreakerStateChange,
   RetryConfig,
   ValidationSchema,
+  JsonSchema,
+  JsonSchemaObject,
+  JsonSchemaType,
+  SchemaViolation,
   LoggingConfig,
   DLQConfig,
+  Codec,
+  QueueStore,
+  QueuedMessage,
+  PersistenceConfig,
+  PublishResult,
+  StartPosition,
+  ReplayRange,
+  Transaction,
+  TransactionOptions,
+  BrokerTransaction,
+  OutboxRecord,
+  OutboxSkip,
+  OutboxStore,
+  DedupStore,
 } from './types';
+export type { PayloadSerializer } from './codec/schema.codec';
+export type { RawRecord } from './codec/codec.registry';
+export type { FileQueueStoreOptions } from './storage/file.queue.store';
+export type { MessageQueueOptions } from './universal/message.queue';
+export type { BatchPublisher, QueueDispatcherOptions } from './universal/queue.dispatcher';
+export type { InMemoryAdapterOptions, InMemoryRecord } from './adapter/memory';
+export type { RedisStreamsAdapterOptions } from './adapter/redis-streams';
+export type { JetStreamAdapterOptions, JetStreamStreamConfig } from './adapter/jetstream';
+export type { Clock } from './utils/clock';
+export type { DeliverySettlement, DeliverySource } from './utils/delivery.context';
+export type { KafkaAdapterOptions } from './adapter/kafka';
+export type { OutboxRelayOptions, OutboxRelayMetrics } from './universal/outbox.relay';
+export type { SqlClient, SqlOutboxStoreOptions } from './storage/sql.outbox.store';
+export type { DedupKeySource, IdempotentConsumerOptions } from './universal/idempotent.consumer';
+export type { Partitioner, PartitionerOption, PartitionContext } from './utils/partitioner';
+export type { MessageFilter } from './utils/message.filter';
+export type { TopicRegistry } from './utils/topic.registry';
+export type { SchemaCompatibility, SchemaRegistryOptions } from './universal/schema.registry';
+export type {
+  TracerProvider,
+  Tracer,
+  Span,
+  SpanContext,
+  SpanOptions,
+  TracingContext,
+  TracingContextApi,
+  TracingOptions,
+} from './universal/message.tracer';
+export type { TraceParent } from './utils/trace.context';
+export type { PerformanceMonitorOptions } from './universal/performance.monitor';
+export type { MetricLabels, MetricsFormat, HistogramValue } from './utils/metrics.registry';
+export type { MetricsHandlerOptions } from './utils/metrics.handler';
+export type { LatencyHistogramOptions, LatencyHistogramSnapshot } from './utils/latency.histogram';
+export type { RateCounterOptions } from './utils/rate.counter';
 
-export { ErrorType, BrokerError, CircuitBreakerState } from './types';
+export { ErrorType, BrokerError, SchemaValidationError, CircuitBreakerState } from './types';
 
 // Default export for CommonJS compatibility
 import { UniversalMessageManager as UMM } from './universal/message.manager';
 import { MessageBrokerFactory as MBF } from './factory/message.broker';
 import { RedisAdapter as RA } from './adapter/redis';
+import { RedisStreamsAdapter as RSA } from './adapter/redis-streams';
 import { NATSAdapter as NA } from './adapter/nats';
+import { JetStreamAdapter as JSA } from './adapter/jetstream';
 import { KafkaAdapter as KA } from './adapter/kafka';
+import { InMemoryAdapter as IMA } from './adapter/memory';
 import { UniversalMessageQueue as UMQ } from './universal/message.queue';
 import { UniversalSubscriptionManager as USM } from './universal/subscription.manager';
 import { UniversalHandlerRegistry as UHR } from './universal/message.handler';
 import { UniversalPerformanceMonitor as UPM } from './universal/performance.monitor';
+import { UniversalRequestTracker as URT } from './universal/request.tracker';
+import { UniversalQueueDispatcher as UQD } from './universal/queue.dispatcher';
+import { OutboxRelay as OR } from './universal/outbox.relay';
+import { IdempotentConsumer as IC } from './universal/idempotent.consumer';
+import { SchemaRegistry as SR } from './universal/schema.registry';
+import { MessageTracer as MT } from './universal/message.tracer';
+import { JsonCodec as JC } from './codec/json.codec';
+import { MessagePackCodec as MPC } from './codec/msgpack.codec';
+import { SchemaCodec as SCC } from './codec/schema.codec';
+import { CodecRegistry as CR } from './codec/codec.registry';
+import { FileQueueStore as FQS } from './storage/file.queue.store';
+import { InMemoryQueueStore as IMQS } from './storage/memory.queue.store';
+import { InMemoryOutboxStore as IMOS } from './storage/memory.outbox.store';
+import { SqlOutboxStore as SOS } from './storage/sql.outbox.store';
+import { InMemoryDedupStore as IMDS } from './storage/memory.dedup.store';
+import { RedisDedupStore as RDS } from './storage/redis.dedup.store';
 import { LoggingHandler as LH } from './handlers/logging.handler';
 import { ValidationHandler as VH } from './handlers/validation.handler';
 import { TransformHandler as TH } from './handlers/transform.handler';
@@ -82,18 +235,44 @@ import { RetryHandler as RH } from './handlers/retry.handler';
 import { MessageBuilder as MB } from './utils/message.builder';
 import { HealthChecker as HC } from './utils/health.checker';
 import { CircuitBreaker as CB } from './utils/circuit.breaker';
+import { RetryPolicy as RP } from './utils/retry.policy';
 import { IntegrationHelper as IH } from './helper/Integration.helper';
+import { SystemClock as SC, FakeClock as FC } from './utils/clock';
+import { DeliveryContext as DC } from './utils/delivery.context';
+import { MetricsRegistry as MR } from './utils/metrics.registry';
+import { createMetricsHandler as CMH } from './utils/metrics.handler';
+import { LatencyHistogram as LHG } from './utils/latency.histogram';
+import { RateCounter as RC } from './utils/rate.counter';
 
 export default {
   UniversalMessageManager: UMM,
   MessageBrokerFactory: MBF,
   RedisAdapter: RA,
+  RedisStreamsAdapter: RSA,
   NATSAdapter: NA,
+  JetStreamAdapter: JSA,
   KafkaAdapter: KA,
+  InMemoryAdapter: IMA,
   UniversalMessageQueue: UMQ,
   UniversalSubscriptionManager: USM,
   UniversalHandlerRegistry: UHR,
   UniversalPerformanceMonitor: UPM,
+  UniversalRequestTracker: URT,
+  UniversalQueueDispatcher: UQD,
+  OutboxRelay: OR,
+  IdempotentConsumer: IC,
+  SchemaRegistry: SR,
+  MessageTracer: MT,
+  JsonCodec: JC,
+  MessagePackCodec: MPC,
+  SchemaCodec: SCC,
+  CodecRegistry: CR,
+  FileQueueStore: FQS,
+  InMemoryQueueStore: IMQS,
+  InMemoryOutboxStore: IMOS,
+  SqlOutboxStore: SOS,
+  InMemoryDedupStore: IMDS,
+  RedisDedupStore: RDS,
   LoggingHandler: LH,
   ValidationHandler: VH,
   TransformHandler: TH,
@@ -101,5 +280,13 @@ export default {
   MessageBuilder: MB,
   HealthChecker: HC,
   CircuitBreaker: CB,
+  RetryPolicy: RP,
   IntegrationHelper: IH,
+  SystemClock: SC,
+  FakeClock: FC,
+  DeliveryContext: DC,
+  MetricsRegistry: MR,
+  createMetricsHandler: CMH,
+  LatencyHistogram: LHG,
+  RateCounter: RC,
 };
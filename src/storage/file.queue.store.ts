@@ -0,0 +1,275 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { IMessage, QueuedMessage, QueueStore } from '@/types';
+import { JsonCodec } from '../codec/json.codec';
+
+/**
+ * Options for the file queue store
+ */
+export interface FileQueueStoreOptions {
+  /** Flush every write to disk before it resolves (default true) */
+  readonly fsync?: boolean;
+  /** Rewrite the log once this many removed entries have accumulated (default 1000) */
+  readonly compactThreshold?: number;
+}
+
+type LogEntry =
+  | { op: 'append'; topic: string; data: string }
+  | { op: 'remove'; topic: string; id: string }
+  | { op: 'clear'; topic?: string };
+
+/**
+ * Queue store backed by an append-only log file (write-ahead log).
+ *
+ * Every append, removal and clear is written as one JSON line. On `load` the log
+ * is replayed, a torn last line from a crash is ignored, and the file is rewritten
+ * to contain only the messages still pending. The log is compacted the same way
+ * while running once enough removed entries have accumulated.
+ *
+ * The store holds a `<file>.lock` lock file from its first use until `close`, so
+ * two stores never write to the same log; the second fails instead. A lock left
+ * behind by a process that is no longer running is taken over.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileQueueStore('/var/lib/orders/outbound.log');
+ * const manager = await MessageBrokerFactory.create({
+ *   type: 'kafka',
+ *   connection: { urls: ['localhost:9092'] },
+ *   features: { persistence: true },
+ *   persistence: { store },
+ * }, { kafkajs: Kafka });
+ * ```
+ */
+export class FileQueueStore implements QueueStore {
+  private readonly codec = new JsonCodec({ extendedTypes: true });
+  private readonly fsync: boolean;
+  private readonly compactThreshold: number;
+  private handle?: fs.FileHandle;
+  private locked = false;
+  private writes: Promise<void> = Promise.resolve();
+  private entries = new Map<number, QueuedMessage>();
+  private index = new Map<string, number[]>();
+  private sequence = 0;
+  private removed = 0;
+
+  constructor(
+    private readonly file: string,
+    options: FileQueueStoreOptions = {}
+  ) {
+    this.fsync = options.fsync !== false;
+    this.compactThreshold = options.compactThreshold ?? 1000;
+  }
+
+  async append(topic: string, message: IMessage): Promise<void> {
+    const data = this.codec.encode(message).toString();
+    await this.write({ op: 'append', topic, data }, () => this.add(topic, message));
+  }
+
+  async remove(topic: string, messageId: string): Promise<void> {
+    await this.write({ op: 'remove', topic, id: messageId }, () => {
+      if (this.delete(topic, messageId)) this.removed++;
+    });
+
+    if (this.removed >= this.compactThreshold) {
+      await this.enqueueWrite(() => this.compact());
+    }
+  }
+
+  async load(): Promise<QueuedMessage[]> {
+    await this.enqueueWrite(async () => {
+      await this.lock();
+      await this.closeHandle();
+      this.entries.clear();
+      this.index.clear();
+
+      let content = '';
+      try {
+        content = await fs.readFile(this.file, 'utf8');
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') throw error;
+      }
+
+      for (const line of content.split('\n')) {
+        if (!line) continue;
+
+        let entry: LogEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          // A crash while appending leaves a partial last line behind
+          continue;
+        }
+        this.replay(entry);
+      }
+
+      await this.compact();
+    });
+
+    return Array.from(this.entries.values());
+  }
+
+  async clear(topic?: string): Promise<void> {
+    await this.write({ op: 'clear', topic }, () => this.clearEntries(topic));
+  }
+
+  async close(): Promise<void> {
+    await this.enqueueWrite(async () => {
+      await this.closeHandle();
+      if (this.locked) {
+        await fs.rm(this.lockFile(), { force: true });
+        this.locked = false;
+      }
+    });
+  }
+
+  private replay(entry: LogEntry): void {
+    switch (entry.op) {
+      case 'append':
+        this.add(entry.topic, this.codec.decode(Buffer.from(entry.data)));
+        break;
+      case 'remove':
+        this.delete(entry.topic, entry.id);
+        break;
+      case 'clear':
+        this.clearEntries(entry.topic);
+        break;
+    }
+  }
+
+  private add(topic: string, message: IMessage): void {
+    const sequence = this.sequence++;
+    this.entries.set(sequence, { topic, message });
+
+    const key = this.key(topic, message.id);
+    const sequences = this.index.get(key);
+    if (sequences) {
+      sequences.push(sequence);
+    } else {
+      this.index.set(key, [sequence]);
+    }
+  }
+
+  private delete(topic: string, messageId: string): boolean {
+    const key = this.key(topic, messageId);
+    const sequences = this.index.get(key);
+    const sequence = sequences?.shift();
+    if (sequence === undefined) return false;
+
+    if (sequences!.length === 0) this.index.delete(key);
+    this.entries.delete(sequence);
+    return true;
+  }
+
+  private clearEntries(topic?: string): void {
+    for (const [sequence, entry] of this.entries) {
+      if (topic === undefined || entry.topic === topic) {
+        this.entries.delete(sequence);
+        this.index.delete(this.key(entry.topic, entry.message.id));
+      }
+    }
+  }
+
+  private write(entry: LogEntry, apply: () => void): Promise<void> {
+    return this.enqueueWrite(async () => {
+      const handle = await this.open();
+      await handle.appendFile(`${JSON.stringify(entry)}\n`);
+      if (this.fsync) await handle.datasync();
+      apply();
+    });
+  }
+
+  /**
+   * Rewrites the log with only the pending messages, atomically replacing the old file.
+   */
+  private async compact(): Promise<void> {
+    await this.closeHandle();
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+
+    const temporary = `${this.file}.tmp`;
+    const lines = Array.from(this.entries.values()).map(({ topic, message }) => {
+      const entry: LogEntry = { op: 'append', topic, data: this.codec.encode(message).toString() };
+      return `${JSON.stringify(entry)}\n`;
+    });
+
+    const handle = await fs.open(temporary, 'w');
+    try {
+      await handle.writeFile(lines.join(''));
+      if (this.fsync) await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(temporary, this.file);
+    this.removed = 0;
+  }
+
+  private async open(): Promise<fs.FileHandle> {
+    if (!this.handle) {
+      await this.lock();
+      this.handle = await fs.open(this.file, 'a');
+    }
+    return this.handle;
+  }
+
+  /**
+   * Creates the lock file holding this process ID, taking it over when the
+   * process that left it has stopped.
+   */
+  private async lock(): Promise<void> {
+    if (this.locked) return;
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+
+    for (;;) {
+      try {
+        await fs.writeFile(this.lockFile(), String(process.pid), { flag: 'wx' });
+        this.locked = true;
+        return;
+      } catch (error: any) {
+        if (error?.code !== 'EEXIST') throw error;
+      }
+
+      const owner = Number(await fs.readFile(this.lockFile(), 'utf8').catch(() => ''));
+      // An empty lock file is still being written by its owner
+      if (!owner || isRunning(owner)) {
+        throw new Error(
+          `Queue log ${this.file} is locked by ${owner ? `process ${owner}` : 'another store'}; ` +
+            'give each manager its own persistence.path or clientId'
+        );
+      }
+      await fs.rm(this.lockFile(), { force: true });
+    }
+  }
+
+  private lockFile(): string {
+    return `${this.file}.lock`;
+  }
+
+  private async closeHandle(): Promise<void> {
+    const handle = this.handle;
+    this.handle = undefined;
+    await handle?.close();
+  }
+
+  /**
+   * Runs file operations one at a time, in call order.
+   */
+  private enqueueWrite(operation: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(operation);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  private key(topic: string, messageId: string): string {
+    return `${topic}\u0000${messageId}`;
+  }
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // The process exists but belongs to another user
+    return error?.code === 'EPERM';
+  }
+}
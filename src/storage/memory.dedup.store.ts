@@ -0,0 +1,68 @@
+import { DedupStore } from '@/types';
+import { Clock, SystemClock } from '../utils/clock';
+
+interface DedupEntry {
+  done: boolean;
+  expiresAt: number;
+}
+
+/**
+ * Deduplication store keeping keys in process memory, evicting expired keys
+ * and, beyond `maxEntries`, the least recently seen ones. Keys are lost on
+ * restart and not shared between replicas; use {@link RedisDedupStore} for
+ * that.
+ *
+ * @example
+ * ```typescript
+ * const consumer = new IdempotentConsumer(new InMemoryDedupStore(50000));
+ * manager.addMiddleware(consumer.middleware());
+ * ```
+ */
+export class InMemoryDedupStore implements DedupStore {
+  private readonly entries = new Map<string, DedupEntry>();
+
+  constructor(
+    private readonly maxEntries = 10000,
+    private readonly clock: Clock = new SystemClock()
+  ) {}
+
+  async acquire(key: string, ttl: number): Promise<boolean> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > this.clock.now()) {
+      // Re-inserting moves the key to the most recently seen end
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return false;
+    }
+
+    this.set(key, { done: false, expiresAt: this.clock.now() + ttl });
+    return true;
+  }
+
+  async complete(key: string, ttl: number): Promise<void> {
+    this.set(key, { done: true, expiresAt: this.clock.now() + ttl });
+  }
+
+  async release(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry && !entry.done) this.entries.delete(key);
+  }
+
+  /**
+   * Returns the number of keys held, including expired ones not yet evicted
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private set(key: string, entry: DedupEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    const now = this.clock.now();
+    for (const [oldest, { expiresAt }] of this.entries) {
+      if (this.entries.size <= this.maxEntries && expiresAt > now) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
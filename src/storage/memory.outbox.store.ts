@@ -0,0 +1,55 @@
+import { IMessage, OutboxRecord, OutboxSkip, OutboxStore } from '@/types';
+import { Clock, SystemClock } from '../utils/clock';
+
+/**
+ * Outbox store keeping records in process memory, for tests and for services
+ * whose state lives in memory too. Sent records are removed.
+ *
+ * @example
+ * ```typescript
+ * const outbox = new InMemoryOutboxStore();
+ * await outbox.insert('orders.created', MessageBuilder.create().type('orders.created').payload(order).build());
+ *
+ * const relay = new OutboxRelay(outbox, manager);
+ * relay.start();
+ * ```
+ */
+export class InMemoryOutboxStore implements OutboxStore {
+  private records: OutboxRecord[] = [];
+
+  constructor(private readonly clock: Clock = new SystemClock()) {}
+
+  async insert(topic: string, message: IMessage): Promise<void> {
+    this.records.push({
+      id: message.id,
+      topic,
+      message,
+      aggregateKey: message.partitionKey,
+      createdAt: this.clock.now(),
+      attempts: 0,
+    });
+  }
+
+  async fetchPending(limit: number, skip: OutboxSkip = {}): Promise<OutboxRecord[]> {
+    const ids = new Set(skip.ids);
+    const aggregateKeys = new Set(skip.aggregateKeys);
+    return this.records
+      .filter(
+        record =>
+          !ids.has(record.id) &&
+          (record.aggregateKey === undefined || !aggregateKeys.has(record.aggregateKey))
+      )
+      .slice(0, limit);
+  }
+
+  async markSent(ids: readonly string[]): Promise<void> {
+    const sent = new Set(ids);
+    this.records = this.records.filter(record => !sent.has(record.id));
+  }
+
+  async markFailed(id: string, error: string): Promise<void> {
+    this.records = this.records.map(record =>
+      record.id === id ? { ...record, attempts: record.attempts + 1, lastError: error } : record
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { IMessage, QueuedMessage, QueueStore } from '@/types';
+
+/**
+ * Queue store keeping messages in process memory. Messages survive a manager
+ * being recreated with the same store, but not a process restart.
+ *
+ * @example
+ * ```typescript
+ * const store = new InMemoryQueueStore();
+ * const config = { type: 'redis', connection: {}, features: { persistence: true }, persistence: { store } };
+ * ```
+ */
+export class InMemoryQueueStore implements QueueStore {
+  private entries: QueuedMessage[] = [];
+
+  async append(topic: string, message: IMessage): Promise<void> {
+    this.entries.push({ topic, message });
+  }
+
+  async remove(topic: string, messageId: string): Promise<void> {
+    const index = this.entries.findIndex(e => e.topic === topic && e.message.id === messageId);
+    if (index !== -1) {
+      this.entries.splice(index, 1);
+    }
+  }
+
+  async load(): Promise<QueuedMessage[]> {
+    return [...this.entries];
+  }
+
+  async clear(topic?: string): Promise<void> {
+    this.entries = topic ? this.entries.filter(e => e.topic !== topic) : [];
+  }
+}
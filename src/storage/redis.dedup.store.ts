@@ -0,0 +1,49 @@
+import { DedupStore } from '@/types';
+import Redis from 'ioredis';
+
+/**
+ * Deduplication store backed by Redis, shared by every replica and surviving
+ * restarts. Keys are claimed with `SET NX EX`, so concurrent duplicates are
+ * processed once, and kept for the completion TTL once processed.
+ *
+ * @example
+ * ```typescript
+ * const store = new RedisDedupStore(new Redis(), 'orders-service:dedup:');
+ * manager.addMiddleware(new IdempotentConsumer(store).middleware());
+ * ```
+ */
+export class RedisDedupStore implements DedupStore {
+  constructor(
+    private readonly client: Redis,
+    private readonly keyPrefix = 'dedup:'
+  ) {}
+
+  async acquire(key: string, ttl: number): Promise<boolean> {
+    const result = await this.client.set(
+      this.keyPrefix + key,
+      'processing',
+      'EX',
+      seconds(ttl),
+      'NX'
+    );
+    return result === 'OK';
+  }
+
+  async complete(key: string, ttl: number): Promise<void> {
+    await this.client.set(this.keyPrefix + key, 'done', 'EX', seconds(ttl));
+  }
+
+  async release(key: string): Promise<void> {
+    // Only drop an unfinished claim, never a completed key
+    await this.client.eval(
+      "if redis.call('GET', KEYS[1]) == 'processing' then return redis.call('DEL', KEYS[1]) end return 0",
+      1,
+      this.keyPrefix + key
+    );
+  }
+}
+
+// Redis expiries are whole seconds of at least one
+function seconds(ms: number): number {
+  return Math.max(1, Math.ceil(ms / 1000));
+}
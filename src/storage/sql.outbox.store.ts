@@ -0,0 +1,150 @@
+import { IMessage, OutboxRecord, OutboxSkip, OutboxStore } from '@/types';
+import { JsonCodec } from '../codec/json.codec';
+
+/**
+ * Minimal SQL client the outbox store runs its statements through. Adapt your
+ * driver's pool, connection or transaction object to it.
+ */
+export interface SqlClient {
+  /**
+   * Runs a parameterized statement.
+   * @param sql - The statement, with placeholders as produced by `placeholder`
+   * @param params - The parameter values, in placeholder order
+   * @returns The selected rows, or an empty array for other statements
+   */
+  query(sql: string, params: readonly unknown[]): Promise<Array<Record<string, unknown>>>;
+}
+
+/**
+ * Options for the SQL outbox store
+ */
+export interface SqlOutboxStoreOptions {
+  /** Outbox table name (default 'outbox') */
+  readonly table?: string;
+  /** Placeholder for the parameter at a 1-based index (default PostgreSQL `$1`; use `() => '?'` for MySQL or SQLite) */
+  readonly placeholder?: (index: number) => string;
+}
+
+/**
+ * Returns the reference PostgreSQL schema of the outbox table. Other databases
+ * need their own auto-increment type for `seq`, which orders the records.
+ *
+ * @param table - Outbox table name (default 'outbox')
+ */
+export function createOutboxTableSql(table = 'outbox'): string {
+  return [
+    `CREATE TABLE IF NOT EXISTS ${table} (`,
+    '  seq BIGSERIAL PRIMARY KEY,',
+    '  id VARCHAR(255) NOT NULL UNIQUE,',
+    '  topic VARCHAR(255) NOT NULL,',
+    '  aggregate_key VARCHAR(255),',
+    '  message TEXT NOT NULL,',
+    '  created_at BIGINT NOT NULL,',
+    '  attempts INTEGER NOT NULL DEFAULT 0,',
+    '  last_error TEXT,',
+    '  sent_at BIGINT',
+    ');',
+    `CREATE INDEX IF NOT EXISTS ${table}_pending ON ${table} (seq) WHERE sent_at IS NULL;`,
+  ].join('\n');
+}
+
+/**
+ * Reference outbox store for SQL databases (see {@link createOutboxTableSql}).
+ * Messages are stored as JSON; sent records are kept with `sent_at` set, for
+ * auditing, and can be purged by a scheduled job.
+ *
+ * Pass the transaction of the business change to `insert` so the message is
+ * committed with it. Run a single relay per table: `fetchPending` does not
+ * lock the rows it returns.
+ *
+ * @example
+ * ```typescript
+ * const outbox = new SqlOutboxStore({ query: (sql, params) => pool.query(sql, params).then(r => r.rows) });
+ *
+ * await db.transaction(async trx => {
+ *   await trx.query('UPDATE orders SET status = $1 WHERE id = $2', ['paid', orderId]);
+ *   await outbox.insert('orders.paid', message, { query: (sql, params) => trx.query(sql, params).then(r => r.rows) });
+ * });
+ * ```
+ */
+export class SqlOutboxStore implements OutboxStore<SqlClient> {
+  private readonly table: string;
+  private readonly placeholder: (index: number) => string;
+  private readonly codec = new JsonCodec({ extendedTypes: true });
+
+  constructor(
+    private readonly client: SqlClient,
+    options: SqlOutboxStoreOptions = {}
+  ) {
+    this.table = options.table || 'outbox';
+    this.placeholder = options.placeholder || (index => `$${index}`);
+
+    if (!/^[A-Za-z_][A-Za-z0-9_.]*$/.test(this.table)) {
+      throw new Error(`Invalid outbox table name: ${this.table}`);
+    }
+  }
+
+  async insert(topic: string, message: IMessage, transaction?: SqlClient): Promise<void> {
+    await (transaction || this.client).query(
+      `INSERT INTO ${this.table} (id, topic, aggregate_key, message, created_at) VALUES (${this.params(1, 5)})`,
+      [
+        message.id,
+        topic,
+        message.partitionKey ?? null,
+        this.codec.encode(message).toString(),
+        Date.now(),
+      ]
+    );
+  }
+
+  async fetchPending(limit: number, skip: OutboxSkip = {}): Promise<OutboxRecord[]> {
+    const ids = skip.ids || [];
+    const aggregateKeys = skip.aggregateKeys || [];
+    let where = 'sent_at IS NULL';
+    if (ids.length > 0) {
+      where += ` AND id NOT IN (${this.params(1, ids.length)})`;
+    }
+    if (aggregateKeys.length > 0) {
+      const from = ids.length + 1;
+      where += ` AND (aggregate_key IS NULL OR aggregate_key NOT IN (${this.params(from, from + aggregateKeys.length - 1)}))`;
+    }
+    const rows = await this.client.query(
+      `SELECT id, topic, aggregate_key, message, created_at, attempts, last_error FROM ${this.table} WHERE ${where} ORDER BY seq LIMIT ${this.placeholder(ids.length + aggregateKeys.length + 1)}`,
+      [...ids, ...aggregateKeys, limit]
+    );
+
+    return rows.map(row => ({
+      id: String(row.id),
+      topic: String(row.topic),
+      message: this.codec.decode(Buffer.from(String(row.message))),
+      aggregateKey: row.aggregate_key == null ? undefined : String(row.aggregate_key),
+      createdAt: Number(row.created_at),
+      attempts: Number(row.attempts),
+      lastError: row.last_error == null ? undefined : String(row.last_error),
+    }));
+  }
+
+  async markSent(ids: readonly string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.client.query(
+      `UPDATE ${this.table} SET sent_at = ${this.placeholder(1)} WHERE id IN (${this.params(2, ids.length + 1)})`,
+      [Date.now(), ...ids]
+    );
+  }
+
+  async markFailed(id: string, error: string): Promise<void> {
+    await this.client.query(
+      `UPDATE ${this.table} SET attempts = attempts + 1, last_error = ${this.placeholder(1)} WHERE id = ${this.placeholder(2)}`,
+      [error, id]
+    );
+  }
+
+  private params(from: number, to: number): string {
+    const placeholders: string[] = [];
+    for (let index = from; index <= to; index++) {
+      placeholders.push(this.placeholder(index));
+    }
+    return placeholders.join(', ');
+  }
+}
@@ -6,7 +6,7 @@ export type MessagePriority = 'low' | 'normal' | 'high' | 'critical';
 /**
  * Supported message broker types
  */
-export type BrokerType = 'redis' | 'nats' | 'kafka';
+export type BrokerType = 'redis' | 'redis-streams' | 'nats' | 'nats-jetstream' | 'kafka' | 'memory';
 
 /**
  * Represents a generic message interface that can be used across different messaging systems.
@@ -33,19 +33,183 @@ export interface IMessage<T = unknown> {
   metadata?: Readonly<Record<string, unknown>>;
   headers?: Readonly<Record<string, string>>;
   partition?: string; // For Kafka
+  partitionKey?: string; // Records with the same key keep their order on one partition
   subject?: string; // For NATS
   channel?: string; // For Redis
+  envelope?: MessageEnvelope; // 'raw' publishes only payload and headers
+}
+
+/**
+ * Wire format of a message: the full `IMessage` envelope encoded by the codec,
+ * or the bare payload as produced and consumed by services not using this library
+ */
+export type MessageEnvelope = 'universal' | 'raw';
+
+/**
+ * Outcome of publishing one message of a batch
+ */
+export interface PublishResult {
+  readonly messageId: string;
+  readonly success: boolean;
+  readonly error?: Error;
+}
+
+/**
+ * Options for negatively acknowledging a message
+ */
+export interface NackOptions {
+  /** Deliver the message again (default true); otherwise it is dropped */
+  readonly requeue?: boolean;
+  /** Wait before redelivering, in milliseconds, where the broker supports it (default 0) */
+  readonly delay?: number;
+}
+
+/**
+ * Settles a received message. Only the first call on a context takes effect.
+ *
+ * With `autoAck` (the default) a message the callback did not settle is acked
+ * when the callback resolves. When it throws, brokers that track deliveries
+ * (JetStream, Redis Streams) redeliver it and others log the error and move on.
+ * With `autoAck: false` the callback settles every message itself; unsettled
+ * messages are redelivered by brokers that track acknowledgements.
+ */
+export interface MessageContext {
+  /** The topic the message arrived on; for pattern subscriptions, the concrete topic that matched */
+  readonly topic?: string;
+  /** Marks the message as processed */
+  ack(): Promise<void>;
+  /** Marks the message as failed, redelivering it unless `requeue` is false */
+  nack(options?: NackOptions): Promise<void>;
+  /** Moves the message to the dead letter queue and marks it as processed */
+  deadLetter(reason: string): Promise<void>;
+}
+
+/**
+ * Topic map of managers declared without one: any topic, any payload
+ */
+export type UntypedTopics = Record<string, any>;
+
+/**
+ * Names of the topics in a topic map
+ */
+export type TopicName<TTopics> = Extract<keyof TTopics, string>;
+
+/**
+ * Topic pattern such as `orders.*` or `orders.>`
+ */
+export type TopicPattern = `${string}*${string}` | `${string}>`;
+
+/**
+ * Payload type of a topic or topic pattern. Patterns ending in `.*` or `.>` get
+ * the payloads of the topics under their prefix, other patterns every payload.
+ */
+export type TopicPayload<TTopics, K extends string> = K extends keyof TTopics
+  ? TTopics[K]
+  : K extends `${infer Prefix}.>` | `${infer Prefix}.*`
+    ? Prefix extends `${string}*${string}`
+      ? TTopics[keyof TTopics]
+      : TTopics[Extract<keyof TTopics, `${Prefix}.${string}`>]
+    : TTopics[keyof TTopics];
+
+/**
+ * Handle for staging work in `manager.transaction()`. Nothing is sent until the
+ * transaction function resolves; then everything is committed together.
+ */
+export interface Transaction<TTopics = UntypedTopics> {
+  /** Stages a message for publishing when the transaction commits */
+  publish<K extends TopicName<TTopics>>(
+    topic: K,
+    payload: TTopics[K],
+    options?: Partial<IMessage>
+  ): void;
+  /**
+   * Acknowledges a consumed message when the transaction commits. On Kafka its
+   * offset is committed within the transaction, for exactly-once
+   * consume-transform-produce.
+   */
+  ack(context: MessageContext): void;
+}
+
+/**
+ * Options for `manager.transaction()`
+ */
+export interface TransactionOptions {
+  /**
+   * What to do on brokers without transactions: 'fail' (default) rejects before
+   * running the transaction function; 'buffered' publishes the staged messages
+   * once it resolves, which is all-or-nothing with respect to the function
+   * failing but not to the broker rejecting part of the flush
+   */
+  readonly fallback?: 'fail' | 'buffered';
+}
+
+/**
+ * A broker-native transaction opened by an adapter
+ */
+export interface BrokerTransaction {
+  publish(topic: string, message: IMessage): Promise<void>;
+  /** Acknowledges a consumed message as part of the transaction */
+  ack(context: MessageContext): Promise<void>;
+  commit(): Promise<void>;
+  abort(): Promise<void>;
 }
 
 /**
  * Message callback function type
  */
-export type MessageCallback<T = unknown> = (message: IMessage<T>) => void | Promise<void>;
+export type MessageCallback<T = unknown> = (
+  message: IMessage<T>,
+  context: MessageContext
+) => void | Promise<void>;
+
+/**
+ * Handler serving requests; its return value becomes the reply payload
+ */
+export type ReplyHandler<TRequest = unknown, TReply = unknown> = (
+  message: IMessage<TRequest>
+) => TReply | Promise<TReply>;
+
+/**
+ * Options for request/reply calls
+ */
+export interface RequestOptions extends Partial<IMessage> {
+  readonly timeout?: number;
+}
+
+/**
+ * Comparison operators for one field of a message filter
+ */
+export interface FilterOperators {
+  /** Equal, deeply for objects and arrays */
+  readonly $eq?: unknown;
+  /** Not equal; also matches missing fields */
+  readonly $ne?: unknown;
+  /** Equal to one of the values */
+  readonly $in?: readonly unknown[];
+  /** Greater than; only values of the same type compare */
+  readonly $gt?: number | string;
+  /** Less than; only values of the same type compare */
+  readonly $lt?: number | string;
+  /** Whether the field is present */
+  readonly $exists?: boolean;
+  /** A string matching the regular expression */
+  readonly $regex?: string | RegExp;
+  /** Negates the other operators */
+  readonly $not?: FilterOperators;
+}
 
 /**
- * Message filter criteria
+ * Message filter criteria, keyed by dot-separated paths such as
+ * `payload.customer.tier` or `headers.region`; see `compileFilter`. A path
+ * maps to a value, a glob string containing `*`, a `RegExp` or
+ * {@link FilterOperators}.
  */
-export type MessageFilters = Record<string, unknown>;
+export interface MessageFilters {
+  readonly $and?: readonly MessageFilters[];
+  readonly $or?: readonly MessageFilters[];
+  readonly $not?: MessageFilters;
+  readonly [path: string]: unknown;
+}
 
 /**
  * Represents a subscription configuration for messaging systems.
@@ -100,6 +264,26 @@ export interface IMessageHandler<T = unknown> {
   readonly name?: string;
 }
 
+/**
+ * Where a new subscription starts reading a persistent topic: the oldest
+ * retained message, only new ones, the first message at or after a time, or
+ * explicit offsets per partition
+ */
+export type StartPosition =
+  | 'earliest'
+  | 'latest'
+  | { readonly timestamp: number | Date }
+  | { readonly offsets: ReadonlyArray<{ readonly partition: number; readonly offset: string }> };
+
+/**
+ * Time range of messages to replay. `from` and `to` are message timestamps;
+ * `to` is exclusive and defaults to the end of the topic when the replay starts.
+ */
+export interface ReplayRange {
+  readonly from: number | Date | 'earliest';
+  readonly to?: number | Date;
+}
+
 /**
  * Subscription options for broker adapters
  */
@@ -108,6 +292,10 @@ export interface SubscriptionOptions {
   readonly queueGroup?: string;
   readonly autoAck?: boolean;
   readonly maxRetries?: number;
+  readonly envelope?: MessageEnvelope;
+  readonly startFrom?: StartPosition;
+  /** Serves `request()` calls; set by `reply()` for brokers that carry requests on a separate path */
+  readonly requests?: boolean;
   readonly [key: string]: unknown;
 }
 
@@ -152,9 +340,26 @@ export interface IBrokerAdapter {
    */
   publish(topic: string, message: IMessage): Promise<void>;
 
+  /**
+   * Optional method publishing many messages with the broker's native batching.
+   * Adapters without it get messages published one by one by the manager.
+   * @param topic - The topic/channel to publish the messages to
+   * @param messages - The messages to publish, in order
+   * @returns Promise that resolves to one result per message, in the same order;
+   *   rejects if the whole batch failed
+   */
+  publishBatch?(topic: string, messages: IMessage[]): Promise<PublishResult[]>;
+
+  /**
+   * Optional method for brokers with transactions. Only one transaction is open
+   * at a time; later calls wait until it is committed or aborted.
+   * @returns Promise that resolves to the open transaction
+   */
+  beginTransaction?(): Promise<BrokerTransaction>;
+
   /**
    * Subscribes to messages on specified topic.
-   * @param topic - The topic/channel to subscribe to
+   * @param topic - The topic/channel to subscribe to, or a pattern such as `orders.*` or `orders.>`
    * @param callback - Callback function executed when message is received
    * @param options - Optional configuration parameters for subscription
    * @returns Promise that resolves to subscription identifier
@@ -172,6 +377,31 @@ export interface IBrokerAdapter {
    */
   unsubscribe(subscriptionId: string): Promise<boolean>;
 
+  /**
+   * Optional method to stop delivery to a subscription without leaving its
+   * consumer group; messages are held by the broker until it is resumed.
+   * @param subscriptionId - The subscription identifier to pause
+   * @returns Promise that resolves to false if the subscription is unknown
+   */
+  pause?(subscriptionId: string): Promise<boolean>;
+
+  /**
+   * Optional method to resume delivery to a paused subscription.
+   * @param subscriptionId - The subscription identifier to resume
+   * @returns Promise that resolves to false if the subscription is unknown
+   */
+  resume?(subscriptionId: string): Promise<boolean>;
+
+  /**
+   * Optional method for persistent brokers to re-read stored messages in a time
+   * range, independently of any consumer group's committed offsets.
+   * @param topic - The topic to replay
+   * @param range - The timestamps to replay between
+   * @param callback - Callback executed for each replayed message, in order per partition
+   * @returns Promise that resolves to the number of messages replayed
+   */
+  replay?(topic: string, range: ReplayRange, callback: MessageCallback): Promise<number>;
+
   /**
    * Checks if broker connection is active.
    * @returns Boolean indicating connection status
@@ -184,6 +414,16 @@ export interface IBrokerAdapter {
    */
   getType(): BrokerType;
 
+  /**
+   * Optional method for brokers with a native request/reply mechanism.
+   * Adapters without it get request/reply emulated by the manager.
+   * @param topic - The topic/subject to send the request to
+   * @param message - The request message
+   * @param timeout - Milliseconds to wait for the reply
+   * @returns Promise that resolves to the reply message
+   */
+  request?(topic: string, message: IMessage, timeout: number): Promise<IMessage>;
+
   /**
    * Optional method to retrieve broker metrics.
    * @returns Promise that resolves to broker metrics
@@ -233,6 +473,167 @@ export interface PerformanceConfig {
   readonly retryDelay?: number;
   readonly connectionTimeout?: number;
   readonly requestTimeout?: number;
+  readonly maxQueueSize?: number;
+  /** Replicas that must acknowledge a publish: -1 all in-sync, 1 the leader, 0 none (Kafka, default -1) */
+  readonly acks?: -1 | 0 | 1;
+  /** Compression of produced batches (Kafka); codecs other than gzip must be registered with kafkajs */
+  readonly compression?: 'none' | 'gzip' | 'snappy' | 'lz4' | 'zstd';
+}
+
+/**
+ * Serializes message envelopes to and from bytes. The content type is recorded
+ * in a `content-type` header so consumers can decode mixed traffic.
+ */
+export interface Codec {
+  /**
+   * MIME type identifying the encoding, e.g. `application/json`
+   */
+  readonly contentType: string;
+
+  /**
+   * Encodes a message envelope.
+   * @param message - The message to encode
+   * @returns The encoded bytes
+   */
+  encode(message: IMessage): Buffer;
+
+  /**
+   * Decodes bytes produced by `encode`.
+   * @param data - The encoded bytes
+   * @returns The decoded message
+   */
+  decode(data: Buffer): IMessage;
+}
+
+/**
+ * A message waiting in the outbound queue
+ */
+export interface QueuedMessage {
+  readonly topic: string;
+  readonly message: IMessage;
+}
+
+/**
+ * Storage backend for the outbound message queue. Messages are appended when
+ * queued and removed once the broker accepted them, so whatever `load` returns
+ * after a restart still has to be published.
+ */
+export interface QueueStore {
+  /**
+   * Durably records a queued message.
+   * @param topic - The topic the message will be published to
+   * @param message - The queued message
+   */
+  append(topic: string, message: IMessage): Promise<void>;
+
+  /**
+   * Removes a message once it has been published.
+   * @param topic - The topic the message was queued for
+   * @param messageId - The id of the published message
+   */
+  remove(topic: string, messageId: string): Promise<void>;
+
+  /**
+   * Returns every stored message, in the order they were appended.
+   */
+  load(): Promise<QueuedMessage[]>;
+
+  /**
+   * Removes all stored messages for a topic, or for every topic.
+   * @param topic - Optional topic to clear
+   */
+  clear(topic?: string): Promise<void>;
+
+  /**
+   * Releases resources such as open files.
+   */
+  close?(): Promise<void>;
+}
+
+/**
+ * A message waiting in a transactional outbox
+ */
+export interface OutboxRecord {
+  /** The message ID */
+  readonly id: string;
+  readonly topic: string;
+  readonly message: IMessage;
+  /** The message's `partitionKey`; records sharing it are published in insertion order */
+  readonly aggregateKey?: string;
+  readonly createdAt: number;
+  /** Failed publish attempts so far */
+  readonly attempts: number;
+  readonly lastError?: string;
+}
+
+/**
+ * Pending records an outbox relay cannot publish yet, left out of a fetch so
+ * they do not fill the batch
+ */
+export interface OutboxSkip {
+  /** Records waiting for a retry */
+  readonly ids?: readonly string[];
+  /** Aggregates held back behind a record waiting for a retry; all their records are skipped */
+  readonly aggregateKeys?: readonly string[];
+}
+
+/**
+ * Storage backend of a transactional outbox. Messages are inserted in the same
+ * database transaction as the business change they describe, and an
+ * `OutboxRelay` publishes them afterwards.
+ *
+ * @template TTransaction - The database transaction or connection `insert` writes through
+ */
+export interface OutboxStore<TTransaction = unknown> {
+  /**
+   * Records a message to publish.
+   * @param topic - The topic to publish the message to
+   * @param message - The message; its `partitionKey` orders it within its aggregate
+   * @param transaction - The database transaction of the business change, so
+   *   both are committed or rolled back together
+   */
+  insert(topic: string, message: IMessage, transaction?: TTransaction): Promise<void>;
+
+  /**
+   * Returns unsent records, oldest first.
+   * @param limit - Maximum number of records to return
+   * @param skip - Records to leave out, by ID or aggregate key
+   */
+  fetchPending(limit: number, skip?: OutboxSkip): Promise<OutboxRecord[]>;
+
+  /**
+   * Marks records as published so they are not fetched again.
+   * @param ids - The ids of the published records
+   */
+  markSent(ids: readonly string[]): Promise<void>;
+
+  /**
+   * Records a failed publish attempt of a record, which stays pending.
+   * @param id - The id of the record
+   * @param error - Why publishing failed
+   */
+  markFailed(id: string, error: string): Promise<void>;
+}
+
+/**
+ * Persistent outbound queue configuration, used when `features.persistence` is enabled
+ */
+export interface PersistenceConfig {
+  /**
+   * Storage backend (default: a `FileQueueStore` writing to `path`)
+   */
+  readonly store?: QueueStore;
+
+  /**
+   * Log file of the default file store (default `.pubsub/<clientId or type>.queue.log`).
+   * Each manager needs its own; a log in use by another store is refused.
+   */
+  readonly path?: string;
+
+  /**
+   * Flush every write to disk before `publish` resolves (default true)
+   */
+  readonly fsync?: boolean;
 }
 
 /**
@@ -243,18 +644,70 @@ export interface IBrokerConfig {
   readonly connection: ConnectionConfig;
   readonly features?: BrokerFeatures;
   readonly performance?: PerformanceConfig;
+  readonly retry?: RetryConfig;
+  readonly deadLetterQueue?: DLQConfig;
+  readonly circuitBreaker?: CircuitBreakerConfig;
+  readonly persistence?: PersistenceConfig;
+  readonly codec?: Codec | 'json' | 'msgpack';
+  readonly codecs?: readonly Codec[];
   readonly clientId?: string;
   readonly debug?: boolean;
 }
 
 /**
- * Middleware function type for message processing
+ * The subscription a message is handled for. `subscription` is the consumer or
+ * queue group, shared by every member, or the subscription ID when there is none.
+ */
+export interface SubscriptionScope {
+  readonly topic: string;
+  readonly subscription: string;
+}
+
+/**
+ * Middleware function type for message processing. `scope` is given when the
+ * message is handled for a subscription.
  */
 export type MiddlewareFunction = (
   message: IMessage,
-  next: () => Promise<void>
+  next: () => Promise<void>,
+  scope?: SubscriptionScope
 ) => Promise<void>;
 
+/**
+ * Middleware run on outgoing messages before they are queued or sent. Calling
+ * `next()` passes the message on, or a rewritten one if given; throwing rejects
+ * the publish, and returning without calling `next()` drops the message.
+ */
+export type PublishMiddleware = (
+  message: IMessage,
+  next: (message?: IMessage) => Promise<void>,
+  topic: string
+) => Promise<void>;
+
+/**
+ * Remembers which messages were processed, for idempotent consumers. Keys are
+ * claimed before processing and completed or released after it, so concurrent
+ * duplicates are processed once and failed messages can be processed again.
+ */
+export interface DedupStore {
+  /**
+   * Claims a key for processing.
+   * @param key - The deduplication key
+   * @param ttl - How long the claim holds if never completed or released, in milliseconds
+   * @returns False if the key is already processed or being processed
+   */
+  acquire(key: string, ttl: number): Promise<boolean>;
+  /**
+   * Marks a claimed key as processed.
+   * @param ttl - How long the key is remembered, in milliseconds
+   */
+  complete(key: string, ttl: number): Promise<void>;
+  /**
+   * Drops a claim so the key can be processed again.
+   */
+  release(key: string): Promise<void>;
+}
+
 /**
  * Error types that can occur in the system
  */
@@ -265,6 +718,8 @@ export enum ErrorType {
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   TIMEOUT_ERROR = 'TIMEOUT_ERROR',
   CIRCUIT_BREAKER_ERROR = 'CIRCUIT_BREAKER_ERROR',
+  REQUEST_ERROR = 'REQUEST_ERROR',
+  SERIALIZATION_ERROR = 'SERIALIZATION_ERROR',
 }
 
 /**
@@ -282,26 +737,78 @@ export class BrokerError extends Error {
   }
 }
 
+/**
+ * A message whose payload does not match its registered schema
+ */
+export class SchemaValidationError extends BrokerError {
+  constructor(
+    message: string,
+    public readonly violations: readonly SchemaViolation[],
+    brokerType: BrokerType
+  ) {
+    super(message, ErrorType.VALIDATION_ERROR, brokerType);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+/**
+ * Distribution of latencies in milliseconds. Percentiles come from a streaming
+ * histogram and are within 1% of the recorded values.
+ */
+export interface LatencySummary {
+  readonly count: number;
+  readonly avg: number;
+  readonly min: number;
+  readonly max: number;
+  readonly p50: number;
+  readonly p95: number;
+  readonly p99: number;
+  readonly p999: number;
+}
+
+/**
+ * Sliding windows that rates are reported over
+ */
+export type RateWindow = '1m' | '5m' | '15m';
+
+/**
+ * Messages published and received, and their encoded bytes, per second
+ */
+export interface ThroughputRates {
+  readonly publishedPerSecond: number;
+  readonly receivedPerSecond: number;
+  readonly publishedBytesPerSecond: number;
+  readonly receivedBytesPerSecond: number;
+}
+
+/**
+ * Failed publishes and handling per second, and the fraction of messages that failed
+ */
+export interface ErrorRates {
+  readonly errorsPerSecond: number;
+  readonly rate: number;
+}
+
 /**
  * Performance metrics interface
  */
 export interface PerformanceMetrics {
-  readonly latency: {
-    readonly publish: number[];
-    readonly subscription: number[];
-    readonly avg: number;
-    readonly p95: number;
-    readonly p99: number;
+  /** Publish and handling latencies, and both combined, since the monitor was created */
+  readonly latency: LatencySummary & {
+    readonly publish: LatencySummary;
+    readonly subscription: LatencySummary;
   };
-  readonly throughput: {
-    readonly messagesPerSecond: number;
-    readonly bytesPerSecond: number;
+  /** Rates over the last minute, and over each window */
+  readonly throughput: ThroughputRates & {
+    readonly windows: Record<RateWindow, ThroughputRates>;
   };
-  readonly errors: {
+  /** Failures since the monitor was created; rates over the last minute, and over each window */
+  readonly errors: ErrorRates & {
     readonly total: number;
     readonly byType: Record<ErrorType, number>;
-    readonly rate: number;
+    readonly windows: Record<RateWindow, ErrorRates>;
   };
+  /** Brokers currently connected, and connections made */
   readonly connections: {
     readonly active: number;
     readonly total: number;
@@ -336,6 +843,17 @@ export interface CircuitBreakerConfig {
   readonly recoveryTimeout: number;
   readonly monitoringPeriod: number;
   readonly halfOpenMaxCalls?: number;
+  readonly scope?: 'adapter' | 'topic';
+}
+
+/**
+ * Circuit breaker state transition event
+ */
+export interface CircuitBreakerStateChange {
+  readonly name: string;
+  readonly from: CircuitBreakerState;
+  readonly to: CircuitBreakerState;
+  readonly timestamp: number;
 }
 
 /**
@@ -351,11 +869,82 @@ export interface RetryConfig {
 
 /**
  * Message validation schema
+ * @deprecated Use {@link JsonSchema} with a `SchemaRegistry`
  */
 export interface ValidationSchema {
   readonly [key: string]: 'string' | 'number' | 'boolean' | 'object' | 'array' | ValidationSchema;
 }
 
+/**
+ * JSON Schema primitive type names
+ */
+export type JsonSchemaType =
+  | 'null'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'number'
+  | 'integer'
+  | 'string';
+
+/**
+ * A JSON Schema (draft 2020-12). `true` accepts any value and `false` none.
+ * See `validateJsonSchema` for the supported keywords; others are ignored.
+ */
+export type JsonSchema = boolean | JsonSchemaObject;
+
+/**
+ * A JSON Schema object
+ */
+export interface JsonSchemaObject {
+  readonly $schema?: string;
+  readonly $id?: string;
+  /** Reference to a definition in the same schema, e.g. `#/$defs/address` */
+  readonly $ref?: string;
+  readonly $defs?: Readonly<Record<string, JsonSchema>>;
+  readonly title?: string;
+  readonly description?: string;
+  readonly type?: JsonSchemaType | readonly JsonSchemaType[];
+  readonly enum?: readonly unknown[];
+  readonly const?: unknown;
+  readonly properties?: Readonly<Record<string, JsonSchema>>;
+  readonly patternProperties?: Readonly<Record<string, JsonSchema>>;
+  readonly additionalProperties?: JsonSchema;
+  readonly required?: readonly string[];
+  readonly minProperties?: number;
+  readonly maxProperties?: number;
+  readonly items?: JsonSchema;
+  readonly prefixItems?: readonly JsonSchema[];
+  readonly minItems?: number;
+  readonly maxItems?: number;
+  readonly uniqueItems?: boolean;
+  readonly minLength?: number;
+  readonly maxLength?: number;
+  readonly pattern?: string;
+  /** `date-time`, `date`, `email`, `uuid` or `uri`; other formats are not checked */
+  readonly format?: string;
+  readonly minimum?: number;
+  readonly maximum?: number;
+  readonly exclusiveMinimum?: number;
+  readonly exclusiveMaximum?: number;
+  readonly multipleOf?: number;
+  readonly allOf?: readonly JsonSchema[];
+  readonly anyOf?: readonly JsonSchema[];
+  readonly oneOf?: readonly JsonSchema[];
+  readonly not?: JsonSchema;
+  readonly [keyword: string]: unknown;
+}
+
+/**
+ * A value that does not match its schema
+ */
+export interface SchemaViolation {
+  /** Path of the value, e.g. `payload.items[0].sku` */
+  readonly path: string;
+  /** What is wrong with it, e.g. `is required` or `must be >= 0` */
+  readonly message: string;
+}
+
 /**
  * Logging configuration
  */
@@ -373,4 +962,6 @@ export interface DLQConfig {
   readonly maxRetries: number;
   readonly retryDelay: number;
   readonly topic?: string;
+  /** Most recent dead letters kept in memory per topic for `getDLQMessages` (default 1000) */
+  readonly maxMessages?: number;
 }
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { DedupStore, IMessage, MiddlewareFunction } from '@/types';
+
+/**
+ * Where the deduplication key of a message comes from: its ID, a header, a
+ * payload field (dot-separated path) or a custom function. Messages without a
+ * key are processed without deduplication.
+ */
+export type DedupKeySource =
+  | 'id'
+  | { readonly header: string }
+  | { readonly payloadField: string }
+  | ((message: IMessage) => string | undefined);
+
+/**
+ * Options for the idempotent consumer
+ */
+export interface IdempotentConsumerOptions {
+  /** Where the deduplication key comes from (default 'id') */
+  readonly key?: DedupKeySource;
+  /** How long processed keys are remembered, in milliseconds (default 24 hours) */
+  readonly ttl?: number;
+  /** How long a claim holds if its consumer dies while processing, in milliseconds (default 30000) */
+  readonly processingTtl?: number;
+}
+
+/**
+ * Middleware that processes each message once per deduplication key, for
+ * at-least-once brokers and publishers that redeliver. Keys are scoped to the
+ * subscription's topic and consumer or queue group, so every subscription
+ * processes the message once; subscriptions without a group are scoped to
+ * their subscription ID, which changes when they are recreated.
+ *
+ * The key is claimed in the {@link DedupStore} before the handlers and the
+ * subscription callback run, so duplicates arriving meanwhile are skipped. It
+ * is marked done only after they succeed; if they throw, the claim is released
+ * so a retry or redelivery processes the message again.
+ *
+ * @example
+ * ```typescript
+ * const consumer = new IdempotentConsumer(new RedisDedupStore(redis), {
+ *   key: { payloadField: 'order.id' },
+ *   ttl: 7 * 24 * 60 * 60 * 1000,
+ * });
+ * manager.addMiddleware(consumer.middleware());
+ * ```
+ */
+export class IdempotentConsumer {
+  private readonly keyOf: (message: IMessage) => string | undefined;
+  private readonly ttl: number;
+  private readonly processingTtl: number;
+
+  constructor(
+    private readonly store: DedupStore,
+    options: IdempotentConsumerOptions = {}
+  ) {
+    this.keyOf = keyExtractor(options.key ?? 'id');
+    this.ttl = options.ttl ?? 24 * 60 * 60 * 1000;
+    this.processingTtl = options.processingTtl ?? 30000;
+  }
+
+  /**
+   * Returns the middleware to register with `manager.addMiddleware()`.
+   */
+  middleware(): MiddlewareFunction {
+    return async (message, next, scope) => {
+      const messageKey = this.keyOf(message);
+      if (messageKey === undefined) {
+        await next();
+        return;
+      }
+
+      const key = scope ? `${scope.topic}:${scope.subscription}:${messageKey}` : messageKey;
+      if (!(await this.store.acquire(key, this.processingTtl))) return;
+
+      try {
+        await next();
+      } catch (error) {
+        await this.store.release(key);
+        throw error;
+      }
+      await this.store.complete(key, this.ttl);
+    };
+  }
+}
+
+function keyExtractor(source: DedupKeySource): (message: IMessage) => string | undefined {
+  if (typeof source === 'function') return source;
+  if (source === 'id') return message => message.id;
+  if ('header' in source) return message => message.headers?.[source.header];
+
+  const path = source.payloadField.split('.');
+  return message => {
+    let value: any = message.payload;
+    for (const field of path) {
+      if (value === null || typeof value !== 'object') return undefined;
+      value = value[field];
+    }
+    return value === undefined || value === null ? undefined : String(value);
+  };
+}
@@ -1,4 +1,5 @@
-import { IMessageHandler, IMessage } from '@/types';
+import { IMessageHandler, IMessage, MiddlewareFunction, SubscriptionScope } from '@/types';
+import { MessageTracer } from './message.tracer';
 
 /**
  * Universal message handler registry that supports type-specific handlers, global handlers,
@@ -57,7 +58,13 @@ export class UniversalHandlerRegistry {
    * Array of middleware functions that run before handlers
    * @private
    */
-  private middleware: ((message: IMessage, next: () => Promise<void>) => Promise<void>)[] = [];
+  private middleware: MiddlewareFunction[] = [];
+
+  /**
+   * Traces each middleware, handler and final step when set
+   * @private
+   */
+  private tracer?: MessageTracer;
 
   /**
    * Registers a handler for a specific message type. Handlers are automatically
@@ -134,7 +141,7 @@ export class UniversalHandlerRegistry {
    * });
    * ```
    */
-  addMiddleware(middleware: (message: IMessage, next: () => Promise<void>) => Promise<void>): void {
+  addMiddleware(middleware: MiddlewareFunction): void {
     this.middleware.push(middleware);
   }
 
@@ -145,10 +152,14 @@ export class UniversalHandlerRegistry {
    * 1. Middleware functions (in registration order)
    * 2. Global handlers (by priority, highest first)
    * 3. Type-specific handlers (by priority, highest first)
+   * 4. The final step, if given
    *
-   * All applicable handlers run in parallel using Promise.all().
+   * All applicable handlers run in parallel using Promise.all(). Middleware that
+   * does not call `next()` skips the handlers and the final step.
    *
    * @param message - The message to process
+   * @param final - Runs after the handlers, inside the middleware chain
+   * @param scope - The subscription the message is handled for, passed to middleware
    * @throws Will throw an error if any middleware or handler throws
    *
    * @example
@@ -169,22 +180,42 @@ export class UniversalHandlerRegistry {
    * }
    * ```
    */
-  async handle(message: IMessage): Promise<void> {
+  async handle(
+    message: IMessage,
+    final?: () => Promise<void>,
+    scope?: SubscriptionScope
+  ): Promise<void> {
     let index = 0;
     const next = async (): Promise<void> => {
       if (index < this.middleware.length) {
-        const middleware = this.middleware[index++];
-        await middleware?.(message, next);
+        const position = index++;
+        const middleware = this.middleware[position]!;
+        await this.step(`middleware ${middleware.name || position}`, message, () =>
+          middleware(message, next, scope)
+        );
       } else {
         const handlers = this.handlers.get(message.type) || [];
         const allHandlers = [...this.globalHandlers, ...handlers];
-        const promises = allHandlers.filter(h => h.canHandle(message)).map(h => h.handle(message));
+        const promises = allHandlers
+          .filter(h => h.canHandle(message))
+          .map(h => this.step(`handler ${h.constructor.name}`, message, () => h.handle(message)));
         await Promise.all(promises);
+        if (final) await this.step('callback', message, final);
       }
     };
     await next();
   }
 
+  /**
+   * Traces the middleware, handler and final steps of handling messages as
+   * spans.
+   *
+   * @param tracer - The tracer, usually set by the manager's `setTracerProvider()`
+   */
+  setTracer(tracer: MessageTracer): void {
+    this.tracer = tracer;
+  }
+
   /**
    * Unregisters a specific handler for a message type.
    *
@@ -214,4 +245,12 @@ export class UniversalHandlerRegistry {
     handlers.splice(index, 1);
     return true;
   }
+
+  private step(
+    name: string,
+    message: IMessage,
+    operation: () => Promise<void> | void
+  ): Promise<void> | void {
+    return this.tracer ? this.tracer.step(name, message, async () => operation()) : operation();
+  }
 }
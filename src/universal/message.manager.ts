@@ -1,13 +1,71 @@
-import { IBrokerAdapter, IBrokerConfig, IMessage, ISubscription, IMessageHandler } from '@/types';
+import { EventEmitter } from 'events';
+import * as path from 'path';
+import {
+  IBrokerAdapter,
+  IBrokerConfig,
+  IMessage,
+  ISubscription,
+  IMessageHandler,
+  BrokerError,
+  ErrorType,
+  ReplyHandler,
+  RequestOptions,
+  RetryConfig,
+  MessageEnvelope,
+  QueueStore,
+  PublishResult,
+  MessageContext,
+  StartPosition,
+  ReplayRange,
+  Transaction,
+  TransactionOptions,
+  MessageFilters,
+  UntypedTopics,
+  TopicName,
+  TopicPattern,
+  TopicPayload,
+  MessageCallback,
+  PublishMiddleware,
+  MiddlewareFunction,
+  SubscriptionScope,
+  PerformanceMetrics,
+} from '@/types';
+import { CircuitBreaker } from '../utils/circuit.breaker';
+import { RetryPolicy } from '../utils/retry.policy';
+import { DeliveryContext } from '../utils/delivery.context';
+import { compileFilter, MessageFilter } from '../utils/message.filter';
+import { LatencyHistogram } from '../utils/latency.histogram';
+import { MetricsRegistry } from '../utils/metrics.registry';
+import { encodedSize } from '../codec/codec.registry';
 import { UniversalHandlerRegistry } from './message.handler';
-import { UniversalMessageQueue } from './message.queue';
+import {
+  UniversalMessageQueue,
+  DLQ_REASON_HEADER,
+  DLQ_ATTEMPTS_HEADER,
+  DLQ_ORIGINAL_TOPIC_HEADER,
+  DLQ_FAILED_AT_HEADER,
+} from './message.queue';
 import { UniversalPerformanceMonitor } from './performance.monitor';
+import {
+  UniversalRequestTracker,
+  CORRELATION_ID_HEADER,
+  REPLY_TO_HEADER,
+  REPLY_ERROR_HEADER,
+} from './request.tracker';
 import { UniversalSubscriptionManager } from './subscription.manager';
+import { UniversalQueueDispatcher } from './queue.dispatcher';
+import { SchemaRegistry } from './schema.registry';
+import { MessageTracer, TracerProvider, TracingOptions } from './message.tracer';
+import { FileQueueStore } from '../storage/file.queue.store';
+import { ValidationHandler } from '../handlers/validation.handler';
 
 /**
  * Universal message manager that provides a unified interface for message brokers
  * with built-in queuing, subscription management, and performance monitoring.
  *
+ * Emits `circuitBreakerStateChange` whenever a circuit breaker configured through
+ * `config.circuitBreaker` changes state.
+ *
  * @example
  * ```typescript
  * const adapter = new RedisAdapter();
@@ -24,15 +82,30 @@ import { UniversalSubscriptionManager } from './subscription.manager';
  * // Publish a message
  * await manager.publish('user.events', { userId: 123, action: 'login' });
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Type topics and payloads; unknown topics and wrong payloads fail to compile
+ * const manager = new UniversalMessageManager<{ 'orders.created': OrderCreated }>(adapter, config);
+ * await manager.publish('orders.created', { orderId: 'o-1', total: 42 });
+ * ```
  */
-export class UniversalMessageManager {
+export class UniversalMessageManager<TTopics extends object = UntypedTopics> extends EventEmitter {
   private adapter: IBrokerAdapter;
   private subscriptionManager = new UniversalSubscriptionManager();
-  private messageQueue = new UniversalMessageQueue();
+  private adapterSubscriptions = new Map<string, string>();
+  private messageQueue: UniversalMessageQueue;
   private handlerRegistry = new UniversalHandlerRegistry();
   private performanceMonitor = new UniversalPerformanceMonitor();
-  private isProcessing = false;
-  private processingInterval?: NodeJS.Timeout;
+  private requestTracker = new UniversalRequestTracker();
+  private replyInbox?: Promise<string>;
+  private retryPolicy: RetryPolicy;
+  private circuitBreakers = new Map<string, CircuitBreaker>();
+  private dispatcher: UniversalQueueDispatcher;
+  private metricsInterval?: NodeJS.Timeout;
+  private validator?: ValidationHandler;
+  private publishMiddleware: PublishMiddleware[] = [];
+  private tracer?: MessageTracer;
   private config: IBrokerConfig;
 
   /**
@@ -42,8 +115,26 @@ export class UniversalMessageManager {
    * @param config - Configuration options for the message manager
    */
   constructor(adapter: IBrokerAdapter, config: IBrokerConfig) {
+    super();
     this.adapter = adapter;
     this.config = config;
+    this.retryPolicy = new RetryPolicy(this.resolveRetryConfig());
+    this.messageQueue = new UniversalMessageQueue({
+      store: this.createQueueStore(),
+      maxQueueSize: config.performance?.maxQueueSize,
+      maxDLQSize: config.deadLetterQueue?.maxMessages,
+    });
+    this.dispatcher = new UniversalQueueDispatcher(
+      this.messageQueue,
+      (topic, messages) => this.publishQueued(topic, messages),
+      {
+        batchSize: config.performance?.batchSize,
+        flushInterval: config.performance?.flushInterval,
+        retryDelay: config.performance?.retryDelay,
+        isAvailable: topic => this.getCircuitBreaker(topic)?.isAvailable() !== false,
+      }
+    );
+    this.performanceMonitor.registry.onCollect(() => this.collectQueueMetrics());
     this.setupMessageHandling();
   }
 
@@ -61,10 +152,13 @@ export class UniversalMessageManager {
    */
   async connect(): Promise<void> {
     await this.adapter.connect();
-    this.startProcessing();
+    this.performanceMonitor.recordConnection(this.adapter.getType(), true);
+    // Messages a previous run could not publish are flushed first
+    await this.messageQueue.restore();
+    this.dispatcher.start();
 
-    if (this.adapter.getMetrics) {
-      setInterval(async () => {
+    if (this.adapter.getMetrics && !this.metricsInterval) {
+      this.metricsInterval = setInterval(async () => {
         try {
           const metrics = await this.adapter.getMetrics!();
           this.performanceMonitor.recordBrokerMetrics(this.adapter.getType(), metrics);
@@ -79,58 +173,83 @@ export class UniversalMessageManager {
    * Disconnects from the message broker and stops all processing.
    */
   async disconnect(): Promise<void> {
-    this.stopProcessing();
+    await this.dispatcher.stop();
+    clearInterval(this.metricsInterval);
+    this.metricsInterval = undefined;
+    this.requestTracker.rejectAll(
+      new BrokerError(
+        'Disconnected before reply',
+        ErrorType.CONNECTION_ERROR,
+        this.adapter.getType()
+      )
+    );
+    this.replyInbox = undefined;
     await this.adapter.disconnect();
+    this.performanceMonitor.recordConnection(this.adapter.getType(), false);
+    await this.messageQueue.close();
   }
 
-  private startProcessing(): void {
-    if (this.processingInterval) return;
-
-    const interval = this.config.features?.persistence ? 10 : 1;
-
-    this.processingInterval = setInterval(async () => {
-      if (this.isProcessing) return;
-
-      this.isProcessing = true;
-      try {
-        await this.processQueues();
-      } finally {
-        this.isProcessing = false;
-      }
-    }, interval);
-  }
+  /**
+   * Publishes a batch taken from the outbound queue, stopping at the first failure.
+   */
+  private async publishQueued(topic: string, messages: IMessage[]): Promise<number> {
+    if (this.adapter.publishBatch) {
+      const results = await this.sendBatch(topic, messages);
+      const failed = results.findIndex(result => !result.success);
+      if (failed === -1) return results.length;
 
-  private stopProcessing(): void {
-    if (this.processingInterval) {
-      clearInterval(this.processingInterval);
-      this.processingInterval = undefined;
+      console.error(`Failed to publish message for topic ${topic}:`, results[failed]!.error);
+      return failed;
     }
-  }
-
-  private async processQueues(): Promise<void> {
-    const topics = this.subscriptionManager.getAllTopics();
-
-    for (const topic of topics) {
-      const message = await this.messageQueue.dequeue(topic);
-      if (message) {
-        const startTime = Date.now();
-        try {
-          await this.adapter.publish(topic, message);
-          const latency = Date.now() - startTime;
-          this.performanceMonitor.recordLatency('publish', latency, this.adapter.getType());
-        } catch (error) {
-          console.error(`Failed to publish message for topic ${topic}:`, error);
 
-          await this.messageQueue.enqueue(topic, message);
-        }
+    let published = 0;
+    for (const message of messages) {
+      const startTime = Date.now();
+      try {
+        await this.sendOne(topic, message, () =>
+          this.withCircuitBreaker(topic, () => this.adapter.publish(topic, message))
+        );
+      } catch (error) {
+        console.error(`Failed to publish message for topic ${topic}:`, error);
+        break;
       }
+      const latency = Date.now() - startTime;
+      this.performanceMonitor.recordLatency('publish', latency, this.adapter.getType());
+      published++;
     }
+    return published;
   }
 
   /**
    * Subscribes to messages on a specific topic with optional filtering.
    *
-   * @param topic - The topic to subscribe to
+   * If the handlers or the callback throw, delivery is retried with the configured
+   * backoff (`config.retry`). Once retries are exhausted the message is dead-lettered
+   * when `config.deadLetterQueue` is enabled, otherwise the error is logged.
+   *
+   * Set `envelope: 'raw'` to consume messages from producers that do not use this
+   * library: each native record is wrapped in a message whose `metadata` holds the
+   * record's key, headers and offset.
+   *
+   * The callback also receives a {@link MessageContext} to settle the message with
+   * `ack()`, `nack({ requeue, delay })` or `deadLetter(reason)`, mapped to the
+   * broker's native mechanism: Kafka offset commits, JetStream acks, Redis Streams
+   * XACK. With `autoAck: false` the callback must settle every message itself;
+   * messages that do not match `filters` are acked. `maxRetries` also limits
+   * broker redeliveries where supported (JetStream `max_deliver`). `startFrom`
+   * sets where a persistent topic is read from: 'earliest', 'latest', a
+   * `{ timestamp }` or explicit `{ offsets }` per partition.
+   *
+   * The topic may be a pattern: `*` matches one dot-separated token and a
+   * trailing `>` matches one or more, so `orders.>` receives `orders.created` and
+   * `orders.eu.created`. Patterns map to Redis `PSUBSCRIBE`, NATS and JetStream
+   * wildcards and Kafka regex subscriptions, which match the topics existing when
+   * the consumer joins. `context.topic` holds the topic each message arrived on.
+   *
+   * `filters` are compiled when subscribing, which rejects invalid filters with
+   * `VALIDATION_ERROR`; see {@link compileFilter} for operators and paths.
+   *
+   * @param topic - The topic or topic pattern to subscribe to
    * @param callback - Function called when matching messages are received
    * @param options - Optional subscription configuration
    * @returns Subscription ID for later unsubscription
@@ -140,37 +259,137 @@ export class UniversalMessageManager {
    * const subId = await manager.subscribe('orders', (msg) => {
    *   console.log('Order received:', msg.payload);
    * }, {
-   *   filters: { status: 'pending' },
+   *   filters: { status: 'pending', 'payload.total': { $gt: 100 } },
    *   consumerGroup: 'order-processors'
    * });
    * ```
+   *
+   * @example
+   * ```typescript
+   * await manager.subscribe('orders', async (msg, context) => {
+   *   if (!isValid(msg.payload)) return context.deadLetter('invalid order');
+   *   try {
+   *     await saveOrder(msg.payload);
+   *     await context.ack();
+   *   } catch {
+   *     await context.nack({ requeue: true, delay: 5000 });
+   *   }
+   * }, { consumerGroup: 'order-processors', autoAck: false });
+   * ```
    */
-  async subscribe(
-    topic: string,
-    callback: (message: IMessage) => void,
+  async subscribe<K extends TopicName<TTopics> | TopicPattern>(
+    topic: K,
+    callback: (message: IMessage<TopicPayload<TTopics, K>>, context: MessageContext) => void,
     options?: {
-      filters?: Record<string, any>;
+      filters?: MessageFilters;
       consumerGroup?: string;
       queueGroup?: string;
+      autoAck?: boolean;
+      maxRetries?: number;
+      envelope?: MessageEnvelope;
+      startFrom?: StartPosition;
+      requests?: boolean;
     }
   ): Promise<string> {
     const subscriptionId = `sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const matchesFilters = this.compileFilters(topic, options?.filters);
+    const retryPolicy =
+      options?.maxRetries !== undefined
+        ? new RetryPolicy({ ...this.resolveRetryConfig(), maxRetries: options.maxRetries })
+        : this.retryPolicy;
+    // Subscription IDs change on every run, so metrics name the group instead
+    const subscriptionLabel = options?.consumerGroup ?? options?.queueGroup ?? topic;
+    const scope: SubscriptionScope = {
+      topic,
+      subscription: options?.consumerGroup ?? options?.queueGroup ?? subscriptionId,
+    };
 
     const subscription: ISubscription = {
       id: subscriptionId,
       topic,
-      callback: async (message: IMessage) => {
+      callback: async (message: IMessage, delivery: MessageContext) => {
         const startTime = Date.now();
+        let attempts = 0;
+        let failure: unknown;
+        // Differs from the subscribed topic for pattern subscriptions
+        const arrivedOn = delivery.topic ?? topic;
+        this.subscriptionManager.recordTopic(subscriptionId, arrivedOn);
+        const context = new DeliveryContext(
+          {
+            ack: () => delivery.ack(),
+            nack: nackOptions => delivery.nack(nackOptions),
+            deadLetter: async reason => {
+              await this.deadLetter(
+                arrivedOn,
+                message,
+                new Error(reason),
+                attempts,
+                subscriptionId,
+                subscriptionLabel
+              );
+              await delivery.deadLetter(reason);
+            },
+          },
+          delivery instanceof DeliveryContext ? delivery.source : undefined,
+          arrivedOn
+        );
+
         try {
-          if (this.subscriptionManager.matchesFilters(message, options?.filters)) {
-            await this.handlerRegistry.handle(message);
-            callback(message);
+          if (!matchesFilters(message)) {
+            await context.ack();
+            return;
           }
+          await this.traceReceive(arrivedOn, message, async () => {
+            // Retrying cannot fix an invalid payload, so it is dead-lettered at once
+            this.validator?.validate(message);
+            await retryPolicy.execute(
+              async () => {
+                attempts++;
+                await this.handlerRegistry.handle(
+                  message,
+                  async () => callback(message as IMessage<TopicPayload<TTopics, K>>, context),
+                  scope
+                );
+              },
+              (_error, retry, delay) => {
+                this.performanceMonitor.recordRetry(
+                  this.adapter.getType(),
+                  arrivedOn,
+                  subscriptionLabel
+                );
+                console.warn(
+                  `Message ${message.id} on ${arrivedOn} failed, retrying in ${delay}ms (retry ${retry})`
+                );
+              }
+            );
+          });
         } catch (error) {
-          console.error(`Subscription callback error for ${subscriptionId}:`, error);
+          failure = error;
+          if (context.settled) {
+            console.error(`Subscription callback error for ${subscriptionId}:`, error);
+            return;
+          }
+          await this.deadLetter(
+            arrivedOn,
+            message,
+            error,
+            attempts,
+            subscriptionId,
+            subscriptionLabel
+          );
+          // Exhausted retries are final, so the broker must not redeliver
+          await delivery.deadLetter(error instanceof Error ? error.message : String(error));
         } finally {
           const latency = Date.now() - startTime;
           this.performanceMonitor.recordLatency('subscription', latency, this.adapter.getType());
+          this.performanceMonitor.recordReceive(
+            this.adapter.getType(),
+            arrivedOn,
+            subscriptionLabel,
+            encodedSize(message) ?? 0,
+            latency,
+            failure
+          );
         }
       },
       filters: options?.filters,
@@ -180,10 +399,25 @@ export class UniversalMessageManager {
 
     this.subscriptionManager.subscribe(subscription);
 
-    await this.adapter.subscribe(topic, subscription.callback, {
-      consumerGroup: options?.consumerGroup,
-      queueGroup: options?.queueGroup,
-    });
+    let adapterSubscriptionId: string;
+    try {
+      adapterSubscriptionId = await this.withCircuitBreaker(topic, () =>
+        this.adapter.subscribe(topic, subscription.callback, {
+          consumerGroup: options?.consumerGroup,
+          queueGroup: options?.queueGroup,
+          autoAck: options?.autoAck,
+          maxRetries: options?.maxRetries,
+          envelope: options?.envelope,
+          startFrom: options?.startFrom,
+          requests: options?.requests,
+        })
+      );
+    } catch (error) {
+      // Messages the adapter delivered while subscribing needed the subscription registered
+      this.subscriptionManager.unsubscribe(topic, subscriptionId);
+      throw error;
+    }
+    this.adapterSubscriptions.set(subscriptionId, adapterSubscriptionId);
 
     return subscriptionId;
   }
@@ -197,18 +431,105 @@ export class UniversalMessageManager {
    */
   async unsubscribe(topic: string, subscriptionId: string): Promise<boolean> {
     const removed = this.subscriptionManager.unsubscribe(topic, subscriptionId);
-    if (removed) {
-      await this.adapter.unsubscribe(subscriptionId);
+    const adapterSubscriptionId = this.adapterSubscriptions.get(subscriptionId);
+    if (removed && adapterSubscriptionId) {
+      this.adapterSubscriptions.delete(subscriptionId);
+      await this.adapter.unsubscribe(adapterSubscriptionId);
     }
     return removed;
   }
 
+  /**
+   * Stops delivery to a subscription while keeping its place in the consumer
+   * group; the broker holds new messages until it is resumed.
+   *
+   * @param subscriptionId - The subscription ID returned from subscribe()
+   * @throws {BrokerError} `SUBSCRIPTION_ERROR` if the subscription is unknown or
+   *   the broker cannot pause subscriptions
+   *
+   * @example
+   * ```typescript
+   * await manager.pause(subId);
+   * await downstream.waitUntilHealthy();
+   * await manager.resume(subId);
+   * ```
+   */
+  async pause(subscriptionId: string): Promise<void> {
+    const adapterSubscriptionId = this.getAdapterSubscription(subscriptionId, 'pause');
+    await this.adapter.pause!(adapterSubscriptionId);
+  }
+
+  /**
+   * Resumes delivery to a paused subscription.
+   *
+   * @param subscriptionId - The subscription ID returned from subscribe()
+   * @throws {BrokerError} `SUBSCRIPTION_ERROR` if the subscription is unknown or
+   *   the broker cannot resume subscriptions
+   */
+  async resume(subscriptionId: string): Promise<void> {
+    const adapterSubscriptionId = this.getAdapterSubscription(subscriptionId, 'resume');
+    await this.adapter.resume!(adapterSubscriptionId);
+  }
+
+  /**
+   * Re-reads the messages stored on a topic between two timestamps, without
+   * moving any consumer group's committed offsets. Without a callback, each
+   * message is delivered to the topic's current subscriptions, through their
+   * filters, handlers and retries, as if it had just arrived.
+   *
+   * @param topic - The topic to replay
+   * @param range - `from` a timestamp, Date or 'earliest'; `to` (exclusive)
+   *   defaults to the end of the topic when the replay starts
+   * @param callback - Optional function receiving the replayed messages instead
+   * @returns Number of messages replayed
+   * @throws {BrokerError} `SUBSCRIPTION_ERROR` if the broker cannot replay
+   *
+   * @example
+   * ```typescript
+   * // Rebuild a projection from yesterday's orders
+   * const count = await manager.replay(
+   *   'orders',
+   *   { from: Date.now() - 86_400_000 },
+   *   msg => projection.apply(msg.payload)
+   * );
+   * ```
+   */
+  async replay<K extends TopicName<TTopics>>(
+    topic: K,
+    range: ReplayRange,
+    callback?: (message: IMessage<TTopics[K]>, context: MessageContext) => void
+  ): Promise<number> {
+    if (!this.adapter.replay) {
+      throw new BrokerError(
+        `Replay is not supported by ${this.adapter.getType()}`,
+        ErrorType.SUBSCRIPTION_ERROR,
+        this.adapter.getType()
+      );
+    }
+
+    return this.adapter.replay(
+      topic,
+      range,
+      (callback as MessageCallback | undefined) ??
+        (async (message, context) => {
+          for (const subscription of this.subscriptionManager.getMatchingSubscriptions(topic)) {
+            await subscription.callback(message, context);
+          }
+        })
+    );
+  }
+
   /**
    * Publishes a message to a topic via the internal queue for guaranteed delivery.
    *
+   * With `features.persistence` enabled the message is written to the queue store
+   * (`config.persistence`) before this resolves, and is published after a restart
+   * if the process dies first. Without it the queue lives in memory only.
+   *
    * @param topic - The topic to publish to
    * @param payload - The message payload
    * @param options - Optional message properties
+   * @throws {BrokerError} `PUBLISH_ERROR` if a persistent queue is full
    *
    * @example
    * ```typescript
@@ -221,16 +542,26 @@ export class UniversalMessageManager {
    * });
    * ```
    */
-  async publish(topic: string, payload: any, options?: Partial<IMessage>): Promise<void> {
-    const message: IMessage = {
-      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      type: topic,
-      payload,
-      timestamp: Date.now(),
-      ...options,
-    };
+  async publish<K extends TopicName<TTopics>>(
+    topic: K,
+    payload: TTopics[K],
+    options?: Partial<IMessage>
+  ): Promise<void> {
+    const message = await this.runPublishMiddleware(
+      topic,
+      this.createMessage(topic, payload, options)
+    );
+    if (!message) return;
 
+    if (this.messageQueue.isPersistent() && this.messageQueue.isFull(topic)) {
+      throw new BrokerError(
+        `Outbound queue for ${topic} is full`,
+        ErrorType.PUBLISH_ERROR,
+        this.adapter.getType()
+      );
+    }
     await this.messageQueue.enqueue(topic, message);
+    this.dispatcher.notify();
   }
 
   /**
@@ -241,28 +572,375 @@ export class UniversalMessageManager {
    * @param payload - The message payload
    * @param options - Optional message properties
    */
-  async publishImmediate(topic: string, payload: any, options?: Partial<IMessage>): Promise<void> {
-    const message: IMessage = {
-      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      type: topic,
-      payload,
-      timestamp: Date.now(),
-      ...options,
-    };
+  async publishImmediate<K extends TopicName<TTopics>>(
+    topic: K,
+    payload: TTopics[K],
+    options?: Partial<IMessage>
+  ): Promise<void> {
+    const message = await this.runPublishMiddleware(
+      topic,
+      this.createMessage(topic, payload, options)
+    );
+    if (!message) return;
 
     const startTime = Date.now();
-    await this.adapter.publish(topic, message);
+    await this.sendOne(topic, message, () =>
+      this.withCircuitBreaker(topic, () => this.adapter.publish(topic, message))
+    );
     const latency = Date.now() - startTime;
     this.performanceMonitor.recordLatency('publish_immediate', latency, this.adapter.getType());
   }
 
+  /**
+   * Publishes many messages to one topic directly, bypassing the internal queue.
+   * Adapters with native batching send them in one round trip: one Kafka
+   * `producer.send`, one Redis pipeline or one NATS flush. Others publish the
+   * messages one by one, in order.
+   *
+   * @param topic - The topic to publish to
+   * @param payloads - The message payloads, one message each
+   * @param options - Optional message properties applied to every message
+   * @returns One result per payload, in order, reporting whether it was published
+   *
+   * @example
+   * ```typescript
+   * const results = await manager.publishBatch('orders', orders);
+   * const failed = results.filter(result => !result.success);
+   * ```
+   */
+  async publishBatch<K extends TopicName<TTopics>>(
+    topic: K,
+    payloads: TTopics[K][],
+    options?: Partial<IMessage>
+  ): Promise<PublishResult[]> {
+    // Validated one by one below, so an invalid payload fails only its own message
+    const messages = payloads.map(payload => this.buildMessage(topic, payload, options));
+    if (messages.length === 0) return [];
+
+    // Messages rejected by validation or publish middleware, or dropped, get their result here
+    const rejected = new Map<number, PublishResult>();
+    const outgoing: IMessage[] = [];
+    for (const [index, message] of messages.entries()) {
+      try {
+        const valid = this.validator ? this.validator.prepare(message) : message;
+        const prepared = await this.runPublishMiddleware(topic, valid);
+        if (prepared) {
+          outgoing.push(prepared);
+        } else {
+          rejected.set(index, {
+            messageId: message.id,
+            success: false,
+            error: this.dropped(message),
+          });
+        }
+      } catch (error) {
+        rejected.set(index, { messageId: message.id, success: false, error: error as Error });
+      }
+    }
+
+    const startTime = Date.now();
+    const sent = outgoing.length > 0 ? await this.sendBatch(topic, outgoing) : [];
+    const latency = Date.now() - startTime;
+    this.performanceMonitor.recordLatency('publish_batch', latency, this.adapter.getType());
+
+    let next = 0;
+    return messages.map((_message, index) => rejected.get(index) ?? sent[next++]!);
+  }
+
+  /**
+   * Publishes messages to any number of topics atomically. The function stages
+   * messages with `tx.publish()` and consumed messages with `tx.ack()`; nothing
+   * is sent unless it resolves. Staged work is then committed in one broker
+   * transaction: on Kafka the messages and the acknowledged consumer offsets
+   * become visible together or not at all, for exactly-once
+   * consume-transform-produce when the subscription uses `autoAck: false`.
+   *
+   * Brokers without transactions reject the call before running the function,
+   * unless `fallback: 'buffered'` is given: the staged messages are then
+   * published once it resolves and the acknowledgements follow if all succeed.
+   *
+   * @param work - Function staging the transaction's messages
+   * @param options - Optional fallback for brokers without transactions
+   * @returns What the function returned, once the transaction is committed
+   * @throws {BrokerError} `PUBLISH_ERROR` if the broker has no transactions and no
+   *   fallback is allowed, or if committing failed; the transaction is aborted
+   *
+   * @example
+   * ```typescript
+   * await manager.subscribe('payments.requested', async (msg, context) => {
+   *   await manager.transaction(async tx => {
+   *     tx.publish('payments.authorized', authorize(msg.payload));
+   *     tx.publish('ledger.entries', toLedgerEntry(msg.payload));
+   *     tx.ack(context);
+   *   });
+   * }, { consumerGroup: 'payments', autoAck: false });
+   * ```
+   */
+  async transaction<T>(
+    work: (tx: Transaction<TTopics>) => T | Promise<T>,
+    options?: TransactionOptions
+  ): Promise<T> {
+    const brokerType = this.adapter.getType();
+    if (!this.adapter.beginTransaction && options?.fallback !== 'buffered') {
+      throw new BrokerError(
+        `Transactions are not supported by ${brokerType}; pass { fallback: 'buffered' } to publish staged messages once the transaction function resolves`,
+        ErrorType.PUBLISH_ERROR,
+        brokerType
+      );
+    }
+
+    const staged: Array<{ topic: string; message: IMessage }> = [];
+    const acks: MessageContext[] = [];
+    const result = await work({
+      publish: (topic, payload, messageOptions) => {
+        staged.push({ topic, message: this.createMessage(topic, payload, messageOptions) });
+      },
+      ack: context => {
+        acks.push(context);
+      },
+    });
+
+    const outgoing: Array<{ topic: string; message: IMessage }> = [];
+    for (const { topic, message } of staged) {
+      const prepared = await this.runPublishMiddleware(topic, message);
+      if (prepared) outgoing.push({ topic, message: prepared });
+    }
+
+    const startTime = Date.now();
+    if (this.adapter.beginTransaction) {
+      const transaction = await this.adapter.beginTransaction();
+      try {
+        for (const { topic, message } of outgoing) {
+          await this.traceSend(topic, [message], () => transaction.publish(topic, message));
+        }
+        for (const context of acks) {
+          await transaction.ack(context);
+        }
+        await transaction.commit();
+        this.recordPublished(outgoing, Date.now() - startTime);
+      } catch (error) {
+        await transaction.abort().catch(abortError => {
+          console.error('Failed to abort transaction:', abortError);
+        });
+        this.recordPublished(outgoing, Date.now() - startTime, error);
+        throw new BrokerError(
+          `Transaction aborted: ${(error as Error).message}`,
+          ErrorType.PUBLISH_ERROR,
+          brokerType,
+          error as Error
+        );
+      }
+    } else {
+      await this.flushStaged(outgoing);
+      for (const context of acks) {
+        await context.ack();
+      }
+    }
+
+    const latency = Date.now() - startTime;
+    this.performanceMonitor.recordLatency('transaction', latency, brokerType);
+    return result;
+  }
+
+  /**
+   * Sends a request and waits for a single reply. Correlation IDs and the reply
+   * inbox are managed automatically: NATS uses its native request mechanism, other
+   * brokers receive replies on a per-instance inbox topic.
+   *
+   * @param topic - The topic a responder is listening on
+   * @param payload - The request payload
+   * @param options - Optional message properties and `timeout` in milliseconds
+   *   (defaults to `performance.requestTimeout`, then 5000)
+   * @returns The reply message
+   * @throws {BrokerError} `TIMEOUT_ERROR` if no reply arrives in time, `REQUEST_ERROR`
+   *   if the responder's handler failed
+   *
+   * @example
+   * ```typescript
+   * const reply = await manager.request('users.lookup', { userId: 123 }, { timeout: 2000 });
+   * console.log('User:', reply.payload);
+   * ```
+   */
+  async request<T = unknown, K extends TopicName<TTopics> = TopicName<TTopics>>(
+    topic: K,
+    payload: TTopics[K],
+    options?: RequestOptions
+  ): Promise<IMessage<T>> {
+    const { timeout = this.config.performance?.requestTimeout ?? 5000, ...messageOptions } =
+      options || {};
+    const brokerType = this.adapter.getType();
+    const base = this.createMessage(topic, payload, messageOptions);
+    const message = await this.runPublishMiddleware(topic, {
+      ...base,
+      headers: { ...base.headers, [CORRELATION_ID_HEADER]: base.id },
+    });
+    if (!message) throw this.dropped(base);
+
+    const startTime = Date.now();
+    let reply: IMessage;
+
+    if (this.adapter.request) {
+      const request = this.adapter.request.bind(this.adapter);
+      reply = await this.sendOne(topic, message, () => request(topic, message, timeout));
+      const remoteError = reply.headers?.[REPLY_ERROR_HEADER];
+      if (remoteError !== undefined) {
+        throw new BrokerError(remoteError, ErrorType.REQUEST_ERROR, brokerType);
+      }
+    } else {
+      const inbox = await this.getReplyInbox();
+      // Tracked before sending so a fast reply is not missed
+      const pending = this.requestTracker.track(base.id, timeout, brokerType);
+      // A send slower than the timeout must not leave the rejection unhandled
+      pending.catch(() => undefined);
+      try {
+        await this.sendOne(topic, message, () =>
+          this.withCircuitBreaker(topic, () =>
+            this.adapter.publish(topic, {
+              ...message,
+              headers: { ...message.headers, [REPLY_TO_HEADER]: inbox },
+            })
+          )
+        );
+      } catch (error) {
+        this.requestTracker.cancel(base.id);
+        throw error;
+      }
+      reply = await pending;
+    }
+
+    this.performanceMonitor.recordLatency('request', Date.now() - startTime, brokerType);
+    return reply as IMessage<T>;
+  }
+
+  /**
+   * Serves requests sent with `request()`. The handler's return value is sent back
+   * as the reply payload; if it throws, the requester receives a `REQUEST_ERROR`.
+   * Messages on the topic that carry no reply address are ignored.
+   *
+   * @param topic - The topic to serve requests on
+   * @param handler - Function producing the reply payload
+   * @param options - Optional queue or consumer group to share requests across instances
+   * @returns Subscription ID for later unsubscription
+   *
+   * @example
+   * ```typescript
+   * await manager.reply('users.lookup', async (msg) => {
+   *   return await db.users.findById(msg.payload.userId);
+   * }, { queueGroup: 'user-service' });
+   * ```
+   */
+  async reply<
+    TRequest = unknown,
+    TReply = unknown,
+    K extends TopicName<TTopics> = TopicName<TTopics>,
+  >(
+    topic: K,
+    // Without an explicit request type, the handler receives the topic's payload
+    handler: ReplyHandler<unknown extends TRequest ? TTopics[K] : TRequest, TReply>,
+    options?: { consumerGroup?: string; queueGroup?: string }
+  ): Promise<string> {
+    return this.subscribe(
+      topic,
+      async (message: IMessage) => {
+        const replyTo = message.headers?.[REPLY_TO_HEADER];
+        if (!replyTo) return;
+
+        const headers: Record<string, string> = {
+          [CORRELATION_ID_HEADER]: message.headers?.[CORRELATION_ID_HEADER] || message.id,
+        };
+        let result: TReply | undefined;
+        try {
+          result = await handler(message as Parameters<typeof handler>[0]);
+        } catch (error) {
+          headers[REPLY_ERROR_HEADER] = error instanceof Error ? error.message : String(error);
+        }
+
+        try {
+          const response = await this.runPublishMiddleware(
+            replyTo,
+            this.createMessage(`${topic}.reply`, result ?? null, { headers })
+          );
+          if (response) {
+            await this.traceSend(replyTo, [response], () =>
+              this.withCircuitBreaker(replyTo, () => this.adapter.publish(replyTo, response))
+            );
+          }
+        } catch (error) {
+          console.error(`Failed to send reply for ${topic}:`, error);
+        }
+      },
+      { ...options, requests: true }
+    );
+  }
+
+  /**
+   * Re-drives dead-lettered messages back to the topic they were consumed from.
+   *
+   * On brokers that can re-read topics (Kafka, in-memory) the messages are read
+   * from the DLQ topic in `range`, so messages dead-lettered before a restart
+   * or by another instance are replayed too; replaying the same range twice
+   * re-drives its messages twice. Elsewhere, and for messages that overflowed
+   * the outbound queue and never reached the broker, the dead letters kept in
+   * this process are replayed, removed before publishing and put back if the
+   * publish fails.
+   *
+   * @param topic - The original topic whose DLQ messages should be replayed
+   * @param filter - Optional predicate selecting which messages to replay
+   * @param range - Part of the DLQ topic to read (default all of it)
+   * @returns Number of messages replayed
+   *
+   * @example
+   * ```typescript
+   * // Replay everything that failed because of a downstream outage
+   * const count = await manager.replayDLQ('payments', msg =>
+   *   msg.headers?.['dlq-reason']?.includes('ECONNREFUSED') ?? false
+   * );
+   * ```
+   */
+  async replayDLQ(
+    topic: string,
+    filter?: (message: IMessage) => boolean,
+    range: ReplayRange = { from: 'earliest' }
+  ): Promise<number> {
+    if (!this.adapter.replay) {
+      return this.redriveAll(topic, this.messageQueue.takeDLQMessages(topic, filter));
+    }
+
+    let replayed = 0;
+    let failure: unknown;
+    await this.adapter.replay(this.dlqTopic(topic), range, async message => {
+      // A shared DLQ topic holds the dead letters of several topics
+      const original = message.headers?.[DLQ_ORIGINAL_TOPIC_HEADER] ?? topic;
+      if (failure !== undefined || original !== topic || (filter && !filter(message))) return;
+
+      try {
+        await this.redrive(topic, message);
+        replayed++;
+        this.messageQueue.takeDLQMessages(topic, m => m.id === message.id);
+      } catch (error) {
+        failure = error;
+      }
+    });
+
+    if (failure !== undefined) throw failure;
+
+    const overflowed = this.messageQueue.takeDLQMessages(
+      topic,
+      m => !m.headers?.[DLQ_ORIGINAL_TOPIC_HEADER] && (!filter || filter(m))
+    );
+    return replayed + (await this.redriveAll(topic, overflowed));
+  }
+
   /**
    * Registers a handler for a specific message type.
    *
    * @param messageType - The message type to handle
    * @param handler - The handler implementation
    */
-  registerHandler(messageType: string, handler: IMessageHandler): void {
+  registerHandler<K extends TopicName<TTopics>>(
+    messageType: K,
+    handler: IMessageHandler<TTopics[K]>
+  ): void {
     this.handlerRegistry.register(messageType, handler);
   }
 
@@ -276,21 +954,145 @@ export class UniversalMessageManager {
   }
 
   /**
-   * Adds middleware that runs before message handlers.
+   * Adds middleware that runs before message handlers and subscription
+   * callbacks. Middleware that does not call `next()` skips both.
    *
    * @param middleware - The middleware function
    */
-  addMiddleware(middleware: (message: IMessage, next: () => Promise<void>) => Promise<void>): void {
+  addMiddleware(middleware: MiddlewareFunction): void {
     this.handlerRegistry.addMiddleware(middleware);
   }
 
   /**
-   * Returns current performance metrics including latency and throughput data.
+   * Adds middleware that runs on every message published with `publish`,
+   * `publishImmediate`, `publishBatch`, `transaction`, `request` and `reply`,
+   * in the order added, once per message: before it is queued, sent or staged.
+   * Middleware can rewrite the message by passing a new one to `next()`, reject
+   * it by throwing, or drop it by not calling `next()`. The message is sent
+   * after the whole chain has run.
+   *
+   * Messages re-published from the dead letter queue do not pass through it
+   * again.
+   *
+   * @param middleware - The middleware function
+   *
+   * @example
+   * ```typescript
+   * manager.addPublishMiddleware(async (message, next) => {
+   *   await next({ ...message, headers: { ...message.headers, 'x-tenant': tenantId } });
+   * });
+   *
+   * manager.addPublishMiddleware(async (message, next, topic) => {
+   *   if (!quota.tryTake(topic)) throw new Error(`Publish quota exceeded for ${topic}`);
+   *   await next();
+   * });
+   * ```
+   */
+  addPublishMiddleware(middleware: PublishMiddleware): void {
+    this.publishMiddleware.push(middleware);
+  }
+
+  /**
+   * Traces publishing and handling messages with an OpenTelemetry tracer
+   * provider, without depending on `@opentelemetry/api`. Outgoing messages
+   * carry their publish span's context in W3C `traceparent` and `tracestate`
+   * headers, and the span of a consumed message is its child. Sends, receives
+   * and each middleware, handler and callback step get spans with messaging
+   * semantic-convention attributes; see {@link MessageTracer}.
+   *
+   * @param provider - The tracer provider, e.g. the SDK's `NodeTracerProvider`
+   * @param options - Tracer name, and the `context` API to make spans active
+   *
+   * @example
+   * ```typescript
+   * import { context, trace } from '@opentelemetry/api';
+   *
+   * manager.setTracerProvider(trace.getTracerProvider(), { context });
+   * ```
+   */
+  setTracerProvider(provider: TracerProvider, options?: TracingOptions): void {
+    this.tracer = new MessageTracer(provider, this.adapter.getType(), options);
+    this.handlerRegistry.setTracer(this.tracer);
+  }
+
+  /**
+   * Validates message payloads against the registry's JSON Schemas. Published
+   * messages of types with a schema get a `schema-version` header with the
+   * latest version, unless they name one, and are rejected with a
+   * `SchemaValidationError` if invalid. Consumed messages are validated against
+   * the version in their header, or the latest, and dead-lettered without
+   * retries if invalid.
+   *
+   * @param registry - The schemas to validate against
+   *
+   * @example
+   * ```typescript
+   * const schemas = new SchemaRegistry();
+   * schemas.register('orders.created', orderCreatedSchema);
+   * manager.setSchemaRegistry(schemas);
+   * ```
+   */
+  setSchemaRegistry(registry: SchemaRegistry): void {
+    this.validator = new ValidationHandler(registry, this.adapter.getType());
+  }
+
+  /**
+   * Returns current performance metrics: publish and handling latency
+   * percentiles, throughput and error rates over the last 1, 5 and 15
+   * minutes, errors by type and broker connections.
+   *
+   * @returns The performance metrics
+   */
+  getPerformanceMetrics(): PerformanceMetrics {
+    return this.performanceMonitor.getPerformanceMetrics();
+  }
+
+  /**
+   * Returns a copy of the latency histogram of published messages or of
+   * messages handled by subscriptions, e.g. to merge with other instances'.
+   *
+   * @param kind - 'publish' or 'subscription'
+   * @returns The latency histogram
+   *
+   * @example
+   * ```typescript
+   * const fleet = LatencyHistogram.fromJSON(snapshotFromOtherInstance);
+   * fleet.merge(manager.getLatencyHistogram('publish'));
+   * fleet.quantile(0.99);
+   * ```
+   */
+  getLatencyHistogram(kind: 'publish' | 'subscription'): LatencyHistogram {
+    return this.performanceMonitor.getMessageLatency(kind);
+  }
+
+  /**
+   * Returns the registry of message metrics, labelled by broker, topic and
+   * subscription, to serve to Prometheus or render with `render()`; see
+   * {@link UniversalPerformanceMonitor} for the metrics. Subscriptions are
+   * labelled with their consumer group or queue group, else their topic.
+   *
+   * @returns The metrics registry
+   *
+   * @example
+   * ```typescript
+   * import { createServer } from 'http';
+   *
+   * createServer(createMetricsHandler(manager.getMetricsRegistry())).listen(9464);
+   * ```
+   */
+  getMetricsRegistry(): MetricsRegistry {
+    return this.performanceMonitor.registry;
+  }
+
+  /**
+   * Returns the concrete topics a pattern subscription has received messages
+   * from so far.
    *
-   * @returns Object containing performance metrics
+   * @param subscriptionId - The subscription ID returned from subscribe()
+   * @returns The topics, in the order first seen; empty for literal subscriptions
    */
-  getPerformanceMetrics(): Record<string, any> {
-    return this.performanceMonitor.getMetrics();
+  getMatchedTopics(subscriptionId: string): string[] {
+    return this.subscriptionManager.getMatchedTopics(subscriptionId);
   }
 
   /**
@@ -328,7 +1130,39 @@ export class UniversalMessageManager {
   }
 
   /**
-   * Retrieves messages from the Dead Letter Queue for a specific topic.
+   * Returns the circuit breaker guarding a topic, or undefined when
+   * `config.circuitBreaker` is not set. With the default `'adapter'` scope all
+   * topics share one breaker.
+   *
+   * @param topic - The topic whose breaker to return
+   * @returns The circuit breaker, created on first use
+   *
+   * @example
+   * ```typescript
+   * manager.on('circuitBreakerStateChange', change => {
+   *   console.warn(`Breaker ${change.name}: ${change.from} -> ${change.to}`);
+   * });
+   * console.log(manager.getCircuitBreaker('orders')?.getState());
+   * ```
+   */
+  getCircuitBreaker(topic: string): CircuitBreaker | undefined {
+    const config = this.config.circuitBreaker;
+    if (!config) return undefined;
+
+    const name = config.scope === 'topic' ? topic : this.adapter.getType();
+    let breaker = this.circuitBreakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.adapter.getType(), config, { name });
+      breaker.on('stateChange', change => this.emit('circuitBreakerStateChange', change));
+      this.circuitBreakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Retrieves the dead letters this process kept in memory for a topic: the
+   * most recent `deadLetterQueue.maxMessages` (default 1000). The broker DLQ
+   * topic keeps all of them.
    *
    * @param topic - The topic to get DLQ messages for
    * @returns Array of messages that failed processing
@@ -336,4 +1170,356 @@ export class UniversalMessageManager {
   getDLQMessages(topic: string): IMessage[] {
     return this.messageQueue.getDLQMessages(topic);
   }
+
+  /**
+   * Publishes messages with the adapter's native batching when available. A batch
+   * that fails as a whole reports the error for every message.
+   */
+  private async sendBatch(topic: string, messages: IMessage[]): Promise<PublishResult[]> {
+    const startTime = Date.now();
+    const results = await this.traceSend(topic, messages, () =>
+      this.sendBatchUntraced(topic, messages)
+    );
+    const latency = Date.now() - startTime;
+    results.forEach((result, index) => {
+      this.recordPublished([{ topic, message: messages[index]! }], latency, result.error);
+    });
+    return results;
+  }
+
+  private async sendBatchUntraced(topic: string, messages: IMessage[]): Promise<PublishResult[]> {
+    if (!this.adapter.publishBatch) {
+      const results: PublishResult[] = [];
+      for (const message of messages) {
+        try {
+          await this.withCircuitBreaker(topic, () => this.adapter.publish(topic, message));
+          results.push({ messageId: message.id, success: true });
+        } catch (error) {
+          results.push({ messageId: message.id, success: false, error: error as Error });
+        }
+      }
+      return results;
+    }
+
+    try {
+      return await this.withCircuitBreaker(topic, () =>
+        this.adapter.publishBatch!(topic, messages)
+      );
+    } catch (error) {
+      return messages.map(message => ({
+        messageId: message.id,
+        success: false,
+        error: error as Error,
+      }));
+    }
+  }
+
+  /**
+   * Publishes the messages of a buffered transaction, batched per topic.
+   */
+  private async flushStaged(staged: Array<{ topic: string; message: IMessage }>): Promise<void> {
+    const byTopic = new Map<string, IMessage[]>();
+    for (const { topic, message } of staged) {
+      byTopic.set(topic, [...(byTopic.get(topic) || []), message]);
+    }
+
+    const failures: PublishResult[] = [];
+    for (const [topic, messages] of byTopic) {
+      const results = await this.sendBatch(topic, messages);
+      failures.push(...results.filter(result => !result.success));
+    }
+
+    if (failures.length > 0) {
+      const brokerType = this.adapter.getType();
+      throw new BrokerError(
+        `${failures.length} of ${staged.length} transaction messages failed to publish`,
+        ErrorType.PUBLISH_ERROR,
+        brokerType,
+        failures[0]!.error
+      );
+    }
+  }
+
+  private compileFilters(topic: string, filters: MessageFilters | undefined): MessageFilter {
+    try {
+      return compileFilter(filters ?? {});
+    } catch (error) {
+      throw new BrokerError(
+        `Invalid filters for ${topic}: ${(error as Error).message}`,
+        ErrorType.VALIDATION_ERROR,
+        this.adapter.getType(),
+        error as Error
+      );
+    }
+  }
+
+  private getAdapterSubscription(subscriptionId: string, operation: 'pause' | 'resume'): string {
+    const brokerType = this.adapter.getType();
+    if (!this.adapter[operation]) {
+      throw new BrokerError(
+        `Cannot ${operation} subscriptions on ${brokerType}`,
+        ErrorType.SUBSCRIPTION_ERROR,
+        brokerType
+      );
+    }
+
+    const adapterSubscriptionId = this.adapterSubscriptions.get(subscriptionId);
+    if (!adapterSubscriptionId) {
+      throw new BrokerError(
+        `Unknown subscription ${subscriptionId}`,
+        ErrorType.SUBSCRIPTION_ERROR,
+        brokerType
+      );
+    }
+    return adapterSubscriptionId;
+  }
+
+  private createQueueStore(): QueueStore | undefined {
+    if (!this.config.features?.persistence) return undefined;
+
+    const { store, path: file, fsync } = this.config.persistence || {};
+    if (store) return store;
+
+    const name = this.config.clientId || this.config.type;
+    return new FileQueueStore(file || path.join('.pubsub', `${name}.queue.log`), { fsync });
+  }
+
+  private createMessage(topic: string, payload: any, options?: Partial<IMessage>): IMessage {
+    const message = this.buildMessage(topic, payload, options);
+    return this.validator ? this.validator.prepare(message) : message;
+  }
+
+  private buildMessage(topic: string, payload: any, options?: Partial<IMessage>): IMessage {
+    return {
+      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type: topic,
+      payload,
+      timestamp: Date.now(),
+      ...options,
+    };
+  }
+
+  /**
+   * Runs an outgoing message through the publish middleware, in a publish span
+   * when tracing.
+   *
+   * @returns The message to send, or undefined if a middleware dropped it
+   */
+  private runPublishMiddleware(topic: string, message: IMessage): Promise<IMessage | undefined> {
+    return this.tracer
+      ? this.tracer.publish(topic, message, traced => this.applyPublishMiddleware(topic, traced))
+      : this.applyPublishMiddleware(topic, message);
+  }
+
+  private async applyPublishMiddleware(
+    topic: string,
+    message: IMessage
+  ): Promise<IMessage | undefined> {
+    let result: IMessage | undefined;
+    const next = async (index: number, current: IMessage): Promise<void> => {
+      const middleware = this.publishMiddleware[index];
+      if (!middleware) {
+        result = current;
+        return;
+      }
+      await middleware(current, rewritten => next(index + 1, rewritten ?? current), topic);
+    };
+    await next(0, message);
+    return result;
+  }
+
+  private traceSend<T>(
+    topic: string,
+    messages: readonly IMessage[],
+    operation: () => Promise<T>
+  ): Promise<T> {
+    return this.tracer ? this.tracer.send(topic, messages, operation) : operation();
+  }
+
+  /**
+   * Sends one message, tracing the send and recording it in the metrics.
+   */
+  private async sendOne<T>(
+    topic: string,
+    message: IMessage,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    const startTime = Date.now();
+    try {
+      const result = await this.traceSend(topic, [message], operation);
+      this.recordPublished([{ topic, message }], Date.now() - startTime);
+      return result;
+    } catch (error) {
+      this.recordPublished([{ topic, message }], Date.now() - startTime, error);
+      throw error;
+    }
+  }
+
+  private recordPublished(
+    sent: Array<{ topic: string; message: IMessage }>,
+    latency: number,
+    error?: unknown
+  ): void {
+    for (const { topic, message } of sent) {
+      this.performanceMonitor.recordPublish(
+        this.adapter.getType(),
+        topic,
+        encodedSize(message) ?? 0,
+        latency,
+        error
+      );
+    }
+  }
+
+  private collectQueueMetrics(): void {
+    const queued: Record<string, number> = {};
+    for (const topic of this.messageQueue.getTopics()) {
+      queued[topic] = this.messageQueue.getQueueSize(topic);
+    }
+    const deadLettered: Record<string, number> = {};
+    for (const topic of this.messageQueue.getDLQTopics()) {
+      deadLettered[topic] = this.messageQueue.getDLQMessages(topic).length;
+    }
+    this.performanceMonitor.setQueueSizes(this.adapter.getType(), queued, deadLettered);
+  }
+
+  private traceReceive<T>(
+    topic: string,
+    message: IMessage,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    return this.tracer ? this.tracer.receive(topic, message, operation) : operation();
+  }
+
+  private dropped(message: IMessage): BrokerError {
+    return new BrokerError(
+      `Message ${message.id} was dropped by publish middleware`,
+      ErrorType.PUBLISH_ERROR,
+      this.adapter.getType()
+    );
+  }
+
+  private getReplyInbox(): Promise<string> {
+    if (!this.replyInbox) {
+      const inbox = `_INBOX.${this.config.clientId || 'universal'}.${Date.now()}_${Math.random()
+        .toString(36)
+        .substr(2, 9)}`;
+      this.replyInbox = this.adapter
+        .subscribe(inbox, reply => {
+          this.requestTracker.resolve(reply, this.adapter.getType());
+        })
+        .then(() => inbox);
+      this.replyInbox.catch(() => {
+        this.replyInbox = undefined;
+      });
+    }
+    return this.replyInbox;
+  }
+
+  private resolveRetryConfig(): RetryConfig {
+    const { retry, deadLetterQueue, performance } = this.config;
+    if (retry) return retry;
+
+    const initialDelay = deadLetterQueue?.retryDelay ?? performance?.retryDelay ?? 1000;
+    return {
+      maxRetries: deadLetterQueue?.maxRetries ?? performance?.maxRetries ?? 0,
+      initialDelay,
+      maxDelay: initialDelay * 32,
+      backoffMultiplier: 2,
+      jitter: true,
+    };
+  }
+
+  private async deadLetter(
+    topic: string,
+    message: IMessage,
+    error: unknown,
+    attempts: number,
+    subscriptionId: string,
+    subscription: string
+  ): Promise<void> {
+    const dlq = this.config.deadLetterQueue;
+    const enabled = dlq ? dlq.enabled : this.config.features?.deadLetterQueue === true;
+    if (!enabled) {
+      console.error(`Subscription callback error for ${subscriptionId}:`, error);
+      return;
+    }
+
+    const deadLettered: IMessage = {
+      ...this.withoutRouting(message),
+      headers: {
+        ...message.headers,
+        [DLQ_REASON_HEADER]: error instanceof Error ? error.message : String(error),
+        [DLQ_ATTEMPTS_HEADER]: String(attempts),
+        [DLQ_ORIGINAL_TOPIC_HEADER]: topic,
+        [DLQ_FAILED_AT_HEADER]: String(Date.now()),
+      },
+    };
+    this.messageQueue.enqueueToDLQ(topic, deadLettered);
+    this.performanceMonitor.recordDeadLetter(this.adapter.getType(), topic, subscription);
+
+    const dlqTopic = this.dlqTopic(topic);
+    try {
+      await this.withCircuitBreaker(dlqTopic, () => this.adapter.publish(dlqTopic, deadLettered));
+    } catch (publishError) {
+      console.error(`Failed to publish message ${message.id} to DLQ ${dlqTopic}:`, publishError);
+    }
+  }
+
+  /**
+   * Names the broker topic a topic's messages are dead-lettered to.
+   */
+  private dlqTopic(topic: string): string {
+    return this.config.deadLetterQueue?.topic || `${topic}.dlq`;
+  }
+
+  /**
+   * Publishes a dead letter back to its topic without its DLQ headers.
+   */
+  private async redrive(topic: string, message: IMessage): Promise<void> {
+    const headers: Record<string, string> = { ...message.headers };
+    delete headers[DLQ_REASON_HEADER];
+    delete headers[DLQ_ATTEMPTS_HEADER];
+    delete headers[DLQ_ORIGINAL_TOPIC_HEADER];
+    delete headers[DLQ_FAILED_AT_HEADER];
+
+    await this.withCircuitBreaker(topic, () =>
+      this.adapter.publish(topic, { ...this.withoutRouting(message), headers })
+    );
+  }
+
+  /**
+   * Re-drives dead letters taken from the in-memory DLQ, putting back those
+   * not published when one fails.
+   */
+  private async redriveAll(topic: string, messages: IMessage[]): Promise<number> {
+    let replayed = 0;
+    for (const message of messages) {
+      try {
+        await this.redrive(topic, message);
+        replayed++;
+      } catch (error) {
+        messages.slice(replayed).forEach(m => this.messageQueue.enqueueToDLQ(topic, m));
+        throw error;
+      }
+    }
+    return replayed;
+  }
+
+  /**
+   * Strips broker routing fields picked up on receipt so a message can be
+   * published to a different destination.
+   */
+  private withoutRouting(message: IMessage): IMessage {
+    const copy = { ...message };
+    delete copy.partition;
+    delete copy.subject;
+    delete copy.channel;
+    return copy;
+  }
+
+  private withCircuitBreaker<T>(topic: string, operation: () => Promise<T>): Promise<T> {
+    const breaker = this.getCircuitBreaker(topic);
+    return breaker ? breaker.execute(operation) : operation();
+  }
 }
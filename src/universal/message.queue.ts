@@ -1,9 +1,45 @@
-import { IMessage } from '@/types';
+import { IMessage, QueueStore } from '@/types';
+
+/**
+ * Header carrying the error message that caused a message to be dead-lettered
+ */
+export const DLQ_REASON_HEADER = 'dlq-reason';
+
+/**
+ * Header carrying the number of delivery attempts made before dead-lettering
+ */
+export const DLQ_ATTEMPTS_HEADER = 'dlq-attempts';
+
+/**
+ * Header carrying the topic the message was originally consumed from
+ */
+export const DLQ_ORIGINAL_TOPIC_HEADER = 'dlq-original-topic';
+
+/**
+ * Header carrying the time the message was dead-lettered
+ */
+export const DLQ_FAILED_AT_HEADER = 'dlq-failed-at';
+
+/**
+ * Options for the message queue
+ */
+export interface MessageQueueOptions {
+  /** Storage backend persisting queued messages until they are acknowledged */
+  readonly store?: QueueStore;
+  /** Maximum number of messages per topic (default 10000) */
+  readonly maxQueueSize?: number;
+  /** Maximum number of DLQ messages per topic; the oldest are dropped (default 1000) */
+  readonly maxDLQSize?: number;
+}
 
 /**
  * Priority-based message queue with Dead Letter Queue (DLQ) support.
  * Manages message ordering by priority and handles overflow situations.
  *
+ * With a `store`, queued messages are persisted and stay there until
+ * `acknowledge` is called after publishing, so `restore` can bring back
+ * everything that was not published before a crash.
+ *
  * @example
  * ```typescript
  * const queue = new UniversalMessageQueue();
@@ -38,7 +74,13 @@ export class UniversalMessageQueue {
    * Maximum number of messages per queue before overflow to DLQ
    * @private
    */
-  private maxQueueSize = 10000;
+  private maxQueueSize: number;
+
+  /**
+   * Maximum number of messages per DLQ before the oldest are dropped
+   * @private
+   */
+  private maxDLQSize: number;
 
   /**
    * Dead Letter Queue for messages that couldn't be processed
@@ -46,6 +88,64 @@ export class UniversalMessageQueue {
    */
   private dlq = new Map<string, IMessage[]>();
 
+  /**
+   * Storage backend, if the queue is persistent
+   * @private
+   */
+  private store?: QueueStore;
+
+  /**
+   * Resolves once stored messages have been loaded
+   * @private
+   */
+  private restored?: Promise<void>;
+
+  constructor(options: MessageQueueOptions = {}) {
+    this.store = options.store;
+    this.maxQueueSize = options.maxQueueSize ?? 10000;
+    this.maxDLQSize = options.maxDLQSize ?? 1000;
+  }
+
+  /**
+   * Loads messages left in the store by a previous run. Runs once; later calls
+   * wait for the first one.
+   *
+   * @example
+   * ```typescript
+   * const queue = new UniversalMessageQueue({ store: new FileQueueStore('outbound.log') });
+   * await queue.restore();
+   * console.log(queue.getTopics());
+   * ```
+   */
+  restore(): Promise<void> {
+    if (!this.restored) {
+      this.restored = (async () => {
+        for (const { topic, message } of (await this.store?.load()) || []) {
+          this.insert(topic, message);
+        }
+      })();
+      // Allow a retry if loading failed
+      this.restored.catch(() => (this.restored = undefined));
+    }
+    return this.restored;
+  }
+
+  /**
+   * Whether a persistent store backs this queue
+   */
+  isPersistent(): boolean {
+    return this.store !== undefined;
+  }
+
+  /**
+   * Checks whether a topic's queue has reached its maximum size.
+   *
+   * @param topic - The topic to check
+   */
+  isFull(topic: string): boolean {
+    return this.getQueueSize(topic) >= this.maxQueueSize;
+  }
+
   /**
    * Adds a message to the queue with priority-based insertion.
    * Messages are automatically sorted by priority (critical > high > normal > low).
@@ -65,18 +165,67 @@ export class UniversalMessageQueue {
    * ```
    */
   async enqueue(topic: string, message: IMessage): Promise<void> {
+    if (this.isFull(topic)) {
+      console.warn(`Queue for ${topic} is full, moving message ${message.id} to the DLQ`);
+      this.enqueueToDLQ(topic, message);
+      return;
+    }
+    if (this.store) {
+      await this.restore();
+      await this.store.append(topic, message);
+    }
+    this.insert(topic, message);
+  }
+
+  /**
+   * Puts dequeued messages back after a failed publish, without storing them again.
+   * They go ahead of queued messages of the same priority, keeping their order.
+   *
+   * @param topic - The topic the messages were dequeued from
+   * @param messages - The messages to put back, in their original order
+   */
+  requeue(topic: string, ...messages: IMessage[]): void {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      this.insert(topic, messages[i]!, true);
+    }
+  }
+
+  /**
+   * Confirms that a dequeued message was published, removing it from the store.
+   *
+   * @param topic - The topic the message was dequeued from
+   * @param message - The published message
+   */
+  async acknowledge(topic: string, message: IMessage): Promise<void> {
+    await this.store?.remove(topic, message.id);
+  }
+
+  /**
+   * Returns the topics that currently have queued messages.
+   */
+  getTopics(): string[] {
+    return Array.from(this.queues.entries())
+      .filter(([, queue]) => queue.length > 0)
+      .map(([topic]) => topic);
+  }
+
+  /**
+   * Releases the store's resources.
+   */
+  async close(): Promise<void> {
+    await this.store?.close?.();
+  }
+
+  private insert(topic: string, message: IMessage, ahead = false): void {
     if (!this.queues.has(topic)) {
       this.queues.set(topic, []);
     }
     const queue = this.queues.get(topic)!;
-    if (queue.length >= this.maxQueueSize) {
-      this.enqueueToDLQ(topic, message);
-      return;
-    }
     const priority = this.getPriorityValue(message.priority);
     let insertIndex = queue.length;
     for (let i = 0; i < queue.length; i++) {
-      if (this.getPriorityValue(queue[i]?.priority) < priority) {
+      const queued = this.getPriorityValue(queue[i]?.priority);
+      if (queued < priority || (ahead && queued === priority)) {
         insertIndex = i;
         break;
       }
@@ -85,21 +234,25 @@ export class UniversalMessageQueue {
   }
 
   /**
-   * Moves a message to the Dead Letter Queue when the main queue is full.
+   * Moves a message to the Dead Letter Queue, either because the main queue is
+   * full or because its processing failed permanently. A full DLQ drops its
+   * oldest message.
    *
    * @param topic - The topic to add the DLQ message to
    * @param message - The message to add to DLQ
-   * @private
    */
-  private enqueueToDLQ(topic: string, message: IMessage): void {
+  enqueueToDLQ(topic: string, message: IMessage): void {
     if (!this.dlq.has(topic)) {
       this.dlq.set(topic, []);
     }
-    this.dlq.get(topic)!.push(message);
+    const messages = this.dlq.get(topic)!;
+    messages.push(message);
+    if (messages.length > this.maxDLQSize) messages.shift();
   }
 
   /**
-   * Removes and returns the highest priority message from the queue.
+   * Removes and returns the highest priority message from the queue. A persistent
+   * queue keeps the message stored until it is acknowledged.
    *
    * @param topic - The topic to dequeue from
    * @returns The next message or null if queue is empty
@@ -117,6 +270,18 @@ export class UniversalMessageQueue {
     return queue?.shift() || null;
   }
 
+  /**
+   * Removes and returns up to `max` messages from the queue, highest priority first.
+   *
+   * @param topic - The topic to dequeue from
+   * @param max - Maximum number of messages to return
+   * @returns The dequeued messages, possibly none
+   */
+  dequeueBatch(topic: string, max: number): IMessage[] {
+    const queue = this.queues.get(topic);
+    return queue ? queue.splice(0, Math.max(1, max)) : [];
+  }
+
   /**
    * Retrieves all messages in the Dead Letter Queue for a topic.
    *
@@ -133,6 +298,47 @@ export class UniversalMessageQueue {
     return this.dlq.get(topic) || [];
   }
 
+  /**
+   * Returns the topics that currently have dead-lettered messages.
+   */
+  getDLQTopics(): string[] {
+    return Array.from(this.dlq.entries())
+      .filter(([, messages]) => messages.length > 0)
+      .map(([topic]) => topic);
+  }
+
+  /**
+   * Removes and returns Dead Letter Queue messages for a topic.
+   *
+   * @param topic - The topic to take DLQ messages from
+   * @param filter - Optional predicate selecting which messages to take
+   * @returns The removed messages, oldest first
+   *
+   * @example
+   * ```typescript
+   * const timeouts = queue.takeDLQMessages('payments', msg =>
+   *   msg.headers?.[DLQ_REASON_HEADER]?.includes('timeout') ?? false
+   * );
+   * ```
+   */
+  takeDLQMessages(topic: string, filter?: (message: IMessage) => boolean): IMessage[] {
+    const messages = this.dlq.get(topic);
+    if (!messages) return [];
+
+    const taken: IMessage[] = [];
+    const kept: IMessage[] = [];
+    for (const message of messages) {
+      (!filter || filter(message) ? taken : kept).push(message);
+    }
+
+    if (kept.length > 0) {
+      this.dlq.set(topic, kept);
+    } else {
+      this.dlq.delete(topic);
+    }
+    return taken;
+  }
+
   /**
    * Converts priority string to numeric value for sorting.
    * Priority levels: critical (4) > high (3) > normal (2) > low (1)
@@ -166,6 +372,17 @@ export class UniversalMessageQueue {
     return this.queues.get(topic)?.length || 0;
   }
 
+  /**
+   * Returns the number of queued messages across all topics.
+   */
+  getTotalSize(): number {
+    let total = 0;
+    for (const queue of this.queues.values()) {
+      total += queue.length;
+    }
+    return total;
+  }
+
   /**
    * Clears messages from queues and DLQ.
    *
@@ -181,6 +398,8 @@ export class UniversalMessageQueue {
    * ```
    */
   clear(topic?: string): void {
+    this.store?.clear(topic).catch(error => console.error('Failed to clear queue store:', error));
+
     if (topic) {
       this.queues.delete(topic);
       this.dlq.delete(topic);
@@ -0,0 +1,363 @@
+import { BrokerType, IMessage } from '@/types';
+import {
+  formatTraceparent,
+  parseTraceparent,
+  TraceState,
+  TRACEPARENT_HEADER,
+  TRACESTATE_HEADER,
+} from '../utils/trace.context';
+import { CORRELATION_ID_HEADER } from './request.tracker';
+
+/*
+ * Structural subsets of the `@opentelemetry/api` interfaces, so an SDK's
+ * tracer provider can be passed in without this package depending on it.
+ */
+
+/**
+ * Identifies a span; see OpenTelemetry's `SpanContext`
+ */
+export interface SpanContext {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly traceFlags: number;
+  readonly isRemote?: boolean;
+  readonly traceState?: { serialize(): string };
+}
+
+/**
+ * A span; see OpenTelemetry's `Span`
+ */
+export interface Span {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): void;
+  end(): void;
+}
+
+/**
+ * Options for starting a span; see OpenTelemetry's `SpanOptions`
+ */
+export interface SpanOptions {
+  kind?: number;
+  attributes?: Record<string, string | number | boolean>;
+  links?: Array<{ context: SpanContext }>;
+}
+
+/**
+ * Immutable key-value store carrying the active span; see OpenTelemetry's `Context`
+ */
+export interface TracingContext {
+  getValue(key: symbol): unknown;
+  setValue(key: symbol, value: unknown): TracingContext;
+  deleteValue(key: symbol): TracingContext;
+}
+
+/**
+ * Creates spans; see OpenTelemetry's `Tracer`
+ */
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions, context?: TracingContext): Span;
+}
+
+/**
+ * Provides tracers; see OpenTelemetry's `TracerProvider`
+ */
+export interface TracerProvider {
+  getTracer(name: string, version?: string): Tracer;
+}
+
+/**
+ * Gets and sets the active context; see OpenTelemetry's `ContextAPI`
+ */
+export interface TracingContextApi {
+  active(): TracingContext;
+  with<T>(context: TracingContext, fn: () => T): T;
+}
+
+/**
+ * Options for message tracing
+ */
+export interface TracingOptions {
+  /** Name of the tracer (default '@wishyor/pubsub-adapters') */
+  readonly tracerName?: string;
+  /**
+   * The `context` API of `@opentelemetry/api`. When given, publish spans are
+   * parented to the active span and handlers run with their span active, so
+   * spans they start become its children.
+   */
+  readonly context?: TracingContextApi;
+}
+
+// OpenTelemetry's SpanKind and SpanStatusCode values
+const INTERNAL = 0;
+const CLIENT = 2;
+const PRODUCER = 3;
+const CONSUMER = 4;
+const ERROR = 2;
+
+/**
+ * The key `@opentelemetry/api` stores the active span under. It is registered
+ * globally so that every API version finds the span.
+ */
+const SPAN_KEY = Symbol.for('OpenTelemetry Context Key SPAN');
+
+/**
+ * Context used when no context API is given
+ */
+class BaseContext implements TracingContext {
+  constructor(private readonly values = new Map<symbol, unknown>()) {}
+
+  getValue(key: symbol): unknown {
+    return this.values.get(key);
+  }
+
+  setValue(key: symbol, value: unknown): TracingContext {
+    return new BaseContext(new Map(this.values).set(key, value));
+  }
+
+  deleteValue(key: symbol): TracingContext {
+    const values = new Map(this.values);
+    values.delete(key);
+    return new BaseContext(values);
+  }
+}
+
+const ROOT_CONTEXT = new BaseContext();
+
+/**
+ * Traces messages with OpenTelemetry, following the messaging semantic
+ * conventions. The manager creates it with `setTracerProvider()`.
+ *
+ * - `publish <topic>` (producer) covers preparing an outgoing message, and its
+ *   context is injected into the `traceparent` and `tracestate` headers
+ * - `send <topic>` (client) covers the broker call for one message or a batch
+ * - `receive <topic>` (consumer) covers handling a delivered message, retries
+ *   included, as a child of the producer's span extracted from the headers
+ * - `middleware <name>`, `handler <name>` and `callback` (internal) cover each
+ *   step of the handling
+ *
+ * Spans carry `messaging.system`, `messaging.destination.name`,
+ * `messaging.operation.type`, `messaging.message.id` and, where known,
+ * `messaging.destination.partition.id`.
+ *
+ * @example
+ * ```typescript
+ * const tracer = new MessageTracer(provider, 'kafka', { context });
+ * await tracer.receive('orders', message, () => handle(message));
+ * ```
+ */
+export class MessageTracer {
+  private readonly tracer: Tracer;
+  private readonly system: string;
+  private readonly contexts = new WeakMap<IMessage, TracingContext>();
+
+  constructor(
+    provider: TracerProvider,
+    brokerType: BrokerType,
+    private readonly options: TracingOptions = {}
+  ) {
+    this.tracer = provider.getTracer(options.tracerName || '@wishyor/pubsub-adapters');
+    this.system = brokerType.split('-')[0]!;
+  }
+
+  /**
+   * Traces preparing an outgoing message, passing the operation the message
+   * with the span's context injected into its headers. A trace context the
+   * message already carries becomes a link.
+   *
+   * @param topic - The destination
+   * @param message - The outgoing message
+   * @param operation - Prepares the message for sending
+   */
+  publish<T>(
+    topic: string,
+    message: IMessage,
+    operation: (message: IMessage) => Promise<T>
+  ): Promise<T> {
+    const existing = this.extract(message);
+    const span = this.tracer.startSpan(
+      `publish ${topic}`,
+      {
+        kind: PRODUCER,
+        attributes: this.attributes(topic, 'create', message),
+        links: existing ? [{ context: existing }] : undefined,
+      },
+      this.options.context?.active()
+    );
+    return this.run(span, () => operation(this.inject(message, span.spanContext())));
+  }
+
+  /**
+   * Traces sending messages to the broker. A single message's span is a child
+   * of its publish span; a batch's span links to each message's.
+   *
+   * @param topic - The destination
+   * @param messages - The messages sent
+   * @param operation - Sends the messages
+   */
+  send<T>(topic: string, messages: readonly IMessage[], operation: () => Promise<T>): Promise<T> {
+    const single = messages.length === 1 ? messages[0] : undefined;
+    const attributes = this.attributes(topic, 'send', single);
+    let parent: TracingContext | undefined;
+    let links: Array<{ context: SpanContext }> | undefined;
+
+    if (single) {
+      const remote = this.extract(single);
+      parent = remote ? this.withSpan(this.baseContext(), this.remoteSpan(remote)) : undefined;
+    } else {
+      attributes['messaging.batch.message_count'] = messages.length;
+      links = messages
+        .map(message => this.extract(message))
+        .filter((context): context is SpanContext => context !== undefined)
+        .map(context => ({ context }));
+    }
+
+    const span = this.tracer.startSpan(
+      `send ${topic}`,
+      { kind: CLIENT, attributes, links },
+      parent ?? this.options.context?.active()
+    );
+    return this.run(span, operation);
+  }
+
+  /**
+   * Traces handling a delivered message. Steps traced with `step()` while the
+   * operation runs become children of this span.
+   *
+   * @param topic - The topic the message arrived on
+   * @param message - The delivered message
+   * @param operation - Handles the message
+   */
+  async receive<T>(topic: string, message: IMessage, operation: () => Promise<T>): Promise<T> {
+    const remote = this.extract(message);
+    const base = this.baseContext();
+    const parent = remote ? this.withSpan(base, this.remoteSpan(remote)) : base;
+    const span = this.tracer.startSpan(
+      `receive ${topic}`,
+      { kind: CONSUMER, attributes: this.attributes(topic, 'process', message) },
+      parent
+    );
+
+    const context = this.withSpan(parent, span);
+    this.contexts.set(message, context);
+    try {
+      return await this.run(span, () => this.activate(context, operation));
+    } finally {
+      this.contexts.delete(message);
+    }
+  }
+
+  /**
+   * Traces a step of handling a message inside `receive()`. Outside of it the
+   * operation runs untraced.
+   *
+   * @param name - The span name
+   * @param message - The message being handled
+   * @param operation - The step
+   */
+  step<T>(name: string, message: IMessage, operation: () => Promise<T>): Promise<T> {
+    const parent = this.contexts.get(message);
+    if (!parent) return operation();
+
+    const span = this.tracer.startSpan(
+      name,
+      { kind: INTERNAL, attributes: { 'messaging.message.id': message.id } },
+      parent
+    );
+    return this.run(span, () => this.activate(this.withSpan(parent, span), operation));
+  }
+
+  private async run<T>(span: Span, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({
+        code: ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  private attributes(
+    topic: string,
+    operation: string,
+    message?: IMessage
+  ): Record<string, string | number | boolean> {
+    const attributes: Record<string, string | number | boolean> = {
+      'messaging.system': this.system,
+      'messaging.destination.name': topic,
+      'messaging.operation.type': operation,
+    };
+    if (message) {
+      attributes['messaging.message.id'] = message.id;
+      const correlationId = message.headers?.[CORRELATION_ID_HEADER];
+      if (correlationId !== undefined) {
+        attributes['messaging.message.conversation_id'] = correlationId;
+      }
+      if (message.partition !== undefined) {
+        attributes['messaging.destination.partition.id'] = String(message.partition);
+      }
+      if (this.system === 'kafka' && message.partitionKey !== undefined) {
+        attributes['messaging.kafka.message.key'] = message.partitionKey;
+      }
+    }
+    return attributes;
+  }
+
+  private inject(message: IMessage, context: SpanContext): IMessage {
+    const traceparent = formatTraceparent(context);
+    // Tracers that do not record produce invalid, all-zero IDs
+    if (!parseTraceparent(traceparent)) return message;
+
+    const headers: Record<string, string> = {
+      ...message.headers,
+      [TRACEPARENT_HEADER]: traceparent,
+    };
+    const state = context.traceState?.serialize();
+    if (state) {
+      headers[TRACESTATE_HEADER] = state;
+    } else {
+      delete headers[TRACESTATE_HEADER];
+    }
+    return { ...message, headers };
+  }
+
+  private extract(message: IMessage): SpanContext | undefined {
+    const parent = parseTraceparent(message.headers?.[TRACEPARENT_HEADER]);
+    if (!parent) return undefined;
+
+    const state = message.headers?.[TRACESTATE_HEADER];
+    return { ...parent, isRemote: true, traceState: state ? TraceState.parse(state) : undefined };
+  }
+
+  /**
+   * Wraps a remote span context as the span a context can carry, which is all
+   * a tracer reads from its parent.
+   */
+  private remoteSpan(context: SpanContext): Span {
+    return {
+      spanContext: () => context,
+      setAttribute: () => undefined,
+      setStatus: () => undefined,
+      recordException: () => undefined,
+      end: () => undefined,
+    };
+  }
+
+  private baseContext(): TracingContext {
+    return this.options.context?.active() ?? ROOT_CONTEXT;
+  }
+
+  private withSpan(context: TracingContext, span: Span): TracingContext {
+    return context.setValue(SPAN_KEY, span);
+  }
+
+  private activate<T>(context: TracingContext, operation: () => Promise<T>): Promise<T> {
+    return this.options.context ? this.options.context.with(context, operation) : operation();
+  }
+}
@@ -0,0 +1,230 @@
+import { OutboxRecord, OutboxStore } from '@/types';
+import { Clock, SystemClock } from '../utils/clock';
+import { RetryPolicy } from '../utils/retry.policy';
+import { UniversalMessageManager } from './message.manager';
+
+/**
+ * Options for the outbox relay
+ */
+export interface OutboxRelayOptions {
+  /** Records fetched and published per round (default 100) */
+  readonly batchSize?: number;
+  /** Time between polls while the outbox is empty, in milliseconds (default 1000) */
+  readonly pollInterval?: number;
+  /** Delay before the first retry of a failed record, doubled per attempt, in milliseconds (default 1000) */
+  readonly retryDelay?: number;
+  /** Upper bound of the retry delay, in milliseconds (default 60000) */
+  readonly maxRetryDelay?: number;
+  /** Time source for polls and retries (default system time) */
+  readonly clock?: Clock;
+}
+
+/**
+ * Counters describing the relay's progress
+ */
+export interface OutboxRelayMetrics {
+  readonly published: number;
+  readonly failed: number;
+  readonly polls: number;
+  /** Age of the oldest pending record at the last poll, in milliseconds */
+  readonly lag: number;
+  readonly lastError?: string;
+}
+
+/**
+ * Publishes the messages of a transactional outbox through a message manager.
+ *
+ * The relay polls the store every `pollInterval`, and at once after `notify()`,
+ * which the application calls after committing a transaction that inserted
+ * messages. Each round publishes the oldest pending records in order with
+ * `publishImmediate`, keeping their IDs so consumers can deduplicate.
+ * Publishing is at least once: a record is marked sent after the broker
+ * accepted it, so a crash in between publishes it again.
+ *
+ * A record that fails to publish is retried with exponential backoff, and no
+ * later record with the same aggregate key (`partitionKey`) is published
+ * before it, so each aggregate's events keep their order. Records backing off,
+ * and their aggregates, are skipped when fetching, so they do not fill the
+ * batch and hold up other aggregates. Records never give up; watch `lag` and
+ * `failed` to detect a stuck outbox.
+ *
+ * @example
+ * ```typescript
+ * const relay = new OutboxRelay(outbox, manager, { pollInterval: 500 });
+ * relay.start();
+ *
+ * await db.transaction(async trx => {
+ *   await saveOrder(trx, order);
+ *   await outbox.insert('orders.created', message, trx);
+ * });
+ * relay.notify();
+ * ```
+ */
+export class OutboxRelay {
+  private readonly batchSize: number;
+  private readonly pollInterval: number;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly clock: Clock;
+  private readonly retrying = new Map<
+    string,
+    { at: number; aggregateKey?: string; createdAt: number }
+  >();
+  private running = false;
+  private timer?: unknown;
+  private relaying?: Promise<void>;
+  private notified = false;
+  private metrics: OutboxRelayMetrics = { published: 0, failed: 0, polls: 0, lag: 0 };
+
+  constructor(
+    private readonly store: OutboxStore<any>,
+    private readonly manager: UniversalMessageManager,
+    options: OutboxRelayOptions = {}
+  ) {
+    this.batchSize = options.batchSize ?? 100;
+    this.pollInterval = options.pollInterval ?? 1000;
+    this.retryPolicy = new RetryPolicy({
+      maxRetries: Infinity,
+      initialDelay: options.retryDelay ?? 1000,
+      maxDelay: options.maxRetryDelay ?? 60000,
+      backoffMultiplier: 2,
+    });
+    this.clock = options.clock || new SystemClock();
+  }
+
+  /**
+   * Starts polling the outbox.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stops polling and waits for the round in progress to finish.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer !== undefined) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.relaying;
+  }
+
+  /**
+   * Relays new messages now instead of at the next poll.
+   */
+  notify(): void {
+    if (!this.running) return;
+    if (this.relaying) {
+      this.notified = true;
+      return;
+    }
+    this.schedule(0);
+  }
+
+  /**
+   * Runs one round: fetches a batch of pending records and publishes those that
+   * are not waiting for a retry or behind a failed record of their aggregate.
+   *
+   * @returns The number of records published
+   */
+  async relayOnce(): Promise<number> {
+    const now = this.clock.now();
+    const ids: string[] = [];
+    const aggregateKeys: string[] = [];
+    let oldest = Infinity;
+    for (const [id, { at, aggregateKey, createdAt }] of this.retrying) {
+      if (at <= now) continue;
+      ids.push(id);
+      if (aggregateKey !== undefined) aggregateKeys.push(aggregateKey);
+      oldest = Math.min(oldest, createdAt);
+    }
+
+    const records = await this.store.fetchPending(this.batchSize, { ids, aggregateKeys });
+    if (records.length > 0) oldest = Math.min(oldest, records[0]!.createdAt);
+    this.metrics = {
+      ...this.metrics,
+      polls: this.metrics.polls + 1,
+      lag: oldest === Infinity ? 0 : Math.max(0, now - oldest),
+    };
+
+    const blocked = new Set<string>();
+    const sent: string[] = [];
+    for (const record of records) {
+      const key = record.aggregateKey;
+      if (key !== undefined && blocked.has(key)) continue;
+
+      if (!(await this.publish(record))) {
+        if (key !== undefined) blocked.add(key);
+        continue;
+      }
+      sent.push(record.id);
+    }
+
+    if (sent.length > 0) {
+      await this.store.markSent(sent);
+    }
+    return sent.length;
+  }
+
+  /**
+   * Returns the relay's counters.
+   */
+  getMetrics(): OutboxRelayMetrics {
+    return { ...this.metrics };
+  }
+
+  private async publish(record: OutboxRecord): Promise<boolean> {
+    const { payload, ...options } = record.message;
+    try {
+      await this.manager.publishImmediate(record.topic, payload, options);
+      this.retrying.delete(record.id);
+      this.metrics = { ...this.metrics, published: this.metrics.published + 1 };
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const delay = this.retryPolicy.getDelay(record.attempts + 1);
+      this.retrying.set(record.id, {
+        at: this.clock.now() + delay,
+        aggregateKey: record.aggregateKey,
+        createdAt: record.createdAt,
+      });
+      this.metrics = { ...this.metrics, failed: this.metrics.failed + 1, lastError: message };
+      await this.store.markFailed(record.id, message);
+      return false;
+    }
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer !== undefined) {
+      this.clock.clearTimeout(this.timer);
+    }
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = undefined;
+      this.relaying = this.run().finally(() => (this.relaying = undefined));
+    }, delay);
+  }
+
+  private async run(): Promise<void> {
+    let delay = this.pollInterval;
+    try {
+      // A full batch means more records are probably waiting
+      if ((await this.relayOnce()) === this.batchSize) delay = 0;
+    } catch (error) {
+      console.error('Outbox relay error:', error);
+      this.metrics = {
+        ...this.metrics,
+        lastError: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    if (!this.running) return;
+    if (this.notified) {
+      this.notified = false;
+      delay = 0;
+    }
+    this.schedule(delay);
+  }
+}
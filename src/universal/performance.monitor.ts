@@ -1,6 +1,59 @@
+import {
+  BrokerError,
+  ErrorRates,
+  ErrorType,
+  LatencySummary,
+  PerformanceMetrics,
+  RateWindow,
+  ThroughputRates,
+} from '@/types';
+import { Clock, SystemClock } from '../utils/clock';
+import { LatencyHistogram, LatencyHistogramOptions } from '../utils/latency.histogram';
+import { Counter, Gauge, Histogram, MetricsRegistry } from '../utils/metrics.registry';
+import { RateCounter } from '../utils/rate.counter';
+
+/**
+ * Options for the performance monitor
+ */
+export interface PerformanceMonitorOptions {
+  /** Upper bounds of the latency histogram buckets, in seconds */
+  readonly buckets?: readonly number[];
+  /** Precision and range of the latency percentiles */
+  readonly latency?: LatencyHistogramOptions;
+  /** Time source for throughput; the system clock by default */
+  readonly clock?: Clock;
+}
+
+const RATE_WINDOWS: Record<RateWindow, number> = {
+  '1m': 60_000,
+  '5m': 300_000,
+  '15m': 900_000,
+};
+
+const QUANTILES = [0.5, 0.95, 0.99, 0.999];
+
 /**
  * Performance monitoring utility that tracks latency metrics and broker statistics.
- * Maintains rolling windows of performance data with statistical analysis.
+ * Latencies are kept in streaming {@link LatencyHistogram}s and throughput in
+ * sliding-window {@link RateCounter}s, so memory stays constant and reading the
+ * metrics is cheap enough for every scrape.
+ *
+ * Message traffic is also recorded in a {@link MetricsRegistry}, ready to be
+ * scraped by Prometheus:
+ *
+ * - `pubsub_messages_published_total`, `pubsub_messages_received_total`,
+ *   `pubsub_messages_failed_total`, `pubsub_messages_retried_total` and
+ *   `pubsub_messages_dead_lettered_total` count messages
+ * - `pubsub_published_bytes_total` and `pubsub_received_bytes_total` count encoded
+ *   message bytes, as sent and received by the adapter's codec
+ * - `pubsub_publish_duration_seconds` and `pubsub_process_duration_seconds` are
+ *   latency histograms
+ * - `pubsub_queue_depth` and `pubsub_dlq_size` gauge the outbound queue and the
+ *   dead letter queue
+ * - `pubsub_connected` and `pubsub_connections_total` track broker connections
+ *
+ * Message metrics are labelled with `broker`, `topic` and, on the consuming
+ * side, `subscription`; failures also carry their `error_type`.
  *
  * @example
  * ```typescript
@@ -14,13 +67,53 @@
  * const metrics = monitor.getMetrics();
  * console.log('Avg publish latency:', metrics.latency['redis.publish'].avg);
  * ```
+ *
+ * @example
+ * ```typescript
+ * monitor.recordPublish('kafka', 'orders', message, 12);
+ * monitor.recordReceive('kafka', 'orders', 'billing', message, 40, new Error('Timeout'));
+ *
+ * monitor.registry.render();
+ * // pubsub_messages_published_total{broker="kafka",topic="orders"} 1
+ * // pubsub_messages_failed_total{broker="kafka",topic="orders",subscription="billing",error_type="SUBSCRIPTION_ERROR"} 1
+ * // ...
+ * ```
  */
 export class UniversalPerformanceMonitor {
   /**
-   * Map storing latency samples for each operation
+   * Registry holding the message metrics
+   */
+  readonly registry = new MetricsRegistry();
+
+  private readonly published: Counter;
+  private readonly received: Counter;
+  private readonly failed: Counter;
+  private readonly retried: Counter;
+  private readonly deadLettered: Counter;
+  private readonly publishedBytes: Counter;
+  private readonly receivedBytes: Counter;
+  private readonly publishDuration: Histogram;
+  private readonly processDuration: Histogram;
+  private readonly queueDepth: Gauge;
+  private readonly dlqSize: Gauge;
+  private readonly connected: Gauge;
+  private readonly connections: Counter;
+  private readonly clock: Clock;
+  private readonly latencyOptions?: LatencyHistogramOptions;
+  private readonly publishLatency: LatencyHistogram;
+  private readonly subscriptionLatency: LatencyHistogram;
+  private readonly publishRate: RateCounter;
+  private readonly receiveRate: RateCounter;
+  private readonly publishedByteRate: RateCounter;
+  private readonly receivedByteRate: RateCounter;
+  private readonly attemptRate: RateCounter;
+  private readonly errorRate: RateCounter;
+
+  /**
+   * Map storing a latency histogram for each operation
    * @private
    */
-  private metrics = new Map<string, number[]>();
+  private metrics = new Map<string, LatencyHistogram>();
 
   /**
    * Map storing broker-specific metrics and metadata
@@ -28,15 +121,197 @@ export class UniversalPerformanceMonitor {
    */
   private brokerMetrics = new Map<string, any>();
 
+  constructor(options: PerformanceMonitorOptions = {}) {
+    const message = ['broker', 'topic'];
+    const delivery = ['broker', 'topic', 'subscription'];
+    const { registry } = this;
+    const { buckets } = options;
+
+    this.published = registry.counter(
+      'pubsub_messages_published_total',
+      'Messages published to the broker',
+      message
+    );
+    this.received = registry.counter(
+      'pubsub_messages_received_total',
+      'Messages delivered to subscriptions',
+      delivery
+    );
+    this.failed = registry.counter(
+      'pubsub_messages_failed_total',
+      'Messages that failed to publish or whose handling failed after retries',
+      [...delivery, 'error_type']
+    );
+    this.retried = registry.counter(
+      'pubsub_messages_retried_total',
+      'Retries of failed message handling',
+      delivery
+    );
+    this.deadLettered = registry.counter(
+      'pubsub_messages_dead_lettered_total',
+      'Messages moved to the dead letter queue',
+      delivery
+    );
+    this.publishedBytes = registry.counter(
+      'pubsub_published_bytes_total',
+      'Encoded message bytes published to the broker',
+      message
+    );
+    this.receivedBytes = registry.counter(
+      'pubsub_received_bytes_total',
+      'Encoded message bytes delivered to subscriptions',
+      delivery
+    );
+    this.publishDuration = registry.histogram(
+      'pubsub_publish_duration_seconds',
+      'Time taken to publish a message',
+      message,
+      buckets
+    );
+    this.processDuration = registry.histogram(
+      'pubsub_process_duration_seconds',
+      'Time taken to handle a delivered message, retries included',
+      delivery,
+      buckets
+    );
+    this.queueDepth = registry.gauge(
+      'pubsub_queue_depth',
+      'Messages waiting in the outbound queue',
+      message
+    );
+    this.dlqSize = registry.gauge('pubsub_dlq_size', 'Messages in the dead letter queue', message);
+    this.connected = registry.gauge(
+      'pubsub_connected',
+      'Whether the broker is connected (1) or not (0)',
+      ['broker']
+    );
+    this.connections = registry.counter(
+      'pubsub_connections_total',
+      'Connections made to the broker',
+      ['broker']
+    );
+    this.clock = options.clock ?? new SystemClock();
+    this.latencyOptions = options.latency;
+    this.publishLatency = new LatencyHistogram(options.latency);
+    this.subscriptionLatency = new LatencyHistogram(options.latency);
+    this.publishRate = new RateCounter({ clock: this.clock });
+    this.receiveRate = new RateCounter({ clock: this.clock });
+    this.publishedByteRate = new RateCounter({ clock: this.clock });
+    this.receivedByteRate = new RateCounter({ clock: this.clock });
+    this.attemptRate = new RateCounter({ clock: this.clock });
+    this.errorRate = new RateCounter({ clock: this.clock });
+  }
+
   /**
-   * Maximum number of samples to retain per operation (rolling window)
-   * @private
+   * Records a message published to the broker, or that failed to publish.
+   *
+   * @param broker - The broker type
+   * @param topic - The topic published to
+   * @param bytes - Size of the encoded message
+   * @param latency - Time taken in milliseconds
+   * @param error - The error, if publishing failed
+   */
+  recordPublish(
+    broker: string,
+    topic: string,
+    bytes: number,
+    latency: number,
+    error?: unknown
+  ): void {
+    const labels = { broker, topic };
+    this.publishDuration.observe(labels, latency / 1000);
+    this.attemptRate.add();
+    if (error !== undefined) {
+      this.failed.inc({ ...labels, error_type: errorType(error, ErrorType.PUBLISH_ERROR) });
+      this.errorRate.add();
+      return;
+    }
+    this.published.inc(labels);
+    this.publishedBytes.inc(labels, bytes);
+    this.publishLatency.record(latency);
+    this.publishRate.add();
+    this.publishedByteRate.add(bytes);
+  }
+
+  /**
+   * Records a message delivered to a subscription and how its handling ended.
+   *
+   * @param broker - The broker type
+   * @param topic - The topic the message arrived on
+   * @param subscription - Names the subscription, e.g. its consumer group
+   * @param bytes - Size of the message as received
+   * @param latency - Time taken to handle it in milliseconds, retries included
+   * @param error - The error, if handling failed
+   */
+  recordReceive(
+    broker: string,
+    topic: string,
+    subscription: string,
+    bytes: number,
+    latency: number,
+    error?: unknown
+  ): void {
+    const labels = { broker, topic, subscription };
+    this.received.inc(labels);
+    this.receivedBytes.inc(labels, bytes);
+    this.processDuration.observe(labels, latency / 1000);
+    this.subscriptionLatency.record(latency);
+    this.receiveRate.add();
+    this.receivedByteRate.add(bytes);
+    this.attemptRate.add();
+    if (error !== undefined) {
+      this.failed.inc({ ...labels, error_type: errorType(error, ErrorType.SUBSCRIPTION_ERROR) });
+      this.errorRate.add();
+    }
+  }
+
+  /**
+   * Records a retry of a message whose handling failed.
+   */
+  recordRetry(broker: string, topic: string, subscription: string): void {
+    this.retried.inc({ broker, topic, subscription });
+  }
+
+  /**
+   * Records a message moved to the dead letter queue.
+   */
+  recordDeadLetter(broker: string, topic: string, subscription: string): void {
+    this.deadLettered.inc({ broker, topic, subscription });
+  }
+
+  /**
+   * Records the broker connecting or disconnecting.
+   */
+  recordConnection(broker: string, connected: boolean): void {
+    this.connected.set({ broker }, connected ? 1 : 0);
+    if (connected) this.connections.inc({ broker });
+  }
+
+  /**
+   * Replaces the queue gauges with the current sizes. Topics left out are
+   * dropped from the gauges.
+   *
+   * @param broker - The broker type
+   * @param queued - Outbound queue depth by topic
+   * @param deadLettered - Dead letter queue size by topic
    */
-  private readonly maxSamples = 1000;
+  setQueueSizes(
+    broker: string,
+    queued: Record<string, number>,
+    deadLettered: Record<string, number>
+  ): void {
+    this.queueDepth.reset();
+    this.dlqSize.reset();
+    for (const [topic, size] of Object.entries(queued)) {
+      this.queueDepth.set({ broker, topic }, size);
+    }
+    for (const [topic, size] of Object.entries(deadLettered)) {
+      this.dlqSize.set({ broker, topic }, size);
+    }
+  }
 
   /**
-   * Records a latency measurement for a specific operation.
-   * Maintains a rolling window of samples, discarding oldest when limit is reached.
+   * Records a latency measurement for a specific operation in its histogram.
    *
    * @param operation - The operation being measured (e.g., 'publish', 'subscribe')
    * @param latency - The latency in milliseconds
@@ -53,14 +328,12 @@ export class UniversalPerformanceMonitor {
    */
   recordLatency(operation: string, latency: number, broker?: string): void {
     const key = broker ? `${broker}.${operation}` : operation;
-    if (!this.metrics.has(key)) {
-      this.metrics.set(key, []);
-    }
-    const samples = this.metrics.get(key)!;
-    samples.push(latency);
-    if (samples.length > this.maxSamples) {
-      samples.shift();
+    let histogram = this.metrics.get(key);
+    if (!histogram) {
+      histogram = new LatencyHistogram(this.latencyOptions);
+      this.metrics.set(key, histogram);
     }
+    histogram.record(latency);
   }
 
   /**
@@ -101,16 +374,44 @@ export class UniversalPerformanceMonitor {
    */
   getAverageLatency(operation: string, broker?: string): number {
     const key = broker ? `${broker}.${operation}` : operation;
-    const samples = this.metrics.get(key);
-    if (!samples || samples.length === 0) return 0;
-    return samples.reduce((sum, val) => sum + val, 0) / samples.length;
+    return this.metrics.get(key)?.mean ?? 0;
+  }
+
+  /**
+   * Returns the latency histogram of an operation, e.g. to merge the
+   * histograms of several instances.
+   *
+   * @param operation - The operation
+   * @param broker - Optional broker the operation was recorded for
+   * @returns The live histogram, or undefined if nothing was recorded
+   *
+   * @example
+   * ```typescript
+   * const snapshot = monitor.getLatencyHistogram('publish', 'kafka')?.toJSON();
+   * ```
+   */
+  getLatencyHistogram(operation: string, broker?: string): LatencyHistogram | undefined {
+    return this.metrics.get(broker ? `${broker}.${operation}` : operation);
+  }
+
+  /**
+   * Returns a copy of the latency histogram of every published message, or
+   * of every message handled by a subscription, on all brokers.
+   *
+   * @param kind - 'publish' or 'subscription'
+   * @returns A copy that is safe to merge into or reset
+   */
+  getMessageLatency(kind: 'publish' | 'subscription'): LatencyHistogram {
+    const histogram = kind === 'publish' ? this.publishLatency : this.subscriptionLatency;
+    return LatencyHistogram.fromJSON(histogram.toJSON());
   }
 
   /**
    * Returns comprehensive performance metrics including latency statistics and broker data.
    * Provides detailed statistical analysis including percentiles for performance insights.
    *
-   * @returns Object containing latency stats (avg, min, max, p95, p99) and broker metrics
+   * @returns Object containing latency stats (avg, min, max, count, p50, p95, p99, p999)
+   *   and broker metrics
    *
    * @example
    * ```typescript
@@ -131,16 +432,9 @@ export class UniversalPerformanceMonitor {
       brokers: Object.fromEntries(this.brokerMetrics),
     };
 
-    for (const [operation, samples] of this.metrics) {
-      if (samples.length > 0) {
-        result.latency[operation] = {
-          avg: samples.reduce((sum, val) => sum + val, 0) / samples.length,
-          min: Math.min(...samples),
-          max: Math.max(...samples),
-          count: samples.length,
-          p95: this.getPercentile(samples, 95),
-          p99: this.getPercentile(samples, 99),
-        };
+    for (const [operation, histogram] of this.metrics) {
+      if (histogram.count > 0) {
+        result.latency[operation] = summarize(histogram);
       }
     }
 
@@ -148,16 +442,78 @@ export class UniversalPerformanceMonitor {
   }
 
   /**
-   * Calculates the specified percentile value from an array of numbers.
+   * Summarizes the recorded messages: publish and handling latencies in
+   * milliseconds, throughput and errors over the last 1, 5 and 15 minutes, and
+   * broker connections.
    *
-   * @param arr - Array of numeric values
-   * @param percentile - Percentile to calculate (0-100)
-   * @returns The percentile value
-   * @private
+   * @example
+   * ```typescript
+   * const { latency, throughput, errors } = monitor.getPerformanceMetrics();
+   * console.log(`p99 ${latency.p99}ms, ${throughput.windows['5m'].receivedPerSecond} msg/s in`);
+   * console.log(`${errors.rate * 100}% failed in the last minute`);
+   * ```
    */
-  private getPercentile(arr: number[], percentile: number): number {
-    const sorted = [...arr].sort((a, b) => a - b);
-    const index = Math.ceil((sorted.length * percentile) / 100) - 1;
-    return sorted[index] || 0;
+  getPerformanceMetrics(): PerformanceMetrics {
+    const combined = new LatencyHistogram(this.latencyOptions);
+    combined.merge(this.publishLatency);
+    combined.merge(this.subscriptionLatency);
+
+    const byType = {} as Record<ErrorType, number>;
+    for (const type of Object.values(ErrorType)) {
+      byType[type] = this.failed.sum(labels => labels.error_type === type);
+    }
+
+    const throughput = {} as Record<RateWindow, ThroughputRates>;
+    const errors = {} as Record<RateWindow, ErrorRates>;
+    for (const [window, length] of Object.entries(RATE_WINDOWS) as Array<[RateWindow, number]>) {
+      throughput[window] = {
+        publishedPerSecond: this.publishRate.rate(length),
+        receivedPerSecond: this.receiveRate.rate(length),
+        publishedBytesPerSecond: this.publishedByteRate.rate(length),
+        receivedBytesPerSecond: this.receivedByteRate.rate(length),
+      };
+      const attempts = this.attemptRate.sum(length);
+      errors[window] = {
+        errorsPerSecond: this.errorRate.rate(length),
+        rate: attempts > 0 ? this.errorRate.sum(length) / attempts : 0,
+      };
+    }
+
+    return {
+      latency: {
+        ...summarize(combined),
+        publish: summarize(this.publishLatency),
+        subscription: summarize(this.subscriptionLatency),
+      },
+      throughput: { ...throughput['1m'], windows: throughput },
+      errors: {
+        ...errors['1m'],
+        total: this.failed.sum(),
+        byType,
+        windows: errors,
+      },
+      connections: {
+        active: this.connected.sum(),
+        total: this.connections.sum(),
+      },
+    };
   }
 }
+
+function summarize(histogram: LatencyHistogram): LatencySummary {
+  const [p50, p95, p99, p999] = histogram.quantiles(QUANTILES);
+  return {
+    count: histogram.count,
+    avg: histogram.mean,
+    min: histogram.min,
+    max: histogram.max,
+    p50: p50!,
+    p95: p95!,
+    p99: p99!,
+    p999: p999!,
+  };
+}
+
+function errorType(error: unknown, fallback: ErrorType): ErrorType {
+  return error instanceof BrokerError ? error.type : fallback;
+}
@@ -0,0 +1,183 @@
+import { IMessage } from '@/types';
+import { Clock, SystemClock } from '../utils/clock';
+import { UniversalMessageQueue } from './message.queue';
+
+/**
+ * Publishes a batch of messages for one topic, in order.
+ *
+ * @returns The number of leading messages that were published; the rest are
+ *   put back in the queue and retried later
+ */
+export type BatchPublisher = (topic: string, messages: IMessage[]) => Promise<number>;
+
+/**
+ * Options for the queue dispatcher
+ */
+export interface QueueDispatcherOptions {
+  /** Maximum messages handed to the publisher at once, and the size that triggers an early flush (default 100) */
+  readonly batchSize?: number;
+  /** Time to wait for a batch to fill before flushing, in milliseconds (default 0) */
+  readonly flushInterval?: number;
+  /** Delay before retrying topics whose publish failed or that are blocked, in milliseconds (default 1000) */
+  readonly retryDelay?: number;
+  /** Whether a topic may currently be flushed, e.g. its circuit breaker is closed */
+  readonly isAvailable?: (topic: string) => boolean;
+  /** Time source for the flush timers (default system time) */
+  readonly clock?: Clock;
+}
+
+/**
+ * Drains the outbound message queue to the broker.
+ *
+ * The dispatcher sleeps until `notify` is called after an enqueue. It then waits
+ * up to `flushInterval` for a batch to fill, or flushes at once when `batchSize`
+ * messages are pending, and drains every topic in batches until the queue is
+ * empty. Topics are flushed concurrently, messages within a topic in order.
+ * No timer runs while the queue is empty, except a retry for messages that
+ * could not be published.
+ *
+ * @example
+ * ```typescript
+ * const dispatcher = new UniversalQueueDispatcher(queue, async (topic, messages) => {
+ *   await producer.send({ topic, messages });
+ *   return messages.length;
+ * }, { batchSize: 500, flushInterval: 5 });
+ *
+ * dispatcher.start();
+ * await queue.enqueue('orders', message);
+ * dispatcher.notify();
+ * ```
+ */
+export class UniversalQueueDispatcher {
+  private readonly batchSize: number;
+  private readonly flushInterval: number;
+  private readonly retryDelay: number;
+  private readonly clock: Clock;
+  private running = false;
+  private timer?: unknown;
+  private timerDue = 0;
+  private flushing?: Promise<void>;
+  private notified = false;
+
+  constructor(
+    private readonly queue: UniversalMessageQueue,
+    private readonly publisher: BatchPublisher,
+    private readonly options: QueueDispatcherOptions = {}
+  ) {
+    this.batchSize = Math.max(1, options.batchSize ?? 100);
+    this.flushInterval = Math.max(0, options.flushInterval ?? 0);
+    this.retryDelay = Math.max(0, options.retryDelay ?? 1000);
+    this.clock = options.clock || new SystemClock();
+  }
+
+  /**
+   * Starts dispatching, flushing anything already queued.
+   */
+  start(): void {
+    this.running = true;
+    this.notify();
+  }
+
+  /**
+   * Stops dispatching. Waits for a flush in progress; queued messages stay queued.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.cancelTimer();
+    await this.flushing;
+  }
+
+  /**
+   * Signals that messages were enqueued.
+   */
+  notify(): void {
+    if (!this.running) return;
+    if (this.flushing) {
+      this.notified = true;
+      return;
+    }
+    if (this.queue.getTotalSize() === 0) return;
+
+    this.schedule(this.queue.getTotalSize() >= this.batchSize ? 0 : this.flushInterval);
+  }
+
+  private schedule(delay: number): void {
+    const due = this.clock.now() + delay;
+    if (this.timer !== undefined) {
+      if (this.timerDue <= due) return;
+      this.cancelTimer();
+    }
+
+    this.timerDue = due;
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = undefined;
+      this.run().catch(error => console.error('Failed to flush message queue:', error));
+    }, delay);
+  }
+
+  private cancelTimer(): void {
+    if (this.timer !== undefined) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private run(): Promise<void> {
+    if (!this.flushing) {
+      this.notified = false;
+      this.flushing = this.drain().finally(() => {
+        this.flushing = undefined;
+        this.afterDrain();
+      });
+    }
+    return this.flushing;
+  }
+
+  private afterDrain(): void {
+    if (!this.running || this.queue.getTotalSize() === 0) return;
+
+    if (this.notified) {
+      // New topics arrived while draining
+      this.notify();
+    } else {
+      // Whatever is left could not be published
+      this.schedule(this.retryDelay);
+    }
+  }
+
+  private async drain(): Promise<void> {
+    const topics = this.queue
+      .getTopics()
+      .filter(topic => this.options.isAvailable?.(topic) !== false);
+
+    await Promise.all(topics.map(topic => this.drainTopic(topic)));
+  }
+
+  private async drainTopic(topic: string): Promise<void> {
+    while (this.running) {
+      const batch = this.queue.dequeueBatch(topic, this.batchSize);
+      if (batch.length === 0) return;
+
+      let published = 0;
+      try {
+        published = await this.publisher(topic, batch);
+      } catch (error) {
+        console.error(`Failed to publish messages for topic ${topic}:`, error);
+      }
+
+      for (const message of batch.slice(0, published)) {
+        try {
+          await this.queue.acknowledge(topic, message);
+        } catch (error) {
+          // The message is out; at worst it is published again after a restart
+          console.error(`Failed to acknowledge message ${message.id} for topic ${topic}:`, error);
+        }
+      }
+
+      if (published < batch.length) {
+        this.queue.requeue(topic, ...batch.slice(published));
+        return;
+      }
+    }
+  }
+}
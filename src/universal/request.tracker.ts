@@ -0,0 +1,131 @@
+import { BrokerError, BrokerType, ErrorType, IMessage } from '@/types';
+
+/**
+ * Header carrying the identifier that ties a reply to its request
+ */
+export const CORRELATION_ID_HEADER = 'correlation-id';
+
+/**
+ * Header carrying the topic/subject a reply must be published to
+ */
+export const REPLY_TO_HEADER = 'reply-to';
+
+/**
+ * Header set on replies whose handler failed, carrying the error message
+ */
+export const REPLY_ERROR_HEADER = 'reply-error';
+
+/**
+ * Tracks in-flight requests awaiting a reply and enforces their timeouts.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new UniversalRequestTracker();
+ *
+ * const reply = tracker.track('corr_1', 5000, 'redis');
+ * // ...later, when a message arrives on the reply inbox
+ * tracker.resolve(incomingMessage);
+ *
+ * const message = await reply;
+ * ```
+ */
+export class UniversalRequestTracker {
+  /**
+   * Map of correlation IDs to their pending request state
+   * @private
+   */
+  private pending = new Map<
+    string,
+    {
+      resolve: (message: IMessage) => void;
+      reject: (error: Error) => void;
+      timer: NodeJS.Timeout;
+    }
+  >();
+
+  /**
+   * Starts tracking a request. The returned promise resolves with the reply or
+   * rejects with a `TIMEOUT_ERROR` once the timeout elapses.
+   *
+   * @param correlationId - Identifier the reply will carry
+   * @param timeout - Milliseconds to wait for the reply
+   * @param brokerType - Broker type reported on errors
+   * @returns Promise resolving to the reply message
+   */
+  track(correlationId: string, timeout: number, brokerType: BrokerType): Promise<IMessage> {
+    return new Promise<IMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(correlationId);
+        reject(
+          new BrokerError(
+            `Request ${correlationId} timed out after ${timeout}ms`,
+            ErrorType.TIMEOUT_ERROR,
+            brokerType
+          )
+        );
+      }, timeout);
+
+      this.pending.set(correlationId, { resolve, reject, timer });
+    });
+  }
+
+  /**
+   * Completes the request a reply belongs to. Replies flagged with an error
+   * header reject the request with a `REQUEST_ERROR`.
+   *
+   * @param reply - The reply message received on the inbox
+   * @param brokerType - Broker type reported on errors
+   * @returns True if a pending request was found for the reply
+   */
+  resolve(reply: IMessage, brokerType: BrokerType): boolean {
+    const correlationId = reply.headers?.[CORRELATION_ID_HEADER];
+    if (!correlationId) return false;
+
+    const entry = this.pending.get(correlationId);
+    if (!entry) return false;
+
+    clearTimeout(entry.timer);
+    this.pending.delete(correlationId);
+
+    const remoteError = reply.headers?.[REPLY_ERROR_HEADER];
+    if (remoteError !== undefined) {
+      entry.reject(new BrokerError(remoteError, ErrorType.REQUEST_ERROR, brokerType));
+    } else {
+      entry.resolve(reply);
+    }
+    return true;
+  }
+
+  /**
+   * Stops tracking a request without settling it.
+   *
+   * @param correlationId - The request to forget
+   */
+  cancel(correlationId: string): void {
+    const entry = this.pending.get(correlationId);
+    if (entry) {
+      clearTimeout(entry.timer);
+      this.pending.delete(correlationId);
+    }
+  }
+
+  /**
+   * Rejects every pending request, e.g. when the connection is closed.
+   *
+   * @param error - The error to reject with
+   */
+  rejectAll(error: Error): void {
+    for (const entry of this.pending.values()) {
+      clearTimeout(entry.timer);
+      entry.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Returns the number of requests still awaiting a reply.
+   */
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+}
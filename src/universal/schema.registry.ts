@@ -0,0 +1,186 @@
+import { isDeepStrictEqual } from 'util';
+import { IMessage, JsonSchema, SchemaViolation } from '@/types';
+import { checkJsonSchema, findIncompatibilities, validateJsonSchema } from '../utils/json.schema';
+
+/**
+ * Header carrying the version of the schema a message was produced with
+ */
+export const SCHEMA_VERSION_HEADER = 'schema-version';
+
+/**
+ * How a new schema version must relate to the previous one:
+ *
+ * - `backward`: consumers using the new version can read messages produced with the previous one
+ * - `forward`: consumers still using the previous version can read messages produced with the new one
+ * - `full`: both
+ * - `none`: no check
+ */
+export type SchemaCompatibility = 'backward' | 'forward' | 'full' | 'none';
+
+/**
+ * Options for the schema registry
+ */
+export interface SchemaRegistryOptions {
+  /** Compatibility required of new schema versions (default 'backward') */
+  readonly compatibility?: SchemaCompatibility;
+}
+
+/**
+ * Local registry of versioned JSON Schemas for message payloads, keyed by
+ * message type.
+ *
+ * Versions are numbered from 1. Registering a schema checks it against the
+ * latest version with the configured compatibility and rejects it with the
+ * incompatible changes; registering the latest schema again is a no-op, so
+ * services can register their schemas on every start.
+ *
+ * Messages are validated against the version in their `schema-version`
+ * header, or against the latest version if they have none.
+ *
+ * @example
+ * ```typescript
+ * const schemas = new SchemaRegistry({ compatibility: 'backward' });
+ * schemas.register('orders.created', {
+ *   type: 'object',
+ *   required: ['orderId', 'total'],
+ *   properties: { orderId: { type: 'string' }, total: { type: 'number', minimum: 0 } },
+ * });
+ *
+ * schemas.validate(message); // [{ path: 'payload.total', message: 'must be >= 0' }]
+ * ```
+ */
+export class SchemaRegistry {
+  private readonly schemas = new Map<string, JsonSchema[]>();
+  private readonly compatibility: SchemaCompatibility;
+
+  constructor(options: SchemaRegistryOptions = {}) {
+    this.compatibility = options.compatibility ?? 'backward';
+  }
+
+  /**
+   * Registers a new schema version for a message type.
+   *
+   * @param messageType - The message type
+   * @param schema - The JSON Schema of the payload
+   * @param compatibility - Overrides the registry's compatibility for this version
+   * @returns The version of the schema
+   * @throws {Error} If the schema is malformed or incompatible with the latest version
+   */
+  register(
+    messageType: string,
+    schema: JsonSchema,
+    compatibility: SchemaCompatibility = this.compatibility
+  ): number {
+    try {
+      checkJsonSchema(schema);
+    } catch (error) {
+      throw new Error(`Invalid schema for ${messageType}: ${(error as Error).message}`);
+    }
+
+    const versions = this.schemas.get(messageType) ?? [];
+    if (versions.length > 0) {
+      if (isDeepStrictEqual(versions[versions.length - 1], schema)) return versions.length;
+
+      const problems = this.checkCompatibility(messageType, schema, compatibility);
+      if (problems.length > 0) {
+        throw new Error(
+          `Schema v${versions.length + 1} of ${messageType} is not ${compatibility} compatible with v${versions.length}: ${problems.join('; ')}`
+        );
+      }
+    }
+
+    versions.push(schema);
+    this.schemas.set(messageType, versions);
+    return versions.length;
+  }
+
+  /**
+   * Lists the changes that make a schema incompatible with the latest version
+   * of a message type.
+   *
+   * @param messageType - The message type
+   * @param schema - The candidate schema
+   * @param compatibility - The compatibility to check (default the registry's)
+   * @returns Descriptions of the incompatible changes, empty if compatible
+   */
+  checkCompatibility(
+    messageType: string,
+    schema: JsonSchema,
+    compatibility: SchemaCompatibility = this.compatibility
+  ): string[] {
+    const versions = this.schemas.get(messageType);
+    const latest = versions?.[versions.length - 1];
+    if (latest === undefined || compatibility === 'none') return [];
+
+    const problems: string[] = [];
+    if (compatibility === 'backward' || compatibility === 'full') {
+      problems.push(...findIncompatibilities(latest, schema));
+    }
+    if (compatibility === 'forward' || compatibility === 'full') {
+      problems.push(...findIncompatibilities(schema, latest));
+    }
+    return [...new Set(problems)];
+  }
+
+  /**
+   * Returns a schema of a message type.
+   *
+   * @param messageType - The message type
+   * @param version - The version (default the latest)
+   */
+  get(messageType: string, version?: number): JsonSchema | undefined {
+    const versions = this.schemas.get(messageType);
+    if (!versions) return undefined;
+    return versions[(version ?? versions.length) - 1];
+  }
+
+  /**
+   * Returns the latest version of a message type, if it has a schema.
+   */
+  getLatestVersion(messageType: string): number | undefined {
+    return this.schemas.get(messageType)?.length;
+  }
+
+  /**
+   * Returns the registered versions of a message type, oldest first.
+   */
+  getVersions(messageType: string): number[] {
+    return (this.schemas.get(messageType) ?? []).map((_schema, index) => index + 1);
+  }
+
+  /**
+   * Tells whether a message type has a schema.
+   */
+  has(messageType: string): boolean {
+    return this.schemas.has(messageType);
+  }
+
+  /**
+   * Validates a message's payload against the schema version named in its
+   * `schema-version` header, or the latest version. Messages of types without
+   * a schema are valid.
+   *
+   * @param message - The message
+   * @returns The violations, empty if the payload is valid
+   */
+  validate(message: IMessage): SchemaViolation[] {
+    const versions = this.schemas.get(message.type);
+    if (!versions) return [];
+
+    const header = message.headers?.[SCHEMA_VERSION_HEADER];
+    if (header === undefined)
+      return validateJsonSchema(versions[versions.length - 1]!, message.payload);
+
+    const version = Number(header);
+    const schema = Number.isInteger(version) && version > 0 ? versions[version - 1] : undefined;
+    if (schema === undefined) {
+      return [
+        {
+          path: `headers[${JSON.stringify(SCHEMA_VERSION_HEADER)}]`,
+          message: `names unknown version ${header}`,
+        },
+      ];
+    }
+    return validateJsonSchema(schema, message.payload);
+  }
+}
@@ -1,8 +1,12 @@
-import { ISubscription, IMessage } from '@/types';
+import { ISubscription, IMessage, MessageFilters } from '@/types';
+import { compileFilter, MessageFilter } from '../utils/message.filter';
+import { isTopicPattern, matchesTopicPattern } from '../utils/topic.pattern';
 
 /**
  * Manages message subscriptions with filtering capabilities.
  * Handles subscription lifecycle and message filtering for topic-based messaging.
+ * Subscriptions may use topic patterns such as `orders.*` and `orders.>`; the
+ * concrete topics they receive messages from are tracked.
  *
  * @example
  * ```typescript
@@ -32,6 +36,18 @@ export class UniversalSubscriptionManager {
    */
   private topicSubscribers = new Map<string, Set<string>>();
 
+  /**
+   * Map of pattern subscription IDs to the concrete topics they received messages from
+   * @private
+   */
+  private matchedTopics = new Map<string, Set<string>>();
+
+  /**
+   * Compiled form of the filter objects matched so far
+   * @private
+   */
+  private compiledFilters = new WeakMap<MessageFilters, MessageFilter>();
+
   /**
    * Registers a new subscription for a topic.
    * Creates topic entries if they don't exist and tracks subscriber relationships.
@@ -59,6 +75,9 @@ export class UniversalSubscriptionManager {
 
     this.subscriptions.get(topic)!.set(id, subscription);
     this.topicSubscribers.get(topic)!.add(id);
+    if (isTopicPattern(topic)) {
+      this.matchedTopics.set(id, new Set());
+    }
 
     return id;
   }
@@ -85,6 +104,7 @@ export class UniversalSubscriptionManager {
 
     const removed = topicSubs.delete(subscriptionId);
     this.topicSubscribers.get(topic)?.delete(subscriptionId);
+    this.matchedTopics.delete(subscriptionId);
 
     if (topicSubs.size === 0) {
       this.subscriptions.delete(topic);
@@ -111,6 +131,50 @@ export class UniversalSubscriptionManager {
     return subs ? Array.from(subs.values()) : [];
   }
 
+  /**
+   * Retrieves the subscriptions receiving messages published to a concrete
+   * topic: those for the topic itself and those whose pattern matches it.
+   *
+   * @param topic - The concrete topic
+   * @returns Array of matching subscriptions
+   *
+   * @example
+   * ```typescript
+   * manager.subscribe({ id: 'audit', topic: 'orders.>', callback: audit });
+   * manager.getMatchingSubscriptions('orders.eu.created'); // [audit subscription]
+   * ```
+   */
+  getMatchingSubscriptions(topic: string): ISubscription[] {
+    const matching = this.getSubscriptions(topic);
+    for (const [pattern, subs] of this.subscriptions) {
+      if (pattern !== topic && isTopicPattern(pattern) && matchesTopicPattern(pattern, topic)) {
+        matching.push(...subs.values());
+      }
+    }
+    return matching;
+  }
+
+  /**
+   * Records the concrete topic a pattern subscription received a message from.
+   * Literal subscriptions are ignored.
+   *
+   * @param subscriptionId - The subscription that received the message
+   * @param topic - The topic the message arrived on
+   */
+  recordTopic(subscriptionId: string, topic: string): void {
+    this.matchedTopics.get(subscriptionId)?.add(topic);
+  }
+
+  /**
+   * Returns the concrete topics a pattern subscription received messages from.
+   *
+   * @param subscriptionId - The pattern subscription ID
+   * @returns The topics in the order first seen; empty for literal subscriptions
+   */
+  getMatchedTopics(subscriptionId: string): string[] {
+    return Array.from(this.matchedTopics.get(subscriptionId) || []);
+  }
+
   /**
    * Returns all topics that have active subscriptions.
    *
@@ -129,12 +193,13 @@ export class UniversalSubscriptionManager {
   }
 
   /**
-   * Checks if a message matches the provided filters.
-   * Supports exact matching and wildcard patterns using '*'.
+   * Checks if a message matches the provided filters, compiling them on first
+   * use. See {@link compileFilter} for the filter language.
    *
    * @param message - The message to test against filters
    * @param filters - Optional filter criteria to match against
    * @returns True if message matches all filters (or no filters provided)
+   * @throws {Error} If the filters are invalid
    *
    * @example
    * ```typescript
@@ -144,27 +209,24 @@ export class UniversalSubscriptionManager {
    *   metadata: { source: 'mobile-app' }
    * };
    *
-   * // Exact match
+   * // Exact match, looked up in the payload then the metadata
    * const matches1 = manager.matchesFilters(message, { region: 'us-east' });
    *
    * // Wildcard match
    * const matches2 = manager.matchesFilters(message, { source: 'mobile-*' });
+   *
+   * // Operators on nested paths
+   * const matches3 = manager.matchesFilters(message, { 'payload.userId': { $gt: 100 } });
    * ```
    */
-  matchesFilters(message: IMessage, filters?: Record<string, any>): boolean {
+  matchesFilters(message: IMessage, filters?: MessageFilters): boolean {
     if (!filters) return true;
 
-    return Object.entries(filters).every(([key, value]) => {
-      const msgValue =
-        (message.payload as Record<string, unknown>)?.[key] ||
-        (message.metadata as Record<string, unknown>)?.[key];
-
-      if (typeof value === 'string' && value.includes('*')) {
-        const regex = new RegExp(value.replace(/\*/g, '.*'));
-        return regex.test(String(msgValue));
-      }
-
-      return msgValue === value;
-    });
+    let filter = this.compiledFilters.get(filters);
+    if (!filter) {
+      filter = compileFilter(filters);
+      this.compiledFilters.set(filters, filter);
+    }
+    return filter(message);
   }
 }
@@ -1,22 +1,69 @@
-export class CircuitBreaker {
-  private failures = 0;
-  private lastFailureTime = 0;
-  private state: 'closed' | 'open' | 'half-open' = 'closed';
+import { EventEmitter } from 'events';
+import {
+  BrokerError,
+  BrokerType,
+  CircuitBreakerConfig,
+  CircuitBreakerState,
+  CircuitBreakerStateChange,
+  ErrorType,
+} from '@/types';
+import { Clock, SystemClock } from './clock';
+
+const DEFAULT_CONFIG: Required<Omit<CircuitBreakerConfig, 'scope'>> = {
+  failureThreshold: 5,
+  recoveryTimeout: 30000,
+  monitoringPeriod: 60000,
+  halfOpenMaxCalls: 1,
+};
+
+/**
+ * Circuit breaker guarding calls to a broker.
+ *
+ * The breaker opens once `failureThreshold` failures occur within `monitoringPeriod`
+ * and rejects calls with a `CIRCUIT_BREAKER_ERROR` until `recoveryTimeout` has passed.
+ * It then lets up to `halfOpenMaxCalls` trial calls through: if they all succeed the
+ * breaker closes, a single failure opens it again.
+ *
+ * Emits `stateChange` with a {@link CircuitBreakerStateChange} on every transition.
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker('redis', { failureThreshold: 3, recoveryTimeout: 10000 });
+ * breaker.on('stateChange', change => console.warn(`${change.name}: ${change.from} -> ${change.to}`));
+ *
+ * await breaker.execute(() => client.publish('orders', data));
+ * ```
+ */
+export class CircuitBreaker extends EventEmitter {
+  private state = CircuitBreakerState.CLOSED;
+  private failures: number[] = [];
+  private openedAt = 0;
+  private halfOpenCalls = 0;
+  private halfOpenSuccesses = 0;
+  private readonly config: Required<Omit<CircuitBreakerConfig, 'scope'>>;
+  private readonly name: string;
+  private readonly clock: Clock;
 
   constructor(
-    private threshold: number = 5,
-    private timeout: number = 60000,
-    private resetTimeout: number = 30000
-  ) {}
+    private readonly brokerType: BrokerType,
+    config: Partial<CircuitBreakerConfig> = {},
+    options: { name?: string; clock?: Clock } = {}
+  ) {
+    super();
+    this.config = { ...DEFAULT_CONFIG, ...config } as Required<Omit<CircuitBreakerConfig, 'scope'>>;
+    this.name = options.name || brokerType;
+    this.clock = options.clock || new SystemClock();
+  }
 
+  /**
+   * Runs an operation through the breaker.
+   *
+   * @param operation - The broker call to guard
+   * @returns The operation's result
+   * @throws {BrokerError} `CIRCUIT_BREAKER_ERROR` if the breaker rejects the call
+   */
   async execute<T>(operation: () => Promise<T>): Promise<T> {
-    if (this.state === 'open') {
-      if (Date.now() - this.lastFailureTime > this.resetTimeout) {
-        this.state = 'half-open';
-      } else {
-        throw new Error('Circuit breaker is open');
-      }
-    }
+    this.acquire();
 
     try {
       const result = await operation();
@@ -28,21 +75,107 @@ export class CircuitBreaker {
     }
   }
 
+  /**
+   * Checks whether a call would currently be let through, without reserving it.
+   *
+   * @returns True if `execute` would run the operation
+   */
+  isAvailable(): boolean {
+    switch (this.state) {
+      case CircuitBreakerState.OPEN:
+        return this.clock.now() - this.openedAt >= this.config.recoveryTimeout;
+      case CircuitBreakerState.HALF_OPEN:
+        return this.halfOpenCalls < this.config.halfOpenMaxCalls;
+      default:
+        return true;
+    }
+  }
+
+  getState(): CircuitBreakerState {
+    return this.state;
+  }
+
+  /**
+   * Forces the breaker back to the closed state and clears recorded failures.
+   */
+  reset(): void {
+    this.failures = [];
+    this.transition(CircuitBreakerState.CLOSED);
+  }
+
+  private acquire(): void {
+    if (
+      this.state === CircuitBreakerState.OPEN &&
+      this.clock.now() - this.openedAt >= this.config.recoveryTimeout
+    ) {
+      this.transition(CircuitBreakerState.HALF_OPEN);
+    }
+
+    if (
+      this.state === CircuitBreakerState.OPEN ||
+      (this.state === CircuitBreakerState.HALF_OPEN &&
+        this.halfOpenCalls >= this.config.halfOpenMaxCalls)
+    ) {
+      throw new BrokerError(
+        `Circuit breaker '${this.name}' is ${this.state}`,
+        ErrorType.CIRCUIT_BREAKER_ERROR,
+        this.brokerType
+      );
+    }
+
+    if (this.state === CircuitBreakerState.HALF_OPEN) {
+      this.halfOpenCalls++;
+    }
+  }
+
   private onSuccess(): void {
-    this.failures = 0;
-    this.state = 'closed';
+    if (this.state !== CircuitBreakerState.HALF_OPEN) return;
+
+    this.halfOpenSuccesses++;
+    if (this.halfOpenSuccesses >= this.config.halfOpenMaxCalls) {
+      this.failures = [];
+      this.transition(CircuitBreakerState.CLOSED);
+    }
   }
 
   private onFailure(): void {
-    this.failures++;
-    this.lastFailureTime = Date.now();
+    const now = this.clock.now();
 
-    if (this.failures >= this.threshold) {
-      this.state = 'open';
+    if (this.state === CircuitBreakerState.HALF_OPEN) {
+      this.open(now);
+      return;
+    }
+
+    this.failures.push(now);
+    this.failures = this.failures.filter(time => now - time < this.config.monitoringPeriod);
+
+    if (
+      this.state === CircuitBreakerState.CLOSED &&
+      this.failures.length >= this.config.failureThreshold
+    ) {
+      this.open(now);
     }
   }
 
-  getState(): string {
-    return this.state;
+  private open(now: number): void {
+    this.openedAt = now;
+    this.failures = [];
+    this.transition(CircuitBreakerState.OPEN);
+  }
+
+  private transition(to: CircuitBreakerState): void {
+    const from = this.state;
+    this.halfOpenCalls = 0;
+    this.halfOpenSuccesses = 0;
+    if (from === to) return;
+
+    this.state = to;
+    const change: CircuitBreakerStateChange = {
+      name: this.name,
+      from,
+      to,
+      timestamp: this.clock.now(),
+    };
+    this.emit('stateChange', change);
   }
 }
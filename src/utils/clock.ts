@@ -0,0 +1,104 @@
+/**
+ * Time source abstraction so time-dependent components can run against a
+ * controllable clock in tests.
+ */
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Clock backed by the real system time and Node.js timers.
+ */
+export class SystemClock implements Clock {
+  now(): number {
+    return Date.now();
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    return setTimeout(callback, ms);
+  }
+
+  clearTimeout(handle: unknown): void {
+    clearTimeout(handle as NodeJS.Timeout);
+  }
+}
+
+/**
+ * Manually driven clock. Time only moves when `advance` or `set` is called,
+ * at which point every timer that has become due runs in order.
+ *
+ * @example
+ * ```typescript
+ * const clock = new FakeClock(0);
+ * clock.setTimeout(() => console.log('fired'), 1000);
+ *
+ * clock.advance(999); // nothing happens
+ * clock.advance(1);   // logs 'fired'
+ * ```
+ */
+export class FakeClock implements Clock {
+  private current: number;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+  private nextTimerId = 1;
+
+  constructor(start: number = 0) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const id = this.nextTimerId++;
+    this.timers.set(id, { at: this.current + Math.max(0, ms), callback });
+    return id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  /**
+   * Moves the clock forward and fires every timer that falls due.
+   *
+   * @param ms - Milliseconds to advance by
+   */
+  advance(ms: number): void {
+    this.set(this.current + ms);
+  }
+
+  /**
+   * Moves the clock to an absolute time and fires every timer that falls due.
+   *
+   * @param time - The new current time
+   */
+  set(time: number): void {
+    for (;;) {
+      let dueId: number | undefined;
+      let dueAt = Infinity;
+      for (const [id, timer] of this.timers) {
+        if (timer.at <= time && timer.at < dueAt) {
+          dueId = id;
+          dueAt = timer.at;
+        }
+      }
+      if (dueId === undefined) break;
+
+      const timer = this.timers.get(dueId)!;
+      this.timers.delete(dueId);
+      this.current = Math.max(this.current, timer.at);
+      timer.callback();
+    }
+    this.current = Math.max(this.current, time);
+  }
+
+  /**
+   * Returns the number of timers waiting to fire.
+   */
+  getPendingTimers(): number {
+    return this.timers.size;
+  }
+}
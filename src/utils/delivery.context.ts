@@ -0,0 +1,81 @@
+import { MessageContext, NackOptions } from '@/types';
+
+/**
+ * Native operations an adapter settles a delivered message with. Operations a
+ * broker has no equivalent for are left out and become no-ops.
+ */
+export interface DeliverySettlement {
+  ack?(): Promise<void>;
+  nack?(options: NackOptions): Promise<void>;
+  deadLetter?(reason: string): Promise<void>;
+}
+
+/**
+ * Where a delivered message was consumed from, for committing its offset
+ * within a transaction
+ */
+export interface DeliverySource {
+  readonly consumerGroup: string;
+  readonly topic: string;
+  readonly partition: number;
+  readonly offset: string;
+}
+
+/**
+ * Message context that forwards the first settlement to the adapter's native
+ * mechanism and ignores later ones.
+ *
+ * @example
+ * ```typescript
+ * const context = new DeliveryContext({
+ *   ack: () => consumer.commitOffsets([{ topic, partition, offset: next }]),
+ * });
+ * await callback(message, context);
+ * await context.complete(autoAck);
+ * ```
+ */
+export class DeliveryContext implements MessageContext {
+  private settledWith?: 'ack' | 'nack' | 'deadLetter';
+
+  constructor(
+    private readonly settlement: DeliverySettlement = {},
+    readonly source?: DeliverySource,
+    readonly topic: string | undefined = source?.topic
+  ) {}
+
+  /**
+   * Whether the message was already acked, nacked or dead-lettered
+   */
+  get settled(): boolean {
+    return this.settledWith !== undefined;
+  }
+
+  async ack(): Promise<void> {
+    if (this.settle('ack')) await this.settlement.ack?.();
+  }
+
+  async nack(options: NackOptions = {}): Promise<void> {
+    if (this.settle('nack')) await this.settlement.nack?.(options);
+  }
+
+  async deadLetter(reason: string): Promise<void> {
+    if (this.settle('deadLetter')) await this.settlement.deadLetter?.(reason);
+  }
+
+  /**
+   * Settles the message per `autoAck` after its callback ran, unless the
+   * callback settled it itself.
+   *
+   * @param failed - Whether the callback threw; failed messages are nacked
+   */
+  async complete(autoAck: boolean, failed = false): Promise<void> {
+    if (!autoAck || this.settled) return;
+    await (failed ? this.nack() : this.ack());
+  }
+
+  private settle(outcome: 'ack' | 'nack' | 'deadLetter'): boolean {
+    if (this.settledWith) return false;
+    this.settledWith = outcome;
+    return true;
+  }
+}
@@ -0,0 +1,574 @@
+import { isDeepStrictEqual } from 'util';
+import { JsonSchema, JsonSchemaObject, JsonSchemaType, SchemaViolation } from '@/types';
+
+const TYPES = new Set<JsonSchemaType>([
+  'null',
+  'boolean',
+  'object',
+  'array',
+  'number',
+  'integer',
+  'string',
+]);
+
+const FORMATS: Readonly<Record<string, RegExp>> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  uri: /^[A-Za-z][A-Za-z0-9+.-]*:\S*$/,
+};
+
+const LOWER_BOUNDS = [
+  'minimum',
+  'exclusiveMinimum',
+  'minLength',
+  'minItems',
+  'minProperties',
+] as const;
+const UPPER_BOUNDS = [
+  'maximum',
+  'exclusiveMaximum',
+  'maxLength',
+  'maxItems',
+  'maxProperties',
+] as const;
+
+const patterns = new Map<string, RegExp>();
+
+/**
+ * Validates a value against a JSON Schema, collecting every violation rather
+ * than stopping at the first.
+ *
+ * Supports the draft 2020-12 keywords `type`, `enum`, `const`, `properties`,
+ * `required`, `additionalProperties`, `patternProperties`, `minProperties`,
+ * `maxProperties`, `items`, `prefixItems`, `minItems`, `maxItems`,
+ * `uniqueItems`, `minLength`, `maxLength`, `pattern`, `format` (`date-time`,
+ * `date`, `email`, `uuid` and `uri`), `minimum`, `maximum`,
+ * `exclusiveMinimum`, `exclusiveMaximum`, `multipleOf`, `allOf`, `anyOf`,
+ * `oneOf`, `not`, and `$ref` to `$defs` within the schema. Other keywords are
+ * ignored. Check the schema itself with {@link checkJsonSchema} first.
+ *
+ * @param schema - The schema
+ * @param value - The value to validate
+ * @param path - Path of the value, prefixed to violation paths (default 'payload')
+ * @returns The violations, empty if the value is valid
+ *
+ * @example
+ * ```typescript
+ * validateJsonSchema(
+ *   { type: 'object', required: ['sku'], properties: { quantity: { type: 'integer', minimum: 1 } } },
+ *   { quantity: 0 }
+ * );
+ * // [{ path: 'payload.sku', message: 'is required' }, { path: 'payload.quantity', message: 'must be >= 1' }]
+ * ```
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path = 'payload'
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  validate(schema, value, path, schema, violations);
+  return violations;
+}
+
+/**
+ * Checks that a schema is well formed: keywords have values of the right
+ * kind, patterns compile and references resolve.
+ *
+ * @param schema - The schema
+ * @throws {Error} For a malformed schema, naming the offending location
+ */
+export function checkJsonSchema(schema: JsonSchema): void {
+  check(schema, '#', schema);
+}
+
+/**
+ * Lists the ways a reader schema may reject values a writer schema accepts,
+ * so that an empty list means the reader can consume everything the writer
+ * produces. The comparison is structural and conservative: changed `allOf`,
+ * `anyOf`, `oneOf` or `not` subschemas are reported rather than analysed.
+ * Properties the writer does not declare are assumed absent, so adding an
+ * optional property is compatible both ways.
+ *
+ * @param writer - Schema of the produced values
+ * @param reader - Schema of the consumer
+ * @param path - Path of the compared value, prefixed to the reported locations (default 'payload')
+ * @returns Descriptions of the incompatible changes
+ *
+ * @example
+ * ```typescript
+ * findIncompatibilities(
+ *   { type: 'object', properties: { total: { type: 'number' } } },
+ *   { type: 'object', required: ['total'], properties: { total: { type: 'number' } } }
+ * );
+ * // ['payload.total became required']
+ * ```
+ */
+export function findIncompatibilities(
+  writer: JsonSchema,
+  reader: JsonSchema,
+  path = 'payload'
+): string[] {
+  const problems: string[] = [];
+  compare(writer, reader, path, { writer, reader, seen: new Map() }, problems);
+  return problems;
+}
+
+function validate(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  root: JsonSchema,
+  violations: SchemaViolation[]
+): void {
+  if (schema === true) return;
+  if (schema === false) {
+    violations.push({ path, message: 'is not allowed' });
+    return;
+  }
+
+  if (schema.$ref !== undefined) {
+    validate(resolveRef(root, schema.$ref), value, path, root, violations);
+  }
+
+  if (schema.type !== undefined) {
+    const types = toArray(schema.type);
+    if (!types.some(type => hasType(value, type))) {
+      // Remaining keywords would only repeat the type mismatch
+      violations.push({ path, message: `must be ${types.join(' or ')}` });
+      return;
+    }
+  }
+  if (schema.enum !== undefined && !schema.enum.some(option => isDeepStrictEqual(option, value))) {
+    violations.push({ path, message: `must be one of ${JSON.stringify(schema.enum)}` });
+  }
+  if ('const' in schema && !isDeepStrictEqual(schema.const, value)) {
+    violations.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === 'number') {
+    validateNumber(schema, value, path, violations);
+  } else if (typeof value === 'string') {
+    validateString(schema, value, path, violations);
+  } else if (Array.isArray(value)) {
+    validateArray(schema, value, path, root, violations);
+  } else if (isPlainObject(value)) {
+    validateObject(schema, value, path, root, violations);
+  }
+
+  schema.allOf?.forEach(subschema => validate(subschema, value, path, root, violations));
+  if (
+    schema.anyOf !== undefined &&
+    !schema.anyOf.some(subschema => matches(subschema, value, root))
+  ) {
+    violations.push({ path, message: 'must match at least one schema in anyOf' });
+  }
+  if (schema.oneOf !== undefined) {
+    const matched = schema.oneOf.filter(subschema => matches(subschema, value, root)).length;
+    if (matched !== 1) {
+      violations.push({
+        path,
+        message: `must match exactly one schema in oneOf, matched ${matched}`,
+      });
+    }
+  }
+  if (schema.not !== undefined && matches(schema.not, value, root)) {
+    violations.push({ path, message: 'must not match the schema in not' });
+  }
+}
+
+function validateNumber(
+  schema: JsonSchemaObject,
+  value: number,
+  path: string,
+  violations: SchemaViolation[]
+): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    violations.push({ path, message: `must be >= ${schema.minimum}` });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    violations.push({ path, message: `must be <= ${schema.maximum}` });
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    violations.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    violations.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+  }
+  if (schema.multipleOf !== undefined) {
+    const quotient = value / schema.multipleOf;
+    // Tolerates float error, e.g. 0.3 / 0.1
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      violations.push({ path, message: `must be a multiple of ${schema.multipleOf}` });
+    }
+  }
+}
+
+function validateString(
+  schema: JsonSchemaObject,
+  value: string,
+  path: string,
+  violations: SchemaViolation[]
+): void {
+  // Lengths count code points, not UTF-16 units
+  const length = [...value].length;
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    violations.push({ path, message: `must be at least ${schema.minLength} characters` });
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    violations.push({ path, message: `must be at most ${schema.maxLength} characters` });
+  }
+  if (schema.pattern !== undefined && !pattern(schema.pattern).test(value)) {
+    violations.push({ path, message: `must match pattern ${schema.pattern}` });
+  }
+  const format = schema.format !== undefined ? FORMATS[schema.format] : undefined;
+  if (format && !format.test(value)) {
+    violations.push({ path, message: `must be a valid ${schema.format}` });
+  }
+}
+
+function validateArray(
+  schema: JsonSchemaObject,
+  value: readonly unknown[],
+  path: string,
+  root: JsonSchema,
+  violations: SchemaViolation[]
+): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    violations.push({ path, message: `must have at least ${schema.minItems} items` });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    violations.push({ path, message: `must have at most ${schema.maxItems} items` });
+  }
+
+  const prefixItems = schema.prefixItems ?? [];
+  value.forEach((item, index) => {
+    const itemSchema = index < prefixItems.length ? prefixItems[index] : schema.items;
+    if (itemSchema !== undefined) {
+      validate(itemSchema, item, `${path}[${index}]`, root, violations);
+    }
+  });
+
+  if (schema.uniqueItems) {
+    for (let i = 0; i < value.length; i++) {
+      const duplicate = value.findIndex((item, j) => j > i && isDeepStrictEqual(item, value[i]));
+      if (duplicate !== -1) {
+        violations.push({
+          path,
+          message: `must not contain duplicates, items ${i} and ${duplicate} are equal`,
+        });
+        break;
+      }
+    }
+  }
+}
+
+function validateObject(
+  schema: JsonSchemaObject,
+  value: Record<string, unknown>,
+  path: string,
+  root: JsonSchema,
+  violations: SchemaViolation[]
+): void {
+  // Properties set to undefined are dropped by JSON encoding, so they count as absent
+  const keys = Object.keys(value).filter(key => value[key] !== undefined);
+
+  if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+    violations.push({ path, message: `must have at least ${schema.minProperties} properties` });
+  }
+  if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+    violations.push({ path, message: `must have at most ${schema.maxProperties} properties` });
+  }
+  schema.required?.forEach(key => {
+    if (value[key] === undefined) {
+      violations.push({ path: childPath(path, key), message: 'is required' });
+    }
+  });
+
+  for (const key of keys) {
+    const propertySchemas = propertySchemasOf(schema, key);
+    if (propertySchemas.length === 0 && schema.additionalProperties !== undefined) {
+      propertySchemas.push(schema.additionalProperties);
+    }
+    propertySchemas.forEach(propertySchema =>
+      validate(propertySchema, value[key], childPath(path, key), root, violations)
+    );
+  }
+}
+
+function matches(schema: JsonSchema, value: unknown, root: JsonSchema): boolean {
+  const violations: SchemaViolation[] = [];
+  validate(schema, value, '', root, violations);
+  return violations.length === 0;
+}
+
+/**
+ * Returns the `properties` and matching `patternProperties` schemas of a key.
+ */
+function propertySchemasOf(schema: JsonSchemaObject, key: string): JsonSchema[] {
+  const schemas: JsonSchema[] = [];
+  if (schema.properties && Object.prototype.hasOwnProperty.call(schema.properties, key)) {
+    schemas.push(schema.properties[key]!);
+  }
+  for (const [source, propertySchema] of Object.entries(schema.patternProperties ?? {})) {
+    if (pattern(source).test(key)) schemas.push(propertySchema);
+  }
+  return schemas;
+}
+
+function check(schema: unknown, at: string, root: JsonSchema): void {
+  if (typeof schema === 'boolean') return;
+  if (!isPlainObject(schema)) throw new Error(`Schema at ${at} must be an object or a boolean`);
+
+  for (const type of schema.type === undefined ? [] : toArray(schema.type)) {
+    if (!TYPES.has(type as JsonSchemaType)) throw new Error(`Unknown type ${type} at ${at}`);
+  }
+  for (const keyword of [...LOWER_BOUNDS, ...UPPER_BOUNDS, 'multipleOf']) {
+    if (schema[keyword] !== undefined && typeof schema[keyword] !== 'number') {
+      throw new Error(`${keyword} at ${at} must be a number`);
+    }
+  }
+  if (
+    schema.required !== undefined &&
+    (!Array.isArray(schema.required) || schema.required.some(key => typeof key !== 'string'))
+  ) {
+    throw new Error(`required at ${at} must be an array of strings`);
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    throw new Error(`enum at ${at} must be an array`);
+  }
+  if (schema.pattern !== undefined) checkPattern(schema.pattern, `${at}/pattern`);
+  if (schema.$ref !== undefined) {
+    if (typeof schema.$ref !== 'string') throw new Error(`$ref at ${at} must be a string`);
+    resolveRef(root, schema.$ref);
+  }
+
+  for (const keyword of ['properties', 'patternProperties', '$defs']) {
+    const subschemas = schema[keyword];
+    if (subschemas === undefined) continue;
+    if (!isPlainObject(subschemas)) throw new Error(`${keyword} at ${at} must be an object`);
+    for (const [key, subschema] of Object.entries(subschemas)) {
+      if (keyword === 'patternProperties') checkPattern(key, `${at}/${keyword}`);
+      check(subschema, `${at}/${keyword}/${escapePointer(key)}`, root);
+    }
+  }
+  for (const keyword of ['prefixItems', 'allOf', 'anyOf', 'oneOf']) {
+    const subschemas = schema[keyword];
+    if (subschemas === undefined) continue;
+    if (!Array.isArray(subschemas)) throw new Error(`${keyword} at ${at} must be an array`);
+    subschemas.forEach((subschema, index) => check(subschema, `${at}/${keyword}/${index}`, root));
+  }
+  for (const keyword of ['items', 'additionalProperties', 'not']) {
+    if (schema[keyword] !== undefined) check(schema[keyword], `${at}/${keyword}`, root);
+  }
+}
+
+function checkPattern(source: unknown, at: string): void {
+  if (typeof source !== 'string') throw new Error(`Pattern at ${at} must be a string`);
+  try {
+    pattern(source);
+  } catch (error) {
+    throw new Error(`Invalid pattern ${source} at ${at}: ${(error as Error).message}`);
+  }
+}
+
+interface Comparison {
+  readonly writer: JsonSchema;
+  readonly reader: JsonSchema;
+  /** Schema pairs being compared, so recursive references terminate */
+  readonly seen: Map<JsonSchema, Set<JsonSchema>>;
+}
+
+function compare(
+  writerSchema: JsonSchema,
+  readerSchema: JsonSchema,
+  path: string,
+  roots: Comparison,
+  problems: string[]
+): void {
+  const writer = dereference(writerSchema, roots.writer);
+  const reader = dereference(readerSchema, roots.reader);
+  if (reader === true || writer === false) return;
+  if (reader === false) {
+    problems.push(`${path} is no longer allowed`);
+    return;
+  }
+
+  const pairs = roots.seen.get(reader) ?? new Set<JsonSchema>();
+  if (pairs.has(writer)) return;
+  roots.seen.set(reader, pairs.add(writer));
+
+  const written: JsonSchemaObject = writer === true ? {} : writer;
+  compareValues(written, reader, path, problems);
+
+  for (const keyword of LOWER_BOUNDS) {
+    const bound = reader[keyword];
+    if (bound !== undefined && !(written[keyword] !== undefined && written[keyword]! >= bound)) {
+      problems.push(`${path} ${keyword} raised to ${bound}`);
+    }
+  }
+  for (const keyword of UPPER_BOUNDS) {
+    const bound = reader[keyword];
+    if (bound !== undefined && !(written[keyword] !== undefined && written[keyword]! <= bound)) {
+      problems.push(`${path} ${keyword} lowered to ${bound}`);
+    }
+  }
+  for (const keyword of [
+    'pattern',
+    'format',
+    'multipleOf',
+    'uniqueItems',
+    'allOf',
+    'anyOf',
+    'oneOf',
+    'not',
+  ]) {
+    if (reader[keyword] !== undefined && !isDeepStrictEqual(reader[keyword], written[keyword])) {
+      problems.push(`${path} ${keyword} changed`);
+    }
+  }
+
+  const required = new Set(written.required ?? []);
+  reader.required?.forEach(key => {
+    if (!required.has(key)) problems.push(`${childPath(path, key)} became required`);
+  });
+
+  // Properties the writer does not declare are assumed absent
+  for (const [key, property] of Object.entries(written.properties ?? {})) {
+    compare(
+      property,
+      propertySchemasOf(reader, key)[0] ?? reader.additionalProperties ?? true,
+      childPath(path, key),
+      roots,
+      problems
+    );
+  }
+
+  const prefixLength = Math.max(written.prefixItems?.length ?? 0, reader.prefixItems?.length ?? 0);
+  for (let index = 0; index < prefixLength; index++) {
+    compare(
+      written.prefixItems?.[index] ?? written.items ?? true,
+      reader.prefixItems?.[index] ?? reader.items ?? true,
+      `${path}[${index}]`,
+      roots,
+      problems
+    );
+  }
+  if (reader.items !== undefined) {
+    compare(written.items ?? true, reader.items, `${path}[]`, roots, problems);
+  }
+}
+
+/**
+ * Compares the `type`, `enum` and `const` keywords.
+ */
+function compareValues(
+  writer: JsonSchemaObject,
+  reader: JsonSchemaObject,
+  path: string,
+  problems: string[]
+): void {
+  if (reader.type !== undefined) {
+    const readerTypes = toArray(reader.type);
+    if (writer.type === undefined) {
+      problems.push(`${path} restricted to ${readerTypes.join(' or ')}`);
+    } else {
+      toArray(writer.type)
+        .filter(
+          type =>
+            !(readerTypes.includes(type) || (type === 'integer' && readerTypes.includes('number')))
+        )
+        .forEach(type => problems.push(`${path} no longer accepts ${type}`));
+    }
+  }
+
+  const readerValues = allowedValues(reader);
+  if (readerValues !== undefined) {
+    const writerValues = allowedValues(writer);
+    if (writerValues === undefined) {
+      problems.push(`${path} restricted to ${JSON.stringify(readerValues)}`);
+    } else {
+      writerValues
+        .filter(value => !readerValues.some(option => isDeepStrictEqual(option, value)))
+        .forEach(value => problems.push(`${path} no longer accepts ${JSON.stringify(value)}`));
+    }
+  }
+}
+
+function allowedValues(schema: JsonSchemaObject): readonly unknown[] | undefined {
+  if ('const' in schema) return [schema.const];
+  return schema.enum;
+}
+
+/**
+ * Replaces a `$ref` by the referenced schema, merged with the keywords next to it.
+ */
+function dereference(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  if (typeof schema === 'boolean' || schema.$ref === undefined) return schema;
+  const { $ref, ...rest } = schema;
+  const target = dereference(resolveRef(root, $ref), root);
+  if (Object.keys(rest).length === 0 || typeof target === 'boolean') return target;
+  return { ...target, ...rest };
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Unsupported $ref ${ref}: only references within the schema are resolved`);
+  }
+
+  let target: unknown = root;
+  for (const token of ref.slice(1).split('/').slice(1)) {
+    const key = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = isPlainObject(target) || Array.isArray(target) ? (target as any)[key] : undefined;
+  }
+  if (typeof target !== 'boolean' && !isPlainObject(target)) {
+    throw new Error(`Unresolved $ref ${ref}`);
+  }
+  return target;
+}
+
+function hasType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+  }
+}
+
+function pattern(source: string): RegExp {
+  let regex = patterns.get(source);
+  if (!regex) {
+    regex = new RegExp(source, 'u');
+    patterns.set(source, regex);
+  }
+  return regex;
+}
+
+function childPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function toArray<T>(value: T | readonly T[]): readonly T[] {
+  return Array.isArray(value) ? value : [value as T];
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
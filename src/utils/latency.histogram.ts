@@ -0,0 +1,279 @@
+/**
+ * Options for a latency histogram
+ */
+export interface LatencyHistogramOptions {
+  /**
+   * Decimal digits of precision kept for every value, 1 to 3 (default 2):
+   * quantiles are within 10%, 1% or 0.1% of the recorded values
+   */
+  readonly significantDigits?: number;
+  /** Largest value tracked in milliseconds (default one hour); larger ones count as it */
+  readonly maxValue?: number;
+}
+
+/**
+ * Serializable state of a latency histogram, for merging across processes
+ */
+export interface LatencyHistogramSnapshot {
+  readonly significantDigits: number;
+  readonly maxValue: number;
+  /** Non-empty buckets as `[index, count]` pairs */
+  readonly buckets: ReadonlyArray<readonly [number, number]>;
+  readonly count: number;
+  readonly sum: number;
+  readonly min: number;
+  readonly max: number;
+}
+
+// Values are kept in microseconds
+const UNITS_PER_MS = 1000;
+
+/**
+ * Streaming latency histogram in the style of HdrHistogram: values are counted
+ * in log-linear buckets, exact up to a few hundred microseconds and then with
+ * a fixed relative precision, so memory is constant however many values are
+ * recorded and quantiles keep their precision. Histograms with the same
+ * options merge by adding their counts.
+ *
+ * @example
+ * ```typescript
+ * const histogram = new LatencyHistogram();
+ * histogram.record(12.5);
+ * histogram.record(40);
+ *
+ * histogram.quantile(0.99); // ≈ 40, within 1%
+ * const [p50, p999] = histogram.quantiles([0.5, 0.999]);
+ *
+ * // Combine the histograms of several instances
+ * total.merge(LatencyHistogram.fromJSON(snapshotFromWorker));
+ * ```
+ */
+export class LatencyHistogram {
+  readonly significantDigits: number;
+  readonly maxValue: number;
+  private readonly subBucketBits: number;
+  private readonly subBucketCount: number;
+  private readonly maxUnits: number;
+  private readonly counts: Float64Array;
+  private total = 0;
+  private sumValue = 0;
+  private minValue = Infinity;
+  private maxSeen = -Infinity;
+
+  constructor(options: LatencyHistogramOptions = {}) {
+    const { significantDigits = 2, maxValue = 3_600_000 } = options;
+    if (!Number.isInteger(significantDigits) || significantDigits < 1 || significantDigits > 3) {
+      throw new Error(`significantDigits must be 1, 2 or 3, got ${significantDigits}`);
+    }
+    if (!(maxValue > 0)) throw new Error(`maxValue must be positive, got ${maxValue}`);
+
+    this.significantDigits = significantDigits;
+    this.maxValue = maxValue;
+    // Enough linear sub-buckets per power of two to tell apart values that
+    // differ in the last significant digit
+    this.subBucketBits = Math.ceil(Math.log2(2 * Math.pow(10, significantDigits)));
+    this.subBucketCount = Math.pow(2, this.subBucketBits);
+    this.maxUnits = Math.max(Math.round(maxValue * UNITS_PER_MS), this.subBucketCount);
+    this.counts = new Float64Array(this.indexOf(this.maxUnits) + 1);
+  }
+
+  /**
+   * Number of values recorded
+   */
+  get count(): number {
+    return this.total;
+  }
+
+  /**
+   * Sum of the values recorded, in milliseconds
+   */
+  get sum(): number {
+    return this.sumValue;
+  }
+
+  /**
+   * Smallest value recorded, or 0 if none
+   */
+  get min(): number {
+    return this.total > 0 ? this.minValue : 0;
+  }
+
+  /**
+   * Largest value recorded, or 0 if none
+   */
+  get max(): number {
+    return this.total > 0 ? this.maxSeen : 0;
+  }
+
+  /**
+   * Mean of the values recorded, or 0 if none
+   */
+  get mean(): number {
+    return this.total > 0 ? this.sumValue / this.total : 0;
+  }
+
+  /**
+   * Records a value.
+   *
+   * @param value - Latency in milliseconds; negative values count as 0
+   * @param count - Number of times the value occurred
+   */
+  record(value: number, count = 1): void {
+    if (!Number.isFinite(value) || !(count > 0)) return;
+    const latency = Math.max(0, value);
+    const units = Math.min(Math.round(latency * UNITS_PER_MS), this.maxUnits);
+    this.counts[this.indexOf(units)]! += count;
+    this.total += count;
+    this.sumValue += latency * count;
+    this.minValue = Math.min(this.minValue, latency);
+    this.maxSeen = Math.max(this.maxSeen, latency);
+  }
+
+  /**
+   * Returns the value below which a fraction of the recorded values fall.
+   *
+   * @param q - The fraction, from 0 to 1 (0.99 for p99)
+   * @returns The value in milliseconds, or 0 if nothing was recorded
+   */
+  quantile(q: number): number {
+    return this.quantiles([q])[0]!;
+  }
+
+  /**
+   * Returns several quantiles in one pass over the buckets.
+   *
+   * @param qs - Fractions from 0 to 1
+   * @returns The values in milliseconds, in the order asked for
+   */
+  quantiles(qs: readonly number[]): number[] {
+    if (this.total === 0) return qs.map(() => 0);
+
+    // The highest rank is the largest value, which is known exactly
+    const ranks = qs.map((q, i) => ({
+      i,
+      rank: Math.max(1, Math.ceil(Math.min(Math.max(q, 0), 1) * this.total)),
+    }));
+    ranks.sort((a, b) => a.rank - b.rank);
+
+    const result = new Array<number>(qs.length);
+    let next = 0;
+    let seen = 0;
+    for (let index = 0; index < this.counts.length && next < ranks.length; index++) {
+      seen += this.counts[index]!;
+      while (next < ranks.length && seen >= ranks[next]!.rank) {
+        const { i, rank } = ranks[next]!;
+        result[i] = rank >= this.total ? this.maxSeen : this.valueAt(index);
+        next++;
+      }
+    }
+    while (next < ranks.length) result[ranks[next++]!.i] = this.maxSeen;
+    return result;
+  }
+
+  /**
+   * Adds another histogram's values to this one.
+   *
+   * @param other - A histogram with the same options
+   * @throws {Error} If the histograms' options differ
+   */
+  merge(other: LatencyHistogram): void {
+    if (other.significantDigits !== this.significantDigits || other.maxValue !== this.maxValue) {
+      throw new Error(
+        'Cannot merge latency histograms with different significantDigits or maxValue'
+      );
+    }
+    if (other.total === 0) return;
+
+    for (let index = 0; index < other.counts.length; index++) {
+      this.counts[index]! += other.counts[index]!;
+    }
+    this.total += other.total;
+    this.sumValue += other.sumValue;
+    this.minValue = Math.min(this.minValue, other.minValue);
+    this.maxSeen = Math.max(this.maxSeen, other.maxSeen);
+  }
+
+  /**
+   * Removes every recorded value.
+   */
+  reset(): void {
+    this.counts.fill(0);
+    this.total = 0;
+    this.sumValue = 0;
+    this.minValue = Infinity;
+    this.maxSeen = -Infinity;
+  }
+
+  /**
+   * Returns the histogram's state with only its non-empty buckets.
+   */
+  toJSON(): LatencyHistogramSnapshot {
+    const buckets: Array<[number, number]> = [];
+    this.counts.forEach((count, index) => {
+      if (count > 0) buckets.push([index, count]);
+    });
+    return {
+      significantDigits: this.significantDigits,
+      maxValue: this.maxValue,
+      buckets,
+      count: this.total,
+      sum: this.sumValue,
+      min: this.min,
+      max: this.max,
+    };
+  }
+
+  /**
+   * Restores a histogram from `toJSON()` output.
+   *
+   * @throws {Error} If a bucket index is out of range for the snapshot's options
+   */
+  static fromJSON(snapshot: LatencyHistogramSnapshot): LatencyHistogram {
+    const histogram = new LatencyHistogram(snapshot);
+    for (const [index, count] of snapshot.buckets) {
+      if (!Number.isInteger(index) || index < 0 || index >= histogram.counts.length) {
+        throw new Error(`Latency histogram bucket ${index} is out of range`);
+      }
+      histogram.counts[index] = count;
+    }
+    histogram.total = snapshot.count;
+    histogram.sumValue = snapshot.sum;
+    if (snapshot.count > 0) {
+      histogram.minValue = snapshot.min;
+      histogram.maxSeen = snapshot.max;
+    }
+    return histogram;
+  }
+
+  /**
+   * Maps a value in microseconds to its bucket. Values below the sub-bucket
+   * count have a bucket each; above, every power of two is split into half
+   * that many buckets.
+   */
+  private indexOf(units: number): number {
+    if (units < this.subBucketCount) return units;
+
+    const half = this.subBucketCount / 2;
+    let exponent = Math.floor(Math.log2(units)) - (this.subBucketBits - 1);
+    let mantissa = Math.floor(units / Math.pow(2, exponent));
+    // Math.log2 can round across a power of two
+    if (mantissa < half) mantissa = Math.floor(units / Math.pow(2, --exponent));
+    if (mantissa >= this.subBucketCount) mantissa = Math.floor(units / Math.pow(2, ++exponent));
+    return this.subBucketCount + (exponent - 1) * half + (mantissa - half);
+  }
+
+  /**
+   * Returns the middle of a bucket's range in milliseconds, kept within the
+   * values actually recorded.
+   */
+  private valueAt(index: number): number {
+    let units = index;
+    if (index >= this.subBucketCount) {
+      const half = this.subBucketCount / 2;
+      const scale = Math.pow(2, Math.floor((index - this.subBucketCount) / half) + 1);
+      const mantissa = ((index - this.subBucketCount) % half) + half;
+      units = mantissa * scale + (scale - 1) / 2;
+    }
+    return Math.min(Math.max(units / UNITS_PER_MS, this.minValue), this.maxSeen);
+  }
+}
@@ -0,0 +1,180 @@
+import { isDeepStrictEqual } from 'util';
+import { IMessage, MessageFilters } from '@/types';
+
+/**
+ * A compiled message filter
+ */
+export type MessageFilter = (message: IMessage) => boolean;
+
+type Predicate = (value: unknown) => boolean;
+
+const ROOTS = new Set(['payload', 'metadata', 'headers']);
+const OPERATORS = new Set(['$eq', '$ne', '$in', '$gt', '$lt', '$exists', '$regex', '$not']);
+
+/**
+ * Compiles filter criteria into a predicate, validating them once so matching
+ * a message does no parsing.
+ *
+ * Keys are dot-separated paths. Paths starting with `payload.`, `metadata.` or
+ * `headers.` are resolved from the message; other paths are looked up in the
+ * payload, then in the metadata. A value is matched by equality (deep for
+ * objects and arrays), by a glob if it is a string containing `*`, by a
+ * `RegExp`, or by an operator object using `$eq`, `$ne`, `$in`, `$gt`, `$lt`,
+ * `$exists`, `$regex` and `$not`. Criteria combine with `$and`, `$or` and
+ * `$not`; sibling keys must all match.
+ *
+ * @param filters - The filter criteria
+ * @returns A predicate telling whether a message matches
+ * @throws {Error} For invalid criteria, naming the offending path
+ *
+ * @example
+ * ```typescript
+ * const matches = compileFilter({
+ *   'payload.customer.tier': { $in: ['gold', 'platinum'] },
+ *   'headers.region': 'eu-*',
+ *   $or: [{ amount: { $gt: 100 } }, { 'payload.priority': { $exists: true } }],
+ * });
+ * matches(message);
+ * ```
+ */
+export function compileFilter(filters: MessageFilters): MessageFilter {
+  return compileCriteria(filters, '');
+}
+
+function compileCriteria(criteria: unknown, at: string): MessageFilter {
+  if (!isPlainObject(criteria)) {
+    throw new Error(`Filter${where(at)} must be an object`);
+  }
+
+  const clauses = Object.entries(criteria).map(([key, value]): MessageFilter => {
+    switch (key) {
+      case '$and':
+      case '$or': {
+        if (!Array.isArray(value)) throw new Error(`${key}${where(at)} must be an array`);
+        const filters = value.map((entry, index) => compileCriteria(entry, `${key}[${index}]`));
+        return key === '$and'
+          ? message => filters.every(filter => filter(message))
+          : message => filters.some(filter => filter(message));
+      }
+      case '$not': {
+        const filter = compileCriteria(value, '$not');
+        return message => !filter(message);
+      }
+      default: {
+        if (key.startsWith('$')) throw new Error(`Unknown filter operator ${key}${where(at)}`);
+        const resolve = resolver(key);
+        const matches = compileCondition(value, key);
+        return message => matches(resolve(message));
+      }
+    }
+  });
+
+  return message => clauses.every(clause => clause(message));
+}
+
+function compileCondition(condition: unknown, path: string): Predicate {
+  if (condition instanceof RegExp) {
+    return value => typeof value === 'string' && condition.test(value);
+  }
+  if (typeof condition === 'string' && condition.includes('*')) {
+    const glob = new RegExp(
+      `^${condition.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`
+    );
+    return value => typeof value === 'string' && glob.test(value);
+  }
+  if (!isPlainObject(condition) || !Object.keys(condition).some(key => key.startsWith('$'))) {
+    return value => isDeepStrictEqual(value, condition);
+  }
+  return compileOperators(condition, path);
+}
+
+function compileOperators(operators: Record<string, unknown>, path: string): Predicate {
+  const predicates = Object.entries(operators).map(([operator, operand]): Predicate => {
+    if (!operator.startsWith('$')) {
+      throw new Error(`Filter at ${path} mixes operators with the field ${operator}`);
+    }
+    if (!OPERATORS.has(operator)) {
+      throw new Error(`Unknown filter operator ${operator} at ${path}`);
+    }
+
+    switch (operator) {
+      case '$eq':
+        return value => isDeepStrictEqual(value, operand);
+      case '$ne':
+        return value => !isDeepStrictEqual(value, operand);
+      case '$in': {
+        if (!Array.isArray(operand)) throw new Error(`$in at ${path} must be an array`);
+        return value => operand.some(candidate => isDeepStrictEqual(value, candidate));
+      }
+      case '$gt':
+      case '$lt': {
+        if (typeof operand !== 'number' && typeof operand !== 'string') {
+          throw new Error(`${operator} at ${path} must be a number or a string`);
+        }
+        // Values of another type never compare
+        return operator === '$gt'
+          ? value => typeof value === typeof operand && (value as typeof operand) > operand
+          : value => typeof value === typeof operand && (value as typeof operand) < operand;
+      }
+      case '$exists': {
+        if (typeof operand !== 'boolean') throw new Error(`$exists at ${path} must be a boolean`);
+        return value => (value !== undefined) === operand;
+      }
+      case '$regex': {
+        const regex = toRegExp(operand, path);
+        return value => typeof value === 'string' && regex.test(value);
+      }
+      default: {
+        if (!isPlainObject(operand)) {
+          throw new Error(`$not at ${path} must be an operator object`);
+        }
+        const predicate = compileOperators(operand, path);
+        return value => !predicate(value);
+      }
+    }
+  });
+
+  return value => predicates.every(predicate => predicate(value));
+}
+
+function resolver(path: string): (message: IMessage) => unknown {
+  const segments = path.split('.');
+  const [root, ...rest] = segments;
+  if (ROOTS.has(root!) && rest.length > 0) {
+    return message => get(message[root as 'payload' | 'metadata' | 'headers'], rest);
+  }
+
+  return message => {
+    const value = get(message.payload, segments);
+    return value !== undefined ? value : get(message.metadata, segments);
+  };
+}
+
+function get(source: unknown, segments: readonly string[]): unknown {
+  let value = source;
+  for (const segment of segments) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+function toRegExp(operand: unknown, path: string): RegExp {
+  if (operand instanceof RegExp) return operand;
+  if (typeof operand !== 'string') {
+    throw new Error(`$regex at ${path} must be a string or a RegExp`);
+  }
+  try {
+    return new RegExp(operand);
+  } catch (error) {
+    throw new Error(`$regex at ${path} is invalid: ${(error as Error).message}`);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function where(at: string): string {
+  return at ? ` at ${at}` : '';
+}
@@ -0,0 +1,66 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import {
+  MetricsRegistry,
+  OPENMETRICS_CONTENT_TYPE,
+  PROMETHEUS_CONTENT_TYPE,
+} from './metrics.registry';
+
+/**
+ * Options for the metrics HTTP handler
+ */
+export interface MetricsHandlerOptions {
+  /** Path the metrics are served on (default '/metrics'); others get 404 */
+  readonly path?: string;
+}
+
+/**
+ * Creates a Node.js HTTP request handler serving a registry's metrics for
+ * Prometheus to scrape. Scrapers that accept `application/openmetrics-text`
+ * get the OpenMetrics format, others the Prometheus text format. The handler
+ * also fits Express and Connect routes.
+ *
+ * @param registry - The metrics to serve
+ * @param options - The path to serve them on
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'http';
+ *
+ * createServer(createMetricsHandler(manager.getMetricsRegistry())).listen(9464);
+ * ```
+ */
+export function createMetricsHandler(
+  registry: MetricsRegistry,
+  options: MetricsHandlerOptions = {}
+): (request: IncomingMessage, response: ServerResponse) => void {
+  const metricsPath = options.path ?? '/metrics';
+
+  return (request, response) => {
+    const requestPath = (request.url ?? '/').split('?')[0];
+    if (requestPath !== metricsPath) {
+      response.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      response.end('Not Found\n');
+      return;
+    }
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      response.writeHead(405, { Allow: 'GET, HEAD', 'Content-Type': 'text/plain; charset=utf-8' });
+      response.end('Method Not Allowed\n');
+      return;
+    }
+
+    const openMetrics = (request.headers.accept ?? '').includes('application/openmetrics-text');
+    let body: string;
+    try {
+      body = registry.render(openMetrics ? 'openmetrics' : 'prometheus');
+    } catch (error) {
+      response.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+      response.end(`${error instanceof Error ? error.message : String(error)}\n`);
+      return;
+    }
+
+    response.writeHead(200, {
+      'Content-Type': openMetrics ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE,
+    });
+    response.end(request.method === 'HEAD' ? undefined : body);
+  };
+}
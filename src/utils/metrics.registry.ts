@@ -0,0 +1,337 @@
+/**
+ * Label values of one metric series. Labels left undefined or empty are
+ * omitted, which Prometheus treats the same as an empty value.
+ */
+export type MetricLabels = Record<string, string | number | undefined>;
+
+/**
+ * Exposition format rendered by {@link MetricsRegistry.render}
+ */
+export type MetricsFormat = 'prometheus' | 'openmetrics';
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Content type of the OpenMetrics text exposition format
+ */
+export const OPENMETRICS_CONTENT_TYPE =
+  'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+/**
+ * Default latency buckets in seconds, from 1ms to 10s
+ */
+export const DEFAULT_BUCKETS: readonly number[] = [
+  0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+interface Series<T> {
+  readonly labels: MetricLabels;
+  value: T;
+}
+
+/**
+ * Base of the metric types: a named family of series, one per combination of
+ * label values.
+ */
+abstract class Metric<T> {
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+  protected readonly series = new Map<string, Series<T>>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[]
+  ) {
+    if (!METRIC_NAME.test(name)) throw new Error(`Invalid metric name ${name}`);
+    for (const label of labelNames) {
+      if (!LABEL_NAME.test(label) || label.startsWith('__') || label === 'le') {
+        throw new Error(`Invalid label name ${label} for ${name}`);
+      }
+    }
+  }
+
+  /**
+   * Removes every series, or only the one with the given labels.
+   */
+  reset(labels?: MetricLabels): void {
+    if (labels) {
+      this.series.delete(this.key(labels));
+    } else {
+      this.series.clear();
+    }
+  }
+
+  /**
+   * Returns the series recorded so far, in the order first seen.
+   */
+  collect(): Array<{ labels: MetricLabels; value: T }> {
+    return [...this.series.values()].map(({ labels, value }) => ({ labels, value }));
+  }
+
+  protected entry(labels: MetricLabels, initial: () => T): Series<T> {
+    const key = this.key(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      const normalized: MetricLabels = {};
+      for (const label of this.labelNames) {
+        const value = labels[label];
+        if (value !== undefined && value !== '') normalized[label] = String(value);
+      }
+      series = { labels: normalized, value: initial() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  protected key(labels: MetricLabels): string {
+    for (const label of Object.keys(labels)) {
+      if (!this.labelNames.includes(label)) {
+        throw new Error(`Unknown label ${label} for ${this.name}`);
+      }
+    }
+    return JSON.stringify(this.labelNames.map(label => String(labels[label] ?? '')));
+  }
+}
+
+/**
+ * Monotonically increasing count, such as messages published.
+ */
+export class Counter extends Metric<number> {
+  readonly type = 'counter';
+
+  /**
+   * Increases the series with the given labels.
+   *
+   * @param labels - The series' label values
+   * @param value - Amount to add, 1 by default; must not be negative
+   */
+  inc(labels: MetricLabels = {}, value = 1): void {
+    if (!(value >= 0)) throw new Error(`Counter ${this.name} cannot be increased by ${value}`);
+    this.entry(labels, () => 0).value += value;
+  }
+
+  /**
+   * Returns the value of one series, or 0 if it was never increased.
+   */
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(this.key(labels))?.value ?? 0;
+  }
+
+  /**
+   * Returns the sum over all series, or over those matching a predicate.
+   */
+  sum(filter?: (labels: MetricLabels) => boolean): number {
+    let total = 0;
+    for (const { labels, value } of this.series.values()) {
+      if (!filter || filter(labels)) total += value;
+    }
+    return total;
+  }
+}
+
+/**
+ * Value that goes up and down, such as queue depth.
+ */
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge';
+
+  set(labels: MetricLabels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  dec(labels: MetricLabels = {}, value = 1): void {
+    this.entry(labels, () => 0).value -= value;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(this.key(labels))?.value ?? 0;
+  }
+
+  sum(): number {
+    let total = 0;
+    for (const { value } of this.series.values()) total += value;
+    return total;
+  }
+}
+
+/**
+ * Observations of one histogram series
+ */
+export interface HistogramValue {
+  /** Observations at or below each bucket's upper bound, not cumulative */
+  readonly counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values, such as latencies, counted in buckets.
+ */
+export class Histogram extends Metric<HistogramValue> {
+  readonly type = 'histogram';
+  readonly buckets: readonly number[];
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[],
+    buckets: readonly number[] = DEFAULT_BUCKETS
+  ) {
+    super(name, help, labelNames);
+    if (buckets.length === 0 || buckets.some((bound, i) => i > 0 && bound <= buckets[i - 1]!)) {
+      throw new Error(`Buckets of ${name} must be increasing`);
+    }
+    this.buckets = buckets.filter(bound => bound !== Infinity);
+  }
+
+  /**
+   * Records an observation in the series with the given labels.
+   */
+  observe(labels: MetricLabels, value: number): void {
+    const series = this.entry(labels, () => ({
+      counts: new Array<number>(this.buckets.length).fill(0),
+      sum: 0,
+      count: 0,
+    })).value;
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    if (bucket !== -1) series.counts[bucket]!++;
+    series.sum += value;
+    series.count++;
+  }
+}
+
+/**
+ * Holds metrics and renders them in the Prometheus or OpenMetrics text
+ * format for scraping.
+ *
+ * @example
+ * ```typescript
+ * const registry = new MetricsRegistry();
+ * const published = registry.counter('orders_published_total', 'Orders published', ['region']);
+ * published.inc({ region: 'eu' });
+ *
+ * registry.render();
+ * // # HELP orders_published_total Orders published
+ * // # TYPE orders_published_total counter
+ * // orders_published_total{region="eu"} 1
+ * ```
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Counter | Gauge | Histogram>();
+  private readonly collectors: Array<() => void> = [];
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: readonly string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(
+    name: string,
+    help: string,
+    labelNames: readonly string[] = [],
+    buckets?: readonly number[]
+  ): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Returns a registered metric by name.
+   */
+  get(name: string): Counter | Gauge | Histogram | undefined {
+    return this.metrics.get(name);
+  }
+
+  /**
+   * Adds a callback run before every render, to update gauges that are read
+   * from elsewhere rather than tracked as they change.
+   */
+  onCollect(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  /**
+   * Renders every metric in a text exposition format.
+   *
+   * @param format - 'prometheus' (text format 0.0.4, the default) or 'openmetrics'
+   */
+  render(format: MetricsFormat = 'prometheus'): string {
+    for (const collector of this.collectors) collector();
+
+    const openMetrics = format === 'openmetrics';
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      // OpenMetrics names a counter family without the _total of its samples
+      const family =
+        openMetrics && metric.type === 'counter' ? metric.name.replace(/_total$/, '') : metric.name;
+      lines.push(`# HELP ${family} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${family} ${metric.type}`);
+
+      if (metric instanceof Histogram) {
+        for (const { labels, value } of metric.collect()) {
+          let cumulative = 0;
+          metric.buckets.forEach((bound, i) => {
+            cumulative += value.counts[i]!;
+            lines.push(sample(`${metric.name}_bucket`, { ...labels, le: bound }, cumulative));
+          });
+          lines.push(sample(`${metric.name}_bucket`, { ...labels, le: Infinity }, value.count));
+          lines.push(sample(`${metric.name}_sum`, labels, value.sum));
+          lines.push(sample(`${metric.name}_count`, labels, value.count));
+        }
+      } else {
+        const name = openMetrics && metric.type === 'counter' ? `${family}_total` : metric.name;
+        for (const { labels, value } of metric.collect()) {
+          lines.push(sample(name, labels, value));
+        }
+      }
+    }
+    if (openMetrics) lines.push('# EOF');
+    return lines.map(line => `${line}\n`).join('');
+  }
+
+  private register<M extends Counter | Gauge | Histogram>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+function sample(
+  name: string,
+  labels: Record<string, string | number | undefined>,
+  value: number
+): string {
+  const pairs = Object.entries(labels).map(
+    ([label, labelValue]) => `${label}="${escapeLabel(formatValue(labelValue))}"`
+  );
+  return `${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${formatValue(value)}`;
+}
+
+function formatValue(value: string | number | undefined): string {
+  if (typeof value !== 'number') return value ?? '';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
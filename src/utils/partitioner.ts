@@ -0,0 +1,91 @@
+/**
+ * What a partitioner gets to choose the partition of a produced record
+ */
+export interface PartitionContext {
+  readonly topic: string;
+  /** The record key; see `IMessage.partitionKey` */
+  readonly key?: string;
+  readonly partitionCount: number;
+  /** Partitions that currently have a leader */
+  readonly availablePartitions: readonly number[];
+}
+
+/**
+ * Chooses the partition, from 0 to `partitionCount - 1`, a record is produced to
+ */
+export type Partitioner = (context: PartitionContext) => number;
+
+/**
+ * Built-in partitioner name, or a custom partitioner
+ */
+export type PartitionerOption = 'murmur2' | 'round-robin' | Partitioner;
+
+/**
+ * Kafka's murmur2 hash, compatible with the Java client so keys map to the same
+ * partitions whichever client produced them.
+ *
+ * @param key - The record key
+ * @returns The signed 32-bit hash
+ */
+export function murmur2(key: string | Buffer): number {
+  const data = Buffer.isBuffer(key) ? key : Buffer.from(key);
+  const length = data.length;
+  const m = 0x5bd1e995;
+
+  let h = 0x9747b28c ^ length;
+  const length4 = length & ~3;
+  for (let i = 0; i < length4; i += 4) {
+    let k = data.readInt32LE(i);
+    k = Math.imul(k, m);
+    k ^= k >>> 24;
+    k = Math.imul(k, m);
+    h = Math.imul(h, m) ^ k;
+  }
+
+  const remaining = length & 3;
+  if (remaining > 0) {
+    if (remaining === 3) h ^= data[length4 + 2]! << 16;
+    if (remaining >= 2) h ^= data[length4 + 1]! << 8;
+    h ^= data[length4]!;
+    h = Math.imul(h, m);
+  }
+
+  h ^= h >>> 13;
+  h = Math.imul(h, m);
+  h ^= h >>> 15;
+  return h;
+}
+
+/**
+ * Creates a partitioner from a built-in name or wraps a custom one.
+ *
+ * - `murmur2` (default): hashes the key like the Java client, so every record
+ *   with the same key lands on the same partition; keyless records round-robin
+ * - `round-robin`: spreads records evenly over the available partitions,
+ *   ignoring keys
+ *
+ * @example
+ * ```typescript
+ * const partition = createPartitioner('murmur2');
+ * partition({ topic: 'orders', key: 'order-42', partitionCount: 6, availablePartitions: [0, 1, 2, 3, 4, 5] });
+ * ```
+ */
+export function createPartitioner(option: PartitionerOption = 'murmur2'): Partitioner {
+  if (typeof option === 'function') return option;
+
+  const counters = new Map<string, number>();
+  const roundRobin = ({ topic, partitionCount, availablePartitions }: PartitionContext) => {
+    const counter = counters.get(topic) ?? 0;
+    counters.set(topic, counter + 1);
+    return availablePartitions.length > 0
+      ? availablePartitions[counter % availablePartitions.length]!
+      : counter % partitionCount;
+  };
+
+  if (option === 'round-robin') return roundRobin;
+
+  return context =>
+    context.key === undefined
+      ? roundRobin(context)
+      : (murmur2(context.key) & 0x7fffffff) % context.partitionCount;
+}
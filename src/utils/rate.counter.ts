@@ -0,0 +1,133 @@
+import { Clock, SystemClock } from './clock';
+
+/**
+ * Options for a rate counter
+ */
+export interface RateCounterOptions {
+  /** Width of each time slot in milliseconds (default 5000) */
+  readonly resolution?: number;
+  /** Longest window rates can be asked for in milliseconds (default 15 minutes) */
+  readonly horizon?: number;
+  /** Time source; the system clock by default */
+  readonly clock?: Clock;
+}
+
+/**
+ * Counts events in a ring of fixed time slots to report their rate over
+ * sliding windows, such as the last 1, 5 and 15 minutes, in constant memory.
+ * Windows are rounded up to whole slots and shortened to the time since the
+ * counter was created.
+ *
+ * @example
+ * ```typescript
+ * const messages = new RateCounter();
+ * messages.add();
+ * messages.add(10);
+ *
+ * messages.rate(60_000); // events per second over the last minute
+ * ```
+ */
+export class RateCounter {
+  private readonly resolution: number;
+  private readonly slots: Float64Array;
+  private readonly clock: Clock;
+  private readonly startedAt: number;
+  private currentSlot: number;
+  private count = 0;
+
+  constructor(options: RateCounterOptions = {}) {
+    const { resolution = 5000, horizon = 900_000 } = options;
+    if (!(resolution > 0) || !(horizon >= resolution)) {
+      throw new Error('Rate counter resolution must be positive and no longer than its horizon');
+    }
+    this.resolution = resolution;
+    // One more slot than the horizon holds, as the current one is partly elapsed
+    this.slots = new Float64Array(Math.ceil(horizon / resolution) + 1);
+    this.clock = options.clock ?? new SystemClock();
+    this.startedAt = this.clock.now();
+    this.currentSlot = Math.floor(this.startedAt / resolution);
+  }
+
+  /**
+   * Total of everything added since the counter was created
+   */
+  get total(): number {
+    return this.count;
+  }
+
+  /**
+   * Counts events at the current time.
+   *
+   * @param value - Number of events, or an amount such as bytes
+   */
+  add(value = 1): void {
+    this.advance();
+    this.slots[this.slotIndex(this.currentSlot)]! += value;
+    this.count += value;
+  }
+
+  /**
+   * Returns the total added within the most recent window.
+   *
+   * @param window - Window length in milliseconds, at most the horizon
+   */
+  sum(window: number): number {
+    const { slots } = this.span(window);
+    let sum = 0;
+    for (let i = 0; i < slots; i++) {
+      sum += this.slots[this.slotIndex(this.currentSlot - i)]!;
+    }
+    return sum;
+  }
+
+  /**
+   * Returns the rate per second over the most recent window.
+   *
+   * @param window - Window length in milliseconds, at most the horizon
+   */
+  rate(window: number): number {
+    const { covered } = this.span(window);
+    const sum = this.sum(window);
+    return covered > 0 ? (sum * 1000) / covered : 0;
+  }
+
+  /**
+   * Returns how many slots, the current one included, cover a window ending
+   * now, and how many milliseconds they cover.
+   */
+  private span(window: number): { slots: number; covered: number } {
+    const now = this.advance();
+    const elapsed = now - this.currentSlot * this.resolution;
+    const previous = Math.min(
+      Math.max(Math.ceil((window - elapsed) / this.resolution), 0),
+      this.slots.length - 1
+    );
+    return {
+      slots: previous + 1,
+      covered: Math.min(elapsed + previous * this.resolution, now - this.startedAt),
+    };
+  }
+
+  /**
+   * Moves to the slot of the current time, clearing the slots skipped over.
+   *
+   * @returns The current time
+   */
+  private advance(): number {
+    const now = this.clock.now();
+    const slot = Math.floor(now / this.resolution);
+    if (slot > this.currentSlot) {
+      const skipped = Math.min(slot - this.currentSlot, this.slots.length);
+      for (let i = 1; i <= skipped; i++) {
+        this.slots[this.slotIndex(this.currentSlot + i)] = 0;
+      }
+      this.currentSlot = slot;
+    }
+    return now;
+  }
+
+  private slotIndex(slot: number): number {
+    const length = this.slots.length;
+    return ((slot % length) + length) % length;
+  }
+}
@@ -0,0 +1,69 @@
+import { RetryConfig } from '@/types';
+
+/**
+ * Exponential backoff policy driven by a `RetryConfig`.
+ *
+ * @example
+ * ```typescript
+ * const policy = new RetryPolicy({
+ *   maxRetries: 3,
+ *   initialDelay: 100,
+ *   maxDelay: 5000,
+ *   backoffMultiplier: 2,
+ *   jitter: true,
+ * });
+ *
+ * await policy.execute(() => sendEmail(message), (error, attempt, delay) => {
+ *   console.warn(`Attempt ${attempt} failed, retrying in ${delay}ms`, error);
+ * });
+ * ```
+ */
+export class RetryPolicy {
+  constructor(private readonly config: RetryConfig) {}
+
+  /**
+   * Maximum number of retries after the first attempt.
+   */
+  get maxRetries(): number {
+    return this.config.maxRetries;
+  }
+
+  /**
+   * Returns the delay before the given retry. With jitter enabled the delay is
+   * randomised between half and the full backoff value.
+   *
+   * @param retry - The retry number, starting at 1
+   * @returns Delay in milliseconds
+   */
+  getDelay(retry: number): number {
+    const { initialDelay, maxDelay, backoffMultiplier, jitter } = this.config;
+    const delay = Math.min(maxDelay, initialDelay * Math.pow(backoffMultiplier, retry - 1));
+    return jitter ? Math.round(delay / 2 + (Math.random() * delay) / 2) : delay;
+  }
+
+  /**
+   * Runs an operation, retrying it with backoff until it succeeds or the retries
+   * are used up. The last error is rethrown once retries are exhausted.
+   *
+   * @param operation - The operation to run
+   * @param onRetry - Optional callback invoked before each retry
+   * @returns The operation's result
+   */
+  async execute<T>(
+    operation: () => Promise<T>,
+    onRetry?: (error: unknown, retry: number, delay: number) => void
+  ): Promise<T> {
+    for (let retry = 0; ; retry++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (retry >= this.config.maxRetries) {
+          throw error;
+        }
+        const delay = this.getDelay(retry + 1);
+        onRetry?.(error, retry + 1, delay);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Topic patterns use NATS syntax on dot-separated topics: `*` matches exactly
+ * one token and a trailing `>` matches one or more tokens. `orders.*` matches
+ * `orders.created` but not `orders.eu.created`; `orders.>` matches both.
+ */
+
+/**
+ * Whether a topic is a pattern rather than a literal topic
+ *
+ * @param topic - The topic or pattern
+ */
+export function isTopicPattern(topic: string): boolean {
+  const tokens = topic.split('.');
+  return tokens.includes('*') || tokens[tokens.length - 1] === '>';
+}
+
+/**
+ * Whether a concrete topic matches a pattern. Literal topics only match
+ * themselves.
+ *
+ * @example
+ * ```typescript
+ * matchesTopicPattern('orders.*', 'orders.created'); // true
+ * matchesTopicPattern('orders.>', 'orders.eu.created'); // true
+ * ```
+ */
+export function matchesTopicPattern(pattern: string, topic: string): boolean {
+  const patternTokens = pattern.split('.');
+  const topicTokens = topic.split('.');
+
+  for (let i = 0; i < patternTokens.length; i++) {
+    const token = patternTokens[i];
+    if (token === '>' && i === patternTokens.length - 1) return topicTokens.length > i;
+    if (i >= topicTokens.length || (token !== '*' && token !== topicTokens[i])) return false;
+  }
+  return patternTokens.length === topicTokens.length;
+}
+
+/**
+ * Converts a pattern to an anchored regular expression, for brokers that
+ * subscribe by regex such as Kafka.
+ */
+export function topicPatternToRegExp(pattern: string): RegExp {
+  const tokens = pattern.split('.');
+  const source = tokens
+    .map((token, i) => {
+      if (token === '*') return '[^.]+';
+      if (token === '>' && i === tokens.length - 1) return '.+';
+      return token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('\\.');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Converts a pattern to a Redis glob. Globs also match dots, so they select a
+ * superset of the pattern; filter deliveries with {@link matchesTopicPattern}.
+ */
+export function topicPatternToGlob(pattern: string): string {
+  const tokens = pattern.split('.');
+  return tokens
+    .map((token, i) =>
+      token === '*' || (token === '>' && i === tokens.length - 1)
+        ? '*'
+        : token.replace(/[*?[\]\\]/g, '\\$&')
+    )
+    .join('.');
+}
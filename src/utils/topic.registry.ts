@@ -0,0 +1,44 @@
+import { UntypedTopics } from '@/types';
+import { UniversalMessageManager } from '../universal/message.manager';
+
+/**
+ * Declared topics of an application and their payload types. The registry
+ * carries types only; binding a manager to it changes how the manager is typed,
+ * not how it behaves.
+ */
+export interface TopicRegistry<TTopics extends object> {
+  /**
+   * Returns the manager typed with the registry's topics.
+   * @param manager - A manager, as created by `MessageBrokerFactory`
+   */
+  bind(manager: UniversalMessageManager<UntypedTopics>): UniversalMessageManager<TTopics>;
+}
+
+/**
+ * Declares a topic map once for compile-time checked messaging: `publish`,
+ * `subscribe`, `request`, `reply`, `transaction` and handler registration on the
+ * bound manager only accept the declared topics and payload types.
+ *
+ * @example
+ * ```typescript
+ * interface OrderCreated { orderId: string; total: number }
+ *
+ * export const topics = defineTopics<{
+ *   'orders.created': OrderCreated;
+ *   'orders.cancelled': { orderId: string; reason: string };
+ * }>();
+ *
+ * const manager = topics.bind(await MessageBrokerFactory.create(config, deps));
+ * await manager.publish('orders.created', { orderId: 'o-1', total: 42 });
+ * await manager.subscribe('orders.*', msg => msg.payload.orderId);
+ *
+ * // Compile errors:
+ * await manager.publish('orders.shipped', {});
+ * await manager.publish('orders.created', { orderId: 1 });
+ * ```
+ */
+export function defineTopics<TTopics extends object>(): TopicRegistry<TTopics> {
+  return {
+    bind: manager => manager as UniversalMessageManager<TTopics>,
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * W3C Trace Context header carrying the trace ID, parent span ID and flags
+ */
+export const TRACEPARENT_HEADER = 'traceparent';
+
+/**
+ * W3C Trace Context header carrying vendor-specific trace state
+ */
+export const TRACESTATE_HEADER = 'tracestate';
+
+/**
+ * The fields of a `traceparent` header
+ */
+export interface TraceParent {
+  /** 32 lowercase hex characters */
+  readonly traceId: string;
+  /** 16 lowercase hex characters */
+  readonly spanId: string;
+  /** Bit field; 1 means sampled */
+  readonly traceFlags: number;
+}
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+const MAX_TRACESTATE_ENTRIES = 32;
+
+/**
+ * Parses a `traceparent` header. Future versions are accepted as long as they
+ * start with the version 00 fields, as the specification requires.
+ *
+ * @param value - The header value
+ * @returns The trace parent, or undefined if the header is malformed or has all-zero IDs
+ *
+ * @example
+ * ```typescript
+ * parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+ * // { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', traceFlags: 1 }
+ * ```
+ */
+export function parseTraceparent(value: string | undefined): TraceParent | undefined {
+  const match = value === undefined ? null : TRACEPARENT.exec(value.trim());
+  if (!match) return undefined;
+
+  const [, version, traceId, spanId, flags, rest] = match;
+  if (version === 'ff' || (version === '00' && rest !== undefined)) return undefined;
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) return undefined;
+  return { traceId: traceId!, spanId: spanId!, traceFlags: parseInt(flags!, 16) };
+}
+
+/**
+ * Formats a version 00 `traceparent` header.
+ *
+ * @param parent - The trace and span IDs and flags
+ */
+export function formatTraceparent(parent: TraceParent): string {
+  const flags = (parent.traceFlags & 0xff).toString(16).padStart(2, '0');
+  return `00-${parent.traceId}-${parent.spanId}-${flags}`;
+}
+
+/**
+ * Immutable `tracestate` list of vendor entries, most recently updated first.
+ * Implements the OpenTelemetry `TraceState` interface.
+ *
+ * @example
+ * ```typescript
+ * const state = TraceState.parse('congo=t61rcWkgMzE,rojo=00f067aa0ba902b7');
+ * state.set('rojo', '1').serialize(); // 'rojo=1,congo=t61rcWkgMzE'
+ * ```
+ */
+export class TraceState {
+  private constructor(private readonly entries: ReadonlyMap<string, string>) {}
+
+  /**
+   * Parses a `tracestate` header, skipping malformed entries and keeping the
+   * first 32.
+   *
+   * @param value - The header value
+   */
+  static parse(value: string | undefined): TraceState {
+    const entries = new Map<string, string>();
+    for (const member of (value ?? '').split(',')) {
+      const separator = member.indexOf('=');
+      const key = member.slice(0, separator).trim();
+      const entry = member.slice(separator + 1).trim();
+      if (separator <= 0 || !entry || entries.has(key)) continue;
+      if (entries.size === MAX_TRACESTATE_ENTRIES) break;
+      entries.set(key, entry);
+    }
+    return new TraceState(entries);
+  }
+
+  get(key: string): string | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, value: string): TraceState {
+    const entries = new Map([[key, value]]);
+    this.entries.forEach((entry, existing) => {
+      if (existing !== key && entries.size < MAX_TRACESTATE_ENTRIES) entries.set(existing, entry);
+    });
+    return new TraceState(entries);
+  }
+
+  unset(key: string): TraceState {
+    const entries = new Map(this.entries);
+    entries.delete(key);
+    return new TraceState(entries);
+  }
+
+  serialize(): string {
+    return [...this.entries].map(([key, value]) => `${key}=${value}`).join(',');
+  }
+}